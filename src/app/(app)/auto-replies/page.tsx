@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { MainContent } from '../../components/layout/MainContent';
+import { AutoReplyRuleForm } from '../../components/ui/AutoReplyRuleForm';
+import type { AutoReplyRulePayload, AutoReplyTemplateOption } from '../../components/ui/AutoReplyRuleForm';
+import { AutoReplyTestConsole } from '../../components/ui/AutoReplyTestConsole';
+import { Button } from '../../components/ui/Button';
+import { useToast } from '../../components/ui/Toast';
+import { cn } from '@/lib/utils/cn';
+
+interface AutoReplyRuleItem extends AutoReplyRulePayload {
+  id: string;
+  isActive: boolean;
+  triggerCount: number;
+  lastTriggeredAt?: string;
+}
+
+function describeConditions(conditions: AutoReplyRulePayload['conditions']): string {
+  const parts: string[] = [];
+  if (conditions.keywords) parts.push(`keywords: ${conditions.keywords.join(', ')}`);
+  if (conditions.regex) parts.push(`pattern: /${conditions.regex}/`);
+  if (conditions.chats === 'groups' || conditions.groupJids) parts.push('groups');
+  if (conditions.chats === 'all') parts.push('all chats');
+  if (conditions.broadcastListIds) parts.push(`${conditions.broadcastListIds.length} list(s)`);
+  if (conditions.timeWindow) parts.push(`${conditions.timeWindow.start}–${conditions.timeWindow.end}`);
+  return parts.length > 0 ? parts.join(' • ') : 'Every direct message';
+}
+
+function describeResponse(response: AutoReplyRulePayload['response'], templates: AutoReplyTemplateOption[]): string {
+  if (response.type === 'text') return response.text;
+  if (response.type === 'media') return `Media ${response.mediaId}${response.caption ? `: ${response.caption}` : ''}`;
+  const template = templates.find(t => t.id === response.templateId);
+  return template ? `Template: ${template.name}` : 'Template no longer exists';
+}
+
+export default function AutoRepliesPage() {
+  const [rules, setRules] = useState<AutoReplyRuleItem[]>([]);
+  const [templates, setTemplates] = useState<AutoReplyTemplateOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { addToast } = useToast();
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/auto-replies');
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(data.rules);
+        setTemplates(data.templates);
+      }
+    } catch (error) {
+      console.error('Failed to fetch auto-reply rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleCreate = async (payload: AutoReplyRulePayload) => {
+    const response = await fetch('/api/auto-replies', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      addToast({ type: 'success', title: 'Rule saved', message: payload.name, duration: 3000 });
+      fetchRules();
+    } else {
+      addToast({ type: 'error', title: data.error, message: data.details, duration: 6000 });
+    }
+  };
+
+  const handleToggle = async (rule: AutoReplyRuleItem) => {
+    const response = await fetch(`/api/auto-replies/${rule.id}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isActive: !rule.isActive }),
+    });
+    const data = await response.json();
+
+    if (data.success) {
+      setRules(current => current.map(r => (r.id === rule.id ? { ...r, isActive: !rule.isActive } : r)));
+    } else {
+      addToast({ type: 'error', title: data.error, message: data.details, duration: 6000 });
+    }
+  };
+
+  const handleDelete = async (rule: AutoReplyRuleItem) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+
+    const response = await fetch(`/api/auto-replies/${rule.id}`, { method: 'DELETE' });
+    const data = await response.json();
+
+    if (data.success) {
+      setRules(current => current.filter(r => r.id !== rule.id));
+    } else {
+      addToast({ type: 'error', title: data.error, message: data.details, duration: 6000 });
+    }
+  };
+
+  return (
+    <MainContent
+      title="Auto-replies"
+      subtitle="Rules are tried from the top; the first one that matches answers"
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {loading ? (
+            <div className="bg-white p-4 rounded-lg border border-gray-200 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+            </div>
+          ) : rules.length === 0 ? (
+            <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+              No rules yet. Add one below.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {rules.map(rule => (
+                <div
+                  key={rule.id}
+                  className={cn('bg-white p-4 rounded-lg border border-gray-200', !rule.isActive && 'opacity-60')}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {rule.name}
+                        <span className="ml-2 text-xs font-normal text-gray-400">priority {rule.priority}</span>
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">{describeConditions(rule.conditions)}</p>
+                      <p className="text-sm text-gray-700 mt-1 truncate">{describeResponse(rule.response, templates)}</p>
+                      <p className="text-xs text-gray-400 mt-1">
+                        {rule.cooldownMinutes > 0 ? `Once per contact every ${rule.cooldownMinutes} min` : 'No cooldown'}
+                        {' • '}
+                        {rule.triggerCount} repl{rule.triggerCount === 1 ? 'y' : 'ies'}
+                        {rule.lastTriggeredAt && `, last ${new Date(rule.lastTriggeredAt).toLocaleString()}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                      <Button size="sm" variant="outline" onClick={() => handleToggle(rule)}>
+                        {rule.isActive ? 'Pause' : 'Enable'}
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(rule)}>
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <AutoReplyRuleForm templates={templates} onSave={handleCreate} />
+        </div>
+
+        <div>
+          <AutoReplyTestConsole />
+        </div>
+      </div>
+    </MainContent>
+  );
+}
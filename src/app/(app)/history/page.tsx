@@ -15,10 +15,16 @@ interface SendHistoryItem {
     size: number;
     type: string;
   }>;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'completed' | 'failed' | 'revoked';
   createdAt: string;
   completedAt?: string;
+  revokedAt?: string;
   error?: string;
+  progress?: {
+    sent: number;
+    total: number;
+  };
+  viewCount?: number;
 }
 
 export default function HistoryPage() {
@@ -65,6 +71,48 @@ export default function HistoryPage() {
     }
   };
 
+  const handleResume = async (item: { id: string }) => {
+    try {
+      const response = await fetch('/api/send/status/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId: item.id }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        alert(`Resume failed: ${data.details || data.error}`);
+      }
+    } catch (error) {
+      console.error('Resume failed:', error);
+    } finally {
+      fetchHistory();
+    }
+  };
+
+  const handleRevoke = async (item: { id: string }) => {
+    if (!confirm('Delete this post from your status? Viewers will no longer be able to see it.')) {
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/send/status/revoke', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId: item.id }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        alert(`Delete failed: ${data.details || data.error}`);
+      }
+    } catch (error) {
+      console.error('Revoke failed:', error);
+    } finally {
+      fetchHistory();
+    }
+  };
+
   const filteredHistory = history.filter(item => {
     if (filter === 'all') return true;
     return item.status === filter;
@@ -173,6 +221,8 @@ export default function HistoryPage() {
             items={filteredHistory}
             onRefresh={fetchHistory}
             onExport={handleExport}
+            onResume={handleResume}
+            onRevoke={handleRevoke}
           />
         )}
       </div>
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { MainContent } from '../../components/layout/MainContent';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { cn } from '@/lib/utils/cn';
+
+interface InboxMessage {
+  id: string;
+  chatJid: string;
+  chatName?: string; // Search results only
+  senderJid: string;
+  senderName?: string;
+  messageType: string;
+  text?: string;
+  mimetype?: string;
+  fileName?: string;
+  fileLength?: number;
+  mediaUrl?: string;
+  mediaDownloaded: boolean;
+  timestamp: string;
+  read: boolean;
+}
+
+interface InboxThread {
+  chatJid: string;
+  chatName?: string;
+  isGroup: boolean;
+  lastMessage: InboxMessage;
+  messageCount: number;
+  unreadCount: number;
+}
+
+export default function InboxPage() {
+  const [threads, setThreads] = useState<InboxThread[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [selectedJid, setSelectedJid] = useState<string | null>(null);
+  const [messages, setMessages] = useState<InboxMessage[]>([]);
+  const [search, setSearch] = useState('');
+  const [searchResults, setSearchResults] = useState<InboxMessage[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMessages, setLoadingMessages] = useState(false);
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/inbox?limit=100');
+      const data = await response.json();
+
+      if (data.success) {
+        setThreads(data.threads);
+        setUnreadCount(data.unreadCount);
+      }
+    } catch (error) {
+      console.error('Failed to fetch inbox:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchThreads();
+  }, [fetchThreads]);
+
+  const openThread = async (chatJid: string) => {
+    setSelectedJid(chatJid);
+
+    try {
+      setLoadingMessages(true);
+      const response = await fetch(`/api/inbox/threads/${encodeURIComponent(chatJid)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setMessages(data.messages);
+      }
+
+      const thread = threads.find(t => t.chatJid === chatJid);
+      if (thread && thread.unreadCount > 0) {
+        await fetch(`/api/inbox/threads/${encodeURIComponent(chatJid)}/read`, { method: 'POST' });
+        setThreads(current => current.map(t => (t.chatJid === chatJid ? { ...t, unreadCount: 0 } : t)));
+        setUnreadCount(current => Math.max(0, current - thread.unreadCount));
+      }
+    } catch (error) {
+      console.error('Failed to fetch messages:', error);
+    } finally {
+      setLoadingMessages(false);
+    }
+  };
+
+  const handleSearch = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const query = search.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/inbox?search=${encodeURIComponent(query)}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setSearchResults(data.messages);
+      }
+    } catch (error) {
+      console.error('Failed to search inbox:', error);
+    }
+  };
+
+  const selectedThread = threads.find(thread => thread.chatJid === selectedJid);
+
+  return (
+    <MainContent
+      title="Inbox"
+      subtitle={loading ? 'Messages you received' : `${unreadCount} unread`}
+      actions={
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchThreads}
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Refresh
+        </Button>
+      }
+    >
+      <form onSubmit={handleSearch} className="mb-6 flex gap-2">
+        <Input
+          type="search"
+          placeholder="Search messages, file names and senders"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value);
+            if (!e.target.value) setSearchResults(null);
+          }}
+        />
+        <Button type="submit" variant="outline">Search</Button>
+      </form>
+
+      {searchResults ? (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            {searchResults.length} result{searchResults.length === 1 ? '' : 's'}
+          </p>
+          {searchResults.map(message => (
+            <button
+              key={message.id}
+              onClick={() => {
+                setSearchResults(null);
+                openThread(message.chatJid);
+              }}
+              className="w-full text-left bg-white p-4 rounded-lg border border-gray-200 hover:border-gray-300"
+            >
+              <p className="text-xs text-gray-500">
+                {message.chatName || message.chatJid} • {message.senderName || message.senderJid}
+              </p>
+              <p className="text-sm text-gray-900 mt-1 line-clamp-2">{message.text || message.fileName || message.messageType}</p>
+              <p className="text-xs text-gray-400 mt-1">{new Date(message.timestamp).toLocaleString()}</p>
+            </button>
+          ))}
+        </div>
+      ) : loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="bg-white p-4 rounded-lg border border-gray-200 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : threads.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+          No messages yet. Messages sent to you appear here while WhatsApp is connected.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {threads.map(thread => (
+              <button
+                key={thread.chatJid}
+                onClick={() => openThread(thread.chatJid)}
+                className={cn(
+                  'w-full text-left bg-white p-4 rounded-lg border transition-colors',
+                  selectedJid === thread.chatJid ? 'border-green-500 ring-1 ring-green-500' : 'border-gray-200 hover:border-gray-300'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className={cn('text-sm truncate', thread.unreadCount > 0 ? 'font-semibold text-gray-900' : 'font-medium text-gray-700')}>
+                    {thread.chatName || thread.chatJid.split('@')[0]}
+                  </p>
+                  {thread.unreadCount > 0 && (
+                    <span className="flex-shrink-0 bg-green-500 text-white text-xs font-medium rounded-full px-2 py-0.5">
+                      {thread.unreadCount}
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1 truncate">
+                  {thread.isGroup && thread.lastMessage.senderName ? `${thread.lastMessage.senderName}: ` : ''}
+                  {thread.lastMessage.text || thread.lastMessage.fileName || thread.lastMessage.messageType}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">{new Date(thread.lastMessage.timestamp).toLocaleString()}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2">
+            {selectedThread ? (
+              <div className="bg-white rounded-lg border border-gray-200">
+                <div className="px-4 py-3 border-b border-gray-200">
+                  <h3 className="text-sm font-medium text-gray-900">{selectedThread.chatName || selectedThread.chatJid}</h3>
+                  <p className="text-xs text-gray-500">
+                    {selectedThread.messageCount} message{selectedThread.messageCount === 1 ? '' : 's'} received
+                  </p>
+                </div>
+                <div className="p-4 space-y-3 max-h-[60vh] overflow-y-auto">
+                  {loadingMessages ? (
+                    <p className="text-sm text-gray-500">Loading messages...</p>
+                  ) : messages.map(message => (
+                    <div key={message.id} className="bg-gray-50 rounded-lg p-3 max-w-[85%]">
+                      {selectedThread.isGroup && (
+                        <p className="text-xs font-medium text-green-700 mb-1">{message.senderName || message.senderJid}</p>
+                      )}
+                      {message.mediaUrl && <InboxMedia message={message} />}
+                      {message.text && (
+                        <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{message.text}</p>
+                      )}
+                      <p className="text-xs text-gray-400 mt-1">{new Date(message.timestamp).toLocaleString()}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+                Select a chat to read its messages.
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </MainContent>
+  );
+}
+
+/**
+ * Media of a received message; nothing is fetched from WhatsApp until the
+ * user asks for it
+ */
+function InboxMedia({ message }: { message: InboxMessage }) {
+  const [shown, setShown] = useState(message.mediaDownloaded);
+  const [failed, setFailed] = useState(false);
+
+  if (!message.mediaUrl) {
+    return null;
+  }
+
+  const size = message.fileLength ? ` (${(message.fileLength / 1024 / 1024).toFixed(1)} MB)` : '';
+  const isImage = message.mimetype?.startsWith('image/');
+  const isVideo = message.mimetype?.startsWith('video/');
+  const isAudio = message.mimetype?.startsWith('audio/');
+
+  if (!shown || failed || !(isImage || isVideo || isAudio)) {
+    return (
+      <div className="flex items-center gap-2 mb-1">
+        {isImage || isVideo || isAudio ? (
+          <Button size="sm" variant="outline" onClick={() => { setFailed(false); setShown(true); }}>
+            Load {message.messageType}{size}
+          </Button>
+        ) : (
+          <a
+            href={`${message.mediaUrl}?download=1`}
+            className="text-sm text-green-700 hover:underline"
+          >
+            Download {message.fileName || message.messageType}{size}
+          </a>
+        )}
+        {failed && <span className="text-xs text-red-600">Could not load media</span>}
+      </div>
+    );
+  }
+
+  if (isImage) {
+    return <img src={message.mediaUrl} alt={message.text || 'Received image'} className="max-h-64 rounded mb-1" onError={() => setFailed(true)} />;
+  }
+
+  if (isVideo) {
+    return <video src={message.mediaUrl} controls className="max-h-64 rounded mb-1" onError={() => setFailed(true)} />;
+  }
+
+  return <audio src={message.mediaUrl} controls className="mb-1" onError={() => setFailed(true)} />;
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MainContent } from '../../components/layout/MainContent';
+import { PollResults } from '../../components/ui/PollResults';
+import { Button } from '../../components/ui/Button';
+import { cn } from '@/lib/utils/cn';
+
+interface PollListItem {
+  id: string;
+  chatJid: string;
+  chatName?: string;
+  question: string;
+  options: string[];
+  multiSelect: boolean;
+  totalVoters: number;
+  createdAt: string;
+}
+
+export default function PollsPage() {
+  const [polls, setPolls] = useState<PollListItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchPolls();
+  }, []);
+
+  const fetchPolls = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/polls?limit=50');
+      const data = await response.json();
+
+      if (data.success) {
+        setPolls(data.polls);
+        setSelectedId(current => current ?? data.polls[0]?.id ?? null);
+      }
+    } catch (error) {
+      console.error('Failed to fetch polls:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <MainContent
+      title="Polls"
+      subtitle={loading ? 'Polls you sent' : `${polls.length} poll${polls.length === 1 ? '' : 's'} sent`}
+      actions={
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchPolls}
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Refresh
+        </Button>
+      }
+    >
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="bg-white p-4 rounded-lg border border-gray-200 animate-pulse">
+              <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+              <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+            </div>
+          ))}
+        </div>
+      ) : polls.length === 0 ? (
+        <div className="bg-white p-8 rounded-lg border border-gray-200 text-center text-gray-500">
+          No polls yet. Send one to a contact or group from Upload &amp; Send.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            {polls.map(poll => (
+              <button
+                key={poll.id}
+                onClick={() => setSelectedId(poll.id)}
+                className={cn(
+                  'w-full text-left bg-white p-4 rounded-lg border transition-colors',
+                  selectedId === poll.id ? 'border-green-500 ring-1 ring-green-500' : 'border-gray-200 hover:border-gray-300'
+                )}
+              >
+                <p className="text-sm font-medium text-gray-900 truncate">{poll.question}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {poll.chatName || poll.chatJid} • {poll.totalVoters} voter{poll.totalVoters === 1 ? '' : 's'}
+                </p>
+                <p className="text-xs text-gray-400 mt-1">{new Date(poll.createdAt).toLocaleString()}</p>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2">
+            {selectedId && <PollResults pollId={selectedId} />}
+          </div>
+        </div>
+      )}
+    </MainContent>
+  );
+}
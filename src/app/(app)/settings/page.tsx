@@ -42,6 +42,8 @@ interface AppSettings {
     clearLogsAfterDays: number;
     clearHistoryAfterDays: number;
     clearTempFilesAfterHours: number;
+    statusMediaRetentionDays: number;
+    scrubMediaMetadata: boolean;
   };
 }
 
@@ -0,0 +1,97 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { MainContent } from '../../components/layout/MainContent';
+import { StatusTimeline, StatusTimelineItem } from '../../components/ui/StatusTimeline';
+import { Button } from '../../components/ui/Button';
+
+export default function StatusesPage() {
+  const [statuses, setStatuses] = useState<StatusTimelineItem[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [repostingId, setRepostingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchTimeline();
+  }, []);
+
+  const fetchTimeline = async () => {
+    try {
+      setLoading(true);
+      const response = await fetch('/api/send/status/timeline?limit=50');
+      const data = await response.json();
+
+      if (data.success) {
+        setStatuses(data.statuses);
+        setRetentionDays(data.retentionDays);
+      }
+    } catch (error) {
+      console.error('Failed to fetch status timeline:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleRepost = async (status: StatusTimelineItem) => {
+    setRepostingId(status.id);
+    try {
+      const response = await fetch('/api/send/status/repost', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId: status.id }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        alert(`Re-post failed: ${data.details || data.error}`);
+      }
+    } catch (error) {
+      console.error('Re-post failed:', error);
+    } finally {
+      setRepostingId(null);
+      fetchTimeline();
+    }
+  };
+
+  const liveCount = statuses.filter(status => status.isLive).length;
+
+  return (
+    <MainContent
+      title="My Statuses"
+      subtitle={loading ? 'Your posted statuses' : `${liveCount} live now • ${statuses.length} posted`}
+      actions={
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={fetchTimeline}
+        >
+          <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+          </svg>
+          Refresh
+        </Button>
+      }
+    >
+      {loading ? (
+        <div className="space-y-4">
+          {[1, 2, 3].map((i) => (
+            <div key={i} className="bg-white p-4 rounded-lg border border-gray-200 animate-pulse flex gap-4">
+              <div className="w-20 h-20 bg-gray-200 rounded-md"></div>
+              <div className="flex-1">
+                <div className="h-4 bg-gray-200 rounded w-1/2 mb-2"></div>
+                <div className="h-3 bg-gray-200 rounded w-1/4"></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <StatusTimeline
+          statuses={statuses}
+          retentionDays={retentionDays}
+          repostingId={repostingId}
+          onRepost={handleRepost}
+        />
+      )}
+    </MainContent>
+  );
+}
@@ -1,7 +1,27 @@
 'use client';
 
-import { useState } from 'react';
-import { FileManager, MediaHistory } from '@/app/components/ui';
+import { useState, useEffect } from 'react';
+import {
+  FileManager,
+  MediaHistory,
+  StatusTextComposer,
+  StatusAudiencePicker,
+  StatusStoryEditor,
+  StatusScheduler,
+  StickerLibrary,
+  MessageComposer,
+  PollComposer,
+} from '@/app/components/ui';
+import type {
+  TextStatusPayload,
+  StatusAudienceSelection,
+  StatusStoryDraftItem,
+  StatusStoryItemPayload,
+  StatusStoryResult,
+  StickerLibraryItem,
+  TextMessagePayload,
+  PollPayload,
+} from '@/app/components/ui';
 import { FileWithPreview } from '@/app/components/ui/FileUpload';
 
 export default function UploadPage() {
@@ -9,6 +29,32 @@ export default function UploadPage() {
     type: 'status' | 'contact' | 'group';
     identifier?: string;
   }>({ type: 'status' });
+  const [statusAudience, setStatusAudience] = useState<StatusAudienceSelection>({});
+  const [storyItems, setStoryItems] = useState<StatusStoryDraftItem[]>([]);
+  const [draftId] = useState(() => crypto.randomUUID());
+  const [sendAudioAsVoiceNote, setSendAudioAsVoiceNote] = useState(false);
+  const [sendImagesAsStickers, setSendImagesAsStickers] = useState(false);
+  const [stickerPack, setStickerPack] = useState({ packName: '', author: '' });
+  const [stickerLibraryVersion, setStickerLibraryVersion] = useState(0);
+
+  const draftFileIds = storyItems.map(item => item.fileId).join(',');
+
+  // Keep staged story files from being cleaned up while the draft is open
+  useEffect(() => {
+    fetch(`/api/upload/drafts/${draftId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileIds: draftFileIds ? draftFileIds.split(',') : [] }),
+    }).catch(error => console.error('Failed to update draft files:', error));
+  }, [draftId, draftFileIds]);
+
+  // Audience fields understood by /api/send/status
+  const audiencePayload = (): Record<string, unknown> => {
+    if (statusAudience.presetId) {
+      return { audiencePresetId: statusAudience.presetId };
+    }
+    return statusAudience.audience ? { audience: statusAudience.audience } : {};
+  };
 
   const handleFileSend = async (
     files: FileWithPreview[], 
@@ -26,12 +72,38 @@ export default function UploadPage() {
         return;
       }
 
+      // Status posts are staged as a story so each item can get its own caption and order
+      if (targetType === 'status') {
+        const staged = new Set(storyItems.map(item => item.fileId));
+        setStoryItems([
+          ...storyItems,
+          ...files
+            .filter(f => f.mediaMetaId && !staged.has(f.mediaMetaId))
+            .map(f => ({
+              fileId: f.mediaMetaId!,
+              name: f.name,
+              type: f.type,
+              preview: f.preview,
+              caption: '',
+              delaySeconds: 0,
+            })),
+        ]);
+        return;
+      }
+
       const endpoint = `/api/send/${targetType}`;
       const payload: Record<string, unknown> = {
         files: fileIds,
         caption: 'Sent from WhatsApp Status Handler',
       };
 
+      if (sendAudioAsVoiceNote) {
+        payload.voiceNote = true;
+      }
+      if (sendImagesAsStickers) {
+        payload.sticker = stickerPack;
+      }
+
       if (targetType === 'contact') {
         payload.phoneNumber = targetId || prompt('Enter phone number:');
       } else if (targetType === 'group') {
@@ -47,6 +119,9 @@ export default function UploadPage() {
       const result = await response.json();
 
       if (result.success) {
+        if (sendImagesAsStickers) {
+          setStickerLibraryVersion(version => version + 1);
+        }
         alert(`Successfully sent ${files.length} file(s) to ${targetType}!`);
       } else {
         alert(`Failed to send: ${result.error}`);
@@ -57,6 +132,161 @@ export default function UploadPage() {
     }
   };
 
+  // Library stickers are already encoded, so they are sent as-is
+  const handleStickerSend = async (sticker: StickerLibraryItem) => {
+    const targetType = sendTarget.type;
+    const payload: Record<string, unknown> = {
+      files: [sticker.mediaId],
+      sticker: true,
+    };
+
+    if (targetType === 'contact') {
+      payload.phoneNumber = sendTarget.identifier || prompt('Enter phone number:');
+    } else {
+      payload.groupId = sendTarget.identifier || prompt('Enter group ID:');
+    }
+
+    try {
+      const response = await fetch(`/api/send/${targetType}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        setStickerLibraryVersion(version => version + 1);
+      } else {
+        alert(`Failed to send sticker: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      console.error('Sticker send error:', error);
+      alert('Failed to send sticker');
+    }
+  };
+
+  const handleTextMessageSend = async ({ text, mentionEveryone }: TextMessagePayload) => {
+    const targetType = sendTarget.type;
+    const payload: Record<string, unknown> = { text };
+
+    if (targetType === 'contact') {
+      payload.phoneNumber = sendTarget.identifier || prompt('Enter phone number:');
+    } else {
+      payload.groupId = sendTarget.identifier || prompt('Enter group ID:');
+      payload.mentionEveryone = mentionEveryone;
+    }
+
+    try {
+      const response = await fetch(`/api/send/${targetType}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+
+      if (!result.success) {
+        alert(`Failed to send message: ${result.details || result.error}`);
+      } else if (result.result?.unresolvedMentions?.length) {
+        alert(`Message sent, but these mentions matched no contact: ${result.result.unresolvedMentions.map((token: string) => `@${token}`).join(', ')}`);
+      }
+    } catch (error) {
+      console.error('Text message error:', error);
+      alert('Failed to send message');
+    }
+  };
+
+  const handlePollSend = async (poll: PollPayload) => {
+    const targetType = sendTarget.type;
+    const payload: Record<string, unknown> = { poll };
+
+    if (targetType === 'contact') {
+      payload.phoneNumber = sendTarget.identifier || prompt('Enter phone number:');
+    } else {
+      payload.groupId = sendTarget.identifier || prompt('Enter group ID:');
+    }
+
+    try {
+      const response = await fetch(`/api/send/${targetType}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const result = await response.json();
+
+      if (result.success) {
+        alert('Poll sent! Follow the votes on the Polls page.');
+      } else {
+        alert(`Failed to send poll: ${result.details || result.error}`);
+      }
+    } catch (error) {
+      console.error('Poll send error:', error);
+      alert('Failed to send poll');
+    }
+  };
+
+  const handleStoryPost = async (items: StatusStoryItemPayload[]): Promise<StatusStoryResult> => {
+    try {
+      const response = await fetch('/api/send/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ items, ...audiencePayload() }),
+      });
+      const result = await response.json();
+
+      return {
+        success: result.success,
+        sendHistoryId: result.result?.sendHistoryId ?? result.sendHistoryId,
+        progress: result.result?.progress ?? result.progress,
+        error: result.details || result.error,
+      };
+    } catch (error) {
+      console.error('Story post error:', error);
+      return { success: false, error: 'Failed to post status story' };
+    }
+  };
+
+  const handleStoryResume = async (sendHistoryId: string): Promise<StatusStoryResult> => {
+    try {
+      const response = await fetch('/api/send/status/resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ historyId: sendHistoryId }),
+      });
+      const result = await response.json();
+
+      return {
+        success: result.success,
+        sendHistoryId,
+        progress: result.result?.progress ?? result.progress,
+        error: result.details || result.error,
+      };
+    } catch (error) {
+      console.error('Story resume error:', error);
+      return { success: false, sendHistoryId, error: 'Failed to resume status story' };
+    }
+  };
+
+  const handleTextStatusSend = async (payload: TextStatusPayload) => {
+    try {
+      const response = await fetch('/api/send/status', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...payload, ...audiencePayload() }),
+      });
+
+      const result = await response.json();
+
+      if (result.success) {
+        alert('Text status posted!');
+      } else {
+        alert(`Failed to post: ${result.error}`);
+      }
+    } catch (error) {
+      console.error('Text status error:', error);
+      alert('Failed to post text status');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <div className="container mx-auto px-4 py-8">
@@ -111,8 +341,92 @@ export default function UploadPage() {
                 Group
               </label>
             </div>
+            {sendTarget.type !== 'status' && (
+              <label className="flex items-center mt-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={sendAudioAsVoiceNote}
+                  onChange={(e) => setSendAudioAsVoiceNote(e.target.checked)}
+                  className="mr-2"
+                />
+                Send audio as voice note
+              </label>
+            )}
+            {sendTarget.type !== 'status' && (
+              <div className="mt-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sendImagesAsStickers}
+                    onChange={(e) => setSendImagesAsStickers(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Send images as stickers
+                </label>
+                {sendImagesAsStickers && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-2">
+                    <input
+                      type="text"
+                      value={stickerPack.packName}
+                      onChange={(e) => setStickerPack({ ...stickerPack, packName: e.target.value })}
+                      placeholder="Sticker pack name"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={stickerPack.author}
+                      onChange={(e) => setStickerPack({ ...stickerPack, author: e.target.value })}
+                      placeholder="Sticker author"
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Status Audience, Text Composer & Story */}
+          {sendTarget.type === 'status' && (
+            <>
+              <StatusAudiencePicker
+                value={statusAudience}
+                onChange={setStatusAudience}
+                className="mb-6"
+              />
+              <StatusTextComposer onSend={handleTextStatusSend} className="mb-6" />
+              <StatusStoryEditor
+                items={storyItems}
+                onChange={setStoryItems}
+                onPost={handleStoryPost}
+                onResume={handleStoryResume}
+                className="mb-6"
+              />
+              <StatusScheduler
+                fileIds={storyItems.map(item => item.fileId)}
+                audience={audiencePayload()}
+                className="mb-6"
+              />
+            </>
+          )}
+
+          {/* Text Message, Poll & Sticker Library */}
+          {sendTarget.type !== 'status' && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+              <MessageComposer
+                targetType={sendTarget.type}
+                onSend={handleTextMessageSend}
+              />
+              <PollComposer onSend={handlePollSend} />
+            </div>
+          )}
+          {sendTarget.type !== 'status' && (
+            <StickerLibrary
+              onSend={handleStickerSend}
+              refreshKey={stickerLibraryVersion}
+              className="mb-6"
+            />
+          )}
+
           {/* File Manager */}
           <FileManager 
             onFileSend={(files) => {
@@ -134,6 +448,7 @@ export default function UploadPage() {
                   uploadStatus: 'completed' as const,
                   mediaMetaId: file.id,
                   preview: file.previewUrl,
+                  thumbnail: file.thumbnailUrl,
                   // Add minimal File-like properties
                   webkitRelativePath: '',
                   arrayBuffer: async () => new ArrayBuffer(0),
@@ -155,6 +470,7 @@ export default function UploadPage() {
                   uploadStatus: 'completed' as const,
                   mediaMetaId: file.id,
                   preview: file.previewUrl,
+                  thumbnail: file.thumbnailUrl,
                   // Add minimal File-like properties
                   webkitRelativePath: '',
                   arrayBuffer: async () => new ArrayBuffer(0),
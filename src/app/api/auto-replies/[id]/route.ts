@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AutoReplyRepository } from '@/lib/db';
+import { findMissingResponseTarget, parseAutoReplyRule } from '@/lib/messaging/AutoReplyRules';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/auto-replies/[id] - An auto-reply rule with its recent replies
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+
+    const rule = await AutoReplyRepository.findById(id);
+    if (!rule) {
+      return NextResponse.json({
+        success: false,
+        error: 'Auto-reply rule not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      rule: AutoReplyRepository.toAutoReplyRule(rule),
+      replies: await AutoReplyRepository.findReplies({ ruleId: id, limit }),
+    });
+
+  } catch (error) {
+    console.error('Get auto-reply rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get auto-reply rule',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/auto-replies/[id] - Update an auto-reply rule
+ * Body: any of { name, conditions, response, priority, cooldownMinutes, isActive }
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await AutoReplyRepository.findById(id);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Auto-reply rule not found',
+      }, { status: 404 });
+    }
+
+    let input;
+    try {
+      input = parseAutoReplyRule(body, true);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid auto-reply rule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 400 });
+    }
+
+    const missing = input.response && await findMissingResponseTarget(input.response);
+    if (missing) {
+      return NextResponse.json({
+        success: false,
+        error: missing,
+      }, { status: 400 });
+    }
+
+    const rule = await AutoReplyRepository.update(id, input);
+
+    return NextResponse.json({
+      success: true,
+      rule: AutoReplyRepository.toAutoReplyRule(rule),
+    });
+
+  } catch (error) {
+    console.error('Update auto-reply rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update auto-reply rule',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/auto-replies/[id] - Delete an auto-reply rule and its reply log
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await AutoReplyRepository.findById(id);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Auto-reply rule not found',
+      }, { status: 404 });
+    }
+
+    await AutoReplyRepository.delete(id);
+
+    return NextResponse.json({
+      success: true,
+    });
+
+  } catch (error) {
+    console.error('Delete auto-reply rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete auto-reply rule',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
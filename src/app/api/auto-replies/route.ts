@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AutoReplyRepository } from '@/lib/db';
+import { findMissingResponseTarget, parseAutoReplyRule } from '@/lib/messaging/AutoReplyRules';
+import { getMessageScheduler } from '@/lib/messaging/MessageScheduler';
+
+/**
+ * GET /api/auto-replies - Auto-reply rules in the order they are tried,
+ * with the message templates replies can use
+ */
+export async function GET() {
+  try {
+    const rules = await AutoReplyRepository.findAll();
+
+    return NextResponse.json({
+      success: true,
+      rules: rules.map(rule => AutoReplyRepository.toAutoReplyRule(rule)),
+      templates: getMessageScheduler().listTemplates().map(template => ({
+        id: template.id,
+        name: template.name,
+        type: template.content.type,
+        variables: template.variables,
+      })),
+    });
+
+  } catch (error) {
+    console.error('Get auto-reply rules error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get auto-reply rules',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/auto-replies - Create an auto-reply rule
+ * Body: { name, conditions, response, priority?, cooldownMinutes?, isActive? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    let input;
+    try {
+      input = parseAutoReplyRule(body);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid auto-reply rule',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 400 });
+    }
+
+    const { name, conditions, response } = input;
+    if (!name || !conditions || !response) {
+      return NextResponse.json({
+        success: false,
+        error: 'name, conditions and response are required',
+      }, { status: 400 });
+    }
+
+    const missing = await findMissingResponseTarget(response);
+    if (missing) {
+      return NextResponse.json({
+        success: false,
+        error: missing,
+      }, { status: 400 });
+    }
+
+    const rule = await AutoReplyRepository.create({ ...input, name, conditions, response });
+
+    return NextResponse.json({
+      success: true,
+      rule: AutoReplyRepository.toAutoReplyRule(rule),
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Create auto-reply rule error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create auto-reply rule',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
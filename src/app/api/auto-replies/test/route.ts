@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBaileysManager } from '@/lib/socketManager';
+
+/**
+ * POST /api/auto-replies/test - Run a sample message through the
+ * auto-reply rules without sending anything
+ * Body: { text, from: phone number or JID, groupJid?, timestamp? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { text, from, groupJid, timestamp } = body;
+
+    if (typeof text !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: 'text is required',
+      }, { status: 400 });
+    }
+
+    if (typeof from !== 'string' || !from.trim()) {
+      return NextResponse.json({
+        success: false,
+        error: 'from (phone number or JID of the sender) is required',
+      }, { status: 400 });
+    }
+
+    if (groupJid !== undefined && groupJid !== null && (typeof groupJid !== 'string' || !groupJid.endsWith('@g.us'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'groupJid must be a group JID',
+      }, { status: 400 });
+    }
+
+    const sentAt = timestamp ? new Date(timestamp) : new Date();
+    if (isNaN(sentAt.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid timestamp',
+      }, { status: 400 });
+    }
+
+    const senderJid = from.includes('@') ? from.trim() : `${from.replace(/\D/g, '')}@s.whatsapp.net`;
+    const decision = await getBaileysManager().getAutoResponder().evaluate({
+      text,
+      chatJid: groupJid || senderJid,
+      senderJid,
+      timestamp: sentAt,
+    });
+
+    // A real reply would also need to get past the send rate limits
+    const baileysManager = getBaileysManager();
+    const rateLimit = baileysManager.getConnectionStatus().status === 'connected'
+      ? baileysManager.getMessageSender().getProtocolCompliance().canSendMessage()
+      : undefined;
+
+    return NextResponse.json({
+      success: true,
+      ...decision,
+      wouldReply: Boolean(decision.reply),
+      rateLimit,
+    });
+
+  } catch (error) {
+    console.error('Test auto-reply rules error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to test auto-reply rules',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
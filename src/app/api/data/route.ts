@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SessionService, SendHistoryService, MediaMetaService } from '@/lib/db';
+import { SessionService, SendHistoryService, MediaMetaService, BroadcastListRepository } from '@/lib/db';
+import { BroadcastListTransfer } from '@/lib/services';
 import { promises as fs } from 'fs';
 import path from 'path';
 import JSZip from 'jszip';
@@ -101,7 +102,7 @@ export async function GET(request: NextRequest) {
     if (dataType === 'all' || dataType === 'contacts') {
       exportData.contacts = {
         favorites: [], // Would get from ContactManager
-        broadcastLists: [], // Would get from SendTargetingManager
+        broadcastLists: BroadcastListTransfer.toJson(await BroadcastListRepository.findAll(true)).lists.map(list => ({ ...list })),
         note: 'Contact data export requires active WhatsApp connection',
       };
     }
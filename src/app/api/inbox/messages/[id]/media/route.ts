@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InboundMessageRepository, MediaMetaService } from '@/lib/db';
+import { getBaileysManager } from '@/lib/socketManager';
+import { createReadStream, existsSync } from 'fs';
+import { stat } from 'fs/promises';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Raster images, video and audio that browsers render without running script
+const INLINE_MIME_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'video/mp4',
+  'video/3gpp',
+  'video/webm',
+  'audio/ogg',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/aac',
+  'audio/amr',
+  'audio/wav',
+];
+
+/**
+ * The type to show a file inline as, or null when it must be downloaded.
+ * Senders choose the mimetype, so anything outside the allowlist (HTML,
+ * SVG, other documents) is only ever served as an attachment.
+ */
+function getInlineType(mimetype: string): string | null {
+  const type = mimetype.split(';')[0].trim().toLowerCase();
+  return INLINE_MIME_TYPES.includes(type) ? type : null;
+}
+
+/**
+ * Content-Disposition with an ASCII fallback name and the full name per RFC 5987
+ */
+function contentDisposition(type: 'inline' | 'attachment', filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * GET /api/inbox/messages/[id]/media - Media of a received message,
+ * downloaded from WhatsApp on first request
+ * Query: download=1 serves it as an attachment (always the case for documents)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const inbound = await InboundMessageRepository.findById(id);
+    if (!inbound) {
+      return NextResponse.json({
+        success: false,
+        error: 'Message not found',
+      }, { status: 404 });
+    }
+
+    if (!inbound.mimetype) {
+      return NextResponse.json({
+        success: false,
+        error: 'Message has no media',
+      }, { status: 400 });
+    }
+
+    // Downloaded media is served without a connection
+    let media = inbound.mediaId ? await MediaMetaService.getById(inbound.mediaId) : null;
+    if (!media) {
+      const baileysManager = getBaileysManager();
+      if (baileysManager.getConnectionStatus().status !== 'connected') {
+        return NextResponse.json({
+          success: false,
+          error: 'WhatsApp is not connected. Connect to download this media.',
+        }, { status: 400 });
+      }
+      media = await baileysManager.downloadInboundMedia(id);
+    }
+
+    if (!existsSync(media.storagePath)) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found on storage',
+      }, { status: 404 });
+    }
+
+    const fileStats = await stat(media.storagePath);
+    const download = new URL(request.url).searchParams.get('download') === '1';
+    const inlineType = download ? null : getInlineType(media.mimetype);
+    const stream = createReadStream(media.storagePath);
+
+    return new NextResponse(stream as unknown as ReadableStream, {
+      headers: {
+        'Content-Type': inlineType || 'application/octet-stream',
+        'Content-Length': fileStats.size.toString(),
+        'Content-Disposition': contentDisposition(inlineType ? 'inline' : 'attachment', media.originalName),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+
+  } catch (error) {
+    console.error('Inbound media download error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to download media',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
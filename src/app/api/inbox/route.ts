@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InboundMessageRepository } from '@/lib/db';
+import { Inbox } from '@/lib/services';
+
+/**
+ * GET /api/inbox - Chats with received messages, most recent first
+ * Query: search=... returns matching messages across all chats instead
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const search = searchParams.get('search')?.trim();
+
+    const unreadCount = await InboundMessageRepository.countUnread();
+
+    if (search) {
+      return NextResponse.json({
+        success: true,
+        search,
+        messages: await Inbox.search(search, { limit }),
+        unreadCount,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      threads: await Inbox.getThreads({ limit, offset }),
+      unreadCount,
+      pagination: {
+        limit,
+        offset,
+      },
+    });
+
+  } catch (error) {
+    console.error('Get inbox error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load inbox',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { InboundMessageRepository } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ chatJid: string }>;
+}
+
+/**
+ * POST /api/inbox/threads/[chatJid]/read - Mark a chat's messages as read
+ */
+export async function POST(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const chatJid = decodeURIComponent((await params).chatJid);
+    const marked = await InboundMessageRepository.markChatRead(chatJid);
+
+    return NextResponse.json({
+      success: true,
+      chatJid,
+      marked,
+    });
+
+  } catch (error) {
+    console.error('Mark inbox thread read error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to mark messages as read',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Inbox } from '@/lib/services';
+
+interface RouteParams {
+  params: Promise<{ chatJid: string }>;
+}
+
+/**
+ * GET /api/inbox/threads/[chatJid] - Messages of one chat, oldest first
+ * Query: before=ISO date pages back through older messages; search filters
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const chatJid = decodeURIComponent((await params).chatJid);
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '100'), 500);
+    const beforeParam = searchParams.get('before');
+    const search = searchParams.get('search')?.trim() || undefined;
+
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid before date',
+      }, { status: 400 });
+    }
+
+    const messages = await Inbox.getMessages(chatJid, { before, limit, search });
+
+    return NextResponse.json({
+      success: true,
+      chatJid,
+      messages,
+      hasMore: messages.length === limit,
+    });
+
+  } catch (error) {
+    console.error('Get inbox thread error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load messages',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
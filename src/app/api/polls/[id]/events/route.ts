@@ -0,0 +1,95 @@
+import { NextRequest } from 'next/server';
+import { getBaileysManager } from '@/lib/socketManager';
+import type { PollVoteEvent } from '@/lib/socketManager';
+import { PollReport } from '@/lib/services';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/polls/[id]/events - Server-Sent Events with live poll results
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const accept = request.headers.get('accept');
+  if (!accept?.includes('text/event-stream')) {
+    return new Response('This endpoint only supports Server-Sent Events', {
+      status: 400,
+      headers: { 'Content-Type': 'text/plain' }
+    });
+  }
+
+  const { id } = await params;
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+
+      const sendEvent = (event: string, data: Record<string, unknown>) => {
+        const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+        controller.enqueue(encoder.encode(message));
+      };
+
+      const sendResults = async () => {
+        const report = await PollReport.build(id);
+        if (report) {
+          sendEvent('results', { timestamp: new Date().toISOString(), ...report });
+        }
+        return report;
+      };
+
+      try {
+        if (!(await sendResults())) {
+          sendEvent('error', {
+            timestamp: new Date().toISOString(),
+            error: 'Poll not found',
+          });
+          controller.close();
+          return;
+        }
+
+        const baileysManager = getBaileysManager();
+
+        const handleVote = (event: PollVoteEvent) => {
+          if (event.pollId !== id) return;
+          sendResults().catch(error => console.error('Failed to send poll results:', error));
+        };
+
+        baileysManager.on('poll_vote', handleVote);
+
+        // Send periodic heartbeat to keep connection alive
+        const heartbeatInterval = setInterval(() => {
+          sendEvent('heartbeat', {
+            timestamp: new Date().toISOString(),
+            status: 'alive'
+          });
+        }, 30000); // Every 30 seconds
+
+        // Clean up when client disconnects
+        const cleanup = () => {
+          clearInterval(heartbeatInterval);
+          baileysManager.off('poll_vote', handleVote);
+        };
+
+        request.signal.addEventListener('abort', cleanup);
+
+      } catch (error) {
+        console.error('Failed to set up poll events:', error);
+        sendEvent('error', {
+          timestamp: new Date().toISOString(),
+          error: 'Failed to load poll results',
+          message: error instanceof Error ? error.message : 'Unknown error'
+        });
+        controller.close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PollReport } from '@/lib/services';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/polls/[id] - Poll results with per-option counts and voters
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const report = await PollReport.build(id);
+    if (!report) {
+      return NextResponse.json({
+        success: false,
+        error: 'Poll not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      poll: report,
+    });
+
+  } catch (error) {
+    console.error('Get poll results error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get poll results',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PollRepository } from '@/lib/db';
+import { PollReport } from '@/lib/services';
+
+/**
+ * GET /api/polls - Polls we sent, newest first, with voter counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const chatJid = searchParams.get('chatJid') || undefined;
+
+    const polls = await PollRepository.findAll({ chatJid, limit, offset });
+
+    return NextResponse.json({
+      success: true,
+      polls: await Promise.all(polls.map(async poll => ({
+        id: poll.id,
+        chatJid: poll.chatJid,
+        chatName: await PollReport.getChatName(poll.chatJid),
+        question: poll.question,
+        options: PollRepository.getOptions(poll),
+        multiSelect: poll.selectableCount !== 1,
+        totalVoters: poll._count.votes,
+        createdAt: poll.createdAt,
+      }))),
+      pagination: {
+        limit,
+        offset,
+      },
+    });
+
+  } catch (error) {
+    console.error('Get polls error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get polls',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastListRepository } from '@/lib/db';
+import type { BroadcastListMemberData } from '@/lib/db';
+import { BroadcastListTransfer } from '@/lib/services';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/send/broadcast/[id]/members - Add members to a broadcast list
+ * Members may be JIDs, phone numbers or { jid, type, name } objects
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { members } = await request.json();
+
+    if (!Array.isArray(members) || members.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'members array is required',
+      }, { status: 400 });
+    }
+
+    const list = await BroadcastListRepository.findById(id);
+    if (!list) {
+      return NextResponse.json({
+        success: false,
+        error: 'Broadcast list not found',
+      }, { status: 404 });
+    }
+
+    const valid: BroadcastListMemberData[] = [];
+    const invalid: unknown[] = [];
+
+    for (const member of members) {
+      const raw = typeof member === 'string' ? member : member?.jid;
+      const jid = typeof raw === 'string' ? BroadcastListTransfer.normalizeJid(raw) : null;
+      if (!jid) {
+        invalid.push(member);
+        continue;
+      }
+      valid.push({
+        jid,
+        type: member?.type === 'group' || member?.type === 'contact' ? member.type : undefined,
+        name: typeof member?.name === 'string' ? member.name : undefined,
+      });
+    }
+
+    const added = await BroadcastListRepository.addMembers(id, valid);
+
+    return NextResponse.json({
+      success: true,
+      message: `Added ${added} member${added !== 1 ? 's' : ''}`,
+      added,
+      invalid,
+    });
+
+  } catch (error) {
+    console.error('Add broadcast list members error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to add broadcast list members',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/send/broadcast/[id]/members?jid= - Remove a member from a broadcast list
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const jid = new URL(request.url).searchParams.get('jid');
+
+    if (!jid) {
+      return NextResponse.json({
+        success: false,
+        error: 'jid parameter is required',
+      }, { status: 400 });
+    }
+
+    const removed = await BroadcastListRepository.removeMember(id, jid);
+    if (!removed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Member not found in broadcast list',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Member removed successfully',
+      jid,
+    });
+
+  } catch (error) {
+    console.error('Remove broadcast list member error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to remove broadcast list member',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
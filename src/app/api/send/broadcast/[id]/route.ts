@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastListRepository } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/send/broadcast/[id] - Get a broadcast list with its members
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const list = await BroadcastListRepository.findById(id);
+    if (!list) {
+      return NextResponse.json({
+        success: false,
+        error: 'Broadcast list not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      broadcastList: {
+        id: list.id,
+        name: list.name,
+        description: list.description,
+        isActive: list.isActive,
+        createdAt: list.createdAt,
+        updatedAt: list.updatedAt,
+        recipientsCount: list.members.length,
+        members: list.members.map(member => ({
+          jid: member.jid,
+          type: member.type,
+          name: member.name,
+          addedAt: member.addedAt,
+        })),
+      },
+    });
+
+  } catch (error) {
+    console.error('Get broadcast list error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get broadcast list',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
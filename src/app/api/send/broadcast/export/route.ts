@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastListRepository } from '@/lib/db';
+import { BroadcastListTransfer } from '@/lib/services';
+
+/**
+ * GET /api/send/broadcast/export?format=csv|json&listId= - Download broadcast lists
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get('format') || 'json';
+    const listId = searchParams.get('listId');
+
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json({
+        success: false,
+        error: 'format must be "csv" or "json"',
+      }, { status: 400 });
+    }
+
+    let lists;
+    if (listId) {
+      const list = await BroadcastListRepository.findById(listId);
+      if (!list) {
+        return NextResponse.json({
+          success: false,
+          error: 'Broadcast list not found',
+        }, { status: 404 });
+      }
+      lists = [list];
+    } else {
+      lists = await BroadcastListRepository.findAll(true);
+    }
+
+    const filename = `broadcast_lists_${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'csv') {
+      return new NextResponse(BroadcastListTransfer.toCsv(lists), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      });
+    }
+
+    return new NextResponse(JSON.stringify(BroadcastListTransfer.toJson(lists), null, 2), {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Export broadcast lists error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to export broadcast lists',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastListTransfer } from '@/lib/services';
+import type { BroadcastListExport } from '@/lib/services';
+
+/**
+ * POST /api/send/broadcast/import?mode=merge|replace - Import broadcast lists
+ * Accepts a CSV or JSON body, or a multipart form with a "file" field
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const mode = searchParams.get('mode') || 'merge';
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json({
+        success: false,
+        error: 'mode must be "merge" or "replace"',
+      }, { status: 400 });
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    let text: string;
+    let isCsv: boolean;
+
+    if (contentType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({
+          success: false,
+          error: 'file field is required',
+        }, { status: 400 });
+      }
+      text = await file.text();
+      isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+    } else {
+      text = await request.text();
+      isCsv = contentType.includes('text/csv');
+    }
+
+    let parsed: { lists: BroadcastListExport[]; skippedRows: string[] };
+    try {
+      parsed = isCsv
+        ? BroadcastListTransfer.parseCsv(text)
+        : BroadcastListTransfer.parseJson(JSON.parse(text));
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid import file',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 400 });
+    }
+
+    if (parsed.lists.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'No broadcast lists found in import file',
+        skippedRows: parsed.skippedRows,
+      }, { status: 400 });
+    }
+
+    const result = await BroadcastListTransfer.importLists(parsed.lists, mode);
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${parsed.lists.length} broadcast list${parsed.lists.length !== 1 ? 's' : ''}`,
+      ...result,
+      skippedRows: parsed.skippedRows,
+    });
+
+  } catch (error) {
+    console.error('Import broadcast lists error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to import broadcast lists',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,22 +1,41 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { getBaileysManager } from '@/lib/socketManager';
-import { SendTargetingManager, SendTarget } from '@/lib/socketManager/SendTargetingManager';
+import { SendTarget } from '@/lib/socketManager/SendTargetingManager';
+import { BroadcastListRepository } from '@/lib/db';
+import type { BroadcastListMemberData, BroadcastListWithMembers } from '@/lib/db';
 
-let sendTargetingManager: SendTargetingManager | null = null;
+function formatList(list: BroadcastListWithMembers) {
+  return {
+    id: list.id,
+    name: list.name,
+    description: list.description,
+    recipientsCount: list.members.length,
+    createdAt: list.createdAt,
+    updatedAt: list.updatedAt,
+    isActive: list.isActive,
+  };
+}
 
-function getSendTargetingManager() {
-  const baileysManager = getBaileysManager();
-  const socket = baileysManager.getSocket();
-  
-  if (!socket) {
-    throw new Error('WhatsApp not connected');
-  }
-  
-  if (!sendTargetingManager) {
-    sendTargetingManager = new SendTargetingManager(socket);
-  }
-  
-  return sendTargetingManager;
+/**
+ * Accept recipients as send targets ({ id, type, name, recipient })
+ */
+function toMembers(recipients: unknown[]): BroadcastListMemberData[] {
+  return recipients.map(recipient => {
+    const target = recipient as Partial<SendTarget>;
+    if (!target.id || !target.type || !target.name || !target.recipient) {
+      throw new Error('Invalid recipient format');
+    }
+    return {
+      jid: target.recipient,
+      type: target.type === 'group' ? 'group' : 'contact',
+      name: target.name,
+    };
+  });
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
 }
 
 /**
@@ -27,20 +46,6 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { action, listId, name, description, recipients, files, caption } = body;
 
-    // Check connection
-    const baileysManager = getBaileysManager();
-    const connectionStatus = baileysManager.getConnectionStatus();
-    
-    if (connectionStatus.status !== 'connected') {
-      return NextResponse.json({
-        success: false,
-        error: 'WhatsApp is not connected',
-        currentStatus: connectionStatus.status,
-      }, { status: 400 });
-    }
-
-    const manager = getSendTargetingManager();
-
     if (action === 'create') {
       // Create new broadcast list
       if (!name || !recipients || !Array.isArray(recipients) || recipients.length === 0) {
@@ -50,27 +55,33 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
-      // Validate recipients format
-      const validatedRecipients: SendTarget[] = recipients.map(recipient => {
-        if (!recipient.id || !recipient.type || !recipient.name || !recipient.recipient) {
-          throw new Error('Invalid recipient format');
-        }
-        return recipient as SendTarget;
-      });
+      let members: BroadcastListMemberData[];
+      try {
+        members = toMembers(recipients);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid recipients',
+        }, { status: 400 });
+      }
 
-      const broadcastList = await manager.createBroadcastList(name, validatedRecipients, description);
+      try {
+        const broadcastList = await BroadcastListRepository.create({ name, description, members });
 
-      return NextResponse.json({
-        success: true,
-        message: 'Broadcast list created successfully',
-        broadcastList: {
-          id: broadcastList.id,
-          name: broadcastList.name,
-          description: broadcastList.description,
-          recipientsCount: broadcastList.recipients.length,
-          createdAt: broadcastList.createdAt,
-        },
-      });
+        return NextResponse.json({
+          success: true,
+          message: 'Broadcast list created successfully',
+          broadcastList: formatList(broadcastList),
+        });
+      } catch (error) {
+        if (isUniqueViolation(error)) {
+          return NextResponse.json({
+            success: false,
+            error: 'A broadcast list with this name already exists',
+          }, { status: 409 });
+        }
+        throw error;
+      }
 
     } else if (action === 'send') {
       // Send to existing broadcast list
@@ -81,7 +92,19 @@ export async function POST(request: NextRequest) {
         }, { status: 400 });
       }
 
-      const result = await manager.sendToBroadcastList(listId, files, caption);
+      // Check connection
+      const baileysManager = getBaileysManager();
+      const connectionStatus = baileysManager.getConnectionStatus();
+
+      if (connectionStatus.status !== 'connected') {
+        return NextResponse.json({
+          success: false,
+          error: 'WhatsApp is not connected',
+          currentStatus: connectionStatus.status,
+        }, { status: 400 });
+      }
+
+      const result = await baileysManager.getSendTargetingManager().sendToBroadcastList(listId, files, caption);
 
       return NextResponse.json({
         success: true,
@@ -120,38 +143,20 @@ export async function POST(request: NextRequest) {
 /**
  * GET /api/send/broadcast - Get broadcast lists
  */
-export async function GET(_request: NextRequest) {
+export async function GET(request: NextRequest) {
   try {
-    // Check connection
-    const baileysManager = getBaileysManager();
-    const connectionStatus = baileysManager.getConnectionStatus();
-    
-    if (connectionStatus.status !== 'connected') {
-      return NextResponse.json({
-        success: false,
-        error: 'WhatsApp is not connected',
-        currentStatus: connectionStatus.status,
-      }, { status: 400 });
-    }
+    const { searchParams } = new URL(request.url);
+    const includeInactive = searchParams.get('includeInactive') === 'true';
 
-    const manager = getSendTargetingManager();
-    const broadcastLists = manager.getBroadcastLists();
-    const statistics = manager.getSendStatistics();
+    const broadcastLists = await BroadcastListRepository.findAll(includeInactive);
+    const totalLists = await BroadcastListRepository.count();
 
     return NextResponse.json({
       success: true,
-      broadcastLists: broadcastLists.map(list => ({
-        id: list.id,
-        name: list.name,
-        description: list.description,
-        recipientsCount: list.recipients.length,
-        createdAt: list.createdAt,
-        updatedAt: list.updatedAt,
-        isActive: list.isActive,
-      })),
+      broadcastLists: broadcastLists.map(formatList),
       statistics: {
-        totalLists: statistics.broadcastLists,
-        activeLists: broadcastLists.length,
+        totalLists,
+        activeLists: broadcastLists.filter(list => list.isActive).length,
       },
     });
 
@@ -171,7 +176,7 @@ export async function GET(_request: NextRequest) {
 export async function PUT(request: NextRequest) {
   try {
     const body = await request.json();
-    const { listId, name, description, recipients } = body;
+    const { listId, name, description, recipients, isActive } = body;
 
     if (!listId) {
       return NextResponse.json({
@@ -180,37 +185,48 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const manager = getSendTargetingManager();
-    
-    const updates: {
-      name?: string;
-      description?: string;
-      recipients?: string[];
-    } = {};
-    if (name !== undefined) updates.name = name;
-    if (description !== undefined) updates.description = description;
-    if (recipients !== undefined) updates.recipients = recipients;
-
-    const updatedList = await manager.updateBroadcastList(listId, updates);
-
-    if (!updatedList) {
+    const existing = await BroadcastListRepository.findById(listId);
+    if (!existing) {
       return NextResponse.json({
         success: false,
         error: 'Broadcast list not found',
       }, { status: 404 });
     }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Broadcast list updated successfully',
-      broadcastList: {
-        id: updatedList.id,
-        name: updatedList.name,
-        description: updatedList.description,
-        recipientsCount: updatedList.recipients.length,
-        updatedAt: updatedList.updatedAt,
-      },
-    });
+    let members: BroadcastListMemberData[] | undefined;
+    if (recipients !== undefined) {
+      try {
+        members = toMembers(Array.isArray(recipients) ? recipients : []);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: error instanceof Error ? error.message : 'Invalid recipients',
+        }, { status: 400 });
+      }
+    }
+
+    try {
+      const updatedList = await BroadcastListRepository.update(listId, {
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+        ...(typeof isActive === 'boolean' && { isActive }),
+        members,
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Broadcast list updated successfully',
+        broadcastList: formatList(updatedList),
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        return NextResponse.json({
+          success: false,
+          error: 'A broadcast list with this name already exists',
+        }, { status: 409 });
+      }
+      throw error;
+    }
 
   } catch (error) {
     console.error('Update broadcast list error:', error);
@@ -237,16 +253,16 @@ export async function DELETE(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const manager = getSendTargetingManager();
-    const deleted = await manager.deleteBroadcastList(listId);
-
-    if (!deleted) {
+    const existing = await BroadcastListRepository.findById(listId);
+    if (!existing) {
       return NextResponse.json({
         success: false,
         error: 'Broadcast list not found',
       }, { status: 404 });
     }
 
+    await BroadcastListRepository.delete(listId);
+
     return NextResponse.json({
       success: true,
       message: 'Broadcast list deleted successfully',
@@ -1,20 +1,60 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBaileysManager } from '@/lib/socketManager';
+import type { ContactInfo } from '@/lib/socketManager/MessageSender';
 import { SessionService } from '@/lib/db';
+import { parseLink, parseLocation, resolveContactCards } from '@/lib/messaging/StructuredContent';
+import type { StructuredContent } from '@/lib/messaging/StructuredContent';
 
 /**
- * POST /api/send/contact - Send media to specific WhatsApp contact
+ * POST /api/send/contact - Send media, text, a poll, a location, contact cards or a link to specific WhatsApp contact
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { files, caption, phoneNumber, sessionId } = body;
+    const { files, caption, text, poll, location, contactCards, link, phoneNumber, sessionId, voiceNote, sticker } = body;
 
-    // Validate required fields
-    if (!files || !Array.isArray(files) || files.length === 0) {
+    // Validate required fields; a poll, location, contact cards, link or
+    // text message is sent when no files are given
+    const hasFiles = Array.isArray(files) && files.length > 0;
+    const isPoll = !hasFiles && poll !== undefined && poll !== null;
+    const isStructured = !hasFiles && !isPoll && (
+      (location !== undefined && location !== null) ||
+      (contactCards !== undefined && contactCards !== null) ||
+      (link !== undefined && link !== null)
+    );
+    const isText = !hasFiles && !isPoll && !isStructured && typeof text === 'string' && text.trim().length > 0;
+    if (!hasFiles && !isPoll && !isStructured && !isText) {
       return NextResponse.json({
         success: false,
-        error: 'Files array is required and must not be empty',
+        error: 'Files array, text, poll, location, contactCards or link is required',
+      }, { status: 400 });
+    }
+
+    let structured: StructuredContent | undefined;
+    if (isStructured) {
+      try {
+        structured = location !== undefined && location !== null
+          ? { type: 'location', location: parseLocation(location) }
+          : contactCards !== undefined && contactCards !== null
+            ? { type: 'contacts', cards: await resolveContactCards(contactCards) }
+            : { type: 'link', link: parseLink(link) };
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid location, contact cards or link',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 400 });
+      }
+    }
+
+    if (isPoll && (
+      typeof poll.question !== 'string' ||
+      !Array.isArray(poll.options) ||
+      poll.options.some((option: unknown) => typeof option !== 'string')
+    )) {
+      return NextResponse.json({
+        success: false,
+        error: 'Poll requires a question and an options array of strings',
       }, { status: 400 });
     }
 
@@ -60,6 +100,94 @@ export async function POST(request: NextRequest) {
       // Continue anyway - WhatsApp will handle invalid numbers
     }
     
+    if (structured) {
+      const result = await messageSender.sendStructured({
+        sessionId: activeSessionId,
+        targetType: 'contact',
+        targetIdentifier: phoneNumber,
+        content: structured,
+      });
+      const label = structured.type === 'location' ? 'Location' : structured.type === 'link' ? 'Link' : 'Contact cards';
+
+      if (!result.success) {
+        return NextResponse.json({
+          success: false,
+          error: `Failed to send ${label.toLowerCase()} to contact`,
+          details: result.error,
+        }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: `${label} sent to contact successfully`,
+        result: {
+          messageId: result.messageId,
+          sentAt: result.sentAt,
+          phoneNumber,
+          messageType: structured.type,
+        },
+      });
+    }
+
+    if (isPoll) {
+      const result = await messageSender.sendPoll({
+        sessionId: activeSessionId,
+        targetType: 'contact',
+        targetIdentifier: phoneNumber,
+        question: poll.question,
+        options: poll.options,
+        multiSelect: poll.multiSelect === true,
+      });
+
+      if (!result.success) {
+        return NextResponse.json({
+          success: false,
+          error: 'Failed to send poll to contact',
+          details: result.error,
+        }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Poll sent to contact successfully',
+        result: {
+          messageId: result.messageId,
+          sentAt: result.sentAt,
+          phoneNumber,
+          pollId: result.pollId,
+        },
+      });
+    }
+
+    if (isText) {
+      const result = await messageSender.sendText({
+        sessionId: activeSessionId,
+        targetType: 'contact',
+        targetIdentifier: phoneNumber,
+        text,
+      });
+
+      if (!result.success) {
+        return NextResponse.json({
+          success: false,
+          error: 'Failed to send message to contact',
+          details: result.error,
+        }, { status: 500 });
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Message sent to contact successfully',
+        result: {
+          messageId: result.messageId,
+          sentAt: result.sentAt,
+          phoneNumber,
+          mentions: result.mentions,
+          unresolvedMentions: result.unresolvedMentions,
+        },
+      });
+    }
+
     // Send to contact
     const result = await messageSender.sendToContact({
       sessionId: activeSessionId,
@@ -67,6 +195,12 @@ export async function POST(request: NextRequest) {
       targetIdentifier: phoneNumber,
       files,
       caption,
+      voiceNote: voiceNote === true,
+      // true, or { packName, author } for the sticker pack metadata
+      sticker: sticker === true ? {} : sticker && typeof sticker === 'object' ? {
+        packName: typeof sticker.packName === 'string' ? sticker.packName : undefined,
+        author: typeof sticker.author === 'string' ? sticker.author : undefined,
+      } : undefined,
     });
 
     if (result.success) {
@@ -109,7 +243,7 @@ export async function GET(_request: NextRequest) {
     const connectionStatus = baileysManager.getConnectionStatus();
     
     const canSend = connectionStatus.status === 'connected';
-    let contacts = [];
+    let contacts: ContactInfo[] = [];
     
     if (canSend) {
       try {
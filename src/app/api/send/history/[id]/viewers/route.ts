@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ContactRepository, SendHistoryService, StatusViewRepository } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/send/history/[id]/viewers - List who viewed a status post
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const history = await SendHistoryService.getById(id);
+    if (!history) {
+      return NextResponse.json({
+        success: false,
+        error: 'Send history not found',
+      }, { status: 404 });
+    }
+
+    if (history.targetType !== 'status') {
+      return NextResponse.json({
+        success: false,
+        error: 'Viewers are only tracked for status posts',
+      }, { status: 400 });
+    }
+
+    const views = await StatusViewRepository.findBySendHistoryId(id);
+    const contacts = await ContactRepository.findByIds(views.map(view => view.viewerJid));
+    const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+    return NextResponse.json({
+      success: true,
+      sendHistoryId: id,
+      count: views.length,
+      viewers: views.map(view => {
+        const contact = contactsById.get(view.viewerJid);
+        return {
+          jid: view.viewerJid,
+          name: contact?.name || contact?.pushName || contact?.notify || undefined,
+          phoneNumber: contact?.phoneNumber || view.viewerJid.split('@')[0],
+          messageId: view.messageId,
+          viewedAt: view.viewedAt,
+        };
+      }),
+    });
+
+  } catch (error) {
+    console.error('Get status viewers error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get status viewers',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SendHistoryService, SessionService } from '@/lib/db';
+import { SendHistoryService, SessionService, StatusViewRepository } from '@/lib/db';
 
 /**
  * GET /api/send/history - Get send history with filtering and search
@@ -112,6 +112,10 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    const viewCounts = await StatusViewRepository.countBySendHistoryIds(
+      filteredHistory.filter(item => item.targetType === 'status').map(item => item.id)
+    );
+
     // Format response data
     const formattedHistory = filteredHistory.map(item => ({
       id: item.id,
@@ -127,14 +131,27 @@ export async function GET(request: NextRequest) {
         })) : [];
       })(),
       caption: (() => {
+        if (item.messageType === 'text' && item.content) {
+          return JSON.parse(item.content).text;
+        }
         const parsedFiles = typeof item.files === 'string' ? JSON.parse(item.files) : item.files;
         return Array.isArray(parsedFiles) && parsedFiles.length > 0 ? parsedFiles[0]?.caption : undefined;
       })(),
+      messageType: item.messageType,
       status: item.status,
       createdAt: item.createdAt,
       completedAt: item.completedAt,
-      error: item.status === 'failed' ? 'Send failed' : undefined,
-      // messageId: item.messageId, // Not available in current schema
+      revokedAt: item.revokedAt || undefined,
+      error: item.status === 'failed' ? item.errorMessage || 'Send failed' : undefined,
+      // Per-item progress for multi-part status stories
+      progress: item.items.length > 0
+        ? {
+            sent: item.items.filter(storyItem => storyItem.status === 'sent').length,
+            total: item.items.length,
+          }
+        : undefined,
+      messageId: item.messageId || undefined,
+      viewCount: item.targetType === 'status' ? viewCounts[item.id] || 0 : undefined,
     }));
 
     // Get statistics
@@ -1,22 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBaileysManager } from '@/lib/socketManager';
-import { SendTargetingManager, SendTarget, MultiSendOptions } from '@/lib/socketManager/SendTargetingManager';
-
-let sendTargetingManager: SendTargetingManager | null = null;
+import { SendTarget, MultiSendOptions } from '@/lib/socketManager/SendTargetingManager';
 
 function getSendTargetingManager() {
-  const baileysManager = getBaileysManager();
-  const socket = baileysManager.getSocket();
-  
-  if (!socket) {
-    throw new Error('WhatsApp not connected');
-  }
-  
-  if (!sendTargetingManager) {
-    sendTargetingManager = new SendTargetingManager(socket);
-  }
-  
-  return sendTargetingManager;
+  // Shared instance so every route sees the same state
+  return getBaileysManager().getSendTargetingManager();
 }
 
 /**
@@ -179,7 +167,7 @@ export async function GET(request: NextRequest) {
     }
 
     const manager = getSendTargetingManager();
-    const statistics = manager.getSendStatistics();
+    const statistics = await manager.getSendStatistics();
 
     return NextResponse.json({
       success: true,
@@ -190,6 +178,7 @@ export async function GET(request: NextRequest) {
           active: statistics.activeScheduledSends,
           completed: statistics.completedScheduledSends,
           failed: statistics.failedScheduledSends,
+          missed: statistics.missedScheduledSends,
           upcoming: statistics.upcomingScheduledSends,
         },
       },
@@ -1,22 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBaileysManager } from '@/lib/socketManager';
-import { SendTargetingManager, SendTarget, ScheduledSend } from '@/lib/socketManager/SendTargetingManager';
+import { SendTarget, ScheduledSend, MissedRunPolicy } from '@/lib/socketManager/SendTargetingManager';
+import { ScheduledSendRepository } from '@/lib/db';
+import { StatusAudience, StatusAudienceResolver, parseStatusAudience } from '@/lib/socketManager/StatusAudienceResolver';
+import { RecurrenceRule, describeRecurrence, parseRecurrenceRule } from '@/lib/messaging/Recurrence';
 
-let sendTargetingManager: SendTargetingManager | null = null;
+const MISSED_RUN_POLICIES: MissedRunPolicy[] = ['fire', 'skip', 'mark_missed'];
 
+// Shared with BaileysManager so schedule timers live alongside the socket
 function getSendTargetingManager() {
-  const baileysManager = getBaileysManager();
-  const socket = baileysManager.getSocket();
-  
-  if (!socket) {
-    throw new Error('WhatsApp not connected');
-  }
-  
-  if (!sendTargetingManager) {
-    sendTargetingManager = new SendTargetingManager(socket);
+  return getBaileysManager().getSendTargetingManager();
+}
+
+function serializeRecurrence(send: ScheduledSend) {
+  if (!send.recurrence) {
+    return null;
   }
-  
-  return sendTargetingManager;
+
+  return {
+    ...send.recurrence,
+    description: describeRecurrence(send.recurrence),
+    runCount: send.runCount,
+    lastRunAt: send.lastRunAt,
+    lastRunStatus: send.lastRunStatus,
+  };
 }
 
 /**
@@ -30,7 +37,11 @@ export async function POST(request: NextRequest) {
       files,
       scheduledTime,
       caption,
-      intervalBetween = 2000
+      intervalBetween = 2000,
+      recurrence,
+      audience,
+      audiencePresetId,
+      missedRunPolicy,
     } = body;
 
     // Check connection
@@ -60,7 +71,28 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
-    if (!scheduledTime) {
+    if (missedRunPolicy !== undefined && !MISSED_RUN_POLICIES.includes(missedRunPolicy)) {
+      return NextResponse.json({
+        success: false,
+        error: `missedRunPolicy must be one of: ${MISSED_RUN_POLICIES.join(', ')}`,
+      }, { status: 400 });
+    }
+
+    let recurrenceRule: RecurrenceRule | undefined;
+    if (recurrence !== undefined && recurrence !== null) {
+      try {
+        recurrenceRule = parseRecurrenceRule(recurrence);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid recurrence',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 400 });
+      }
+    }
+
+    // Recurring sends may omit scheduledTime and start at their first occurrence
+    if (!scheduledTime && !recurrenceRule) {
       return NextResponse.json({
         success: false,
         error: 'scheduledTime is required',
@@ -68,15 +100,15 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate scheduled time
-    const scheduledDate = new Date(scheduledTime);
-    if (isNaN(scheduledDate.getTime())) {
+    const scheduledDate = scheduledTime ? new Date(scheduledTime) : null;
+    if (scheduledDate && isNaN(scheduledDate.getTime())) {
       return NextResponse.json({
         success: false,
         error: 'Invalid scheduledTime format',
       }, { status: 400 });
     }
 
-    if (scheduledDate <= new Date()) {
+    if (scheduledDate && scheduledDate <= new Date()) {
       return NextResponse.json({
         success: false,
         error: 'scheduledTime must be in the future',
@@ -93,11 +125,29 @@ export async function POST(request: NextRequest) {
 
     const manager = getSendTargetingManager();
 
+    // Status audience is stored as a descriptor and resolved on each run
+    let statusAudience: StatusAudience | undefined;
+    if (audience || audiencePresetId) {
+      try {
+        const resolver = new StatusAudienceResolver();
+        statusAudience = audiencePresetId
+          ? await resolver.fromPreset(audiencePresetId)
+          : parseStatusAudience(audience);
+        await resolver.resolve(statusAudience);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid status audience',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 400 });
+      }
+    }
+
     const scheduledSend = await manager.scheduleSend(
       validatedTargets,
       files,
       scheduledDate,
-      { caption, intervalBetween }
+      { caption, intervalBetween, recurrence: recurrenceRule, audience: statusAudience, missedRunPolicy }
     );
 
     return NextResponse.json({
@@ -113,6 +163,8 @@ export async function POST(request: NextRequest) {
         createdAt: scheduledSend.createdAt,
         caption: scheduledSend.caption,
         intervalBetween: scheduledSend.intervalBetween,
+        missedRunPolicy: scheduledSend.missedRunPolicy,
+        recurrence: serializeRecurrence(scheduledSend),
       },
     });
 
@@ -134,21 +186,11 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const statusFilter = searchParams.get('status') as ScheduledSend['status'] | null;
 
-    // Check connection
-    const baileysManager = getBaileysManager();
-    const connectionStatus = baileysManager.getConnectionStatus();
-    
-    if (connectionStatus.status !== 'connected') {
-      return NextResponse.json({
-        success: false,
-        error: 'WhatsApp is not connected',
-        currentStatus: connectionStatus.status,
-      }, { status: 400 });
-    }
-
-    const manager = getSendTargetingManager();
-    const scheduledSends = manager.getScheduledSends(statusFilter || undefined);
-    const statistics = manager.getSendStatistics();
+    // Read straight from the database so schedules are visible without a
+    // connection and across processes
+    const rows = await ScheduledSendRepository.findMany(statusFilter || undefined);
+    const scheduledSends = rows.map(row => ScheduledSendRepository.toScheduledSend(row));
+    const statistics = await ScheduledSendRepository.getStatistics();
 
     const now = new Date();
 
@@ -167,16 +209,19 @@ export async function GET(request: NextRequest) {
         completedAt: send.completedAt,
         caption: send.caption,
         intervalBetween: send.intervalBetween,
+        missedRunPolicy: send.missedRunPolicy,
         errors: send.errors,
+        recurrence: serializeRecurrence(send),
         targetNames: send.targets.map(t => t.name).slice(0, 5), // First 5 target names
         hasMoreTargets: send.targets.length > 5,
       })),
       statistics: {
         total: scheduledSends.length,
-        pending: statistics.activeScheduledSends,
-        completed: statistics.completedScheduledSends,
-        failed: statistics.failedScheduledSends,
-        upcoming: statistics.upcomingScheduledSends,
+        pending: statistics.pending,
+        completed: statistics.completed,
+        failed: statistics.failed,
+        missed: statistics.missed,
+        upcoming: statistics.upcoming,
       },
       filter: statusFilter,
     });
@@ -206,8 +251,11 @@ export async function DELETE(request: NextRequest) {
       }, { status: 400 });
     }
 
-    const manager = getSendTargetingManager();
-    const cancelled = await manager.cancelScheduledSend(sendId);
+    // Without a socket there are no timers here to clear; any process that
+    // armed one re-checks the stored status before sending
+    const cancelled = getBaileysManager().getSocket()
+      ? await getSendTargetingManager().cancelScheduledSend(sendId)
+      : await ScheduledSendRepository.cancel(sendId);
 
     if (!cancelled) {
       return NextResponse.json({
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BroadcastListRepository, StatusAudiencePresetRepository } from '@/lib/db';
+import { STATUS_AUDIENCE_MODES, validateStatusAudience } from '@/lib/socketManager/StatusAudienceResolver';
+
+function formatPreset(preset: Awaited<ReturnType<typeof StatusAudiencePresetRepository.create>>) {
+  return {
+    id: preset.id,
+    name: preset.name,
+    mode: preset.mode,
+    broadcastListId: preset.broadcastListId,
+    excludedJids: StatusAudiencePresetRepository.getExcludedJids(preset),
+    createdAt: preset.createdAt,
+    updatedAt: preset.updatedAt,
+  };
+}
+
+/**
+ * GET /api/send/status/audiences - List saved audience presets and available broadcast lists
+ */
+export async function GET(_request: NextRequest) {
+  try {
+    const presets = await StatusAudiencePresetRepository.findAll();
+
+    const broadcastLists = (await BroadcastListRepository.findAll()).map(list => ({
+      id: list.id,
+      name: list.name,
+      recipientsCount: list.members.length,
+    }));
+
+    return NextResponse.json({
+      success: true,
+      presets: presets.map(formatPreset),
+      broadcastLists,
+      modes: STATUS_AUDIENCE_MODES,
+    });
+
+  } catch (error) {
+    console.error('Get audience presets error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get audience presets',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/send/status/audiences - Save a new audience preset
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { name, mode, broadcastListId, excludedJids } = body;
+
+    if (!name || typeof name !== 'string' || !mode) {
+      return NextResponse.json({
+        success: false,
+        error: 'name and mode are required',
+      }, { status: 400 });
+    }
+
+    const validationError = validateStatusAudience(body);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    if (await StatusAudiencePresetRepository.findByName(name)) {
+      return NextResponse.json({
+        success: false,
+        error: `A preset named "${name}" already exists`,
+      }, { status: 409 });
+    }
+
+    const preset = await StatusAudiencePresetRepository.create({
+      name,
+      mode,
+      broadcastListId,
+      excludedJids,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Audience preset saved',
+      preset: formatPreset(preset),
+    });
+
+  } catch (error) {
+    console.error('Create audience preset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to save audience preset',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/send/status/audiences - Update an audience preset
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { presetId, name, mode, broadcastListId, excludedJids } = body;
+
+    if (!presetId) {
+      return NextResponse.json({
+        success: false,
+        error: 'presetId is required',
+      }, { status: 400 });
+    }
+
+    const validationError = validateStatusAudience(body);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const existing = await StatusAudiencePresetRepository.findById(presetId);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Audience preset not found',
+      }, { status: 404 });
+    }
+
+    const preset = await StatusAudiencePresetRepository.update(presetId, {
+      name,
+      mode,
+      broadcastListId,
+      excludedJids,
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Audience preset updated',
+      preset: formatPreset(preset),
+    });
+
+  } catch (error) {
+    console.error('Update audience preset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update audience preset',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/send/status/audiences - Delete an audience preset
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const presetId = searchParams.get('presetId');
+
+    if (!presetId) {
+      return NextResponse.json({
+        success: false,
+        error: 'presetId parameter is required',
+      }, { status: 400 });
+    }
+
+    const existing = await StatusAudiencePresetRepository.findById(presetId);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Audience preset not found',
+      }, { status: 404 });
+    }
+
+    await StatusAudiencePresetRepository.delete(presetId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Audience preset deleted',
+      presetId,
+    });
+
+  } catch (error) {
+    console.error('Delete audience preset error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete audience preset',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBaileysManager } from '@/lib/socketManager';
+import type { StatusStoryItem, TextStatusContent } from '@/lib/socketManager/MessageSender';
+import { StatusAudience, StatusAudienceResolver } from '@/lib/socketManager/StatusAudienceResolver';
+import { SendHistoryService } from '@/lib/db';
+import { StatusArchive } from '@/lib/services';
+
+/**
+ * POST /api/send/status/repost - Post a past status again with its original
+ * media, captions and audience
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { historyId } = await request.json();
+
+    if (!historyId) {
+      return NextResponse.json({
+        success: false,
+        error: 'historyId is required',
+      }, { status: 400 });
+    }
+
+    const history = await SendHistoryService.getById(historyId);
+    if (!history || history.targetType !== 'status') {
+      return NextResponse.json({
+        success: false,
+        error: 'Status send not found',
+      }, { status: 404 });
+    }
+
+    let text: TextStatusContent | undefined;
+    let items: StatusStoryItem[] | undefined;
+    if (history.messageType === 'text') {
+      if (!history.content) {
+        return NextResponse.json({
+          success: false,
+          error: 'Text status has no stored content',
+        }, { status: 400 });
+      }
+      text = JSON.parse(history.content) as TextStatusContent;
+    } else {
+      try {
+        items = await StatusArchive.getRepostItems(history);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: 'Status media is no longer available',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 410 });
+      }
+    }
+
+    const baileysManager = getBaileysManager();
+    const connectionStatus = baileysManager.getConnectionStatus();
+
+    if (connectionStatus.status !== 'connected') {
+      return NextResponse.json({
+        success: false,
+        error: 'WhatsApp is not connected. Please connect first.',
+        currentStatus: connectionStatus.status,
+      }, { status: 400 });
+    }
+
+    // Re-resolve the stored audience so contact changes since the original post are honoured
+    let statusJidList: string[] | undefined;
+    try {
+      const resolver = new StatusAudienceResolver();
+      statusJidList = await resolver.resolveStored(history.audience);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid status audience',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 400 });
+    }
+
+    const result = await baileysManager.getMessageSender().sendToStatus({
+      sessionId: history.sessionId,
+      targetType: 'status',
+      files: [],
+      items,
+      text,
+      // Long videos were already split when first posted
+      splitLongVideos: false,
+      statusJidList,
+      audience: history.audience ? JSON.parse(history.audience) as StatusAudience : undefined,
+    });
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: 'Status re-posted successfully',
+        result: {
+          messageId: result.messageId,
+          sentAt: result.sentAt,
+          sendHistoryId: result.sendHistoryId,
+          repostOf: historyId,
+          progress: result.progress,
+        },
+      });
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to re-post status',
+        details: result.error,
+        sendHistoryId: result.sendHistoryId,
+        progress: result.progress,
+      }, { status: 500 });
+    }
+
+  } catch (error) {
+    console.error('Re-post status error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to re-post status',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
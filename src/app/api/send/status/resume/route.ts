@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBaileysManager } from '@/lib/socketManager';
+import { StatusAudienceResolver } from '@/lib/socketManager/StatusAudienceResolver';
+import { SendHistoryService } from '@/lib/db';
+
+/**
+ * POST /api/send/status/resume - Resume a partially posted status story
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { historyId } = await request.json();
+
+    if (!historyId) {
+      return NextResponse.json({
+        success: false,
+        error: 'historyId is required',
+      }, { status: 400 });
+    }
+
+    const history = await SendHistoryService.getById(historyId);
+    if (!history || history.targetType !== 'status') {
+      return NextResponse.json({
+        success: false,
+        error: 'Status send not found',
+      }, { status: 404 });
+    }
+
+    if (history.status === 'sending') {
+      return NextResponse.json({
+        success: false,
+        error: 'Status send is still in progress',
+      }, { status: 409 });
+    }
+
+    const baileysManager = getBaileysManager();
+    const connectionStatus = baileysManager.getConnectionStatus();
+
+    if (connectionStatus.status !== 'connected') {
+      return NextResponse.json({
+        success: false,
+        error: 'WhatsApp is not connected. Please connect first.',
+        currentStatus: connectionStatus.status,
+      }, { status: 400 });
+    }
+
+    // Re-resolve the stored audience so contact changes since the first attempt are honoured
+    let statusJidList: string[] | undefined;
+    try {
+      const resolver = new StatusAudienceResolver();
+      statusJidList = await resolver.resolveStored(history.audience);
+    } catch (error) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid status audience',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      }, { status: 400 });
+    }
+
+    const result = await baileysManager.getMessageSender().resumeStatusStory(historyId, { statusJidList });
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: 'Status story resumed and posted successfully',
+        result: {
+          messageId: result.messageId,
+          sentAt: result.sentAt,
+          sendHistoryId: historyId,
+          progress: result.progress,
+        },
+      });
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to resume status story',
+        details: result.error,
+        sendHistoryId: historyId,
+        progress: result.progress,
+      }, { status: 500 });
+    }
+
+  } catch (error) {
+    console.error('Resume status story error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to resume status story',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBaileysManager } from '@/lib/socketManager';
+import { StatusAudienceResolver } from '@/lib/socketManager/StatusAudienceResolver';
+import { SendHistoryService } from '@/lib/db';
+
+/**
+ * POST /api/send/status/revoke - Delete a posted status for everyone who can see it
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { historyId } = await request.json();
+
+    if (!historyId) {
+      return NextResponse.json({
+        success: false,
+        error: 'historyId is required',
+      }, { status: 400 });
+    }
+
+    const history = await SendHistoryService.getById(historyId);
+    if (!history || history.targetType !== 'status') {
+      return NextResponse.json({
+        success: false,
+        error: 'Status send not found',
+      }, { status: 404 });
+    }
+
+    if (history.status === 'revoked') {
+      return NextResponse.json({
+        success: false,
+        error: 'Status post was already revoked',
+      }, { status: 409 });
+    }
+
+    if (SendHistoryService.getMessageKeys(history).length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Nothing to revoke: no message key was stored for this send',
+      }, { status: 400 });
+    }
+
+    const baileysManager = getBaileysManager();
+    const connectionStatus = baileysManager.getConnectionStatus();
+
+    if (connectionStatus.status !== 'connected') {
+      return NextResponse.json({
+        success: false,
+        error: 'WhatsApp is not connected. Please connect first.',
+        currentStatus: connectionStatus.status,
+      }, { status: 400 });
+    }
+
+    // The revoke has to reach the same audience the post was shared with.
+    // Posts from before the list was stored fall back to their audience
+    // descriptor, but a list or contact removed since never blocks the revoke.
+    let statusJidList = SendHistoryService.getStatusJidList(history);
+    if (!statusJidList) {
+      try {
+        const resolver = new StatusAudienceResolver();
+        statusJidList = await resolver.resolveStored(history.audience);
+      } catch (error) {
+        console.warn(`Could not resolve the audience of status ${historyId}, revoking without it:`, error);
+      }
+    }
+
+    const result = await baileysManager.getMessageSender().revokeStatus(historyId, { statusJidList });
+
+    if (result.success) {
+      return NextResponse.json({
+        success: true,
+        message: 'Status post deleted',
+        result: {
+          sendHistoryId: historyId,
+          revokedAt: result.sentAt,
+        },
+      });
+    } else {
+      return NextResponse.json({
+        success: false,
+        error: 'Failed to delete status post',
+        details: result.error,
+      }, { status: 500 });
+    }
+
+  } catch (error) {
+    console.error('Revoke status error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete status post',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
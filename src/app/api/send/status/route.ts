@@ -1,23 +1,122 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getBaileysManager } from '@/lib/socketManager';
+import {
+  STATUS_FONTS,
+  StatusFont,
+  StatusStoryItem,
+  TextStatusContent,
+} from '@/lib/socketManager/MessageSender';
+import { StatusAudience, StatusAudienceResolver, parseStatusAudience } from '@/lib/socketManager/StatusAudienceResolver';
 import { SessionService } from '@/lib/db';
+import { STATUS_VIDEO_MAX_DURATION } from '@/lib/uploader';
+
+const MAX_STATUS_TEXT_LENGTH = 700;
+const MAX_STORY_ITEM_DELAY_MS = 5 * 60 * 1000;
 
 /**
- * POST /api/send/status - Send media to WhatsApp Status
+ * Validate story items, returning an error message when invalid
+ */
+function validateStoryItems(items: unknown): string | null {
+  if (!Array.isArray(items) || items.length === 0) {
+    return 'items must be a non-empty array';
+  }
+
+  for (const [index, item] of items.entries()) {
+    if (!item || typeof item.fileId !== 'string') {
+      return `items[${index}].fileId is required`;
+    }
+    if (item.caption !== undefined && typeof item.caption !== 'string') {
+      return `items[${index}].caption must be a string`;
+    }
+    if (
+      item.delayAfterMs !== undefined &&
+      (typeof item.delayAfterMs !== 'number' || item.delayAfterMs < 0 || item.delayAfterMs > MAX_STORY_ITEM_DELAY_MS)
+    ) {
+      return `items[${index}].delayAfterMs must be between 0 and ${MAX_STORY_ITEM_DELAY_MS}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/send/status - Send media or a text post to WhatsApp Status
  */
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { files, caption, sessionId } = body;
+    const {
+      files,
+      items,
+      caption,
+      splitLongVideos,
+      sessionId,
+      text,
+      backgroundColor,
+      font,
+      linkPreview,
+      audience,
+      audiencePresetId,
+    } = body;
+
+    const hasItems = items !== undefined;
+    const hasFiles = Array.isArray(files) && files.length > 0;
+    const hasText = typeof text === 'string' && text.trim().length > 0;
 
     // Validate required fields
-    if (!files || !Array.isArray(files) || files.length === 0) {
+    if (!hasFiles && !hasItems && !hasText) {
+      return NextResponse.json({
+        success: false,
+        error: 'One of a non-empty files array, story items or text is required',
+      }, { status: 400 });
+    }
+
+    if ([hasFiles, hasItems, hasText].filter(Boolean).length > 1) {
       return NextResponse.json({
         success: false,
-        error: 'Files array is required and must not be empty',
+        error: 'Send only one of files, items or text. Use caption for media posts.',
       }, { status: 400 });
     }
 
+    if (hasItems) {
+      const itemsError = validateStoryItems(items);
+      if (itemsError) {
+        return NextResponse.json({ success: false, error: itemsError }, { status: 400 });
+      }
+    }
+    const storyItems: StatusStoryItem[] | undefined = hasItems ? items : undefined;
+
+    let textStatus: TextStatusContent | undefined;
+    if (hasText) {
+      if (text.length > MAX_STATUS_TEXT_LENGTH) {
+        return NextResponse.json({
+          success: false,
+          error: `Text must be at most ${MAX_STATUS_TEXT_LENGTH} characters`,
+        }, { status: 400 });
+      }
+
+      if (backgroundColor !== undefined && !/^#[0-9a-fA-F]{6}$/.test(backgroundColor)) {
+        return NextResponse.json({
+          success: false,
+          error: 'backgroundColor must be a hex color like #128C7E',
+        }, { status: 400 });
+      }
+
+      if (font !== undefined && !(font in STATUS_FONTS)) {
+        return NextResponse.json({
+          success: false,
+          error: `font must be one of: ${Object.keys(STATUS_FONTS).join(', ')}`,
+        }, { status: 400 });
+      }
+
+      textStatus = {
+        text,
+        backgroundColor,
+        font: font as StatusFont | undefined,
+        linkPreview: Boolean(linkPreview),
+      };
+    }
+
     // Get or determine session ID
     let activeSessionId = sessionId;
     if (!activeSessionId) {
@@ -43,6 +142,25 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Resolve the audience; without one, phone-side privacy settings decide who sees the post
+    let statusAudience: StatusAudience | undefined;
+    let statusJidList: string[] | undefined;
+    if (audience || audiencePresetId) {
+      const resolver = new StatusAudienceResolver();
+      try {
+        statusAudience = audiencePresetId
+          ? await resolver.fromPreset(audiencePresetId)
+          : parseStatusAudience(audience);
+        statusJidList = await resolver.resolve(statusAudience);
+      } catch (error) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid status audience',
+          details: error instanceof Error ? error.message : 'Unknown error',
+        }, { status: 400 });
+      }
+    }
+
     // Get message sender
     const messageSender = baileysManager.getMessageSender();
     
@@ -50,19 +168,32 @@ export async function POST(request: NextRequest) {
     const result = await messageSender.sendToStatus({
       sessionId: activeSessionId,
       targetType: 'status',
-      files,
+      files: hasFiles ? files : [],
+      items: storyItems,
       caption,
+      splitLongVideos: splitLongVideos !== false,
+      text: textStatus,
+      statusJidList,
+      audience: statusAudience,
     });
 
     if (result.success) {
       return NextResponse.json({
         success: true,
-        message: 'Media sent to WhatsApp Status successfully',
+        message: textStatus
+          ? 'Text posted to WhatsApp Status successfully'
+          : 'Media sent to WhatsApp Status successfully',
         result: {
           messageId: result.messageId,
           sentAt: result.sentAt,
-          filesCount: files.length,
+          sendHistoryId: result.sendHistoryId,
+          filesCount: hasFiles ? files.length : storyItems?.length || 0,
+          progress: result.progress,
           caption,
+          text: textStatus,
+          audience: statusAudience
+            ? { mode: statusAudience.mode, recipientsCount: statusJidList?.length || 0 }
+            : undefined,
         },
       });
     } else {
@@ -70,6 +201,9 @@ export async function POST(request: NextRequest) {
         success: false,
         error: 'Failed to send to WhatsApp Status',
         details: result.error,
+        // Partially posted stories can be resumed via /api/send/status/resume
+        sendHistoryId: result.sendHistoryId,
+        progress: result.progress,
       }, { status: 500 });
     }
 
@@ -115,9 +249,19 @@ export async function GET(request: NextRequest) {
         canSend,
         connectionStatus: connectionStatus.status,
         whatsappUser: connectionStatus.session,
+        textStatus: {
+          fonts: Object.keys(STATUS_FONTS),
+          maxLength: MAX_STATUS_TEXT_LENGTH,
+        },
+        video: {
+          // Longer MP4/MOV videos are split into numbered segments
+          maxSegmentDuration: STATUS_VIDEO_MAX_DURATION,
+        },
       },
       recentSends: recentSends.map((send: any) => ({
         id: send.id,
+        messageType: send.messageType,
+        text: send.content ? JSON.parse(send.content).text : undefined,
         filesCount: Array.isArray(send.files) ? send.files.length : 0,
         sentAt: send.completedAt,
         status: send.status,
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SessionService } from '@/lib/db';
+import { StatusArchive } from '@/lib/services';
+import { loadSettings } from '@/lib/settings';
+
+/**
+ * GET /api/send/status/timeline - Posted statuses with media, expiry and view counts
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200);
+    const offset = parseInt(searchParams.get('offset') || '0');
+    const sessionId = searchParams.get('sessionId');
+
+    let activeSessionId = sessionId;
+    if (!activeSessionId) {
+      const activeSession = await SessionService.getActive();
+      if (!activeSession) {
+        return NextResponse.json({
+          success: true,
+          statuses: [],
+          message: 'No active session found',
+        });
+      }
+      activeSessionId = activeSession.id;
+    }
+
+    const statuses = await StatusArchive.getTimeline(activeSessionId, { limit, offset });
+    const settings = await loadSettings();
+
+    return NextResponse.json({
+      success: true,
+      statuses: statuses.map(status => ({
+        ...status,
+        media: status.media.map(item => ({
+          ...item,
+          previewUrl: item.available ? `/api/upload/preview/${item.fileId}` : undefined,
+          thumbnailUrl: item.available ? `/api/upload/preview/${item.fileId}?thumbnail=1` : undefined,
+        })),
+      })),
+      retentionDays: settings.privacy.statusMediaRetentionDays,
+      pagination: {
+        limit,
+        offset,
+      },
+    });
+
+  } catch (error) {
+    console.error('Status timeline error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load status timeline',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,77 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { SessionService } from '@/lib/db';
-import { promises as fs } from 'fs';
-import path from 'path';
-
-interface AppSettings {
-  general: {
-    appName: string;
-    autoConnect: boolean;
-    notificationsEnabled: boolean;
-    darkMode: boolean;
-    language: string;
-    timezone: string;
-    maxFileSize: number; // MB
-    maxConcurrentUploads: number;
-  };
-  upload: {
-    defaultSendAsDocument: boolean;
-    enableCompression: boolean;
-    compressionLevel: number;
-    maxRetries: number;
-    chunkSize: number; // MB
-    bandwidthLimit?: number; // bytes per second
-  };
-  whatsapp: {
-    statusUpdateInterval: number; // minutes
-    autoReconnect: boolean;
-    maxReconnectAttempts: number;
-    keepAlive: boolean;
-    markOnlineOnConnect: boolean;
-  };
-  privacy: {
-    logLevel: 'error' | 'warn' | 'info' | 'debug';
-    clearLogsAfterDays: number;
-    clearHistoryAfterDays: number;
-    clearTempFilesAfterHours: number;
-  };
-}
-
-const DEFAULT_SETTINGS: AppSettings = {
-  general: {
-    appName: 'WhatsApp Status Handler',
-    autoConnect: false,
-    notificationsEnabled: true,
-    darkMode: false,
-    language: 'en',
-    timezone: 'UTC',
-    maxFileSize: 100,
-    maxConcurrentUploads: 3,
-  },
-  upload: {
-    defaultSendAsDocument: false,
-    enableCompression: false,
-    compressionLevel: 5,
-    maxRetries: 3,
-    chunkSize: 1,
-    bandwidthLimit: undefined,
-  },
-  whatsapp: {
-    statusUpdateInterval: 30,
-    autoReconnect: true,
-    maxReconnectAttempts: 5,
-    keepAlive: true,
-    markOnlineOnConnect: true,
-  },
-  privacy: {
-    logLevel: 'info',
-    clearLogsAfterDays: 30,
-    clearHistoryAfterDays: 90,
-    clearTempFilesAfterHours: 24,
-  },
-};
-
-const SETTINGS_FILE = path.join(process.cwd(), 'data', 'settings.json');
+import { AppSettings, DEFAULT_SETTINGS, loadSettings, saveSettings } from '@/lib/settings';
 
 /**
  * GET /api/settings - Get application settings
@@ -211,36 +139,6 @@ export async function DELETE(request: NextRequest) {
   }
 }
 
-/**
- * Load settings from file
- */
-async function loadSettings(): Promise<AppSettings> {
-  try {
-    await fs.mkdir(path.dirname(SETTINGS_FILE), { recursive: true });
-    const data = await fs.readFile(SETTINGS_FILE, 'utf8');
-    const parsed = JSON.parse(data);
-    
-    // Merge with defaults to ensure all properties exist
-    return {
-      general: { ...DEFAULT_SETTINGS.general, ...parsed.general },
-      upload: { ...DEFAULT_SETTINGS.upload, ...parsed.upload },
-      whatsapp: { ...DEFAULT_SETTINGS.whatsapp, ...parsed.whatsapp },
-      privacy: { ...DEFAULT_SETTINGS.privacy, ...parsed.privacy },
-    };
-  } catch (error) {
-    // File doesn't exist or is corrupted, return defaults
-    return DEFAULT_SETTINGS;
-  }
-}
-
-/**
- * Save settings to file
- */
-async function saveSettings(settings: AppSettings): Promise<void> {
-  await fs.mkdir(path.dirname(SETTINGS_FILE), { recursive: true });
-  await fs.writeFile(SETTINGS_FILE, JSON.stringify(settings, null, 2), 'utf8');
-}
-
 /**
  * Validate settings
  */
@@ -291,6 +189,14 @@ function validateSettings(settings: AppSettings): { valid: boolean; errors: stri
     errors.push('Clear temp files period must be between 1 and 168 hours');
   }
 
+  if (settings.privacy.statusMediaRetentionDays < 1 || settings.privacy.statusMediaRetentionDays > 365) {
+    errors.push('Status media retention must be between 1 and 365 days');
+  }
+
+  if (typeof settings.privacy.scrubMediaMetadata !== 'boolean') {
+    errors.push('Scrub media metadata must be true or false');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -63,6 +63,8 @@ export async function POST(request: NextRequest) {
           sizeBefore: result.totalSizeBefore,
           sizeAfter: result.totalSizeAfter,
           processedFileIds: result.processedFiles.map(f => f.originalId),
+          // MediaMeta IDs of processed uploads, ready to send
+          variantIds: result.processedFiles.map(f => f.variantId).filter(Boolean),
           failures: result.failedFiles,
         },
       });
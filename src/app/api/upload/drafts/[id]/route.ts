@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MediaReferenceRepository } from '@/lib/db';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Abandoned drafts stop protecting their media after this long
+const DRAFT_REFERENCE_TTL_DAYS = 7;
+
+/**
+ * PUT /api/upload/drafts/[id] - Keep the files of an unsent draft from being cleaned up
+ * Body: { fileIds: string[] } replaces the draft's files; an empty list releases them
+ */
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    if (!Array.isArray(body.fileIds) || !body.fileIds.every((fileId: unknown) => typeof fileId === 'string')) {
+      return NextResponse.json({
+        success: false,
+        error: 'fileIds must be an array of file IDs'
+      }, { status: 400 });
+    }
+
+    const expiresAt = new Date(Date.now() + DRAFT_REFERENCE_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const referenced = await MediaReferenceRepository.set('draft', id, body.fileIds, expiresAt);
+
+    return NextResponse.json({
+      success: true,
+      referenced,
+      expiresAt,
+    });
+
+  } catch (error) {
+    console.error('Update draft references error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to update draft files',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/upload/drafts/[id] - Release the files of a discarded draft
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const released = await MediaReferenceRepository.release('draft', id);
+
+    return NextResponse.json({
+      success: true,
+      released,
+    });
+
+  } catch (error) {
+    console.error('Release draft references error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to release draft files',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { MediaMetaService } from '@/lib/db';
+import { MediaBlobStore } from '@/lib/uploader';
 
 /**
  * GET /api/upload/history - Get uploaded media history
@@ -86,6 +87,10 @@ export async function GET(request: NextRequest) {
       previewUrl: file.mimetype.startsWith('image/') || file.mimetype.startsWith('video/')
         ? `/api/upload/preview/${file.id}`
         : null,
+      // Small JPEG for lists; a poster frame for videos
+      thumbnailUrl: file.mimetype.startsWith('image/') || file.mimetype.startsWith('video/')
+        ? `/api/upload/preview/${file.id}?thumbnail=1`
+        : null,
       // Generate download URL
       downloadUrl: `/api/upload/download/${file.id}`,
     }));
@@ -127,27 +132,27 @@ export async function DELETE(request: NextRequest) {
     const fileIds = searchParams.get('fileIds')?.split(',') || [];
     const clearAll = searchParams.get('clearAll') === 'true';
 
-    if (clearAll) {
-      // Clear all temporary files
-      const deletedCount = await MediaMetaService.deleteMany({
-        where: { isTemporary: true }
-      });
-      
-      return NextResponse.json({
-        success: true,
-        message: `Cleared ${deletedCount} files from upload history`,
-        deletedCount,
+    if (clearAll || fileIds.length > 0) {
+      // Files still needed by a pending send, schedule, template or draft are kept
+      const files = await MediaMetaService.findMany({
+        where: clearAll ? { isTemporary: true } : { id: { in: fileIds } }
       });
-    } else if (fileIds.length > 0) {
-      // Delete specific files
-      const deletedCount = await MediaMetaService.deleteMany({
-        where: { id: { in: fileIds } }
-      });
-      
+      const deletable = await MediaBlobStore.filterUnreferenced(files);
+
+      for (const file of deletable) {
+        await MediaBlobStore.deleteMedia(file);
+      }
+
+      const deletedCount = deletable.length;
+      const skippedCount = files.length - deletable.length;
+
       return NextResponse.json({
         success: true,
-        message: `Deleted ${deletedCount} files from upload history`,
+        message: clearAll
+          ? `Cleared ${deletedCount} files from upload history`
+          : `Deleted ${deletedCount} files from upload history`,
         deletedCount,
+        skippedCount,
       });
     } else {
       return NextResponse.json({
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { MediaMetaService } from '@/lib/db';
 import { createReadStream, existsSync } from 'fs';
 import { stat } from 'fs/promises';
+import { Thumbnailer } from '@/lib/uploader/Thumbnailer';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -9,6 +10,7 @@ interface RouteParams {
 
 /**
  * GET /api/upload/preview/[id] - Preview uploaded file (inline display)
+ * Query: thumbnail=1 returns a small JPEG (video poster frame for videos)
  */
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -47,6 +49,25 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       }, { status: 404 });
     }
 
+    if (request.nextUrl.searchParams.get('thumbnail') === '1') {
+      const thumbnail = await Thumbnailer.get(fileMeta, 'preview');
+
+      if (!thumbnail) {
+        return NextResponse.json({
+          success: false,
+          error: 'Thumbnail not available'
+        }, { status: 404 });
+      }
+
+      return new NextResponse(new Uint8Array(thumbnail), {
+        headers: {
+          'Content-Type': 'image/jpeg',
+          'Content-Length': thumbnail.length.toString(),
+          'Cache-Control': 'public, max-age=86400', // Cache for 1 day
+        },
+      });
+    }
+
     // Get file stats
     const fileStats = await stat(fileMeta.storagePath);
 
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { StickerProcessor } from '@/lib/uploader';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * DELETE /api/upload/stickers/[id] - Remove a sticker from the library
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const deleted = await StickerProcessor.delete(id);
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Sticker not found',
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('Sticker deletion error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to delete sticker',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
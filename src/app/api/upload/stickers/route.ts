@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MediaMetaService, StickerRepository } from '@/lib/db';
+import type { StickerWithMedia } from '@/lib/db';
+import { StickerProcessor } from '@/lib/uploader';
+
+function toResponse(sticker: StickerWithMedia) {
+  return {
+    id: sticker.id,
+    mediaId: sticker.mediaId,
+    sourceMediaId: sticker.sourceMediaId,
+    packName: sticker.packName,
+    author: sticker.author,
+    emojis: sticker.emojis ? JSON.parse(sticker.emojis) : [],
+    sizeBytes: sticker.media.sizeBytes,
+    useCount: sticker.useCount,
+    lastUsedAt: sticker.lastUsedAt,
+    createdAt: sticker.createdAt,
+    previewUrl: `/api/upload/preview/${sticker.mediaId}`,
+  };
+}
+
+/**
+ * GET /api/upload/stickers - Sticker library, most recently used first
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '100');
+    const offset = parseInt(request.nextUrl.searchParams.get('offset') || '0');
+
+    const [stickers, total] = await Promise.all([
+      StickerRepository.findAll({ limit, offset }),
+      StickerRepository.count(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      stickers: stickers.map(toResponse),
+      total,
+    });
+
+  } catch (error) {
+    console.error('Sticker library error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to load stickers',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/upload/stickers - Make a library sticker from an uploaded image
+ * Body: { fileId, packName?, author?, emojis? }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { fileId, packName, author, emojis } = await request.json();
+
+    if (!fileId || typeof fileId !== 'string') {
+      return NextResponse.json({
+        success: false,
+        error: 'fileId is required',
+      }, { status: 400 });
+    }
+
+    const source = await MediaMetaService.getById(fileId);
+    if (!source) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found',
+      }, { status: 404 });
+    }
+
+    if (!StickerProcessor.supports(source)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Stickers can only be made from PNG, JPEG or WebP images',
+      }, { status: 400 });
+    }
+
+    const sticker = await StickerProcessor.create(source, {
+      packName: typeof packName === 'string' ? packName : undefined,
+      author: typeof author === 'string' ? author : undefined,
+      emojis: Array.isArray(emojis) ? emojis.filter((emoji): emoji is string => typeof emoji === 'string') : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      sticker: toResponse(sticker),
+    });
+
+  } catch (error) {
+    console.error('Sticker creation error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to create sticker',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { MediaMetaService, MediaReferenceRepository } from '@/lib/db';
+import { MediaBlobStore } from '@/lib/uploader';
+
+/**
+ * GET /api/upload/storage - Content-addressed storage statistics
+ */
+export async function GET() {
+  try {
+    const [records, references] = await Promise.all([
+      MediaMetaService.findMany({ select: { storagePath: true, sizeBytes: true } }),
+      MediaReferenceRepository.getStatistics(),
+    ]);
+
+    // Each blob is counted once however many records share it
+    const blobs = new Map<string, number>();
+    let sharedSize = 0;
+    let legacyRecords = 0;
+    for (const record of records) {
+      if (MediaBlobStore.isBlobPath(record.storagePath)) {
+        blobs.set(record.storagePath, record.sizeBytes);
+        sharedSize += record.sizeBytes;
+      } else {
+        legacyRecords++;
+      }
+    }
+
+    const blobSize = Array.from(blobs.values()).reduce((sum, size) => sum + size, 0);
+
+    return NextResponse.json({
+      success: true,
+      storage: {
+        records: records.length,
+        blobs: blobs.size,
+        legacyRecords,
+        blobSize,
+        savedBytes: sharedSize - blobSize,
+        references,
+      },
+    });
+
+  } catch (error) {
+    console.error('Storage statistics error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to get storage statistics',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/upload/storage - Move files uploaded before content addressing
+ * into the blob store, folding duplicate copies together
+ */
+export async function POST() {
+  try {
+    const result = await MediaBlobStore.foldDuplicates();
+
+    return NextResponse.json({
+      success: true,
+      message: `Migrated ${result.filesMigrated} files, folding ${result.duplicatesFolded} duplicates`,
+      result,
+    });
+
+  } catch (error) {
+    console.error('Storage migration error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Storage migration failed',
+      details: error instanceof Error ? error.message : 'Unknown error',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { existsSync } from 'fs';
+import { MediaMetaService } from '@/lib/db';
+import { VoiceNoteProcessor } from '@/lib/uploader/VoiceNoteProcessor';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/upload/waveform/[id] - Voice note waveform of an audio file
+ * (64 levels of 0-100) and its duration in seconds
+ */
+export async function GET(_request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const fileMeta = await MediaMetaService.getById(id);
+    if (!fileMeta) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found'
+      }, { status: 404 });
+    }
+
+    if (!fileMeta.mimetype.startsWith('audio/')) {
+      return NextResponse.json({
+        success: false,
+        error: 'Waveforms are only available for audio files'
+      }, { status: 400 });
+    }
+
+    if (!existsSync(fileMeta.storagePath)) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found on storage'
+      }, { status: 404 });
+    }
+
+    const waveform = await VoiceNoteProcessor.getWaveform(fileMeta);
+    if (!waveform) {
+      return NextResponse.json({
+        success: false,
+        error: 'Waveform not available'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      waveform: Array.from(waveform),
+      duration: fileMeta.duration,
+    });
+
+  } catch (error) {
+    console.error('Waveform error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Failed to compute waveform',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,256 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { cn } from '@/lib/utils/cn';
+
+export interface AutoReplyRulePayload {
+  name: string;
+  priority: number;
+  cooldownMinutes: number;
+  conditions: {
+    keywords?: string[];
+    regex?: string;
+    chats: 'contacts' | 'groups' | 'all';
+    groupJids?: string[];
+    broadcastListIds?: string[];
+    timeWindow?: { start: string; end: string; days?: number[] };
+  };
+  response:
+    | { type: 'text'; text: string }
+    | { type: 'media'; mediaId: string; caption?: string }
+    | { type: 'template'; templateId: string };
+}
+
+export interface AutoReplyTemplateOption {
+  id: string;
+  name: string;
+}
+
+interface AutoReplyRuleFormProps {
+  templates: AutoReplyTemplateOption[];
+  onSave: (payload: AutoReplyRulePayload) => Promise<void> | void;
+  className?: string;
+}
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function splitList(value: string): string[] | undefined {
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+export function AutoReplyRuleForm({ templates, onSave, className }: AutoReplyRuleFormProps) {
+  const [name, setName] = useState('');
+  const [priority, setPriority] = useState('0');
+  const [cooldownMinutes, setCooldownMinutes] = useState('60');
+  const [keywords, setKeywords] = useState('');
+  const [regex, setRegex] = useState('');
+  const [chats, setChats] = useState<'contacts' | 'groups' | 'all'>('contacts');
+  const [groupJids, setGroupJids] = useState('');
+  const [lists, setLists] = useState<Array<{ id: string; name: string }>>([]);
+  const [listIds, setListIds] = useState<string[]>([]);
+  const [useTimeWindow, setUseTimeWindow] = useState(false);
+  const [start, setStart] = useState('18:00');
+  const [end, setEnd] = useState('09:00');
+  const [days, setDays] = useState<number[]>([]);
+  const [responseType, setResponseType] = useState<'text' | 'media' | 'template'>('text');
+  const [responseText, setResponseText] = useState('');
+  const [mediaId, setMediaId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/send/broadcast')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setLists(data.broadcastLists);
+      })
+      .catch(error => console.error('Failed to fetch broadcast lists:', error));
+  }, []);
+
+  const hasResponse = responseType === 'text'
+    ? responseText.trim().length > 0
+    : responseType === 'media' ? mediaId.trim().length > 0 : templateId.length > 0;
+  const canSave = name.trim().length > 0 && hasResponse && !isSaving;
+
+  const toggle = <T,>(values: T[], value: T) =>
+    values.includes(value) ? values.filter(item => item !== value) : [...values, value];
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const response: AutoReplyRulePayload['response'] = responseType === 'text'
+      ? { type: 'text', text: responseText }
+      : responseType === 'media'
+        ? { type: 'media', mediaId: mediaId.trim(), caption: responseText.trim() || undefined }
+        : { type: 'template', templateId };
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        priority: parseInt(priority) || 0,
+        cooldownMinutes: parseInt(cooldownMinutes) || 0,
+        conditions: {
+          keywords: splitList(keywords),
+          regex: regex.trim() || undefined,
+          chats,
+          groupJids: chats === 'contacts' ? undefined : splitList(groupJids),
+          broadcastListIds: listIds.length > 0 ? listIds : undefined,
+          timeWindow: useTimeWindow ? { start, end, days: days.length > 0 ? days : undefined } : undefined,
+        },
+        response,
+      });
+      setName('');
+      setKeywords('');
+      setRegex('');
+      setResponseText('');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-4', className)}>
+      <h2 className="text-lg font-semibold text-gray-900">New rule</h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Opening hours" />
+        <Input label="Priority (lower first)" type="number" min={0} value={priority} onChange={(e) => setPriority(e.target.value)} />
+        <Input label="Cooldown per contact (min)" type="number" min={0} value={cooldownMinutes} onChange={(e) => setCooldownMinutes(e.target.value)} />
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700">When</h3>
+        <Input
+          label="Keywords (any, comma-separated)"
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+          placeholder="price, opening hours"
+        />
+        <Input
+          label="Pattern (regular expression)"
+          value={regex}
+          onChange={(e) => setRegex(e.target.value)}
+          placeholder="^order\s*#?\d+"
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="block text-sm font-medium text-gray-700">
+            Chats
+            <select
+              value={chats}
+              onChange={(e) => setChats(e.target.value as typeof chats)}
+              className="mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              <option value="contacts">Direct chats</option>
+              <option value="groups">Groups</option>
+              <option value="all">All chats</option>
+            </select>
+          </label>
+          {chats !== 'contacts' && (
+            <Input
+              label="Only these groups (JIDs, optional)"
+              value={groupJids}
+              onChange={(e) => setGroupJids(e.target.value)}
+              placeholder="1203630...@g.us"
+            />
+          )}
+        </div>
+
+        {lists.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-1">Sender on a list (optional)</p>
+            <div className="flex flex-wrap gap-2">
+              {lists.map(list => (
+                <button
+                  key={list.id}
+                  type="button"
+                  onClick={() => setListIds(toggle(listIds, list.id))}
+                  className={cn(
+                    'px-3 py-1 rounded-full text-xs border',
+                    listIds.includes(list.id) ? 'bg-green-50 border-green-500 text-green-700' : 'border-gray-300 text-gray-600'
+                  )}
+                >
+                  {list.name}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input type="checkbox" checked={useTimeWindow} onChange={(e) => setUseTimeWindow(e.target.checked)} />
+          Only at certain times
+        </label>
+        {useTimeWindow && (
+          <div className="flex flex-wrap items-end gap-3">
+            <Input label="From" type="time" value={start} onChange={(e) => setStart(e.target.value)} />
+            <Input label="Until" type="time" value={end} onChange={(e) => setEnd(e.target.value)} />
+            <div className="flex gap-1">
+              {DAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  type="button"
+                  onClick={() => setDays(toggle(days, day))}
+                  className={cn(
+                    'px-2 py-1 rounded text-xs border',
+                    days.includes(day) ? 'bg-green-50 border-green-500 text-green-700' : 'border-gray-300 text-gray-600'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium text-gray-700">Reply with</h3>
+        <select
+          value={responseType}
+          onChange={(e) => setResponseType(e.target.value as typeof responseType)}
+          className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+        >
+          <option value="text">Text</option>
+          <option value="media">Uploaded media</option>
+          <option value="template" disabled={templates.length === 0}>Message template</option>
+        </select>
+
+        {responseType === 'media' && (
+          <Input label="Media file ID" value={mediaId} onChange={(e) => setMediaId(e.target.value)} />
+        )}
+        {responseType === 'template' ? (
+          <select
+            value={templateId}
+            onChange={(e) => setTemplateId(e.target.value)}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="">Choose a template</option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>{template.name}</option>
+            ))}
+          </select>
+        ) : (
+          <textarea
+            value={responseText}
+            onChange={(e) => setResponseText(e.target.value)}
+            rows={3}
+            placeholder={responseType === 'text' ? 'Hi {{name}}, thanks for your message!' : 'Caption (optional)'}
+            className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+        )}
+        <p className="text-xs text-gray-500">{'{{name}}, {{phone}} and {{message}} are filled in from the incoming message.'}</p>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={!canSave}>
+          {isSaving ? 'Saving...' : 'Save rule'}
+        </Button>
+      </div>
+    </div>
+  );
+}
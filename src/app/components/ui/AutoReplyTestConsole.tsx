@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { cn } from '@/lib/utils/cn';
+
+interface Evaluation {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  outcome: 'matched' | 'cooldown' | 'no_match';
+  reason?: string;
+  cooldownEndsAt?: string;
+}
+
+interface TestResult {
+  wouldReply: boolean;
+  reply?: { type: 'text'; text: string } | { type: 'media'; mediaId: string; caption?: string };
+  error?: string;
+  evaluations: Evaluation[];
+  rateLimit?: { allowed: boolean; reason?: string };
+}
+
+const OUTCOME_STYLES: Record<Evaluation['outcome'], string> = {
+  matched: 'bg-green-50 text-green-700',
+  cooldown: 'bg-yellow-50 text-yellow-700',
+  no_match: 'bg-gray-50 text-gray-500',
+};
+
+/**
+ * Runs a sample message through the rules; nothing is sent
+ */
+export function AutoReplyTestConsole({ className }: { className?: string }) {
+  const [text, setText] = useState('');
+  const [from, setFrom] = useState('');
+  const [groupJid, setGroupJid] = useState('');
+  const [result, setResult] = useState<TestResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auto-replies/test', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, from, groupJid: groupJid.trim() || undefined }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setResult(data);
+      } else {
+        setResult(null);
+        setError(data.details || data.error);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Test failed');
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3', className)}>
+      <h2 className="text-lg font-semibold text-gray-900">Test console</h2>
+      <p className="text-xs text-gray-500">See which rule would answer a message. Nothing is sent.</p>
+
+      <Input label="From (phone number)" value={from} onChange={(e) => setFrom(e.target.value)} placeholder="14155550123" />
+      <Input label="In group (JID, optional)" value={groupJid} onChange={(e) => setGroupJid(e.target.value)} />
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        rows={3}
+        placeholder="Sample message"
+        className="block w-full rounded-md border border-gray-300 px-3 py-2 text-sm"
+      />
+      <Button onClick={handleTest} disabled={!from.trim() || isTesting}>
+        {isTesting ? 'Testing...' : 'Test'}
+      </Button>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          {result.reply ? (
+            <div className="rounded-md bg-green-50 border border-green-200 p-3 text-sm text-green-900 whitespace-pre-wrap">
+              {result.reply.type === 'text'
+                ? result.reply.text
+                : `Media ${result.reply.mediaId}${result.reply.caption ? `: ${result.reply.caption}` : ''}`}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">{result.error || 'No reply would be sent.'}</p>
+          )}
+          {result.reply && result.rateLimit && !result.rateLimit.allowed && (
+            <p className="text-xs text-yellow-700">Right now this reply would be held back: {result.rateLimit.reason}</p>
+          )}
+
+          <ul className="space-y-1">
+            {result.evaluations.map(evaluation => (
+              <li key={evaluation.ruleId} className={cn('rounded px-2 py-1 text-xs', OUTCOME_STYLES[evaluation.outcome])}>
+                <span className="font-medium">{evaluation.ruleName}</span>
+                {' — '}
+                {evaluation.outcome === 'matched' && 'matches'}
+                {evaluation.outcome === 'cooldown' && evaluation.cooldownEndsAt &&
+                  `matches, cooling down until ${new Date(evaluation.cooldownEndsAt).toLocaleString()}`}
+                {evaluation.outcome === 'no_match' && evaluation.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
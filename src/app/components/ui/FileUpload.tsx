@@ -7,6 +7,7 @@ import { cn } from '@/lib/utils/cn';
 export interface FileWithPreview extends File {
   id: string;
   preview?: string;
+  thumbnail?: string; // Small image for lists; a poster frame for videos
   uploadProgress?: number;
   uploadStatus?: 'pending' | 'uploading' | 'completed' | 'error';
   error?: string;
@@ -30,6 +30,7 @@ interface MediaHistoryFile {
   height?: number;
   isTemporary: boolean;
   previewUrl?: string;
+  thumbnailUrl?: string;
   downloadUrl: string;
 }
 
@@ -219,6 +220,7 @@ export function MediaHistory({
     uploadStatus: 'completed' as const,
     mediaMetaId: file.id,
     preview: file.previewUrl,
+    thumbnail: file.thumbnailUrl,
     // Add minimal File-like properties
     webkitRelativePath: '',
     arrayBuffer: async () => new ArrayBuffer(0),
@@ -24,6 +24,7 @@ import {
 } from 'lucide-react';
 import { cn } from '@/lib/utils/cn';
 import { FileWithPreview } from './FileUpload';
+import { VoiceNoteWaveform } from './VoiceNoteWaveform';
 
 interface MediaPreviewProps {
   file: FileWithPreview;
@@ -45,6 +46,7 @@ export function MediaPreview({
   onClose 
 }: MediaPreviewProps) {
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
 
   // Early return if file is not provided or missing required properties
   if (!file) {
@@ -98,7 +100,7 @@ export function MediaPreview({
             onClick={handlePreviewClick}
           >
             <img
-              src={file.preview}
+              src={file.thumbnail || file.preview}
               alt={fileName}
               className={cn(
                 "w-full object-cover transition-transform group-hover:scale-105",
@@ -145,14 +147,33 @@ export function MediaPreview({
             className="relative cursor-pointer overflow-hidden rounded-lg bg-gray-100"
             onClick={handlePreviewClick}
           >
-            <video
-              src={file.preview}
-              className={cn(
-                "w-full object-cover",
-                showControls ? "h-48" : "h-full"
-              )}
-              preload="metadata"
-            />
+            {file.thumbnail && !thumbnailFailed ? (
+              <>
+                <img
+                  src={file.thumbnail}
+                  alt={fileName}
+                  className={cn(
+                    "w-full object-cover",
+                    showControls ? "h-48" : "h-full"
+                  )}
+                  onError={() => setThumbnailFailed(true)}
+                />
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <div className="p-2 bg-black/50 rounded-full">
+                    <Play className="w-5 h-5 text-white" />
+                  </div>
+                </div>
+              </>
+            ) : (
+              <video
+                src={file.preview}
+                className={cn(
+                  "w-full object-cover",
+                  showControls ? "h-48" : "h-full"
+                )}
+                preload="metadata"
+              />
+            )}
             {showControls && (
               <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
                 <Play className="w-8 h-8 text-white" />
@@ -173,6 +194,20 @@ export function MediaPreview({
               </>
             )}
           </div>
+        ) : fileType.startsWith('audio/') && file.mediaMetaId ? (
+          <div className={cn(
+            "w-full bg-gray-100 rounded-lg flex flex-col items-center justify-center gap-2 text-gray-500",
+            showControls ? "h-48" : "h-full"
+          )}>
+            <Music className="w-8 h-8" />
+            <VoiceNoteWaveform mediaId={file.mediaMetaId} />
+            {showControls && (
+              <>
+                <p className="text-sm text-center px-2 truncate w-full">{fileName}</p>
+                <p className="text-xs text-gray-400">{formatFileSize(fileSize)}</p>
+              </>
+            )}
+          </div>
         ) : (
           <div className={cn(
             "w-full bg-gray-100 rounded-lg flex flex-col items-center justify-center text-gray-500",
@@ -468,6 +503,7 @@ function VideoPlayer({ file }: { file: FileWithPreview }) {
       <video
         ref={videoRef}
         src={file.preview}
+        poster={file.thumbnail}
         className="max-w-full max-h-full"
         onClick={togglePlay}
       />
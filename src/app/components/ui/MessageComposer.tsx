@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import { MessageSquare, Send } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface TextMessagePayload {
+  text: string;
+  mentionEveryone: boolean; // Groups only
+}
+
+interface MessageComposerProps {
+  targetType: 'contact' | 'group';
+  onSend: (payload: TextMessagePayload) => Promise<void> | void;
+  maxLength?: number;
+  className?: string;
+}
+
+export function MessageComposer({ targetType, onSend, maxLength = 4096, className }: MessageComposerProps) {
+  const [text, setText] = useState('');
+  const [mentionEveryone, setMentionEveryone] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const canSend = text.trim().length > 0 && text.length <= maxLength && !isSending;
+
+  const handleSend = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await onSend({ text, mentionEveryone: targetType === 'group' && mentionEveryone });
+      setText('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <MessageSquare className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Text Message</h2>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={targetType === 'group' ? 'Type a message... use @name or @number to mention members' : 'Type a message...'}
+        rows={4}
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+      />
+      <div className="flex items-center justify-between mb-3">
+        <p className="text-xs text-gray-500">
+          Mentions match saved contact names (first name or full name without spaces) or phone numbers with country code.
+        </p>
+        <span className={cn('text-xs', text.length > maxLength ? 'text-red-600' : 'text-gray-500')}>
+          {text.length}/{maxLength}
+        </span>
+      </div>
+
+      <div className="flex items-center justify-between">
+        {targetType === 'group' ? (
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={mentionEveryone}
+              onChange={(e) => setMentionEveryone(e.target.checked)}
+              className="mr-2"
+            />
+            Mention everyone
+          </label>
+        ) : <span />}
+
+        <Button
+          onClick={handleSend}
+          disabled={!canSend}
+          className="bg-green-600 text-white hover:bg-green-700"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {isSending ? 'Sending...' : 'Send Message'}
+        </Button>
+      </div>
+    </div>
+  );
+}
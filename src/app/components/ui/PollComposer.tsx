@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import { BarChart3, Plus, Send, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface PollPayload {
+  question: string;
+  options: string[];
+  multiSelect: boolean;
+}
+
+interface PollComposerProps {
+  onSend: (payload: PollPayload) => Promise<void> | void;
+  className?: string;
+}
+
+// WhatsApp's limits on poll options
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 12;
+
+export function PollComposer({ onSend, className }: PollComposerProps) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(['', '']);
+  const [multiSelect, setMultiSelect] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+
+  const filledOptions = options.map(option => option.trim()).filter(Boolean);
+  const hasDuplicates = new Set(filledOptions).size !== filledOptions.length;
+  const canSend = question.trim().length > 0 &&
+    filledOptions.length >= MIN_OPTIONS &&
+    !hasDuplicates &&
+    !isSending;
+
+  const updateOption = (index: number, value: string) => {
+    setOptions(options.map((option, i) => (i === index ? value : option)));
+  };
+
+  const handleSend = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await onSend({ question: question.trim(), options: filledOptions, multiSelect });
+      setQuestion('');
+      setOptions(['', '']);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <BarChart3 className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Poll</h2>
+      </div>
+
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question"
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+
+        {options.map((option, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={option}
+              onChange={(e) => updateOption(index, e.target.value)}
+              placeholder={`Option ${index + 1}`}
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {options.length > MIN_OPTIONS && (
+              <button
+                type="button"
+                onClick={() => setOptions(options.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title="Remove option"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+
+        {hasDuplicates && <p className="text-xs text-red-600">Options must be distinct</p>}
+
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setOptions([...options, ''])}
+            disabled={options.length >= MAX_OPTIONS}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add option
+          </button>
+
+          <label className="flex items-center text-sm">
+            <input
+              type="checkbox"
+              checked={multiSelect}
+              onChange={(e) => setMultiSelect(e.target.checked)}
+              className="mr-2"
+            />
+            Allow multiple answers
+          </label>
+        </div>
+
+        <Button
+          onClick={handleSend}
+          disabled={!canSend}
+          className="w-full bg-green-600 text-white hover:bg-green-700"
+        >
+          <Send className="w-4 h-4 mr-2" />
+          {isSending ? 'Sending...' : 'Send Poll'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface PollResultsData {
+  id: string;
+  chatJid: string;
+  chatName?: string;
+  question: string;
+  multiSelect: boolean;
+  createdAt: string;
+  totalVoters: number;
+  options: Array<{
+    name: string;
+    count: number;
+    percentage: number;
+    voters: Array<{ jid: string; name?: string; phoneNumber: string }>;
+  }>;
+}
+
+interface PollResultsProps {
+  pollId: string;
+  className?: string;
+}
+
+/**
+ * Live results of one poll, kept current over the poll's event stream
+ */
+export function PollResults({ pollId, className }: PollResultsProps) {
+  const [poll, setPoll] = useState<PollResultsData | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPoll(null);
+    setError(null);
+
+    const eventSource = new EventSource(`/api/polls/${pollId}/events`);
+
+    eventSource.onopen = () => setIsLive(true);
+
+    eventSource.addEventListener('results', (event) => {
+      setPoll(JSON.parse((event as MessageEvent).data));
+    });
+
+    eventSource.addEventListener('error', (event) => {
+      const data = (event as MessageEvent).data;
+      if (data) {
+        setError(JSON.parse(data).error);
+        eventSource.close();
+      }
+      setIsLive(false);
+    });
+
+    return () => eventSource.close();
+  }, [pollId]);
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">{poll?.question || 'Poll results'}</h2>
+        </div>
+        <span className={cn('flex items-center text-xs', isLive ? 'text-green-600' : 'text-gray-400')}>
+          <span className={cn('w-2 h-2 rounded-full mr-1', isLive ? 'bg-green-500' : 'bg-gray-300')} />
+          {isLive ? 'Live' : 'Offline'}
+        </span>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {poll && (
+        <>
+          <p className="text-xs text-gray-500 mb-4">
+            {poll.chatName || poll.chatJid} • {poll.totalVoters} voter{poll.totalVoters === 1 ? '' : 's'}
+            {poll.multiSelect && ' • multiple answers'}
+          </p>
+
+          <div className="space-y-3">
+            {poll.options.map(option => (
+              <div key={option.name}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-gray-900">{option.name}</span>
+                  <span className="text-gray-500">{option.count} ({option.percentage}%)</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-green-500 transition-all"
+                    style={{ width: `${option.percentage}%` }}
+                  />
+                </div>
+                {option.voters.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    {option.voters.map(voter => voter.name || voter.phoneNumber).join(', ')}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -33,7 +33,7 @@ interface EncryptionConfig {
 
 interface SecurityEvent {
   id: string;
-  type: 'authentication' | 'file_access' | 'encryption' | 'intrusion' | 'configuration';
+  type: 'authentication' | 'file_access' | 'encryption' | 'intrusion' | 'configuration' | 'audit';
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
   source: string;
@@ -14,17 +14,31 @@ export interface SendHistoryItem {
     type: string;
   }>;
   caption?: string;
-  status: 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled';
+  messageType?: 'media' | 'text';
+  status: 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled' | 'revoked';
   createdAt: Date;
   completedAt?: Date;
+  revokedAt?: Date;
   error?: string;
   messageId?: string;
   deliveryStatus?: 'sent' | 'delivered' | 'read';
+  progress?: {
+    sent: number;
+    total: number;
+  };
+  viewCount?: number; // Status posts only
+}
+
+interface StatusViewer {
+  jid: string;
+  name?: string;
+  phoneNumber: string;
+  viewedAt: string;
 }
 
 interface SendHistoryFilters {
   targetType: 'all' | 'status' | 'contact' | 'group' | 'broadcast';
-  status: 'all' | 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled';
+  status: 'all' | 'pending' | 'sending' | 'completed' | 'failed' | 'cancelled' | 'revoked';
   dateRange: 'all' | '1h' | '24h' | '7d' | '30d' | 'custom';
   search: string;
 }
@@ -34,6 +48,8 @@ interface SendHistoryProps {
   loading?: boolean;
   onRefresh?: () => void;
   onExport?: (filters: SendHistoryFilters) => void;
+  onResume?: (item: SendHistoryItem) => void;
+  onRevoke?: (item: SendHistoryItem) => void;
   className?: string;
 }
 
@@ -43,6 +59,7 @@ const statusColors = {
   completed: 'bg-green-100 text-green-800',
   failed: 'bg-red-100 text-red-800',
   cancelled: 'bg-gray-100 text-gray-800',
+  revoked: 'bg-purple-100 text-purple-800',
 };
 
 const targetTypeIcons = {
@@ -73,6 +90,8 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
   loading = false,
   onRefresh,
   onExport,
+  onResume,
+  onRevoke,
   className = '',
 }) => {
   const [filters, setFilters] = useState<SendHistoryFilters>({
@@ -82,9 +101,27 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
     search: '',
   });
 
-  const [sortBy, setSortBy] = useState<'createdAt' | 'completedAt' | 'targetName'>('createdAt');
+  const [sortBy, setSortBy] = useState<'createdAt' | 'completedAt' | 'targetName' | 'viewCount'>('createdAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [showDetails, setShowDetails] = useState<string | null>(null);
+  const [viewers, setViewers] = useState<Record<string, StatusViewer[]>>({});
+
+  const toggleDetails = async (item: SendHistoryItem) => {
+    const expanding = showDetails !== item.id;
+    setShowDetails(expanding ? item.id : null);
+
+    if (expanding && item.targetType === 'status' && item.viewCount) {
+      try {
+        const response = await fetch(`/api/send/history/${item.id}/viewers`);
+        const data = await response.json();
+        if (data.success) {
+          setViewers(prev => ({ ...prev, [item.id]: data.viewers }));
+        }
+      } catch (error) {
+        console.error('Failed to load status viewers:', error);
+      }
+    }
+  };
 
   // Filter and sort items
   const filteredItems = useMemo(() => {
@@ -150,6 +187,10 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
           aValue = a.targetName.toLowerCase();
           bValue = b.targetName.toLowerCase();
           break;
+        case 'viewCount':
+          aValue = a.viewCount || 0;
+          bValue = b.viewCount || 0;
+          break;
         default:
           return 0;
       }
@@ -247,6 +288,7 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
               <option value="pending">Pending</option>
               <option value="sending">Sending</option>
               <option value="cancelled">Cancelled</option>
+              <option value="revoked">Revoked</option>
             </select>
           </div>
 
@@ -295,6 +337,7 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
               <option value="createdAt">Created</option>
               <option value="completedAt">Completed</option>
               <option value="targetName">Target Name</option>
+              <option value="viewCount">Viewers</option>
             </select>
             <button
               onClick={() => setSortOrder(prev => prev === 'asc' ? 'desc' : 'asc')}
@@ -337,7 +380,9 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
                       </div>
                       
                       <p className="text-xs text-gray-600 mb-2">
-                        {item.files.length} file{item.files.length !== 1 ? 's' : ''} • 
+                        {item.messageType === 'text'
+                          ? 'Text post • '
+                          : `${item.files.length} file${item.files.length !== 1 ? 's' : ''} • `}
                         {item.files.reduce((sum, file) => sum + file.size, 0) > 0 && (
                           <span> {formatFileSize(item.files.reduce((sum, file) => sum + file.size, 0))} • </span>
                         )}
@@ -353,15 +398,46 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
                         {item.completedAt && (
                           <span>Completed {formatDistanceToNow(item.completedAt, { addSuffix: true })}</span>
                         )}
+                        {item.revokedAt && (
+                          <span>Deleted {formatDistanceToNow(item.revokedAt, { addSuffix: true })}</span>
+                        )}
+                        {item.progress && item.progress.total > 1 && (
+                          <span>{item.progress.sent}/{item.progress.total} posted</span>
+                        )}
                         {item.error && (
                           <span className="text-red-600">Error: {item.error}</span>
                         )}
+                        {onResume && item.status === 'failed' && item.progress
+                          && item.progress.sent < item.progress.total && (
+                          <button
+                            onClick={() => onResume(item)}
+                            className="text-blue-600 hover:text-blue-800 font-medium"
+                          >
+                            Resume
+                          </button>
+                        )}
+                        {onRevoke && item.targetType === 'status'
+                          && (item.status === 'completed' || (item.status === 'failed' && (item.progress?.sent ?? 0) > 0)) && (
+                          <button
+                            onClick={() => onRevoke(item)}
+                            className="text-red-600 hover:text-red-800 font-medium"
+                          >
+                            Delete from status
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
                   
+                  {item.viewCount !== undefined && (
+                    <div className="flex-shrink-0 text-right mr-3" title="Status viewers">
+                      <div className="text-sm font-semibold text-gray-900">{item.viewCount}</div>
+                      <div className="text-xs text-gray-500">viewer{item.viewCount !== 1 ? 's' : ''}</div>
+                    </div>
+                  )}
+
                   <button
-                    onClick={() => setShowDetails(showDetails === item.id ? null : item.id)}
+                    onClick={() => toggleDetails(item)}
                     className="text-gray-400 hover:text-gray-600 p-1"
                   >
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -397,6 +473,20 @@ export const SendHistory: React.FC<SendHistoryProps> = ({
                         </div>
                       </div>
                     </div>
+
+                    {viewers[item.id] && viewers[item.id].length > 0 && (
+                      <div className="mt-4">
+                        <h5 className="text-xs font-medium text-gray-700 mb-2">Viewed by</h5>
+                        <div className="space-y-1 max-h-48 overflow-y-auto">
+                          {viewers[item.id].map(viewer => (
+                            <div key={viewer.jid} className="text-xs text-gray-600 flex items-center justify-between">
+                              <span className="truncate">{viewer.name || viewer.phoneNumber}</span>
+                              <span>{format(new Date(viewer.viewedAt), 'MMM d, HH:mm')}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
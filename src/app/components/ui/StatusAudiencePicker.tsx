@@ -0,0 +1,273 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from './Button';
+import { Users, Save, Trash2, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export type StatusAudienceMode = 'all_contacts' | 'favorites' | 'broadcast_list' | 'except';
+
+export interface StatusAudienceSelection {
+  presetId?: string;
+  audience?: {
+    mode: StatusAudienceMode;
+    broadcastListId?: string;
+    excludedJids?: string[];
+  };
+}
+
+interface AudiencePreset {
+  id: string;
+  name: string;
+  mode: StatusAudienceMode;
+  broadcastListId?: string | null;
+  excludedJids: string[];
+}
+
+interface BroadcastListOption {
+  id: string;
+  name: string;
+  recipientsCount: number;
+}
+
+interface ContactOption {
+  id: string;
+  name?: string;
+  pushName?: string;
+}
+
+interface StatusAudiencePickerProps {
+  value: StatusAudienceSelection;
+  onChange: (value: StatusAudienceSelection) => void;
+  className?: string;
+}
+
+const MODE_LABELS: Record<StatusAudienceMode, string> = {
+  all_contacts: 'All contacts',
+  favorites: 'Favorites only',
+  broadcast_list: 'Broadcast list',
+  except: 'Everyone except...',
+};
+
+export function StatusAudiencePicker({ value, onChange, className }: StatusAudiencePickerProps) {
+  const [presets, setPresets] = useState<AudiencePreset[]>([]);
+  const [broadcastLists, setBroadcastLists] = useState<BroadcastListOption[]>([]);
+  const [contactSearch, setContactSearch] = useState('');
+  const [contactResults, setContactResults] = useState<ContactOption[]>([]);
+
+  const loadPresets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/send/status/audiences');
+      const data = await response.json();
+      if (data.success) {
+        setPresets(data.presets);
+        setBroadcastLists(data.broadcastLists);
+      }
+    } catch (error) {
+      console.error('Failed to load audience presets:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadPresets();
+  }, [loadPresets]);
+
+  const selectedPreset = presets.find(preset => preset.id === value.presetId);
+  const activeAudience = selectedPreset
+    ? {
+        mode: selectedPreset.mode,
+        broadcastListId: selectedPreset.broadcastListId || undefined,
+        excludedJids: selectedPreset.excludedJids,
+      }
+    : value.audience;
+  const excludedJids = activeAudience?.excludedJids || [];
+
+  // Search contacts for the exclusion list
+  useEffect(() => {
+    if (activeAudience?.mode !== 'except' || contactSearch.trim().length < 2) {
+      setContactResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/contacts?search=${encodeURIComponent(contactSearch)}&limit=10`);
+        const data = await response.json();
+        setContactResults(data.contacts || []);
+      } catch (error) {
+        console.error('Contact search failed:', error);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [contactSearch, activeAudience?.mode]);
+
+  const handleSelect = (selected: string) => {
+    if (selected === '') {
+      onChange({});
+    } else if (selected.startsWith('preset:')) {
+      onChange({ presetId: selected.slice('preset:'.length) });
+    } else {
+      onChange({ audience: { mode: selected as StatusAudienceMode } });
+    }
+  };
+
+  const updateAudience = (updates: Partial<NonNullable<StatusAudienceSelection['audience']>>) => {
+    if (!activeAudience) return;
+    // Editing a preset turns it into a custom audience until saved again
+    onChange({ audience: { ...activeAudience, ...updates } });
+  };
+
+  const handleSavePreset = async () => {
+    if (!activeAudience) return;
+
+    const name = prompt('Preset name:');
+    if (!name) return;
+
+    try {
+      const response = await fetch('/api/send/status/audiences', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, ...activeAudience }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await loadPresets();
+        onChange({ presetId: data.preset.id });
+      } else {
+        alert(`Failed to save preset: ${data.error}`);
+      }
+    } catch (error) {
+      console.error('Failed to save preset:', error);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!selectedPreset || !confirm(`Delete preset "${selectedPreset.name}"?`)) return;
+
+    try {
+      await fetch(`/api/send/status/audiences?presetId=${selectedPreset.id}`, { method: 'DELETE' });
+      await loadPresets();
+      onChange({});
+    } catch (error) {
+      console.error('Failed to delete preset:', error);
+    }
+  };
+
+  const selectValue = value.presetId
+    ? `preset:${value.presetId}`
+    : value.audience?.mode || '';
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <Users className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Status Audience</h2>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2">
+        <select
+          value={selectValue}
+          onChange={(e) => handleSelect(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Phone privacy settings (default)</option>
+          {(Object.keys(MODE_LABELS) as StatusAudienceMode[]).map(mode => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+          {presets.length > 0 && (
+            <optgroup label="Saved presets">
+              {presets.map(preset => (
+                <option key={preset.id} value={`preset:${preset.id}`}>
+                  {preset.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+
+        {activeAudience && !selectedPreset && (
+          <Button variant="outline" size="sm" onClick={handleSavePreset} className="h-auto">
+            <Save className="w-4 h-4 mr-1" />
+            Save preset
+          </Button>
+        )}
+        {selectedPreset && (
+          <Button variant="outline" size="sm" onClick={handleDeletePreset} className="h-auto">
+            <Trash2 className="w-4 h-4 mr-1" />
+            Delete preset
+          </Button>
+        )}
+      </div>
+
+      {activeAudience?.mode === 'broadcast_list' && (
+        <select
+          value={activeAudience.broadcastListId || ''}
+          onChange={(e) => updateAudience({ broadcastListId: e.target.value || undefined })}
+          className="mt-3 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Select a broadcast list...</option>
+          {broadcastLists.map(list => (
+            <option key={list.id} value={list.id}>
+              {list.name} ({list.recipientsCount})
+            </option>
+          ))}
+        </select>
+      )}
+
+      {activeAudience?.mode === 'except' && (
+        <div className="mt-3">
+          <input
+            type="text"
+            value={contactSearch}
+            onChange={(e) => setContactSearch(e.target.value)}
+            placeholder="Search contacts to exclude..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {contactResults.length > 0 && (
+            <div className="mt-1 border border-gray-200 rounded-lg max-h-40 overflow-y-auto">
+              {contactResults
+                .filter(contact => !excludedJids.includes(contact.id))
+                .map(contact => (
+                  <button
+                    key={contact.id}
+                    type="button"
+                    onClick={() => {
+                      updateAudience({ excludedJids: [...excludedJids, contact.id] });
+                      setContactSearch('');
+                    }}
+                    className="block w-full text-left px-3 py-2 text-sm hover:bg-gray-50"
+                  >
+                    {contact.name || contact.pushName || contact.id}
+                  </button>
+                ))}
+            </div>
+          )}
+          {excludedJids.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-2">
+              {excludedJids.map(jid => (
+                <span
+                  key={jid}
+                  className="inline-flex items-center px-2 py-1 bg-gray-100 text-gray-700 rounded-full text-xs"
+                >
+                  {jid.split('@')[0]}
+                  <button
+                    type="button"
+                    onClick={() => updateAudience({ excludedJids: excludedJids.filter(j => j !== jid) })}
+                    className="ml-1 text-gray-400 hover:text-gray-600"
+                    aria-label={`Remove ${jid}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
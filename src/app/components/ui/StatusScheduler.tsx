@@ -0,0 +1,319 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from './Button';
+import { CalendarClock, Repeat, X } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+type ScheduleMode = 'once' | 'daily' | 'weekdays' | 'weekly' | 'cron';
+type MissedRunPolicy = 'fire' | 'skip' | 'mark_missed';
+
+interface ScheduledStatusSend {
+  id: string;
+  scheduledTime: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'missed';
+  caption?: string;
+  filesCount: number;
+  targetNames: string[];
+  errors?: string[];
+  recurrence: {
+    description: string;
+    runCount: number;
+    lastRunAt?: string;
+    lastRunStatus?: 'completed' | 'failed' | 'missed' | 'skipped';
+  } | null;
+}
+
+interface StatusSchedulerProps {
+  fileIds: string[]; // Media meta IDs of the staged story items
+  audience?: Record<string, unknown>; // audience / audiencePresetId fields for the API
+  className?: string;
+}
+
+const STATUS_TARGET = {
+  id: 'status@broadcast',
+  type: 'status',
+  name: 'My Status',
+  recipient: 'status@broadcast',
+  canSend: true,
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function StatusScheduler({ fileIds, audience, className }: StatusSchedulerProps) {
+  const [mode, setMode] = useState<ScheduleMode>('daily');
+  const [runAt, setRunAt] = useState('');
+  const [time, setTime] = useState('09:00');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [cron, setCron] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [maxRuns, setMaxRuns] = useState('');
+  const [caption, setCaption] = useState('');
+  const [missedRunPolicy, setMissedRunPolicy] = useState<MissedRunPolicy>('mark_missed');
+  const [isScheduling, setIsScheduling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<ScheduledStatusSend[]>([]);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/send/schedule?status=pending');
+      const data = await response.json();
+      if (data.success) {
+        setSchedules(data.scheduledSends.filter((send: ScheduledStatusSend) =>
+          send.targetNames.includes(STATUS_TARGET.name)
+        ));
+      }
+    } catch (error) {
+      console.error('Failed to load scheduled status posts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const buildRecurrence = () => {
+    if (mode === 'once') return undefined;
+
+    const limits = {
+      endDate: endDate ? new Date(`${endDate}T23:59:59`).toISOString() : undefined,
+      maxRuns: maxRuns ? Number(maxRuns) : undefined,
+    };
+
+    if (mode === 'cron') {
+      return { cron: cron.trim(), ...limits };
+    }
+    return {
+      preset: mode,
+      time,
+      dayOfWeek: mode === 'weekly' ? dayOfWeek : undefined,
+      ...limits,
+    };
+  };
+
+  const handleSchedule = async () => {
+    setIsScheduling(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/send/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          targets: [STATUS_TARGET],
+          files: fileIds,
+          caption: caption.trim() || undefined,
+          scheduledTime: mode === 'once' && runAt ? new Date(runAt).toISOString() : undefined,
+          recurrence: buildRecurrence(),
+          missedRunPolicy,
+          ...audience,
+        }),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.details || data.error);
+        return;
+      }
+
+      setCaption('');
+      fetchSchedules();
+    } catch (error) {
+      console.error('Schedule status error:', error);
+      setError('Failed to schedule status post');
+    } finally {
+      setIsScheduling(false);
+    }
+  };
+
+  const handleCancel = async (id: string) => {
+    try {
+      await fetch(`/api/send/schedule?sendId=${id}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Cancel schedule error:', error);
+    } finally {
+      fetchSchedules();
+    }
+  };
+
+  if (fileIds.length === 0 && schedules.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <CalendarClock className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Scheduled Status Posts</h2>
+      </div>
+
+      {fileIds.length > 0 && (
+        <div className="space-y-3 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-gray-700">
+              Repeat
+              <select
+                value={mode}
+                onChange={(e) => setMode(e.target.value as ScheduleMode)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="once">Once</option>
+                <option value="daily">Every day</option>
+                <option value="weekdays">Weekdays</option>
+                <option value="weekly">Every week</option>
+                <option value="cron">Custom (cron)</option>
+              </select>
+            </label>
+
+            {mode === 'once' && (
+              <label className="block text-xs font-medium text-gray-700">
+                Post at
+                <input
+                  type="datetime-local"
+                  value={runAt}
+                  onChange={(e) => setRunAt(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+            )}
+
+            {mode === 'weekly' && (
+              <label className="block text-xs font-medium text-gray-700">
+                Day
+                <select
+                  value={dayOfWeek}
+                  onChange={(e) => setDayOfWeek(Number(e.target.value))}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {(mode === 'daily' || mode === 'weekdays' || mode === 'weekly') && (
+              <label className="block text-xs font-medium text-gray-700">
+                Time
+                <input
+                  type="time"
+                  value={time}
+                  onChange={(e) => setTime(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                />
+              </label>
+            )}
+
+            {mode === 'cron' && (
+              <label className="block text-xs font-medium text-gray-700 md:col-span-2">
+                Cron expression (minute hour day month weekday)
+                <input
+                  type="text"
+                  value={cron}
+                  onChange={(e) => setCron(e.target.value)}
+                  placeholder="30 8 * * 1-5"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm font-mono"
+                />
+              </label>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="block text-xs font-medium text-gray-700">
+              If the app was offline
+              <select
+                value={missedRunPolicy}
+                onChange={(e) => setMissedRunPolicy(e.target.value as MissedRunPolicy)}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              >
+                <option value="mark_missed">Mark the run as missed</option>
+                <option value="fire">Post as soon as possible</option>
+                <option value="skip">Skip the run</option>
+              </select>
+            </label>
+            {mode !== 'once' && (
+              <>
+                <label className="block text-xs font-medium text-gray-700">
+                  End date (optional)
+                  <input
+                    type="date"
+                    value={endDate}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+                <label className="block text-xs font-medium text-gray-700">
+                  Max runs (optional)
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxRuns}
+                    onChange={(e) => setMaxRuns(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                  />
+                </label>
+              </>
+            )}
+          </div>
+
+          <input
+            type="text"
+            value={caption}
+            onChange={(e) => setCaption(e.target.value)}
+            placeholder="Caption (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          {error && (
+            <div className="p-3 rounded-lg text-sm bg-red-50 text-red-800">{error}</div>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              onClick={handleSchedule}
+              disabled={isScheduling || (mode === 'once' && !runAt) || (mode === 'cron' && !cron.trim())}
+            >
+              <Repeat className="w-4 h-4 mr-2" />
+              {isScheduling ? 'Scheduling...' : `Schedule ${fileIds.length} item${fileIds.length !== 1 ? 's' : ''}`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {schedules.length > 0 && (
+        <ul className="divide-y divide-gray-200 border-t border-gray-200">
+          {schedules.map(schedule => (
+            <li key={schedule.id} className="py-3 flex items-start justify-between gap-3">
+              <div className="text-sm">
+                <div className="font-medium text-gray-900">
+                  {schedule.recurrence?.description || 'One-time post'}
+                </div>
+                <div className="text-xs text-gray-600">
+                  Next run {format(new Date(schedule.scheduledTime), 'MMM d, yyyy HH:mm')}
+                  {' '}({formatDistanceToNow(new Date(schedule.scheduledTime), { addSuffix: true })})
+                  {' • '}{schedule.filesCount} file{schedule.filesCount !== 1 ? 's' : ''}
+                  {schedule.caption && <> • {schedule.caption}</>}
+                </div>
+                {schedule.recurrence && schedule.recurrence.runCount > 0 && (
+                  <div className="text-xs text-gray-500">
+                    {schedule.recurrence.runCount} run{schedule.recurrence.runCount !== 1 ? 's' : ''} so far
+                    {schedule.recurrence.lastRunStatus === 'failed' && (
+                      <span className="text-red-600"> • last run failed{schedule.errors?.[0] && `: ${schedule.errors[0]}`}</span>
+                    )}
+                    {schedule.recurrence.lastRunStatus === 'missed' && (
+                      <span className="text-amber-600"> • last run missed while offline</span>
+                    )}
+                  </div>
+                )}
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleCancel(schedule.id)} title="Cancel schedule">
+                <X className="w-4 h-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import { ArrowUp, ArrowDown, Layers, Send, Trash2, RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface StatusStoryDraftItem {
+  fileId: string;
+  name: string;
+  type: string;
+  preview?: string;
+  caption: string;
+  delaySeconds: number;
+}
+
+export interface StatusStoryItemPayload {
+  fileId: string;
+  caption?: string;
+  delayAfterMs?: number;
+}
+
+export interface StatusStoryResult {
+  success: boolean;
+  sendHistoryId?: string;
+  progress?: { sent: number; total: number };
+  error?: string;
+}
+
+interface StatusStoryEditorProps {
+  items: StatusStoryDraftItem[];
+  onChange: (items: StatusStoryDraftItem[]) => void;
+  onPost: (items: StatusStoryItemPayload[]) => Promise<StatusStoryResult>;
+  onResume: (sendHistoryId: string) => Promise<StatusStoryResult>;
+  className?: string;
+}
+
+// Mirrors the server-side cap on delays between story items
+const MAX_DELAY_SECONDS = 300;
+
+export function StatusStoryEditor({ items, onChange, onPost, onResume, className }: StatusStoryEditorProps) {
+  const [isPosting, setIsPosting] = useState(false);
+  const [lastResult, setLastResult] = useState<StatusStoryResult | null>(null);
+
+  const updateItem = (index: number, updates: Partial<StatusStoryDraftItem>) => {
+    onChange(items.map((item, i) => (i === index ? { ...item, ...updates } : item)));
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+
+    const reordered = [...items];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const removeItem = (index: number) => {
+    onChange(items.filter((_, i) => i !== index));
+  };
+
+  const handlePost = async () => {
+    setIsPosting(true);
+    try {
+      const result = await onPost(items.map(item => ({
+        fileId: item.fileId,
+        caption: item.caption.trim() || undefined,
+        delayAfterMs: item.delaySeconds > 0 ? item.delaySeconds * 1000 : undefined,
+      })));
+      setLastResult(result);
+      if (result.success) {
+        onChange([]);
+      }
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  const handleResume = async () => {
+    if (!lastResult?.sendHistoryId) return;
+
+    setIsPosting(true);
+    try {
+      const result = await onResume(lastResult.sendHistoryId);
+      setLastResult(result);
+      if (result.success) {
+        onChange([]);
+      }
+    } finally {
+      setIsPosting(false);
+    }
+  };
+
+  if (items.length === 0 && !lastResult) {
+    return null;
+  }
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <Layers className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Status Story</h2>
+        <span className="text-sm text-gray-500">
+          {items.length} item{items.length !== 1 ? 's' : ''}, posted in this order
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item, index) => (
+          <div key={item.fileId} className="flex gap-3 border border-gray-200 rounded-lg p-3">
+            <div className="flex-shrink-0 w-16 h-16 bg-gray-100 rounded overflow-hidden flex items-center justify-center">
+              {item.preview && item.type.startsWith('image/') ? (
+                <img src={item.preview} alt={item.name} className="w-full h-full object-cover" />
+              ) : (
+                <span className="text-xs text-gray-500">{index + 1}</span>
+              )}
+            </div>
+
+            <div className="flex-1 space-y-2">
+              <div className="text-xs text-gray-600 truncate">
+                {index + 1}. {item.name}
+              </div>
+              <input
+                type="text"
+                value={item.caption}
+                onChange={(e) => updateItem(index, { caption: e.target.value })}
+                placeholder="Caption (optional)"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {index < items.length - 1 && (
+                <label className="flex items-center gap-2 text-xs text-gray-600">
+                  Wait
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_DELAY_SECONDS}
+                    value={item.delaySeconds}
+                    onChange={(e) => updateItem(index, {
+                      delaySeconds: Math.min(MAX_DELAY_SECONDS, Math.max(0, Number(e.target.value) || 0)),
+                    })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                  />
+                  seconds before the next item
+                </label>
+              )}
+            </div>
+
+            <div className="flex flex-col gap-1">
+              <Button variant="ghost" size="icon" onClick={() => moveItem(index, -1)} disabled={index === 0}>
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => moveItem(index, 1)}
+                disabled={index === items.length - 1}
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button variant="ghost" size="icon" onClick={() => removeItem(index)}>
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {lastResult && (
+        <div
+          className={cn(
+            'mt-4 p-3 rounded-lg text-sm',
+            lastResult.success ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'
+          )}
+        >
+          {lastResult.progress && (
+            <span className="font-medium">
+              {lastResult.progress.sent}/{lastResult.progress.total} posted.{' '}
+            </span>
+          )}
+          {lastResult.success ? 'Story posted.' : lastResult.error}
+        </div>
+      )}
+
+      <div className="mt-4 flex justify-end gap-2">
+        {lastResult && !lastResult.success && lastResult.sendHistoryId && (
+          <Button variant="outline" onClick={handleResume} disabled={isPosting}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Resume
+          </Button>
+        )}
+        {items.length > 0 && (
+          <Button
+            onClick={handlePost}
+            disabled={isPosting}
+            className="bg-green-600 text-white hover:bg-green-700"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isPosting ? 'Posting...' : 'Post Story'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
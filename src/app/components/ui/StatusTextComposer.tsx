@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from './Button';
+import { Send, Type } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export type StatusFontOption =
+  | 'system'
+  | 'system-text'
+  | 'script'
+  | 'system-bold'
+  | 'morning-breeze'
+  | 'calistoga'
+  | 'exo'
+  | 'courier';
+
+export interface TextStatusPayload {
+  text: string;
+  backgroundColor: string;
+  font: StatusFontOption;
+  linkPreview: boolean;
+}
+
+interface StatusTextComposerProps {
+  onSend: (payload: TextStatusPayload) => Promise<void> | void;
+  maxLength?: number;
+  className?: string;
+}
+
+const BACKGROUND_COLORS = [
+  '#128C7E',
+  '#075E54',
+  '#25D366',
+  '#34B7F1',
+  '#7E57C2',
+  '#E91E63',
+  '#F4511E',
+  '#FFB300',
+  '#6D4C41',
+  '#263238',
+];
+
+// Approximate browser fonts so the preview resembles the phone rendering
+const FONT_OPTIONS: Array<{ value: StatusFontOption; label: string; css: string }> = [
+  { value: 'system', label: 'Sans', css: 'font-sans' },
+  { value: 'system-text', label: 'Serif', css: 'font-serif' },
+  { value: 'script', label: 'Script', css: 'font-serif italic' },
+  { value: 'system-bold', label: 'Bold', css: 'font-sans font-bold' },
+  { value: 'morning-breeze', label: 'Morning Breeze', css: 'font-sans tracking-wide' },
+  { value: 'calistoga', label: 'Calistoga', css: 'font-serif font-bold' },
+  { value: 'exo', label: 'Exo', css: 'font-sans font-extrabold uppercase' },
+  { value: 'courier', label: 'Courier', css: 'font-mono font-bold' },
+];
+
+export function StatusTextComposer({ onSend, maxLength = 700, className }: StatusTextComposerProps) {
+  const [text, setText] = useState('');
+  const [backgroundColor, setBackgroundColor] = useState(BACKGROUND_COLORS[0]);
+  const [font, setFont] = useState<StatusFontOption>('system');
+  const [linkPreview, setLinkPreview] = useState(true);
+  const [isSending, setIsSending] = useState(false);
+
+  const fontCss = FONT_OPTIONS.find(option => option.value === font)?.css;
+  const hasUrl = /https?:\/\/\S+/i.test(text);
+  const canSend = text.trim().length > 0 && text.length <= maxLength && !isSending;
+
+  const handleSend = async () => {
+    if (!canSend) return;
+
+    setIsSending(true);
+    try {
+      await onSend({ text, backgroundColor, font, linkPreview: hasUrl && linkPreview });
+      setText('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center gap-2 mb-4">
+        <Type className="w-5 h-5 text-gray-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Text Status</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Editor */}
+        <div className="space-y-4">
+          <div>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="Type a status..."
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+            />
+            <div
+              className={cn(
+                'text-xs text-right',
+                text.length > maxLength ? 'text-red-600' : 'text-gray-500'
+              )}
+            >
+              {text.length}/{maxLength}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-2">Background</label>
+            <div className="flex flex-wrap gap-2">
+              {BACKGROUND_COLORS.map(color => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => setBackgroundColor(color)}
+                  aria-label={`Background ${color}`}
+                  className={cn(
+                    'w-7 h-7 rounded-full border-2 transition-transform',
+                    backgroundColor === color ? 'border-gray-900 scale-110' : 'border-transparent'
+                  )}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Font</label>
+            <select
+              value={font}
+              onChange={(e) => setFont(e.target.value as StatusFontOption)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {FONT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className={cn('flex items-center text-sm', !hasUrl && 'text-gray-400')}>
+            <input
+              type="checkbox"
+              checked={linkPreview}
+              disabled={!hasUrl}
+              onChange={(e) => setLinkPreview(e.target.checked)}
+              className="mr-2"
+            />
+            Show link preview
+          </label>
+        </div>
+
+        {/* Preview */}
+        <div className="flex flex-col">
+          <div
+            className="flex-1 min-h-[200px] rounded-lg flex items-center justify-center p-6 text-center text-white text-xl break-words"
+            style={{ backgroundColor }}
+          >
+            <p className={cn('whitespace-pre-wrap', fontCss)}>
+              {text || <span className="opacity-60">Preview</span>}
+            </p>
+          </div>
+
+          <Button
+            onClick={handleSend}
+            disabled={!canSend}
+            className="mt-4 bg-green-600 text-white hover:bg-green-700"
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {isSending ? 'Posting...' : 'Post Text Status'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { Button } from './Button';
+import { Clock, Eye, ImageOff, Layers, Repeat } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface StatusTimelineMediaItem {
+  fileId: string;
+  caption?: string;
+  mimetype?: string;
+  originalName?: string;
+  available: boolean;
+  status: string;
+  previewUrl?: string;
+  thumbnailUrl?: string;
+}
+
+export interface StatusTimelineItem {
+  id: string;
+  messageType: 'media' | 'text';
+  text?: {
+    text: string;
+    backgroundColor?: string;
+  };
+  media: StatusTimelineMediaItem[];
+  status: string;
+  postedAt: string;
+  expiresAt: string;
+  isLive: boolean;
+  viewCount: number;
+  canRepost: boolean;
+}
+
+interface StatusTimelineProps {
+  statuses: StatusTimelineItem[];
+  retentionDays?: number;
+  repostingId?: string | null;
+  onRepost?: (status: StatusTimelineItem) => void;
+  className?: string;
+}
+
+function formatTimeLeft(expiresAt: Date, now: number): string {
+  const minutes = Math.max(0, Math.floor((expiresAt.getTime() - now) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m left` : `${minutes}m left`;
+}
+
+function StatusThumbnail({ status }: { status: StatusTimelineItem }) {
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+
+  if (status.messageType === 'text') {
+    return (
+      <div
+        className="w-full h-full flex items-center justify-center p-2 text-white text-xs text-center overflow-hidden"
+        style={{ backgroundColor: status.text?.backgroundColor || '#128C7E' }}
+      >
+        <span className="line-clamp-4">{status.text?.text}</span>
+      </div>
+    );
+  }
+
+  const first = status.media[0];
+  if (!first?.previewUrl) {
+    return (
+      <div className="w-full h-full flex items-center justify-center bg-gray-100 text-gray-400" title="Media no longer stored">
+        <ImageOff className="w-6 h-6" />
+      </div>
+    );
+  }
+
+  // Fall back to the original file when no thumbnail can be made (e.g. no video frame backend)
+  if (first.thumbnailUrl && !thumbnailFailed) {
+    return (
+      <img
+        src={first.thumbnailUrl}
+        alt={first.originalName || 'Status media'}
+        className="w-full h-full object-cover"
+        onError={() => setThumbnailFailed(true)}
+      />
+    );
+  }
+
+  if (first.mimetype?.startsWith('video/')) {
+    return <video src={first.previewUrl} preload="metadata" muted className="w-full h-full object-cover" />;
+  }
+
+  return <img src={first.previewUrl} alt={first.originalName || 'Status media'} className="w-full h-full object-cover" />;
+}
+
+export function StatusTimeline({ statuses, retentionDays, repostingId, onRepost, className }: StatusTimelineProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the expiry countdowns current
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (statuses.length === 0) {
+    return (
+      <div className={cn('text-center py-12 bg-white rounded-lg border border-gray-200', className)}>
+        <p className="text-gray-500">You have not posted any statuses yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      {retentionDays !== undefined && (
+        <p className="text-xs text-gray-500">
+          Posted media is kept for {retentionDays} day{retentionDays !== 1 ? 's' : ''} after posting so it can be re-posted.
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {statuses.map(status => {
+          const expiresAt = new Date(status.expiresAt);
+          const captions = status.media.map(item => item.caption).filter(Boolean);
+
+          return (
+            <li key={status.id} className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex gap-4">
+              <div className="relative w-20 h-20 flex-shrink-0 rounded-md overflow-hidden border border-gray-200">
+                <StatusThumbnail status={status} />
+                {status.media.length > 1 && (
+                  <span className="absolute bottom-1 right-1 flex items-center gap-0.5 bg-black/60 text-white text-xs px-1 rounded">
+                    <Layers className="w-3 h-3" />
+                    {status.media.length}
+                  </span>
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="text-sm font-medium text-gray-900">
+                    {format(new Date(status.postedAt), 'MMM d, yyyy HH:mm')}
+                  </span>
+                  {status.status === 'revoked' ? (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">Deleted</span>
+                  ) : status.isLive ? (
+                    <span className="flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                      <Clock className="w-3 h-3" />
+                      {formatTimeLeft(expiresAt, now)}
+                    </span>
+                  ) : (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                      Expired {formatDistanceToNow(expiresAt, { addSuffix: true })}
+                    </span>
+                  )}
+                  {status.status === 'failed' && (
+                    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">Partially posted</span>
+                  )}
+                </div>
+
+                <p className="mt-1 text-sm text-gray-700 truncate">
+                  {status.messageType === 'text'
+                    ? status.text?.text
+                    : captions.length > 0
+                      ? captions.join(' • ')
+                      : <span className="text-gray-400">No caption</span>}
+                </p>
+
+                <div className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                  <Eye className="w-3 h-3" />
+                  {status.viewCount} viewer{status.viewCount !== 1 ? 's' : ''}
+                </div>
+              </div>
+
+              {onRepost && (
+                <div className="flex-shrink-0 self-center">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onRepost(status)}
+                    disabled={!status.canRepost || repostingId === status.id}
+                    title={status.canRepost ? 'Post this status again' : 'Media is no longer stored'}
+                  >
+                    <Repeat className="w-4 h-4 mr-2" />
+                    {repostingId === status.id ? 'Posting...' : 'Re-post'}
+                  </Button>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Sticker as StickerIcon, Send, Trash2, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils/cn';
+
+export interface StickerLibraryItem {
+  id: string;
+  mediaId: string; // Media meta ID of the WebP sticker, sendable like any upload
+  packName: string;
+  author?: string | null;
+  emojis: string[];
+  useCount: number;
+  lastUsedAt?: string | null;
+  createdAt: string;
+  previewUrl: string;
+}
+
+interface StickerLibraryProps {
+  onSend?: (sticker: StickerLibraryItem) => void;
+  refreshKey?: number; // Change to reload, e.g. after a send created new stickers
+  className?: string;
+}
+
+export function StickerLibrary({ onSend, refreshKey, className }: StickerLibraryProps) {
+  const [stickers, setStickers] = useState<StickerLibraryItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStickers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/upload/stickers');
+      const data = await response.json();
+      if (data.success) {
+        setStickers(data.stickers);
+        setError(null);
+      } else {
+        setError(data.details || data.error);
+      }
+    } catch (error) {
+      console.error('Failed to load stickers:', error);
+      setError('Failed to load stickers');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStickers();
+  }, [fetchStickers, refreshKey]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await fetch(`/api/upload/stickers/${id}`, { method: 'DELETE' });
+    } catch (error) {
+      console.error('Delete sticker error:', error);
+    } finally {
+      fetchStickers();
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg shadow-sm border border-gray-200 p-4', className)}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <StickerIcon className="w-5 h-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Sticker Library</h2>
+        </div>
+        <button
+          onClick={fetchStickers}
+          className="p-1 text-gray-500 hover:text-gray-700"
+          title="Refresh"
+        >
+          <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {!loading && stickers.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No stickers yet. Send an image with &quot;Send images as stickers&quot; enabled to add one.
+        </p>
+      ) : (
+        <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-3">
+          {stickers.map(sticker => (
+            <div
+              key={sticker.id}
+              className="group relative aspect-square rounded-lg bg-gray-50 border border-gray-100 p-1"
+              title={[sticker.packName, sticker.author].filter(Boolean).join(' · ')}
+            >
+              <img
+                src={sticker.previewUrl}
+                alt={sticker.emojis.join(' ') || 'Sticker'}
+                className="w-full h-full object-contain"
+              />
+              <div className="absolute inset-0 flex items-center justify-center gap-2 rounded-lg bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity">
+                {onSend && (
+                  <button
+                    onClick={() => onSend(sticker)}
+                    className="p-1.5 bg-white rounded-full text-green-700 hover:bg-green-50"
+                    title="Send sticker"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDelete(sticker.id)}
+                  className="p-1.5 bg-white rounded-full text-red-600 hover:bg-red-50"
+                  title="Remove from library"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {sticker.useCount > 0 && (
+                <span className="absolute bottom-1 right-1 text-[10px] text-gray-500">
+                  ×{sticker.useCount}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { cn } from '@/lib/utils/cn';
+
+interface VoiceNoteWaveformProps {
+  mediaId: string; // Media meta ID of an uploaded audio file
+  className?: string;
+}
+
+interface WaveformData {
+  waveform: number[]; // Levels of 0-100
+  duration?: number | null; // seconds
+}
+
+/**
+ * The waveform recipients see under a voice note, loaded from the server.
+ * Renders nothing while loading or when the audio can't be analysed.
+ */
+export function VoiceNoteWaveform({ mediaId, className }: VoiceNoteWaveformProps) {
+  const [data, setData] = useState<WaveformData | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setData(null);
+
+    fetch(`/api/upload/waveform/${mediaId}`)
+      .then(response => response.json())
+      .then(result => {
+        if (!cancelled && result.success) {
+          setData({ waveform: result.waveform, duration: result.duration });
+        }
+      })
+      .catch(error => console.error('Failed to load waveform:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [mediaId]);
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className={cn('flex items-center gap-2 w-full px-3', className)}>
+      <div className="flex items-center gap-px h-8 flex-1" aria-label="Voice note waveform">
+        {data.waveform.map((level, index) => (
+          <div
+            key={index}
+            className="flex-1 bg-green-600 rounded-sm"
+            style={{ height: `${Math.max(8, level)}%` }}
+          />
+        ))}
+      </div>
+      {typeof data.duration === 'number' && (
+        <span className="text-xs text-gray-500 tabular-nums">
+          {formatDuration(data.duration)}
+        </span>
+      )}
+    </div>
+  );
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -16,6 +16,18 @@ export { MediaPreview } from './MediaPreview';
 export { UploadProgress } from './UploadProgress';
 export { FileManager } from './FileManager';
 export { MediaHistory } from './MediaHistory';
+export { StatusTextComposer } from './StatusTextComposer';
+export { StatusAudiencePicker } from './StatusAudiencePicker';
+export { StatusStoryEditor } from './StatusStoryEditor';
+export { StatusScheduler } from './StatusScheduler';
+export { StatusTimeline } from './StatusTimeline';
+export { VoiceNoteWaveform } from './VoiceNoteWaveform';
+export { StickerLibrary } from './StickerLibrary';
+export { MessageComposer } from './MessageComposer';
+export { PollComposer } from './PollComposer';
+export { PollResults } from './PollResults';
+export { AutoReplyRuleForm } from './AutoReplyRuleForm';
+export { AutoReplyTestConsole } from './AutoReplyTestConsole';
 
 // Week 3 components
 export { StatisticsWidget, ActivityOverview } from './StatisticsWidget';
@@ -35,6 +47,19 @@ export { ContactsErrorBoundary, useErrorHandler } from './ContactsErrorBoundary'
 // Types
 export type { FileWithPreview } from './FileUpload';
 export type { UploadProgressItem } from './UploadProgress';
+export type { TextStatusPayload, StatusFontOption } from './StatusTextComposer';
+export type { StatusAudienceSelection, StatusAudienceMode } from './StatusAudiencePicker';
+export type {
+  StatusStoryDraftItem,
+  StatusStoryItemPayload,
+  StatusStoryResult
+} from './StatusStoryEditor';
+export type { StatusTimelineItem, StatusTimelineMediaItem } from './StatusTimeline';
+export type { StickerLibraryItem } from './StickerLibrary';
+export type { TextMessagePayload } from './MessageComposer';
+export type { PollPayload } from './PollComposer';
+export type { PollResultsData } from './PollResults';
+export type { AutoReplyRulePayload, AutoReplyTemplateOption } from './AutoReplyRuleForm';
 export type { 
   StatisticItem, 
   ActivityItem 
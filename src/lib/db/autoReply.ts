@@ -0,0 +1,154 @@
+import { prisma } from './client';
+import { MediaReferenceRepository } from './mediaReference';
+import type { AutoReply, AutoReplyRule as AutoReplyRuleRow } from '@prisma/client';
+import type { AutoReplyConditions, AutoReplyResponse, AutoReplyRule } from '../messaging/AutoReplyRules';
+
+export type AutoReplyStatus = 'sent' | 'rate_limited' | 'failed';
+
+export interface CreateAutoReplyRuleData {
+  name: string;
+  isActive?: boolean;
+  priority?: number;
+  conditions: AutoReplyConditions;
+  response: AutoReplyResponse;
+  cooldownMinutes?: number;
+}
+
+export type UpdateAutoReplyRuleData = Partial<CreateAutoReplyRuleData>;
+
+export interface CreateAutoReplyData {
+  ruleId: string;
+  inboundMessageId?: string;
+  chatJid: string;
+  senderJid: string;
+  status: AutoReplyStatus;
+  error?: string;
+  sendHistoryId?: string;
+}
+
+export class AutoReplyRepository {
+  /**
+   * Rules in the order they are tried: priority, then oldest first
+   */
+  static async findAll(activeOnly: boolean = false): Promise<AutoReplyRuleRow[]> {
+    return prisma.autoReplyRule.findMany({
+      where: activeOnly ? { isActive: true } : undefined,
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }]
+    });
+  }
+
+  static async findById(id: string): Promise<AutoReplyRuleRow | null> {
+    return prisma.autoReplyRule.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Store a rule; media it replies with is referenced while the rule exists
+   */
+  static async create(data: CreateAutoReplyRuleData): Promise<AutoReplyRuleRow> {
+    const row = await prisma.autoReplyRule.create({
+      data: {
+        name: data.name,
+        isActive: data.isActive,
+        priority: data.priority,
+        conditions: JSON.stringify(data.conditions),
+        response: JSON.stringify(data.response),
+        cooldownMinutes: data.cooldownMinutes
+      }
+    });
+
+    await this.referenceMedia(row.id, data.response);
+    return row;
+  }
+
+  static async update(id: string, data: UpdateAutoReplyRuleData): Promise<AutoReplyRuleRow> {
+    const row = await prisma.autoReplyRule.update({
+      where: { id },
+      data: {
+        name: data.name,
+        isActive: data.isActive,
+        priority: data.priority,
+        conditions: data.conditions ? JSON.stringify(data.conditions) : undefined,
+        response: data.response ? JSON.stringify(data.response) : undefined,
+        cooldownMinutes: data.cooldownMinutes
+      }
+    });
+
+    if (data.response) {
+      await this.referenceMedia(id, data.response);
+    }
+    return row;
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.autoReplyRule.delete({
+      where: { id }
+    });
+    await MediaReferenceRepository.release('auto_reply_rule', id);
+  }
+
+  /**
+   * Record a reply attempt; sent replies count towards the rule's triggers
+   */
+  static async logReply(data: CreateAutoReplyData): Promise<AutoReply> {
+    const reply = await prisma.autoReply.create({ data });
+
+    if (data.status === 'sent') {
+      await prisma.autoReplyRule.update({
+        where: { id: data.ruleId },
+        data: {
+          triggerCount: { increment: 1 },
+          lastTriggeredAt: reply.createdAt
+        }
+      });
+    }
+
+    return reply;
+  }
+
+  /**
+   * The rule's last sent reply to a sender, for cooldowns
+   */
+  static async findLastSentReply(ruleId: string, senderJid: string): Promise<AutoReply | null> {
+    return prisma.autoReply.findFirst({
+      where: { ruleId, senderJid, status: 'sent' },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Reply attempts newest first, optionally for one rule
+   */
+  static async findReplies(options: { ruleId?: string; limit?: number } = {}): Promise<AutoReply[]> {
+    return prisma.autoReply.findMany({
+      where: options.ruleId ? { ruleId: options.ruleId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: options.limit
+    });
+  }
+
+  static toAutoReplyRule(row: AutoReplyRuleRow): AutoReplyRule {
+    return {
+      id: row.id,
+      name: row.name,
+      isActive: row.isActive,
+      priority: row.priority,
+      conditions: JSON.parse(row.conditions),
+      response: JSON.parse(row.response),
+      cooldownMinutes: row.cooldownMinutes,
+      triggerCount: row.triggerCount,
+      lastTriggeredAt: row.lastTriggeredAt || undefined,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+
+  private static async referenceMedia(ruleId: string, response: AutoReplyResponse): Promise<void> {
+    await MediaReferenceRepository.set(
+      'auto_reply_rule',
+      ruleId,
+      response.type === 'media' ? [response.mediaId] : []
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import { prisma } from './client';
+import type { BroadcastList, BroadcastListMember } from '@prisma/client';
+
+export type BroadcastListWithMembers = BroadcastList & { members: BroadcastListMember[] };
+
+export type BroadcastListMemberType = 'contact' | 'group';
+
+export interface BroadcastListMemberData {
+  jid: string;
+  type?: BroadcastListMemberType;
+  name?: string;
+}
+
+export interface CreateBroadcastListData {
+  name: string;
+  description?: string;
+  members?: BroadcastListMemberData[];
+}
+
+export interface UpdateBroadcastListData {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+  members?: BroadcastListMemberData[]; // Replaces the current members
+}
+
+const withMembers = {
+  members: { orderBy: { addedAt: 'asc' as const } }
+};
+
+export class BroadcastListRepository {
+  static async findAll(includeInactive: boolean = false): Promise<BroadcastListWithMembers[]> {
+    return prisma.broadcastList.findMany({
+      where: includeInactive ? undefined : { isActive: true },
+      include: withMembers,
+      orderBy: { updatedAt: 'desc' }
+    });
+  }
+
+  static async findById(id: string): Promise<BroadcastListWithMembers | null> {
+    return prisma.broadcastList.findUnique({
+      where: { id },
+      include: withMembers
+    });
+  }
+
+  static async findByName(name: string): Promise<BroadcastListWithMembers | null> {
+    return prisma.broadcastList.findUnique({
+      where: { name },
+      include: withMembers
+    });
+  }
+
+  static async create(data: CreateBroadcastListData): Promise<BroadcastListWithMembers> {
+    return prisma.broadcastList.create({
+      data: {
+        name: data.name,
+        description: data.description,
+        members: {
+          create: this.dedupeMembers(data.members || [])
+        }
+      },
+      include: withMembers
+    });
+  }
+
+  static async update(id: string, data: UpdateBroadcastListData): Promise<BroadcastListWithMembers> {
+    const { members, ...rest } = data;
+
+    return prisma.broadcastList.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(members && {
+          members: {
+            deleteMany: {},
+            create: this.dedupeMembers(members)
+          }
+        })
+      },
+      include: withMembers
+    });
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.broadcastList.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Add members, skipping any already on the list; returns how many were added
+   */
+  static async addMembers(listId: string, members: BroadcastListMemberData[]): Promise<number> {
+    const existing = await prisma.broadcastListMember.findMany({
+      where: { listId },
+      select: { jid: true }
+    });
+    const existingJids = new Set(existing.map(member => member.jid));
+    const newMembers = this.dedupeMembers(members).filter(member => !existingJids.has(member.jid));
+
+    if (newMembers.length === 0) {
+      return 0;
+    }
+
+    await prisma.$transaction([
+      ...newMembers.map(member => prisma.broadcastListMember.create({
+        data: { ...member, listId }
+      })),
+      prisma.broadcastList.update({
+        where: { id: listId },
+        data: { updatedAt: new Date() }
+      })
+    ]);
+
+    return newMembers.length;
+  }
+
+  static async removeMember(listId: string, jid: string): Promise<boolean> {
+    const result = await prisma.broadcastListMember.deleteMany({
+      where: { listId, jid }
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Drop a JID from every list, e.g. when the contact goes inactive
+   */
+  static async removeMemberFromAllLists(jid: string): Promise<number> {
+    const result = await prisma.broadcastListMember.deleteMany({
+      where: { jid }
+    });
+    return result.count;
+  }
+
+  /**
+   * IDs of the active lists a JID is a member of
+   */
+  static async findListIdsByMember(jid: string): Promise<string[]> {
+    const memberships = await prisma.broadcastListMember.findMany({
+      where: { jid, list: { isActive: true } },
+      select: { listId: true }
+    });
+    return memberships.map(member => member.listId);
+  }
+
+  static async count(): Promise<number> {
+    return prisma.broadcastList.count();
+  }
+
+  private static dedupeMembers(members: BroadcastListMemberData[]) {
+    const byJid = new Map<string, { jid: string; type: BroadcastListMemberType; name?: string }>();
+
+    for (const member of members) {
+      if (!byJid.has(member.jid)) {
+        byJid.set(member.jid, {
+          jid: member.jid,
+          type: member.type || (member.jid.endsWith('@g.us') ? 'group' : 'contact'),
+          name: member.name
+        });
+      }
+    }
+
+    return Array.from(byJid.values());
+  }
+}
@@ -100,6 +100,12 @@ export class ContactRepository {
     });
   }
 
+  static async findByIds(ids: string[]): Promise<Contact[]> {
+    return prisma.contact.findMany({
+      where: { id: { in: ids } }
+    });
+  }
+
   static async create(data: CreateContactData): Promise<Contact> {
     return prisma.contact.create({
       data: {
@@ -110,17 +116,23 @@ export class ContactRepository {
   }
 
   static async update(id: string, data: UpdateContactData): Promise<Contact> {
-    return prisma.contact.update({
+    const contact = await prisma.contact.update({
       where: { id },
       data: {
         ...data,
         lastSyncAt: new Date()
       }
     });
+
+    if (data.isActive === false) {
+      await this.removeFromBroadcastLists(id);
+    }
+
+    return contact;
   }
 
   static async upsert(data: CreateContactData): Promise<Contact> {
-    return prisma.contact.upsert({
+    const contact = await prisma.contact.upsert({
       where: { id: data.id },
       create: {
         ...data,
@@ -131,15 +143,37 @@ export class ContactRepository {
         lastSyncAt: new Date()
       }
     });
+
+    if (data.isActive === false) {
+      await this.removeFromBroadcastLists(data.id);
+    }
+
+    return contact;
   }
 
   static async markInactive(id: string): Promise<Contact> {
-    return prisma.contact.update({
-      where: { id },
-      data: {
-        isActive: false,
-        lastSyncAt: new Date()
-      }
+    const [contact] = await prisma.$transaction([
+      prisma.contact.update({
+        where: { id },
+        data: {
+          isActive: false,
+          lastSyncAt: new Date()
+        }
+      }),
+      prisma.broadcastListMember.deleteMany({
+        where: { jid: id }
+      })
+    ]);
+
+    return contact;
+  }
+
+  /**
+   * Inactive contacts can no longer be reached, so drop them from broadcast lists
+   */
+  private static async removeFromBroadcastLists(id: string): Promise<void> {
+    await prisma.broadcastListMember.deleteMany({
+      where: { jid: id }
     });
   }
 
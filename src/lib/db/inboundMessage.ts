@@ -0,0 +1,179 @@
+import { prisma } from './client';
+import type { InboundMessage, Prisma } from '@prisma/client';
+
+export type InboundMessageType =
+  | 'text'
+  | 'image'
+  | 'video'
+  | 'audio'
+  | 'document'
+  | 'sticker'
+  | 'location'
+  | 'contacts'
+  | 'poll'
+  | 'other';
+
+export interface CreateInboundMessageData {
+  messageId: string;
+  chatJid: string;
+  senderJid: string;
+  pushName?: string;
+  messageType: InboundMessageType;
+  text?: string;
+  quotedId?: string;
+  mimetype?: string;
+  fileName?: string;
+  fileLength?: number;
+  rawMessage?: string;
+  timestamp: Date;
+}
+
+export interface InboundThread {
+  chatJid: string;
+  lastMessage: InboundMessage;
+  messageCount: number;
+  unreadCount: number;
+}
+
+export interface InboundMessageFilters {
+  search?: string; // Matches message text, file names and sender names
+  before?: Date; // Older messages, for paging back through a thread
+  limit?: number;
+}
+
+export class InboundMessageRepository {
+  /**
+   * Store a received message; a message already stored (e.g. redelivered
+   * after a reconnect) is returned as-is
+   */
+  static async create(data: CreateInboundMessageData): Promise<{ message: InboundMessage; isNew: boolean }> {
+    const existing = await prisma.inboundMessage.findUnique({
+      where: {
+        chatJid_messageId: {
+          chatJid: data.chatJid,
+          messageId: data.messageId,
+        }
+      }
+    });
+
+    if (existing) {
+      return { message: existing, isNew: false };
+    }
+
+    const message = await prisma.inboundMessage.create({ data });
+    return { message, isNew: true };
+  }
+
+  static async findById(id: string): Promise<InboundMessage | null> {
+    return prisma.inboundMessage.findUnique({
+      where: { id }
+    });
+  }
+
+  /**
+   * Chats with inbound messages, most recent activity first
+   */
+  static async findThreads(options: { limit?: number; offset?: number } = {}): Promise<InboundThread[]> {
+    const groups = await prisma.inboundMessage.groupBy({
+      by: ['chatJid'],
+      _max: { timestamp: true },
+      _count: { _all: true },
+      orderBy: { _max: { timestamp: 'desc' } },
+      take: options.limit,
+      skip: options.offset
+    });
+
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const chatJids = groups.map(group => group.chatJid);
+    const unread = await prisma.inboundMessage.groupBy({
+      by: ['chatJid'],
+      where: { chatJid: { in: chatJids }, readAt: null },
+      _count: { _all: true }
+    });
+    const unreadByChat = new Map(unread.map(group => [group.chatJid, group._count._all]));
+
+    const threads = await Promise.all(groups.map(async group => {
+      const lastMessage = await prisma.inboundMessage.findFirst({
+        where: { chatJid: group.chatJid },
+        orderBy: { timestamp: 'desc' }
+      });
+
+      return lastMessage && {
+        chatJid: group.chatJid,
+        lastMessage,
+        messageCount: group._count._all,
+        unreadCount: unreadByChat.get(group.chatJid) || 0,
+      };
+    }));
+
+    return threads.filter((thread): thread is InboundThread => thread !== null);
+  }
+
+  /**
+   * Messages of one chat, newest first
+   */
+  static async findByChat(chatJid: string, filters: InboundMessageFilters = {}): Promise<InboundMessage[]> {
+    return prisma.inboundMessage.findMany({
+      where: {
+        chatJid,
+        ...this.buildFilters(filters)
+      },
+      orderBy: { timestamp: 'desc' },
+      take: filters.limit
+    });
+  }
+
+  /**
+   * Messages across all chats matching a search, newest first
+   */
+  static async search(filters: InboundMessageFilters & { search: string }): Promise<InboundMessage[]> {
+    return prisma.inboundMessage.findMany({
+      where: this.buildFilters(filters),
+      orderBy: { timestamp: 'desc' },
+      take: filters.limit
+    });
+  }
+
+  static async markChatRead(chatJid: string): Promise<number> {
+    const result = await prisma.inboundMessage.updateMany({
+      where: { chatJid, readAt: null },
+      data: { readAt: new Date() }
+    });
+    return result.count;
+  }
+
+  static async countUnread(): Promise<number> {
+    return prisma.inboundMessage.count({
+      where: { readAt: null }
+    });
+  }
+
+  static async setMedia(id: string, mediaId: string): Promise<InboundMessage> {
+    return prisma.inboundMessage.update({
+      where: { id },
+      data: { mediaId }
+    });
+  }
+
+  private static buildFilters(filters: InboundMessageFilters): Prisma.InboundMessageWhereInput {
+    const where: Prisma.InboundMessageWhereInput = {};
+
+    if (filters.search) {
+      where.OR = [
+        { text: { contains: filters.search } },
+        { fileName: { contains: filters.search } },
+        { pushName: { contains: filters.search } },
+        { senderJid: { contains: filters.search } }
+      ];
+    }
+
+    if (filters.before) {
+      where.timestamp = { lt: filters.before };
+    }
+
+    return where;
+  }
+}
@@ -2,15 +2,66 @@ export { prisma } from './client';
 export { SessionService } from './session';
 export { SendHistoryService } from './sendHistory';
 export { MediaMetaService } from './mediaMeta';
+export { MediaReferenceRepository } from './mediaReference';
 export { ContactRepository } from './contact';
 export { GroupRepository } from './group';
 export { SyncLogRepository } from './syncLog';
+export { StatusAudiencePresetRepository } from './statusAudiencePreset';
+export { StatusViewRepository } from './statusView';
+export { ScheduledSendRepository } from './scheduledSend';
+export { BroadcastListRepository } from './broadcastList';
+export { StickerRepository } from './sticker';
+export { PollRepository } from './poll';
+export { InboundMessageRepository } from './inboundMessage';
+export { AutoReplyRepository } from './autoReply';
 export { encrypt, decrypt, generateEncryptionKey, hashData, generateSessionId } from './crypto';
 
 // Types
 export type { CreateSessionData, UpdateSessionData } from './session';
-export type { CreateSendHistoryData, UpdateSendHistoryData } from './sendHistory';
+export type {
+  CreateSendHistoryData,
+  UpdateSendHistoryData,
+  CreateSendHistoryItemData,
+  UpdateSendHistoryItemData,
+  SendHistoryWithItems,
+  StoredMessageKey
+} from './sendHistory';
 export type { CreateMediaMetaData, UpdateMediaMetaData } from './mediaMeta';
+export type { MediaReferenceOwnerType } from './mediaReference';
 export type { CreateContactData, UpdateContactData, ContactFilters, ContactStatistics } from './contact';
 export type { CreateGroupData, UpdateGroupData, GroupFilters, GroupStatistics } from './group';
 export type { CreateSyncLogData, UpdateSyncLogData, SyncLogFilters } from './syncLog';
+export type {
+  StatusAudienceMode,
+  CreateStatusAudiencePresetData,
+  UpdateStatusAudiencePresetData
+} from './statusAudiencePreset';
+export type { RecordStatusViewData } from './statusView';
+export type {
+  CreateScheduledSendData,
+  UpdateScheduledSendData,
+  ScheduledSendStatistics
+} from './scheduledSend';
+
+export type {
+  BroadcastListWithMembers,
+  BroadcastListMemberType,
+  BroadcastListMemberData,
+  CreateBroadcastListData,
+  UpdateBroadcastListData
+} from './broadcastList';
+
+export type { StickerWithMedia, CreateStickerData } from './sticker';
+export type { CreatePollData, RecordPollVoteData, PollOptionResult, PollResults } from './poll';
+export type {
+  InboundMessageType,
+  CreateInboundMessageData,
+  InboundThread,
+  InboundMessageFilters
+} from './inboundMessage';
+export type {
+  AutoReplyStatus,
+  CreateAutoReplyRuleData,
+  UpdateAutoReplyRuleData,
+  CreateAutoReplyData
+} from './autoReply';
@@ -11,17 +11,40 @@ export interface CreateMediaMetaData {
   duration?: number;
   width?: number;
   height?: number;
+  orientation?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  takenAt?: Date;
+  rotation?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  frameRate?: number;
   isTemporary?: boolean;
+  scrubbedAt?: Date;
+  variantOfId?: string;
+  variantKind?: string;
 }
 
 export interface UpdateMediaMetaData {
   filename?: string;
   storagePath?: string;
+  sizeBytes?: number;
   sha256?: string;
   duration?: number;
   width?: number;
   height?: number;
+  orientation?: number;
+  cameraMake?: string;
+  cameraModel?: string;
+  takenAt?: Date;
+  rotation?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  frameRate?: number;
+  waveform?: string;
   isTemporary?: boolean;
+  retainUntil?: Date | null;
+  scrubbedAt?: Date;
 }
 
 export class MediaMetaService {
@@ -40,7 +63,18 @@ export class MediaMetaService {
         duration: data.duration,
         width: data.width,
         height: data.height,
+        orientation: data.orientation,
+        cameraMake: data.cameraMake,
+        cameraModel: data.cameraModel,
+        takenAt: data.takenAt,
+        rotation: data.rotation,
+        videoCodec: data.videoCodec,
+        audioCodec: data.audioCodec,
+        frameRate: data.frameRate,
         isTemporary: data.isTemporary ?? true,
+        scrubbedAt: data.scrubbedAt,
+        variantOfId: data.variantOfId,
+        variantKind: data.variantKind,
       },
     });
   }
@@ -73,6 +107,19 @@ export class MediaMetaService {
     });
   }
 
+  /**
+   * Get the variants derived from a media file, newest first
+   */
+  static async getVariants(id: string, kind?: string): Promise<MediaMeta[]> {
+    return prisma.mediaMeta.findMany({
+      where: {
+        variantOfId: id,
+        ...(kind && { variantKind: kind }),
+      },
+      orderBy: { tmpCreatedAt: 'desc' },
+    });
+  }
+
   /**
    * Get all media meta records
    */
@@ -132,7 +179,38 @@ export class MediaMetaService {
    * Mark as permanent (not temporary)
    */
   static async markPermanent(id: string): Promise<MediaMeta> {
-    return this.update(id, { isTemporary: false });
+    return this.update(id, { isTemporary: false, retainUntil: null });
+  }
+
+  /**
+   * Keep posted media until the given date instead of the temporary file
+   * cleanup; never shortens an existing retention or limits permanent media
+   */
+  static async retain(id: string, until: Date): Promise<MediaMeta | null> {
+    const mediaMeta = await this.getById(id);
+    if (!mediaMeta) {
+      return null;
+    }
+    if (!mediaMeta.isTemporary && (!mediaMeta.retainUntil || mediaMeta.retainUntil > until)) {
+      return mediaMeta;
+    }
+
+    return this.update(id, { isTemporary: false, retainUntil: until });
+  }
+
+  /**
+   * Get retained media whose retention period has ended
+   */
+  static async getExpiredRetainedFiles(): Promise<MediaMeta[]> {
+    return prisma.mediaMeta.findMany({
+      where: {
+        isTemporary: false,
+        retainUntil: {
+          lt: new Date(),
+        },
+      },
+      orderBy: { retainUntil: 'asc' },
+    });
   }
 
   /**
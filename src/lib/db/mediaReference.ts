@@ -0,0 +1,145 @@
+import { prisma } from './client';
+
+export type MediaReferenceOwnerType = 'send_history' | 'schedule' | 'template' | 'draft' | 'sticker' | 'inbound_message' | 'auto_reply_rule';
+
+export class MediaReferenceRepository {
+  /**
+   * Replace the media an owner references; IDs that are not stored media
+   * (e.g. legacy file names) are ignored. Returns the number referenced.
+   */
+  static async set(
+    ownerType: MediaReferenceOwnerType,
+    ownerId: string,
+    mediaIds: string[],
+    expiresAt?: Date
+  ): Promise<number> {
+    const existing = mediaIds.length > 0
+      ? await prisma.mediaMeta.findMany({
+          where: { id: { in: [...new Set(mediaIds)] } },
+          select: { id: true }
+        })
+      : [];
+
+    await prisma.$transaction([
+      prisma.mediaReference.deleteMany({ where: { ownerType, ownerId } }),
+      prisma.mediaReference.createMany({
+        data: existing.map(media => ({ mediaId: media.id, ownerType, ownerId, expiresAt }))
+      })
+    ]);
+
+    return existing.length;
+  }
+
+  /**
+   * Drop all references held by an owner
+   */
+  static async release(ownerType: MediaReferenceOwnerType, ownerId: string): Promise<number> {
+    const result = await prisma.mediaReference.deleteMany({
+      where: { ownerType, ownerId }
+    });
+    return result.count;
+  }
+
+  /**
+   * Drop every reference of one owner type, e.g. in-memory owners after a restart
+   */
+  static async releaseOwnerType(ownerType: MediaReferenceOwnerType): Promise<number> {
+    const result = await prisma.mediaReference.deleteMany({
+      where: { ownerType }
+    });
+    return result.count;
+  }
+
+  /**
+   * Reference count per media ID; unreferenced media are absent
+   */
+  static async countByMediaIds(mediaIds: string[]): Promise<Record<string, number>> {
+    if (mediaIds.length === 0) {
+      return {};
+    }
+
+    const counts = await prisma.mediaReference.groupBy({
+      by: ['mediaId'],
+      where: { mediaId: { in: mediaIds } },
+      _count: { _all: true }
+    });
+
+    return Object.fromEntries(counts.map(count => [count.mediaId, count._count._all]));
+  }
+
+  /**
+   * Remove lapsed draft references and references whose send or schedule
+   * no longer exists (e.g. removed along with its session)
+   */
+  static async prune(): Promise<number> {
+    const expired = await prisma.mediaReference.deleteMany({
+      where: { expiresAt: { lt: new Date() } }
+    });
+
+    const [sendOwners, scheduleOwners] = await Promise.all([
+      prisma.mediaReference.findMany({
+        where: { ownerType: 'send_history' },
+        select: { ownerId: true },
+        distinct: ['ownerId']
+      }),
+      prisma.mediaReference.findMany({
+        where: { ownerType: 'schedule' },
+        select: { ownerId: true },
+        distinct: ['ownerId']
+      })
+    ]);
+
+    const [sends, schedules] = await Promise.all([
+      prisma.sendHistory.findMany({
+        where: { id: { in: sendOwners.map(owner => owner.ownerId) } },
+        select: { id: true }
+      }),
+      prisma.scheduledSend.findMany({
+        where: { id: { in: scheduleOwners.map(owner => owner.ownerId) } },
+        select: { id: true }
+      })
+    ]);
+
+    const liveSends = new Set(sends.map(send => send.id));
+    const liveSchedules = new Set(schedules.map(schedule => schedule.id));
+
+    const orphaned = await prisma.mediaReference.deleteMany({
+      where: {
+        OR: [
+          {
+            ownerType: 'send_history',
+            ownerId: { in: sendOwners.map(owner => owner.ownerId).filter(id => !liveSends.has(id)) }
+          },
+          {
+            ownerType: 'schedule',
+            ownerId: { in: scheduleOwners.map(owner => owner.ownerId).filter(id => !liveSchedules.has(id)) }
+          }
+        ]
+      }
+    });
+
+    return expired.count + orphaned.count;
+  }
+
+  /**
+   * Reference counts per owner type
+   */
+  static async getStatistics(): Promise<Record<MediaReferenceOwnerType, number>> {
+    const counts = await prisma.mediaReference.groupBy({
+      by: ['ownerType'],
+      _count: { _all: true }
+    });
+
+    const byType = Object.fromEntries(counts.map(count => [count.ownerType, count._count._all]));
+
+    return {
+      send_history: byType.send_history || 0,
+      schedule: byType.schedule || 0,
+      template: byType.template || 0,
+      draft: byType.draft || 0,
+      sticker: byType.sticker || 0,
+      inbound_message: byType.inbound_message || 0,
+      auto_reply_rule: byType.auto_reply_rule || 0,
+    };
+  }
+}
@@ -0,0 +1,159 @@
+import { prisma } from './client';
+import type { Poll, PollVote } from '@prisma/client';
+
+export interface CreatePollData {
+  sendHistoryId: string;
+  messageId: string;
+  chatJid: string;
+  question: string;
+  options: string[];
+  selectableCount: number;
+  messageSecret: string; // Base64
+}
+
+export interface RecordPollVoteData {
+  pollId: string;
+  voterJid: string;
+  selectedOptions: string[]; // Empty when the voter withdrew their vote
+  votedAt: Date;
+}
+
+export interface PollOptionResult {
+  name: string;
+  count: number;
+  voters: string[];
+}
+
+export interface PollResults {
+  poll: Poll;
+  options: PollOptionResult[];
+  totalVoters: number;
+}
+
+export class PollRepository {
+  static async create(data: CreatePollData): Promise<Poll> {
+    return prisma.poll.create({
+      data: {
+        ...data,
+        options: JSON.stringify(data.options)
+      }
+    });
+  }
+
+  static async findById(id: string): Promise<Poll | null> {
+    return prisma.poll.findUnique({
+      where: { id }
+    });
+  }
+
+  static async findByMessageId(messageId: string): Promise<Poll | null> {
+    return prisma.poll.findUnique({
+      where: { messageId }
+    });
+  }
+
+  /**
+   * Polls newest first, with their voter counts
+   */
+  static async findAll(
+    options: { chatJid?: string; limit?: number; offset?: number } = {}
+  ): Promise<Array<Poll & { _count: { votes: number } }>> {
+    return prisma.poll.findMany({
+      where: options.chatJid ? { chatJid: options.chatJid } : undefined,
+      include: { _count: { select: { votes: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit,
+      skip: options.offset
+    });
+  }
+
+  /**
+   * Store a voter's vote, replacing any earlier one; votes older than the
+   * stored one (replayed or out of order) are ignored
+   */
+  static async recordVote(data: RecordPollVoteData): Promise<{ changed: boolean }> {
+    const existing = await prisma.pollVote.findUnique({
+      where: {
+        pollId_voterJid: {
+          pollId: data.pollId,
+          voterJid: data.voterJid,
+        }
+      }
+    });
+
+    if (existing && existing.votedAt > data.votedAt) {
+      return { changed: false };
+    }
+
+    if (data.selectedOptions.length === 0) {
+      if (existing) {
+        await prisma.pollVote.delete({ where: { id: existing.id } });
+      }
+      return { changed: Boolean(existing) };
+    }
+
+    const selectedOptions = JSON.stringify(data.selectedOptions);
+    if (existing) {
+      if (existing.selectedOptions === selectedOptions) {
+        return { changed: false };
+      }
+      await prisma.pollVote.update({
+        where: { id: existing.id },
+        data: { selectedOptions, votedAt: data.votedAt }
+      });
+      return { changed: true };
+    }
+
+    await prisma.pollVote.create({
+      data: { ...data, selectedOptions }
+    });
+    return { changed: true };
+  }
+
+  /**
+   * Vote counts per option, in the poll's option order
+   */
+  static async getResults(id: string): Promise<PollResults | null> {
+    const poll = await prisma.poll.findUnique({
+      where: { id },
+      include: { votes: { orderBy: { votedAt: 'asc' } } }
+    });
+    if (!poll) {
+      return null;
+    }
+
+    const { votes, ...pollData } = poll;
+    const options = this.getOptions(poll).map(name => ({ name, count: 0, voters: [] as string[] }));
+    const byName = new Map(options.map(option => [option.name, option]));
+
+    for (const vote of votes) {
+      for (const name of this.getSelectedOptions(vote)) {
+        const option = byName.get(name);
+        if (option) {
+          option.count++;
+          option.voters.push(vote.voterJid);
+        }
+      }
+    }
+
+    return { poll: pollData, options, totalVoters: votes.length };
+  }
+
+  static getOptions(poll: Poll): string[] {
+    try {
+      const parsed = JSON.parse(poll.options);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static getSelectedOptions(vote: PollVote): string[] {
+    try {
+      const parsed = JSON.parse(vote.selectedOptions);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { prisma } from './client';
+import { MediaReferenceRepository } from './mediaReference';
+import type { ScheduledSend as ScheduledSendRow } from '@prisma/client';
+import type { RecurrenceRule } from '../messaging/Recurrence';
+import type { MissedRunPolicy, ScheduledSend, SendTarget } from '../socketManager/SendTargetingManager';
+import type { StatusAudience } from '../socketManager/StatusAudienceResolver';
+
+export interface CreateScheduledSendData {
+  targets: SendTarget[];
+  files: string[];
+  caption?: string;
+  scheduledTime: Date;
+  intervalBetween?: number;
+  recurrence?: RecurrenceRule;
+  audience?: StatusAudience;
+  missedRunPolicy: MissedRunPolicy;
+}
+
+export interface UpdateScheduledSendData {
+  scheduledTime?: Date;
+  status?: ScheduledSend['status'];
+  leaseOwner?: string | null;
+  leaseExpiresAt?: Date | null;
+  runCount?: number;
+  lastRunAt?: Date;
+  lastRunStatus?: ScheduledSend['lastRunStatus'];
+  errors?: string[] | null;
+  processedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface ScheduledSendStatistics {
+  total: number;
+  pending: number;
+  completed: number;
+  failed: number;
+  missed: number;
+  upcoming: number;
+}
+
+// Schedules in these states will not run again, so their media can go
+const FINISHED_STATUSES: ScheduledSend['status'][] = ['completed', 'failed', 'cancelled', 'missed'];
+
+export class ScheduledSendRepository {
+  /**
+   * Store a schedule; its media is referenced until it stops running
+   */
+  static async create(data: CreateScheduledSendData): Promise<ScheduledSendRow> {
+    const row = await prisma.scheduledSend.create({
+      data: {
+        targets: JSON.stringify(data.targets),
+        files: JSON.stringify(data.files),
+        caption: data.caption,
+        scheduledTime: data.scheduledTime,
+        intervalBetween: data.intervalBetween,
+        recurrence: data.recurrence ? JSON.stringify(data.recurrence) : null,
+        audience: data.audience ? JSON.stringify(data.audience) : null,
+        missedRunPolicy: data.missedRunPolicy
+      }
+    });
+
+    await MediaReferenceRepository.set('schedule', row.id, data.files);
+    return row;
+  }
+
+  static async findById(id: string): Promise<ScheduledSendRow | null> {
+    return prisma.scheduledSend.findUnique({
+      where: { id }
+    });
+  }
+
+  static async findMany(status?: ScheduledSend['status']): Promise<ScheduledSendRow[]> {
+    return prisma.scheduledSend.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { scheduledTime: 'asc' }
+    });
+  }
+
+  /**
+   * Schedules that still need a timer, or are mid-run here, elsewhere or in a process that died
+   */
+  static async findActive(): Promise<ScheduledSendRow[]> {
+    return prisma.scheduledSend.findMany({
+      where: { status: { in: ['pending', 'processing'] } },
+      orderBy: { scheduledTime: 'asc' }
+    });
+  }
+
+  static async update(id: string, data: UpdateScheduledSendData): Promise<ScheduledSendRow> {
+    const { errors, ...rest } = data;
+
+    const row = await prisma.scheduledSend.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(errors !== undefined && { errors: errors ? JSON.stringify(errors) : null })
+      }
+    });
+
+    if (data.status && FINISHED_STATUSES.includes(data.status)) {
+      await MediaReferenceRepository.release('schedule', id);
+    }
+
+    return row;
+  }
+
+  /**
+   * Atomically move a pending send to processing under a lease held by the
+   * owner; false if another process already claimed it or it was cancelled
+   */
+  static async claim(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const now = new Date();
+    const result = await prisma.scheduledSend.updateMany({
+      where: { id, status: 'pending' },
+      data: {
+        status: 'processing',
+        processedAt: now,
+        leaseOwner: owner,
+        leaseExpiresAt: new Date(now.getTime() + leaseMs)
+      }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Extend the lease on a run the owner is still working on
+   */
+  static async renewLease(id: string, owner: string, leaseMs: number): Promise<boolean> {
+    const result = await prisma.scheduledSend.updateMany({
+      where: { id, status: 'processing', leaseOwner: owner },
+      data: { leaseExpiresAt: new Date(Date.now() + leaseMs) }
+    });
+    return result.count === 1;
+  }
+
+  /**
+   * Take over a run whose owner stopped renewing its lease; false while the
+   * lease is live or once another process took it over
+   */
+  static async takeOverExpired(id: string, owner: string): Promise<boolean> {
+    const result = await prisma.scheduledSend.updateMany({
+      where: {
+        id,
+        status: 'processing',
+        OR: [{ leaseExpiresAt: null }, { leaseExpiresAt: { lt: new Date() } }]
+      },
+      data: { leaseOwner: owner, leaseExpiresAt: null }
+    });
+    return result.count === 1;
+  }
+
+  static async cancel(id: string): Promise<boolean> {
+    const result = await prisma.scheduledSend.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'cancelled' }
+    });
+
+    if (result.count === 1) {
+      await MediaReferenceRepository.release('schedule', id);
+    }
+    return result.count === 1;
+  }
+
+  static async getStatistics(): Promise<ScheduledSendStatistics> {
+    const [counts, upcoming] = await Promise.all([
+      prisma.scheduledSend.groupBy({
+        by: ['status'],
+        _count: { _all: true }
+      }),
+      prisma.scheduledSend.count({
+        where: { status: 'pending', scheduledTime: { gt: new Date() } }
+      })
+    ]);
+
+    const byStatus = Object.fromEntries(counts.map(count => [count.status, count._count._all]));
+
+    return {
+      total: counts.reduce((sum, count) => sum + count._count._all, 0),
+      pending: byStatus.pending || 0,
+      completed: byStatus.completed || 0,
+      failed: byStatus.failed || 0,
+      missed: byStatus.missed || 0,
+      upcoming,
+    };
+  }
+
+  /**
+   * Parse the JSON columns of a stored schedule
+   */
+  static toScheduledSend(row: ScheduledSendRow): ScheduledSend {
+    const recurrence = row.recurrence ? JSON.parse(row.recurrence) as RecurrenceRule : undefined;
+    if (recurrence?.endDate) {
+      recurrence.endDate = new Date(recurrence.endDate);
+    }
+
+    return {
+      id: row.id,
+      targets: JSON.parse(row.targets),
+      files: JSON.parse(row.files),
+      caption: row.caption || undefined,
+      scheduledTime: row.scheduledTime,
+      intervalBetween: row.intervalBetween ?? undefined,
+      recurrence,
+      audience: row.audience ? JSON.parse(row.audience) : undefined,
+      missedRunPolicy: row.missedRunPolicy as MissedRunPolicy,
+      runCount: row.runCount,
+      lastRunAt: row.lastRunAt || undefined,
+      lastRunStatus: (row.lastRunStatus as ScheduledSend['lastRunStatus']) || undefined,
+      status: row.status as ScheduledSend['status'],
+      createdAt: row.createdAt,
+      processedAt: row.processedAt || undefined,
+      completedAt: row.completedAt || undefined,
+      errors: row.errors ? JSON.parse(row.errors) : undefined,
+    };
+  }
+}
@@ -1,48 +1,112 @@
 import { prisma } from './client';
-import { SendHistory, Prisma } from '@prisma/client';
+import { SendHistory, SendHistoryItem, Prisma } from '@prisma/client';
+import { MediaReferenceRepository } from './mediaReference';
+
+export type SendHistoryWithItems = SendHistory & { items: SendHistoryItem[] };
+
+/**
+ * WhatsApp message key as stored in send history (JSON)
+ */
+export interface StoredMessageKey {
+  remoteJid?: string | null;
+  fromMe?: boolean | null;
+  id?: string | null;
+  participant?: string | null;
+}
+
+export interface CreateSendHistoryItemData {
+  fileId: string;
+  caption?: string;
+  delayAfterMs?: number;
+}
+
+export interface UpdateSendHistoryItemData {
+  status?: 'pending' | 'sent' | 'failed' | 'revoked';
+  messageId?: string;
+  messageKey?: StoredMessageKey;
+  errorMessage?: string | null;
+  sentAt?: Date;
+}
 
 export interface CreateSendHistoryData {
   sessionId: string;
   targetType: 'status' | 'contact' | 'group';
   targetIdentifier?: string;
   files: string[]; // Array of file paths/info
+  messageType?: 'media' | 'text' | 'poll' | 'location' | 'contacts' | 'link';
+  content?: Record<string, unknown>; // Stored as JSON (e.g. text status payload)
+  audience?: Record<string, unknown>; // Stored as JSON (status audience descriptor)
+  statusJidList?: string[]; // Resolved status recipients, reused to revoke the post
+  items?: CreateSendHistoryItemData[]; // Ordered story items, tracked individually
   status?: 'pending' | 'uploading' | 'sending' | 'completed' | 'failed';
 }
 
 export interface UpdateSendHistoryData {
-  status?: 'pending' | 'uploading' | 'sending' | 'completed' | 'failed';
+  status?: 'pending' | 'uploading' | 'sending' | 'completed' | 'failed' | 'revoked';
   completedAt?: Date;
-  errorMessage?: string;
+  revokedAt?: Date;
+  errorMessage?: string | null;
   files?: string[];
+  messageId?: string;
+  messageKey?: StoredMessageKey;
 }
 
+// Once a send reaches one of these its media is no longer needed for it;
+// failed sends keep theirs so they can be resumed
+const FINISHED_STATUSES = ['completed', 'revoked'];
+
 export class SendHistoryService {
   /**
-   * Create a new send history record
+   * Create a new send history record; its media is referenced until the
+   * send finishes
    */
   static async create(data: CreateSendHistoryData): Promise<SendHistory> {
-    return prisma.sendHistory.create({
+    const history = await prisma.sendHistory.create({
       data: {
         sessionId: data.sessionId,
         targetType: data.targetType,
         targetIdentifier: data.targetIdentifier,
         files: JSON.stringify(data.files),
+        messageType: data.messageType || 'media',
+        content: data.content ? JSON.stringify(data.content) : undefined,
+        audience: data.audience ? JSON.stringify(data.audience) : undefined,
+        statusJidList: data.statusJidList ? JSON.stringify(data.statusJidList) : undefined,
         status: data.status || 'pending',
+        ...(data.items && {
+          items: {
+            create: data.items.map((item, position) => ({
+              position,
+              fileId: item.fileId,
+              caption: item.caption,
+              delayAfterMs: item.delayAfterMs,
+            })),
+          },
+        }),
       },
       include: {
         session: true,
       },
     });
+
+    if (!FINISHED_STATUSES.includes(history.status)) {
+      await MediaReferenceRepository.set('send_history', history.id, [
+        ...data.files,
+        ...(data.items || []).map(item => item.fileId),
+      ]);
+    }
+
+    return history;
   }
 
   /**
    * Get send history by ID
    */
-  static async getById(id: string): Promise<SendHistory | null> {
+  static async getById(id: string): Promise<SendHistoryWithItems | null> {
     const history = await prisma.sendHistory.findUnique({
       where: { id },
       include: {
         session: true,
+        items: { orderBy: { position: 'asc' } },
       },
     });
 
@@ -65,11 +129,13 @@ export class SendHistoryService {
       limit?: number;
       offset?: number;
       status?: string;
+      targetType?: string;
     }
-  ): Promise<SendHistory[]> {
+  ): Promise<SendHistoryWithItems[]> {
     const where: Prisma.SendHistoryWhereInput = {
       sessionId,
       ...(options?.status && { status: options.status }),
+      ...(options?.targetType && { targetType: options.targetType }),
     };
 
     const history = await prisma.sendHistory.findMany({
@@ -79,6 +145,7 @@ export class SendHistoryService {
       skip: options?.offset,
       include: {
         session: true,
+        items: { orderBy: { position: 'asc' } },
       },
     });
 
@@ -116,6 +183,10 @@ export class SendHistoryService {
       updateData.files = JSON.stringify(data.files);
     }
 
+    if (data.messageKey) {
+      updateData.messageKey = JSON.stringify(data.messageKey);
+    }
+
     const history = await prisma.sendHistory.update({
       where: { id },
       data: updateData,
@@ -124,19 +195,103 @@ export class SendHistoryService {
       },
     });
 
+    if (data.status && FINISHED_STATUSES.includes(data.status)) {
+      await MediaReferenceRepository.release('send_history', id);
+    }
+
     return {
       ...history,
       files: JSON.parse(history.files),
     };
   }
 
+  /**
+   * Get the ordered items of a multi-part send
+   */
+  static async getItems(sendHistoryId: string): Promise<SendHistoryItem[]> {
+    return prisma.sendHistoryItem.findMany({
+      where: { sendHistoryId },
+      orderBy: { position: 'asc' },
+    });
+  }
+
+  /**
+   * Update progress of a single item
+   */
+  static async updateItem(id: string, data: UpdateSendHistoryItemData): Promise<SendHistoryItem> {
+    const { messageKey, ...rest } = data;
+
+    return prisma.sendHistoryItem.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(messageKey && { messageKey: JSON.stringify(messageKey) }),
+      },
+    });
+  }
+
+  /**
+   * Get the keys of every message a send posted, in posting order
+   */
+  static getMessageKeys(history: SendHistoryWithItems): StoredMessageKey[] {
+    const storedKeys = history.items.length > 0
+      ? history.items.filter(item => item.status === 'sent').map(item => item.messageKey)
+      : [history.messageKey];
+
+    return storedKeys
+      .filter((key): key is string => Boolean(key))
+      .map(key => JSON.parse(key) as StoredMessageKey);
+  }
+
+  /**
+   * Get the recipients a status post was shared with, if they were stored
+   */
+  static getStatusJidList(history: SendHistory): string[] | undefined {
+    return history.statusJidList ? JSON.parse(history.statusJidList) as string[] : undefined;
+  }
+
+  /**
+   * Find the status post a WhatsApp message ID belongs to, whether it was
+   * a single-message post or one item of a story
+   */
+  static async findByStatusMessageId(messageId: string): Promise<SendHistory | null> {
+    const item = await prisma.sendHistoryItem.findFirst({
+      where: { messageId },
+      include: { sendHistory: true },
+    });
+    if (item) {
+      return item.sendHistory;
+    }
+
+    return prisma.sendHistory.findFirst({
+      where: { messageId, targetType: 'status' },
+    });
+  }
+
   /**
    * Mark as completed
    */
-  static async markCompleted(id: string): Promise<SendHistory> {
+  static async markCompleted(id: string, messageKey?: StoredMessageKey): Promise<SendHistory> {
     return this.update(id, {
       status: 'completed',
       completedAt: new Date(),
+      messageId: messageKey?.id || undefined,
+      messageKey,
+    });
+  }
+
+  /**
+   * Mark a posted send as revoked, along with its posted items
+   */
+  static async markRevoked(id: string): Promise<SendHistory> {
+    await prisma.sendHistoryItem.updateMany({
+      where: { sendHistoryId: id, status: 'sent' },
+      data: { status: 'revoked' },
+    });
+
+    return this.update(id, {
+      status: 'revoked',
+      revokedAt: new Date(),
     });
   }
 
@@ -201,5 +356,6 @@ export class SendHistoryService {
     await prisma.sendHistory.delete({
       where: { id },
     });
+    await MediaReferenceRepository.release('send_history', id);
   }
 }
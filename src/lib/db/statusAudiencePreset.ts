@@ -0,0 +1,79 @@
+import { prisma } from './client';
+import type { StatusAudiencePreset } from '@prisma/client';
+
+export type StatusAudienceMode = 'all_contacts' | 'favorites' | 'broadcast_list' | 'except';
+
+export interface CreateStatusAudiencePresetData {
+  name: string;
+  mode: StatusAudienceMode;
+  broadcastListId?: string;
+  excludedJids?: string[];
+}
+
+export interface UpdateStatusAudiencePresetData {
+  name?: string;
+  mode?: StatusAudienceMode;
+  broadcastListId?: string | null;
+  excludedJids?: string[];
+}
+
+export class StatusAudiencePresetRepository {
+  static async findAll(): Promise<StatusAudiencePreset[]> {
+    return prisma.statusAudiencePreset.findMany({
+      orderBy: { name: 'asc' }
+    });
+  }
+
+  static async findById(id: string): Promise<StatusAudiencePreset | null> {
+    return prisma.statusAudiencePreset.findUnique({
+      where: { id }
+    });
+  }
+
+  static async findByName(name: string): Promise<StatusAudiencePreset | null> {
+    return prisma.statusAudiencePreset.findUnique({
+      where: { name }
+    });
+  }
+
+  static async create(data: CreateStatusAudiencePresetData): Promise<StatusAudiencePreset> {
+    return prisma.statusAudiencePreset.create({
+      data: {
+        name: data.name,
+        mode: data.mode,
+        broadcastListId: data.broadcastListId,
+        excludedJids: JSON.stringify(data.excludedJids || [])
+      }
+    });
+  }
+
+  static async update(id: string, data: UpdateStatusAudiencePresetData): Promise<StatusAudiencePreset> {
+    const { excludedJids, ...rest } = data;
+
+    return prisma.statusAudiencePreset.update({
+      where: { id },
+      data: {
+        ...rest,
+        ...(excludedJids && { excludedJids: JSON.stringify(excludedJids) })
+      }
+    });
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.statusAudiencePreset.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Parse the stored exclusion list of a preset
+   */
+  static getExcludedJids(preset: StatusAudiencePreset): string[] {
+    try {
+      const parsed = JSON.parse(preset.excludedJids);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { prisma } from './client';
+import type { StatusView } from '@prisma/client';
+
+export interface RecordStatusViewData {
+  sendHistoryId: string;
+  messageId: string;
+  viewerJid: string;
+  viewedAt: Date;
+}
+
+export class StatusViewRepository {
+  /**
+   * Record a view, keeping the earliest time a viewer opened the post
+   */
+  static async recordView(data: RecordStatusViewData): Promise<{ view: StatusView; isNew: boolean }> {
+    const existing = await prisma.statusView.findUnique({
+      where: {
+        sendHistoryId_viewerJid: {
+          sendHistoryId: data.sendHistoryId,
+          viewerJid: data.viewerJid,
+        }
+      }
+    });
+
+    if (existing) {
+      if (existing.viewedAt <= data.viewedAt) {
+        return { view: existing, isNew: false };
+      }
+
+      const view = await prisma.statusView.update({
+        where: { id: existing.id },
+        data: { viewedAt: data.viewedAt, messageId: data.messageId }
+      });
+      return { view, isNew: false };
+    }
+
+    const view = await prisma.statusView.create({ data });
+    return { view, isNew: true };
+  }
+
+  static async findBySendHistoryId(sendHistoryId: string): Promise<StatusView[]> {
+    return prisma.statusView.findMany({
+      where: { sendHistoryId },
+      orderBy: { viewedAt: 'asc' }
+    });
+  }
+
+  /**
+   * Count viewers for several posts at once
+   */
+  static async countBySendHistoryIds(sendHistoryIds: string[]): Promise<Record<string, number>> {
+    if (sendHistoryIds.length === 0) {
+      return {};
+    }
+
+    const counts = await prisma.statusView.groupBy({
+      by: ['sendHistoryId'],
+      where: { sendHistoryId: { in: sendHistoryIds } },
+      _count: { _all: true }
+    });
+
+    return Object.fromEntries(counts.map(count => [count.sendHistoryId, count._count._all]));
+  }
+}
@@ -0,0 +1,86 @@
+import { prisma } from './client';
+import type { Sticker, MediaMeta } from '@prisma/client';
+
+export type StickerWithMedia = Sticker & { media: MediaMeta };
+
+export interface CreateStickerData {
+  mediaId: string;
+  sourceMediaId?: string;
+  packName: string;
+  author?: string;
+  emojis?: string[];
+}
+
+export class StickerRepository {
+  /**
+   * Library stickers, most recently used (then created) first
+   */
+  static async findAll(options: { limit?: number; offset?: number } = {}): Promise<StickerWithMedia[]> {
+    return prisma.sticker.findMany({
+      include: { media: true },
+      orderBy: [
+        { lastUsedAt: { sort: 'desc', nulls: 'last' } },
+        { createdAt: 'desc' }
+      ],
+      take: options.limit,
+      skip: options.offset
+    });
+  }
+
+  static async findById(id: string): Promise<StickerWithMedia | null> {
+    return prisma.sticker.findUnique({
+      where: { id },
+      include: { media: true }
+    });
+  }
+
+  static async findByMediaId(mediaId: string): Promise<StickerWithMedia | null> {
+    return prisma.sticker.findUnique({
+      where: { mediaId },
+      include: { media: true }
+    });
+  }
+
+  /**
+   * A sticker already made from an upload with the same pack metadata
+   */
+  static async findBySource(sourceMediaId: string, packName: string, author?: string): Promise<StickerWithMedia | null> {
+    return prisma.sticker.findFirst({
+      where: { sourceMediaId, packName, author: author || null },
+      include: { media: true }
+    });
+  }
+
+  static async create(data: CreateStickerData): Promise<StickerWithMedia> {
+    return prisma.sticker.create({
+      data: {
+        mediaId: data.mediaId,
+        sourceMediaId: data.sourceMediaId,
+        packName: data.packName,
+        author: data.author || null,
+        emojis: data.emojis?.length ? JSON.stringify(data.emojis) : null
+      },
+      include: { media: true }
+    });
+  }
+
+  static async recordUse(id: string): Promise<void> {
+    await prisma.sticker.update({
+      where: { id },
+      data: {
+        useCount: { increment: 1 },
+        lastUsedAt: new Date()
+      }
+    });
+  }
+
+  static async delete(id: string): Promise<void> {
+    await prisma.sticker.delete({
+      where: { id }
+    });
+  }
+
+  static async count(): Promise<number> {
+    return prisma.sticker.count();
+  }
+}
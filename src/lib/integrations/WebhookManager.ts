@@ -23,6 +23,7 @@ export type WebhookEvent =
   | 'message.sent'
   | 'message.failed'
   | 'message.scheduled'
+  | 'status.revoked'
   | 'bulk.job.started'
   | 'bulk.job.completed'
   | 'bulk.job.failed'
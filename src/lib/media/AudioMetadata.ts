@@ -0,0 +1,304 @@
+/**
+ * Pure TypeScript audio metadata reader.
+ *
+ * Reads duration, codec, sample rate and channel count from Ogg (Opus,
+ * Vorbis), WAV, MP3 (Xing/Info/VBRI headers, else a constant bitrate
+ * estimate) and M4A files. The container is sniffed from the content, since
+ * browsers report audio MIME types inconsistently.
+ */
+
+import { promises as fs } from 'fs';
+import { Ogg } from './Ogg';
+import { Mp4MetadataReader } from './Mp4Metadata';
+
+export interface AudioMetadata {
+  container: 'ogg' | 'wav' | 'mp3' | 'mp4';
+  codec: string; // e.g. 'opus', 'vorbis', 'pcm', 'mp3', 'aac'
+  duration: number; // seconds
+  sampleRate?: number;
+  channels?: number;
+  bitrate?: number; // kbps, averaged over the file
+}
+
+// Opus granule positions always count 48 kHz samples
+const OPUS_GRANULE_RATE = 48000;
+
+const MP3_BITRATES: Record<'v1' | 'v2', number[]> = {
+  v1: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  v2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+interface Mp3FrameHeader {
+  offset: number;
+  mpeg1: boolean;
+  sampleRate: number;
+  bitrate: number; // kbps
+  channels: number;
+  samplesPerFrame: number;
+}
+
+export class AudioMetadataReader {
+  /**
+   * Whether a buffer holds a container this reader understands
+   */
+  static sniff(buffer: Buffer): AudioMetadata['container'] | null {
+    if (Ogg.isOgg(buffer)) return 'ogg';
+    if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WAVE') {
+      return 'wav';
+    }
+    if (buffer.length >= 8 && buffer.toString('latin1', 4, 8) === 'ftyp') return 'mp4';
+    if (buffer.length >= 3 && buffer.toString('latin1', 0, 3) === 'ID3') return 'mp3';
+    if (this.findMp3Frame(buffer, 0)) return 'mp3';
+    return null;
+  }
+
+  /**
+   * Read metadata from an in-memory audio file
+   */
+  static read(buffer: Buffer): AudioMetadata {
+    const container = this.sniff(buffer);
+    let metadata: AudioMetadata;
+
+    switch (container) {
+      case 'ogg':
+        metadata = this.readOgg(buffer);
+        break;
+      case 'wav':
+        metadata = this.readWav(buffer);
+        break;
+      case 'mp3':
+        metadata = this.readMp3(buffer);
+        break;
+      case 'mp4': {
+        const mp4 = Mp4MetadataReader.read(buffer);
+        if (!mp4.hasAudio) {
+          throw new Error('MP4 file has no audio track');
+        }
+        metadata = { container, codec: mp4.audioCodec || 'unknown', duration: mp4.duration };
+        break;
+      }
+      default:
+        throw new Error('Unrecognised audio container');
+    }
+
+    if (metadata.bitrate === undefined && metadata.duration > 0) {
+      metadata.bitrate = Math.round((buffer.length * 8) / metadata.duration / 1000);
+    }
+    return metadata;
+  }
+
+  /**
+   * Read metadata from a file on disk. Audio attachments are small, so the
+   * file is read whole; M4A only loads its moov box.
+   */
+  static async readFile(filePath: string): Promise<AudioMetadata> {
+    const handle = await fs.open(filePath, 'r');
+    let head: Buffer;
+    try {
+      head = Buffer.alloc(12);
+      await handle.read(head, 0, 12, 0);
+    } finally {
+      await handle.close();
+    }
+
+    if (this.sniff(head) === 'mp4') {
+      const [mp4, stats] = await Promise.all([Mp4MetadataReader.readFile(filePath), fs.stat(filePath)]);
+      if (!mp4.hasAudio) {
+        throw new Error('MP4 file has no audio track');
+      }
+      return {
+        container: 'mp4',
+        codec: mp4.audioCodec || 'unknown',
+        duration: mp4.duration,
+        bitrate: mp4.duration > 0 ? Math.round((stats.size * 8) / mp4.duration / 1000) : undefined,
+      };
+    }
+
+    return this.read(await fs.readFile(filePath));
+  }
+
+  /**
+   * Whether a buffer is Opus audio in an Ogg container, as voice notes must be
+   */
+  static isOggOpus(buffer: Buffer): boolean {
+    if (!Ogg.isOgg(buffer)) return false;
+    const [first] = Ogg.readPages(buffer.subarray(0, Math.min(buffer.length, 64 * 1024)));
+    return !!first && buffer.toString('latin1', first.dataStart, first.dataStart + 8) === 'OpusHead';
+  }
+
+  private static readOgg(buffer: Buffer): AudioMetadata {
+    const pages = Ogg.readPages(buffer);
+    if (pages.length === 0) {
+      throw new Error('No Ogg pages found');
+    }
+
+    const header = buffer.subarray(pages[0].dataStart, pages[0].dataStart + pages[0].dataLength);
+    const lastGranule = Ogg.lastGranulePosition(pages);
+
+    if (header.toString('latin1', 0, 8) === 'OpusHead') {
+      const channels = header[9];
+      const preSkip = header.readUInt16LE(10);
+      const inputRate = header.readUInt32LE(12);
+      return {
+        container: 'ogg',
+        codec: 'opus',
+        duration: Math.max(0, lastGranule - preSkip) / OPUS_GRANULE_RATE,
+        sampleRate: inputRate || OPUS_GRANULE_RATE,
+        channels,
+      };
+    }
+
+    if (header[0] === 0x01 && header.toString('latin1', 1, 7) === 'vorbis') {
+      const channels = header[11];
+      const sampleRate = header.readUInt32LE(12);
+      return {
+        container: 'ogg',
+        codec: 'vorbis',
+        duration: sampleRate > 0 ? lastGranule / sampleRate : 0,
+        sampleRate,
+        channels,
+      };
+    }
+
+    throw new Error('Unsupported Ogg codec');
+  }
+
+  private static readWav(buffer: Buffer): AudioMetadata {
+    let offset = 12;
+    let format: { codec: number; channels: number; sampleRate: number; byteRate: number } | null = null;
+
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString('latin1', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (id === 'fmt ' && body + 16 <= buffer.length) {
+        format = {
+          codec: buffer.readUInt16LE(body),
+          channels: buffer.readUInt16LE(body + 2),
+          sampleRate: buffer.readUInt32LE(body + 4),
+          byteRate: buffer.readUInt32LE(body + 8),
+        };
+      } else if (id === 'data') {
+        if (!format) {
+          throw new Error('WAV data chunk precedes its fmt chunk');
+        }
+        // Streamed recordings leave the size unset; count what is there
+        const dataSize = Math.min(size, buffer.length - body);
+        return {
+          container: 'wav',
+          codec: format.codec === 1 || format.codec === 0xfffe ? 'pcm' : format.codec === 3 ? 'pcm_float' : `wav_${format.codec}`,
+          duration: format.byteRate > 0 ? dataSize / format.byteRate : 0,
+          sampleRate: format.sampleRate,
+          channels: format.channels,
+          bitrate: Math.round((format.byteRate * 8) / 1000),
+        };
+      }
+
+      // Chunks are padded to an even size
+      offset = body + size + (size % 2);
+    }
+
+    throw new Error('No WAV data chunk found');
+  }
+
+  private static readMp3(buffer: Buffer): AudioMetadata {
+    let start = 0;
+    if (buffer.toString('latin1', 0, 3) === 'ID3' && buffer.length >= 10) {
+      // Syncsafe size, plus the footer when flagged
+      const size = (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+      start = 10 + size + (buffer[5] & 0x10 ? 10 : 0);
+    }
+
+    const frame = this.findMp3Frame(buffer, start);
+    if (!frame) {
+      throw new Error('No MPEG audio frame found');
+    }
+
+    const base = {
+      container: 'mp3' as const,
+      codec: 'mp3',
+      sampleRate: frame.sampleRate,
+      channels: frame.channels,
+    };
+
+    // VBR encoders store the frame count in a Xing/Info or VBRI header inside the first frame
+    const sideInfo = frame.mpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+    const xing = frame.offset + 4 + sideInfo;
+    const tag = buffer.toString('latin1', xing, xing + 4);
+    let frames: number | undefined;
+
+    if ((tag === 'Xing' || tag === 'Info') && xing + 12 <= buffer.length && buffer.readUInt32BE(xing + 4) & 0x1) {
+      frames = buffer.readUInt32BE(xing + 8);
+    } else if (buffer.toString('latin1', frame.offset + 36, frame.offset + 40) === 'VBRI' && frame.offset + 54 <= buffer.length) {
+      frames = buffer.readUInt32BE(frame.offset + 50);
+    }
+
+    if (frames) {
+      return { ...base, duration: (frames * frame.samplesPerFrame) / frame.sampleRate };
+    }
+
+    // Constant bitrate: the audio bytes over the first frame's bitrate, minus an ID3v1 tag
+    const trailer = buffer.length >= 128 && buffer.toString('latin1', buffer.length - 128, buffer.length - 125) === 'TAG' ? 128 : 0;
+    const audioBytes = buffer.length - frame.offset - trailer;
+    return {
+      ...base,
+      duration: (audioBytes * 8) / (frame.bitrate * 1000),
+      bitrate: frame.bitrate,
+    };
+  }
+
+  /**
+   * First valid MPEG-1/2/2.5 Layer III frame header at or after an offset,
+   * confirmed by the header of the frame that follows when there is one
+   */
+  private static findMp3Frame(buffer: Buffer, start: number): Mp3FrameHeader | null {
+    const limit = Math.min(buffer.length - 4, start + 64 * 1024);
+
+    for (let offset = start; offset <= limit; offset++) {
+      const header = this.parseMp3Header(buffer, offset);
+      if (!header) continue;
+
+      const next = offset + header.frameLength;
+      if (next + 4 <= buffer.length && !this.parseMp3Header(buffer, next)) {
+        continue;
+      }
+      return header;
+    }
+
+    return null;
+  }
+
+  private static parseMp3Header(buffer: Buffer, offset: number): (Mp3FrameHeader & { frameLength: number }) | null {
+    if (offset + 4 > buffer.length || buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) {
+      return null;
+    }
+
+    const version = (buffer[offset + 1] >> 3) & 0x3; // 0: 2.5, 2: 2, 3: 1
+    const layer = (buffer[offset + 1] >> 1) & 0x3; // 1: Layer III
+    const bitrateIndex = buffer[offset + 2] >> 4;
+    const rateIndex = (buffer[offset + 2] >> 2) & 0x3;
+    const padding = (buffer[offset + 2] >> 1) & 0x1;
+    const channelMode = buffer[offset + 3] >> 6;
+
+    if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) {
+      return null;
+    }
+
+    const mpeg1 = version === 3;
+    const bitrate = MP3_BITRATES[mpeg1 ? 'v1' : 'v2'][bitrateIndex];
+    const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (mpeg1 ? 1 : version === 2 ? 2 : 4);
+    const samplesPerFrame = mpeg1 ? 1152 : 576;
+
+    return {
+      offset,
+      mpeg1,
+      sampleRate,
+      bitrate,
+      channels: channelMode === 3 ? 1 : 2,
+      samplesPerFrame,
+      frameLength: Math.floor((samplesPerFrame / 8) * bitrate * 1000 / sampleRate) + padding,
+    };
+  }
+}
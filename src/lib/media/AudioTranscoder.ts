@@ -0,0 +1,72 @@
+/**
+ * Pluggable backends that convert audio for voice notes, which WhatsApp
+ * only plays as Opus in an Ogg container. The default backend shells out to
+ * ffmpeg when it is installed.
+ */
+
+import { Ffmpeg } from './Ffmpeg';
+
+// Long recordings take a while to encode on small machines
+const TRANSCODE_TIMEOUT_MS = 120000;
+
+export interface AudioTranscoder {
+  readonly name: string;
+  /**
+   * Whether the backend can run on this machine
+   */
+  isAvailable(): Promise<boolean>;
+  /**
+   * Encode any audio file as mono Ogg Opus at the output path
+   */
+  toOggOpus(inputPath: string, outputPath: string): Promise<void>;
+  /**
+   * Decode any audio file to mono 16-bit PCM at the given sample rate
+   */
+  decodePcm(inputPath: string, sampleRate: number): Promise<Int16Array>;
+}
+
+/**
+ * Transcodes with ffmpeg
+ */
+export class FfmpegAudioTranscoder implements AudioTranscoder {
+  readonly name = 'ffmpeg';
+
+  constructor(private readonly binary: string = Ffmpeg.defaultBinary()) {}
+
+  isAvailable(): Promise<boolean> {
+    return Ffmpeg.isAvailable(this.binary);
+  }
+
+  async toOggOpus(inputPath: string, outputPath: string): Promise<void> {
+    await Ffmpeg.run([
+      '-y',
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', '48000',
+      '-c:a', 'libopus',
+      '-b:a', '32k',
+      '-application', 'voip',
+      '-f', 'ogg',
+      outputPath,
+    ], this.binary, TRANSCODE_TIMEOUT_MS);
+  }
+
+  async decodePcm(inputPath: string, sampleRate: number): Promise<Int16Array> {
+    const pcm = await Ffmpeg.run([
+      '-i', inputPath,
+      '-vn',
+      '-ac', '1',
+      '-ar', String(sampleRate),
+      '-f', 's16le',
+      'pipe:1',
+    ], this.binary, TRANSCODE_TIMEOUT_MS);
+
+    // Copy out, since the buffer may not be 2-byte aligned
+    const samples = new Int16Array(Math.floor(pcm.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = pcm.readInt16LE(i * 2);
+    }
+    return samples;
+  }
+}
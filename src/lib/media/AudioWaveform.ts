@@ -0,0 +1,146 @@
+/**
+ * Voice note waveforms: a fixed number of loudness bars scaled 0-100, the
+ * shape WhatsApp draws under a voice note.
+ */
+
+import { Ogg } from './Ogg';
+
+export const WAVEFORM_SAMPLES = 64;
+
+const MAX_LEVEL = 100;
+
+export class AudioWaveform {
+  /**
+   * Bars from mono 16-bit PCM, by RMS loudness per bucket
+   */
+  static fromPcm(samples: Int16Array, bars: number = WAVEFORM_SAMPLES): Uint8Array {
+    const levels = new Array<number>(bars).fill(0);
+    if (samples.length === 0) {
+      return new Uint8Array(bars);
+    }
+
+    for (let bar = 0; bar < bars; bar++) {
+      const start = Math.floor((bar * samples.length) / bars);
+      const end = Math.max(start + 1, Math.floor(((bar + 1) * samples.length) / bars));
+      let sum = 0;
+      for (let i = start; i < end && i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      levels[bar] = Math.sqrt(sum / (end - start));
+    }
+
+    return this.normalize(levels, 0);
+  }
+
+  /**
+   * Bars from a PCM WAV file (8/16/24/32-bit integer or 32-bit float),
+   * mixing channels down to mono
+   */
+  static fromWav(buffer: Buffer, bars: number = WAVEFORM_SAMPLES): Uint8Array {
+    return this.fromPcm(this.decodeWav(buffer), bars);
+  }
+
+  /**
+   * Bars estimated from an Ogg Opus file without decoding it: Opus spends
+   * more bytes on louder, busier frames, so packet sizes track loudness
+   */
+  static fromOggOpus(buffer: Buffer, bars: number = WAVEFORM_SAMPLES): Uint8Array {
+    // The first two packets are the OpusHead and OpusTags headers
+    const sizes = Ogg.readPackets(buffer).slice(2).map(packet => packet.length);
+    if (sizes.length === 0) {
+      return new Uint8Array(bars);
+    }
+
+    const levels = new Array<number>(bars).fill(0);
+    for (let bar = 0; bar < bars; bar++) {
+      const start = Math.floor((bar * sizes.length) / bars);
+      const end = Math.max(start + 1, Math.floor(((bar + 1) * sizes.length) / bars));
+      const bucket = sizes.slice(start, Math.min(end, sizes.length));
+      levels[bar] = bucket.length > 0 ? bucket.reduce((sum, size) => sum + size, 0) / bucket.length : 0;
+    }
+
+    // Silence still costs a few bytes per packet, so scale from the quietest bar
+    return this.normalize(levels, Math.min(...levels));
+  }
+
+  static toBase64(waveform: Uint8Array): string {
+    return Buffer.from(waveform).toString('base64');
+  }
+
+  static fromBase64(encoded: string): Uint8Array {
+    return new Uint8Array(Buffer.from(encoded, 'base64'));
+  }
+
+  /**
+   * Mono 16-bit samples of a WAV file
+   */
+  static decodeWav(buffer: Buffer): Int16Array {
+    if (buffer.toString('latin1', 0, 4) !== 'RIFF' || buffer.toString('latin1', 8, 12) !== 'WAVE') {
+      throw new Error('Not a WAV file');
+    }
+
+    let offset = 12;
+    let codec = 0;
+    let channels = 0;
+    let bitsPerSample = 0;
+
+    while (offset + 8 <= buffer.length) {
+      const id = buffer.toString('latin1', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const body = offset + 8;
+
+      if (id === 'fmt ') {
+        codec = buffer.readUInt16LE(body);
+        channels = buffer.readUInt16LE(body + 2);
+        bitsPerSample = buffer.readUInt16LE(body + 14);
+        // WAVE_FORMAT_EXTENSIBLE carries the real format in its sub-format GUID
+        if (codec === 0xfffe && size >= 26) {
+          codec = buffer.readUInt16LE(body + 24);
+        }
+      } else if (id === 'data') {
+        const end = Math.min(body + size, buffer.length);
+        return this.decodePcmFrames(buffer.subarray(body, end), codec, channels, bitsPerSample);
+      }
+
+      offset = body + size + (size % 2);
+    }
+
+    throw new Error('No WAV data chunk found');
+  }
+
+  private static decodePcmFrames(data: Buffer, codec: number, channels: number, bitsPerSample: number): Int16Array {
+    const bytesPerSample = bitsPerSample / 8;
+    const isFloat = codec === 3;
+
+    if (channels < 1 || !(codec === 1 || (isFloat && bitsPerSample === 32)) || ![1, 2, 3, 4].includes(bytesPerSample)) {
+      throw new Error(`Unsupported WAV encoding (format ${codec}, ${bitsPerSample}-bit)`);
+    }
+
+    const frameSize = bytesPerSample * channels;
+    const frames = Math.floor(data.length / frameSize);
+    const samples = new Int16Array(frames);
+
+    for (let frame = 0; frame < frames; frame++) {
+      let sum = 0;
+      for (let channel = 0; channel < channels; channel++) {
+        const at = frame * frameSize + channel * bytesPerSample;
+        if (isFloat) {
+          sum += Math.max(-1, Math.min(1, data.readFloatLE(at))) * 32767;
+        } else if (bytesPerSample === 1) {
+          sum += (data[at] - 128) << 8; // 8-bit WAV is unsigned
+        } else {
+          // Keep the top 16 bits of wider samples
+          sum += data.readIntLE(at, bytesPerSample) >> (8 * (bytesPerSample - 2));
+        }
+      }
+      samples[frame] = Math.round(sum / channels);
+    }
+
+    return samples;
+  }
+
+  private static normalize(levels: number[], floor: number): Uint8Array {
+    const peak = Math.max(...levels) - floor;
+    return Uint8Array.from(levels, level => (peak > 0 ? Math.round(((level - floor) / peak) * MAX_LEVEL) : 0));
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Minimal runner for the ffmpeg binary shared by the ffmpeg-backed media
+ * backends (frame extraction, audio and GIF transcoding). They run
+ * FFMPEG_PATH when it is set, else ffmpeg from the PATH; without either they
+ * report themselves unavailable and callers fall back or explain.
+ */
+
+import { execFile } from 'child_process';
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MAX_OUTPUT_BYTES = 64 * 1024 * 1024;
+
+export class Ffmpeg {
+  private static availability = new Map<string, Promise<boolean>>();
+
+  /**
+   * Binary the backends run by default
+   */
+  static defaultBinary(): string {
+    return process.env.FFMPEG_PATH || 'ffmpeg';
+  }
+
+  /**
+   * Whether the binary runs; probed once per binary, so installing ffmpeg
+   * requires a restart to be picked up
+   */
+  static isAvailable(binary: string = this.defaultBinary()): Promise<boolean> {
+    let available = this.availability.get(binary);
+    if (!available) {
+      available = new Promise(resolve => {
+        execFile(binary, ['-version'], { timeout: DEFAULT_TIMEOUT_MS }, error => resolve(!error));
+      });
+      this.availability.set(binary, available);
+    }
+    return available;
+  }
+
+  /**
+   * Run ffmpeg quietly and return what it wrote to stdout
+   */
+  static run(args: string[], binary: string = this.defaultBinary(), timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        binary,
+        ['-hide_banner', '-loglevel', 'error', ...args],
+        { encoding: 'buffer', timeout: timeoutMs, maxBuffer: MAX_OUTPUT_BYTES },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`ffmpeg failed: ${stderr.toString().trim() || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Pluggable backends that grab a still frame from a video, used for poster
+ * thumbnails. The default backend shells out to ffmpeg when it is installed.
+ */
+
+import { Ffmpeg } from './Ffmpeg';
+
+export interface FrameExtractor {
+  readonly name: string;
+  /**
+   * Whether the backend can run on this machine
+   */
+  isAvailable(): Promise<boolean>;
+  /**
+   * Decode the frame at the given time as an image buffer (JPEG, PNG, ...)
+   */
+  extractFrame(videoPath: string, atSeconds: number): Promise<Buffer>;
+}
+
+/**
+ * Extracts frames with ffmpeg
+ */
+export class FfmpegFrameExtractor implements FrameExtractor {
+  readonly name = 'ffmpeg';
+
+  constructor(private readonly binary: string = Ffmpeg.defaultBinary()) {}
+
+  isAvailable(): Promise<boolean> {
+    return Ffmpeg.isAvailable(this.binary);
+  }
+
+  async extractFrame(videoPath: string, atSeconds: number): Promise<Buffer> {
+    const frame = await Ffmpeg.run([
+      '-ss', atSeconds.toFixed(3), // Seek before the input for a fast keyframe seek
+      '-i', videoPath,
+      '-frames:v', '1',
+      '-f', 'image2pipe',
+      '-vcodec', 'mjpeg',
+      'pipe:1',
+    ], this.binary);
+
+    if (frame.length === 0) {
+      throw new Error('ffmpeg returned no frame');
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Pure TypeScript GIF animation reader.
+ *
+ * Walks the GIF block stream to count frames, total their delays from the
+ * graphic control extensions and read the NETSCAPE2.0 loop count, without
+ * decoding any image data.
+ */
+
+export interface GifMetadata {
+  width: number;
+  height: number;
+  frameCount: number;
+  duration: number; // seconds, as browsers play it
+  loopCount?: number; // 0 loops forever; absent plays once
+  animated: boolean;
+}
+
+// Browsers play delays under 2/100 s at 1/10 s
+const MIN_FRAME_DELAY_CS = 2;
+const DEFAULT_FRAME_DELAY_CS = 10;
+
+const EXTENSION_INTRODUCER = 0x21;
+const IMAGE_SEPARATOR = 0x2c;
+const TRAILER = 0x3b;
+const GRAPHIC_CONTROL_LABEL = 0xf9;
+const APPLICATION_LABEL = 0xff;
+
+export class GifMetadataReader {
+  static isGif(buffer: Buffer): boolean {
+    return buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6));
+  }
+
+  /**
+   * Read the animation metadata; a truncated file reports the frames read so far
+   */
+  static read(buffer: Buffer): GifMetadata {
+    if (!this.isGif(buffer) || buffer.length < 13) {
+      throw new Error('Not a GIF file');
+    }
+
+    const width = buffer.readUInt16LE(6);
+    const height = buffer.readUInt16LE(8);
+    let offset = 13 + this.colorTableSize(buffer[10]);
+
+    let frameCount = 0;
+    let durationCs = 0;
+    let pendingDelay: number | null = null;
+    let loopCount: number | undefined;
+
+    while (offset < buffer.length) {
+      const block = buffer[offset];
+
+      if (block === TRAILER) {
+        break;
+      }
+
+      if (block === EXTENSION_INTRODUCER) {
+        const label = buffer[offset + 1];
+        const body = offset + 2;
+
+        if (label === GRAPHIC_CONTROL_LABEL && body + 4 < buffer.length) {
+          pendingDelay = buffer.readUInt16LE(body + 2);
+        } else if (label === APPLICATION_LABEL && buffer.toString('ascii', body + 1, body + 12) === 'NETSCAPE2.0') {
+          const data = body + 12;
+          if (data + 4 <= buffer.length && buffer[data] >= 3 && buffer[data + 1] === 0x01) {
+            loopCount = buffer.readUInt16LE(data + 2);
+          }
+        }
+
+        offset = this.skipSubBlocks(buffer, body);
+        continue;
+      }
+
+      if (block === IMAGE_SEPARATOR) {
+        if (offset + 10 > buffer.length) break;
+
+        const localTable = this.colorTableSize(buffer[offset + 9]);
+        // Descriptor, local color table, LZW minimum code size, then the image data
+        const dataEnd = this.skipSubBlocks(buffer, offset + 10 + localTable + 1);
+        if (dataEnd > buffer.length) break;
+
+        const delay = pendingDelay ?? 0;
+        durationCs += delay < MIN_FRAME_DELAY_CS ? DEFAULT_FRAME_DELAY_CS : delay;
+        frameCount++;
+        pendingDelay = null;
+        offset = dataEnd;
+        continue;
+      }
+
+      // Unknown block; the rest of the stream can't be trusted
+      break;
+    }
+
+    return {
+      width,
+      height,
+      frameCount,
+      duration: frameCount > 1 ? durationCs / 100 : 0,
+      loopCount,
+      animated: frameCount > 1,
+    };
+  }
+
+  /**
+   * Bytes of the color table flagged in a packed field
+   */
+  private static colorTableSize(packed: number): number {
+    return packed & 0x80 ? 3 * (1 << ((packed & 0x07) + 1)) : 0;
+  }
+
+  /**
+   * Offset just past a run of data sub-blocks
+   */
+  private static skipSubBlocks(buffer: Buffer, offset: number): number {
+    while (offset < buffer.length) {
+      const size = buffer[offset];
+      offset += 1 + size;
+      if (size === 0) {
+        return offset;
+      }
+    }
+    return buffer.length + 1;
+  }
+}
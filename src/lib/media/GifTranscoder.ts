@@ -0,0 +1,50 @@
+/**
+ * Pluggable backends that convert animated GIFs to MP4, which WhatsApp
+ * plays inline as a looping GIF when sent with gifPlayback. The default
+ * backend shells out to ffmpeg when it is installed.
+ */
+
+import { Ffmpeg } from './Ffmpeg';
+
+// Large GIFs have many frames to encode
+const TRANSCODE_TIMEOUT_MS = 120000;
+
+export interface GifTranscoder {
+  readonly name: string;
+  /**
+   * Whether the backend can run on this machine
+   */
+  isAvailable(): Promise<boolean>;
+  /**
+   * Encode a GIF as a silent H.264 MP4 at the output path
+   */
+  toMp4(inputPath: string, outputPath: string): Promise<void>;
+}
+
+/**
+ * Transcodes with ffmpeg
+ */
+export class FfmpegGifTranscoder implements GifTranscoder {
+  readonly name = 'ffmpeg';
+
+  constructor(private readonly binary: string = Ffmpeg.defaultBinary()) {}
+
+  isAvailable(): Promise<boolean> {
+    return Ffmpeg.isAvailable(this.binary);
+  }
+
+  async toMp4(inputPath: string, outputPath: string): Promise<void> {
+    await Ffmpeg.run([
+      '-y',
+      '-i', inputPath,
+      '-an',
+      // H.264 in yuv420p needs even dimensions
+      '-vf', 'scale=trunc(iw/2)*2:trunc(ih/2)*2',
+      '-c:v', 'libx264',
+      '-pix_fmt', 'yuv420p',
+      '-movflags', '+faststart',
+      '-f', 'mp4',
+      outputPath,
+    ], this.binary, TRANSCODE_TIMEOUT_MS);
+  }
+}
@@ -0,0 +1,396 @@
+/**
+ * Pure TypeScript image header reader.
+ *
+ * Reads dimensions from JPEG (SOF markers), PNG (IHDR), GIF (logical screen)
+ * and WebP (VP8/VP8L/VP8X) headers, plus EXIF orientation, camera and
+ * timestamp fields from JPEG APP1, PNG eXIf and WebP EXIF chunks. Only the
+ * headers are parsed; pixel data is never decoded.
+ */
+
+export type ImageFormat = 'jpeg' | 'png' | 'gif' | 'webp';
+
+export interface ImageExif {
+  make?: string;
+  model?: string;
+  lensModel?: string;
+  software?: string;
+  takenAt?: Date; // DateTimeOriginal, falling back to DateTime
+  exposureTime?: number; // seconds
+  fNumber?: number;
+  iso?: number;
+  focalLength?: number; // mm
+}
+
+export interface ImageMetadata {
+  format: ImageFormat;
+  width: number; // As displayed, after applying the EXIF orientation
+  height: number;
+  storedWidth: number; // As encoded in the file
+  storedHeight: number;
+  orientation: number; // EXIF orientation 1-8 (1 when absent)
+  exif?: ImageExif;
+  hasGps: boolean; // EXIF carries a GPS IFD with at least one entry
+}
+
+// Offset of the TIFF header inside an EXIF block, e.g. "Exif\0\0" in JPEG APP1
+const EXIF_PREFIX = Buffer.from('Exif\0\0', 'binary');
+
+// Orientations 5-8 rotate the image by 90 or 270 degrees
+const SWAPPED_ORIENTATIONS = [5, 6, 7, 8];
+
+// JPEG markers without a length field
+const STANDALONE_MARKERS = new Set([0x01, 0xD0, 0xD1, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8, 0xD9]);
+
+// Start-of-frame markers; 0xC4 (DHT), 0xC8 (JPG) and 0xCC (DAC) share the range
+const SOF_MARKERS = new Set([0xC0, 0xC1, 0xC2, 0xC3, 0xC5, 0xC6, 0xC7, 0xC9, 0xCA, 0xCB, 0xCD, 0xCE, 0xCF]);
+
+const TIFF_TAGS = {
+  make: 0x010F,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  exposureTime: 0x829A,
+  fNumber: 0x829D,
+  iso: 0x8827,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  focalLength: 0x920A,
+  lensModel: 0xA434,
+} as const;
+
+// Byte sizes of TIFF field types: BYTE, ASCII, SHORT, LONG, RATIONAL, ..., SLONG, SRATIONAL
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type TiffValue = string | number | undefined;
+
+interface ExifSummary {
+  orientation: number;
+  exif?: ImageExif;
+  hasGps: boolean;
+}
+
+interface TiffEntry {
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value in the TIFF block
+}
+
+export class ImageMetadataReader {
+  /**
+   * Detect the image format from its signature
+   */
+  static detectFormat(buffer: Buffer): ImageFormat | null {
+    if (buffer.length >= 3 && buffer[0] === 0xFF && buffer[1] === 0xD8 && buffer[2] === 0xFF) {
+      return 'jpeg';
+    }
+    if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504E47 && buffer.readUInt32BE(4) === 0x0D0A1A0A) {
+      return 'png';
+    }
+    if (buffer.length >= 6 && /^GIF8[79]a$/.test(buffer.toString('ascii', 0, 6))) {
+      return 'gif';
+    }
+    if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+      return 'webp';
+    }
+    return null;
+  }
+
+  /**
+   * Read dimensions, orientation and EXIF fields; null when the format is
+   * unsupported or the headers are truncated
+   */
+  static read(buffer: Buffer): ImageMetadata | null {
+    const format = this.detectFormat(buffer);
+
+    try {
+      switch (format) {
+        case 'jpeg':
+          return this.readJpeg(buffer);
+        case 'png':
+          return this.readPng(buffer);
+        case 'gif':
+          return this.readGif(buffer);
+        case 'webp':
+          return this.readWebp(buffer);
+        default:
+          return null;
+      }
+    } catch {
+      // Truncated or corrupt headers
+      return null;
+    }
+  }
+
+  private static readJpeg(buffer: Buffer): ImageMetadata | null {
+    let offset = 2; // Skip SOI
+    let exif: ExifSummary | undefined;
+
+    while (offset + 4 <= buffer.length) {
+      if (buffer[offset] !== 0xFF) {
+        return null; // Lost marker sync
+      }
+
+      const marker = buffer[offset + 1];
+      if (marker === 0xFF) {
+        offset++; // Fill byte
+        continue;
+      }
+      if (STANDALONE_MARKERS.has(marker)) {
+        offset += 2;
+        continue;
+      }
+
+      const length = buffer.readUInt16BE(offset + 2);
+      const segmentStart = offset + 4;
+
+      if (marker === 0xE1 && !exif && buffer.subarray(segmentStart, segmentStart + 6).equals(EXIF_PREFIX)) {
+        exif = this.readExif(buffer.subarray(segmentStart + 6, offset + 2 + length));
+      }
+
+      if (SOF_MARKERS.has(marker)) {
+        const storedHeight = buffer.readUInt16BE(segmentStart + 1);
+        const storedWidth = buffer.readUInt16BE(segmentStart + 3);
+        return this.build('jpeg', storedWidth, storedHeight, exif);
+      }
+
+      if (marker === 0xDA) {
+        return null; // Scan data without a frame header
+      }
+
+      offset += 2 + length;
+    }
+
+    return null;
+  }
+
+  private static readPng(buffer: Buffer): ImageMetadata | null {
+    if (buffer.toString('ascii', 12, 16) !== 'IHDR') {
+      return null;
+    }
+
+    const storedWidth = buffer.readUInt32BE(16);
+    const storedHeight = buffer.readUInt32BE(20);
+    let exif: ExifSummary | undefined;
+
+    // eXIf must precede IDAT, so stop at the first image data chunk
+    let offset = 8;
+    while (offset + 8 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('ascii', offset + 4, offset + 8);
+
+      if (type === 'eXIf') {
+        exif = this.readExif(buffer.subarray(offset + 8, offset + 8 + length));
+        break;
+      }
+      if (type === 'IDAT' || type === 'IEND') {
+        break;
+      }
+
+      offset += 12 + length; // length + type + data + CRC
+    }
+
+    return this.build('png', storedWidth, storedHeight, exif);
+  }
+
+  private static readGif(buffer: Buffer): ImageMetadata | null {
+    if (buffer.length < 10) {
+      return null;
+    }
+    return this.build('gif', buffer.readUInt16LE(6), buffer.readUInt16LE(8));
+  }
+
+  private static readWebp(buffer: Buffer): ImageMetadata | null {
+    let dimensions: { width: number; height: number } | null = null;
+    let exif: ExifSummary | undefined;
+
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+      const type = buffer.toString('ascii', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const data = offset + 8;
+
+      if (type === 'VP8X' && !dimensions) {
+        dimensions = {
+          width: buffer.readUIntLE(data + 4, 3) + 1,
+          height: buffer.readUIntLE(data + 7, 3) + 1,
+        };
+      } else if (type === 'VP8 ' && !dimensions) {
+        // Key frame start code 9D 01 2A, then 14-bit dimensions with 2-bit scale
+        if (buffer[data + 3] !== 0x9D || buffer[data + 4] !== 0x01 || buffer[data + 5] !== 0x2A) {
+          return null;
+        }
+        dimensions = {
+          width: buffer.readUInt16LE(data + 6) & 0x3FFF,
+          height: buffer.readUInt16LE(data + 8) & 0x3FFF,
+        };
+      } else if (type === 'VP8L' && !dimensions) {
+        if (buffer[data] !== 0x2F) {
+          return null;
+        }
+        const bits = buffer.readUInt32LE(data + 1);
+        dimensions = {
+          width: (bits & 0x3FFF) + 1,
+          height: ((bits >> 14) & 0x3FFF) + 1,
+        };
+      } else if (type === 'EXIF') {
+        let block = buffer.subarray(data, data + size);
+        if (block.subarray(0, 6).equals(EXIF_PREFIX)) {
+          block = block.subarray(6); // Some encoders keep the JPEG prefix
+        }
+        exif = this.readExif(block);
+      }
+
+      offset = data + size + (size % 2); // Chunks are padded to an even size
+    }
+
+    return dimensions ? this.build('webp', dimensions.width, dimensions.height, exif) : null;
+  }
+
+  private static build(
+    format: ImageFormat,
+    storedWidth: number,
+    storedHeight: number,
+    exif?: ExifSummary
+  ): ImageMetadata | null {
+    if (!storedWidth || !storedHeight) {
+      return null;
+    }
+
+    const orientation = exif?.orientation || 1;
+    const swapped = SWAPPED_ORIENTATIONS.includes(orientation);
+
+    return {
+      format,
+      width: swapped ? storedHeight : storedWidth,
+      height: swapped ? storedWidth : storedHeight,
+      storedWidth,
+      storedHeight,
+      orientation,
+      exif: exif?.exif,
+      hasGps: exif?.hasGps || false,
+    };
+  }
+
+  /**
+   * Parse a TIFF-structured EXIF block (starting at the byte order mark)
+   */
+  private static readExif(tiff: Buffer): ExifSummary | undefined {
+    if (tiff.length < 8) {
+      return undefined;
+    }
+
+    const byteOrder = tiff.toString('ascii', 0, 2);
+    if (byteOrder !== 'II' && byteOrder !== 'MM') {
+      return undefined;
+    }
+    const littleEndian = byteOrder === 'II';
+    const u16 = (offset: number) => littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset);
+    const u32 = (offset: number) => littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset);
+
+    if (u16(2) !== 42) {
+      return undefined;
+    }
+
+    const readIfd = (ifdOffset: number): Map<number, TiffEntry> => {
+      const entries = new Map<number, TiffEntry>();
+      if (ifdOffset < 8 || ifdOffset + 2 > tiff.length) {
+        return entries;
+      }
+
+      const count = u16(ifdOffset);
+      for (let i = 0; i < count; i++) {
+        const entry = ifdOffset + 2 + i * 12;
+        if (entry + 12 > tiff.length) {
+          break;
+        }
+
+        const type = u16(entry + 2);
+        const valueCount = u32(entry + 4);
+        const size = (TIFF_TYPE_SIZES[type] || 1) * valueCount;
+        entries.set(u16(entry), {
+          type,
+          count: valueCount,
+          // Values of up to four bytes are stored inline
+          valueOffset: size <= 4 ? entry + 8 : u32(entry + 8),
+        });
+      }
+      return entries;
+    };
+
+    const readValue = (entry: TiffEntry | undefined): TiffValue => {
+      if (!entry || entry.valueOffset + (TIFF_TYPE_SIZES[entry.type] || 1) > tiff.length) {
+        return undefined;
+      }
+
+      switch (entry.type) {
+        case 2: {
+          const end = Math.min(entry.valueOffset + entry.count, tiff.length);
+          return tiff.toString('latin1', entry.valueOffset, end).replace(/\0+$/, '').trim() || undefined;
+        }
+        case 3:
+          return u16(entry.valueOffset);
+        case 4:
+          return u32(entry.valueOffset);
+        case 5: {
+          const denominator = u32(entry.valueOffset + 4);
+          return denominator ? u32(entry.valueOffset) / denominator : undefined;
+        }
+        default:
+          return undefined;
+      }
+    };
+
+    const ifd0 = readIfd(u32(4));
+    const exifPointer = readValue(ifd0.get(TIFF_TAGS.exifIfd));
+    const exifIfd = typeof exifPointer === 'number' ? readIfd(exifPointer) : new Map<number, TiffEntry>();
+
+    const text = (value: TiffValue) => typeof value === 'string' ? value : undefined;
+    const number = (value: TiffValue) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+    const orientation = number(readValue(ifd0.get(TIFF_TAGS.orientation)));
+    const exif: ImageExif = {
+      make: text(readValue(ifd0.get(TIFF_TAGS.make))),
+      model: text(readValue(ifd0.get(TIFF_TAGS.model))),
+      lensModel: text(readValue(exifIfd.get(TIFF_TAGS.lensModel))),
+      software: text(readValue(ifd0.get(TIFF_TAGS.software))),
+      takenAt: this.parseExifDate(
+        text(readValue(exifIfd.get(TIFF_TAGS.dateTimeOriginal))) || text(readValue(ifd0.get(TIFF_TAGS.dateTime))),
+        text(readValue(exifIfd.get(TIFF_TAGS.offsetTimeOriginal)))
+      ),
+      exposureTime: number(readValue(exifIfd.get(TIFF_TAGS.exposureTime))),
+      fNumber: number(readValue(exifIfd.get(TIFF_TAGS.fNumber))),
+      iso: number(readValue(exifIfd.get(TIFF_TAGS.iso))),
+      focalLength: number(readValue(exifIfd.get(TIFF_TAGS.focalLength))),
+    };
+
+    const hasFields = Object.values(exif).some(value => value !== undefined);
+    const gpsPointer = readValue(ifd0.get(TIFF_TAGS.gpsIfd));
+
+    return {
+      orientation: orientation && orientation >= 1 && orientation <= 8 ? orientation : 1,
+      exif: hasFields ? exif : undefined,
+      hasGps: typeof gpsPointer === 'number' && readIfd(gpsPointer).size > 0,
+    };
+  }
+
+  /**
+   * EXIF dates look like "2024:05:17 14:03:22"; without an offset tag they
+   * are camera-local time and are read as server-local time
+   */
+  private static parseExifDate(value?: string, offset?: string): Date | undefined {
+    const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, year, month, day, hour, minute, second] = match;
+    const date = offset && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`)
+      : new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+
+    return Number.isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Image resize, re-encode and watermark pipeline built on sharp.
+ *
+ * Images are auto-rotated from their EXIF orientation, downscaled to fit a
+ * status-friendly maximum size and re-encoded as JPEG or WebP. A text or logo
+ * watermark can be stamped at a corner or the center.
+ */
+
+import sharp from 'sharp';
+
+// WhatsApp shows status images at up to 1080x1920; larger sides are wasted bytes
+export const STATUS_IMAGE_MAX_DIMENSION = 1920;
+
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface ImageWatermark {
+  text?: string;
+  logoPath?: string; // Image file stamped instead of text
+  position?: WatermarkPosition; // Defaults to 'bottom-right'
+  opacity?: number; // 0-1, defaults to 0.5
+}
+
+export interface ImagePipelineOptions {
+  maxDimension?: number; // Longest side in pixels; 0 keeps the original size
+  quality?: number; // 1-100
+  format?: 'jpeg' | 'webp'; // Defaults to WebP for WebP input, JPEG otherwise
+  watermark?: ImageWatermark;
+}
+
+export interface ImagePipelineResult {
+  buffer: Buffer;
+  format: 'jpeg' | 'webp';
+  mimetype: string;
+  width: number;
+  height: number;
+}
+
+// Formats sharp can decode that make sense to send as a photo
+const PROCESSABLE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/tiff'];
+
+const DEFAULT_QUALITY = 85;
+const DEFAULT_OPACITY = 0.5;
+const LOGO_MAX_FRACTION = 0.2; // Of the image's width and height
+const TEXT_SIZE_FRACTION = 0.04; // Of the image's shorter side
+const MARGIN_FRACTION = 0.03;
+
+export class ImagePipeline {
+  /**
+   * Whether the pipeline can process a MIME type; animated GIFs and vector
+   * images are sent as-is
+   */
+  static supports(mimetype: string): boolean {
+    return PROCESSABLE_MIME_TYPES.includes(mimetype);
+  }
+
+  /**
+   * Run an image through the pipeline
+   */
+  static async process(
+    input: string | Buffer,
+    mimetype: string,
+    options: ImagePipelineOptions = {}
+  ): Promise<ImagePipelineResult> {
+    const format = options.format || (mimetype === 'image/webp' ? 'webp' : 'jpeg');
+    const quality = Math.min(100, Math.max(1, Math.round(options.quality ?? DEFAULT_QUALITY)));
+    const maxDimension = options.maxDimension ?? STATUS_IMAGE_MAX_DIMENSION;
+
+    // Apply the EXIF orientation first so resizing and watermark placement see the upright image
+    let image = sharp(input).rotate();
+    if (maxDimension > 0) {
+      image = image.resize({
+        width: maxDimension,
+        height: maxDimension,
+        fit: 'inside',
+        withoutEnlargement: true,
+      });
+    }
+
+    // JPEG has no alpha channel; flatten transparent PNG/WebP onto white
+    if (format === 'jpeg') {
+      image = image.flatten({ background: '#ffffff' });
+    }
+
+    // Keep the intermediate as raw pixels so the image is only encoded once, at the end
+    const { data: resized, info } = await image.raw().toBuffer({ resolveWithObject: true });
+    let raw = { width: info.width, height: info.height, channels: info.channels };
+    let data = resized;
+
+    if (options.watermark && (options.watermark.text || options.watermark.logoPath)) {
+      const overlay = await this.renderWatermark(options.watermark, info.width, info.height);
+      if (overlay) {
+        const position = this.place(
+          options.watermark.position || 'bottom-right',
+          info,
+          overlay,
+          Math.round(Math.min(info.width, info.height) * MARGIN_FRACTION)
+        );
+        // Compositing adds an alpha channel, so the raw layout comes from its output
+        const composited = await sharp(data, { raw })
+          .composite([{ input: overlay.buffer, ...position }])
+          .raw()
+          .toBuffer({ resolveWithObject: true });
+        data = composited.data;
+        raw = { width: composited.info.width, height: composited.info.height, channels: composited.info.channels };
+      }
+    }
+
+    const output = sharp(data, { raw });
+    const buffer = format === 'webp'
+      ? await output.webp({ quality }).toBuffer()
+      : await output.jpeg({ quality, mozjpeg: true }).toBuffer();
+
+    return {
+      buffer,
+      format,
+      mimetype: `image/${format}`,
+      width: info.width,
+      height: info.height,
+    };
+  }
+
+  /**
+   * Render the watermark as a transparent PNG sized for the target image
+   */
+  private static async renderWatermark(
+    watermark: ImageWatermark,
+    imageWidth: number,
+    imageHeight: number
+  ): Promise<{ buffer: Buffer; width: number; height: number } | null> {
+    const opacity = Math.min(1, Math.max(0, watermark.opacity ?? DEFAULT_OPACITY));
+    const margin = Math.round(Math.min(imageWidth, imageHeight) * MARGIN_FRACTION);
+
+    if (watermark.logoPath) {
+      const { data, info } = await sharp(watermark.logoPath)
+        .resize({
+          width: Math.max(1, Math.round(imageWidth * LOGO_MAX_FRACTION)),
+          height: Math.max(1, Math.round(imageHeight * LOGO_MAX_FRACTION)),
+          fit: 'inside',
+          withoutEnlargement: true,
+        })
+        .ensureAlpha()
+        // Scale the logo's own alpha channel by the opacity
+        .composite([{
+          input: Buffer.from([255, 255, 255, Math.round(255 * opacity)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in',
+        }])
+        .png()
+        .toBuffer({ resolveWithObject: true });
+
+      return { buffer: data, width: info.width, height: info.height };
+    }
+
+    const text = watermark.text || '';
+    const availableWidth = imageWidth - margin * 2;
+    // Rough average glyph width of a sans-serif font is 0.6em
+    const fontSize = Math.max(1, Math.min(
+      Math.round(Math.min(imageWidth, imageHeight) * TEXT_SIZE_FRACTION),
+      Math.floor(availableWidth / (text.length * 0.6))
+    ));
+    const width = Math.min(availableWidth, Math.ceil(text.length * fontSize * 0.6) + fontSize);
+    const height = Math.min(imageHeight - margin * 2, Math.ceil(fontSize * 1.5));
+    if (width <= 0 || height <= 0) {
+      return null;
+    }
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">
+      <text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle"
+        font-family="sans-serif" font-size="${fontSize}" font-weight="bold"
+        fill="#ffffff" fill-opacity="${opacity}"
+        stroke="#000000" stroke-opacity="${opacity * 0.6}" stroke-width="${Math.max(1, fontSize / 16)}"
+        paint-order="stroke">${this.escapeXml(text)}</text>
+    </svg>`;
+
+    return { buffer: await sharp(Buffer.from(svg)).png().toBuffer(), width, height };
+  }
+
+  /**
+   * Top-left offset of the overlay for a watermark position
+   */
+  private static place(
+    position: WatermarkPosition,
+    image: { width: number; height: number },
+    overlay: { width: number; height: number },
+    margin: number
+  ): { left: number; top: number } {
+    const right = Math.max(0, image.width - overlay.width - margin);
+    const bottom = Math.max(0, image.height - overlay.height - margin);
+
+    switch (position) {
+      case 'top-left':
+        return { left: margin, top: margin };
+      case 'top-right':
+        return { left: right, top: margin };
+      case 'bottom-left':
+        return { left: margin, top: bottom };
+      case 'center':
+        return {
+          left: Math.max(0, Math.round((image.width - overlay.width) / 2)),
+          top: Math.max(0, Math.round((image.height - overlay.height) / 2)),
+        };
+      case 'bottom-right':
+      default:
+        return { left: right, top: bottom };
+    }
+  }
+
+  private static escapeXml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
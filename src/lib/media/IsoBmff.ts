@@ -0,0 +1,83 @@
+/**
+ * Box (atom) reading helpers for ISO base media files: MP4, MOV, 3GP and M4A.
+ */
+
+export interface IsoBox {
+  type: string;
+  start: number; // Offset of the box header
+  headerSize: number;
+  size: number; // Including the header
+}
+
+export class IsoBmff {
+  /**
+   * Read the consecutive boxes between two offsets
+   */
+  static readBoxes(buffer: Buffer, start: number, end: number): IsoBox[] {
+    const boxes: IsoBox[] = [];
+    let offset = start;
+
+    while (offset + 8 <= end) {
+      let size = buffer.readUInt32BE(offset);
+      const type = buffer.toString('latin1', offset + 4, offset + 8);
+      let headerSize = 8;
+
+      if (size === 1) {
+        size = Number(buffer.readBigUInt64BE(offset + 8));
+        headerSize = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+
+      if (size < headerSize || offset + size > end) {
+        throw new Error(`Invalid ${type} box at offset ${offset}`);
+      }
+
+      boxes.push({ type, start: offset, headerSize, size });
+      offset += size;
+    }
+
+    return boxes;
+  }
+
+  static children(buffer: Buffer, box: IsoBox): IsoBox[] {
+    return this.readBoxes(buffer, box.start + box.headerSize, box.start + box.size);
+  }
+
+  static findChild(buffer: Buffer, box: IsoBox, type: string): IsoBox | undefined {
+    return this.children(buffer, box).find(child => child.type === type);
+  }
+
+  static requireChild(buffer: Buffer, box: IsoBox, type: string): IsoBox {
+    const child = this.findChild(buffer, box, type);
+    if (!child) {
+      throw new Error(`Missing ${type} box inside ${box.type}`);
+    }
+    return child;
+  }
+
+  /**
+   * Follow a path of child box types, e.g. ['mdia', 'minf', 'stbl']
+   */
+  static findPath(buffer: Buffer, box: IsoBox, path: string[]): IsoBox | undefined {
+    let current: IsoBox | undefined = box;
+    for (const type of path) {
+      current = current && this.findChild(buffer, current, type);
+    }
+    return current;
+  }
+
+  /**
+   * Box contents without the header
+   */
+  static payload(buffer: Buffer, box: IsoBox): Buffer {
+    return buffer.subarray(box.start + box.headerSize, box.start + box.size);
+  }
+
+  /**
+   * The whole box including its header
+   */
+  static raw(buffer: Buffer, box: IsoBox): Buffer {
+    return buffer.subarray(box.start, box.start + box.size);
+  }
+}
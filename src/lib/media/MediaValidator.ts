@@ -1,5 +1,10 @@
 import { EventEmitter } from 'events';
 import { getSecurityMonitor } from '../security/SecurityMonitor';
+import { Mp4MetadataReader, Mp4Metadata } from './Mp4Metadata';
+import { ImageMetadataReader } from './ImageMetadata';
+import { GifMetadataReader } from './GifMetadata';
+import { MetadataScrubber } from './MetadataScrubber';
+import { STATUS_VIDEO_MAX_DURATION } from '../uploader/StatusVideoSegmenter';
 
 export interface MediaValidationResult {
   isValid: boolean;
@@ -55,6 +60,10 @@ export interface MediaValidationConfig {
   strictModeEnabled: boolean;
 }
 
+// Status posts are shown full screen in portrait
+const STATUS_ASPECT_RATIO = 9 / 16;
+const STATUS_ASPECT_TOLERANCE = 0.1;
+
 export const DEFAULT_VALIDATION_CONFIG: MediaValidationConfig = {
   maxFileSize: {
     image: 16 * 1024 * 1024, // 16MB
@@ -167,9 +176,13 @@ export class MediaValidator extends EventEmitter {
           break;
       }
 
+      if (mediaType === 'image' || mediaType === 'video') {
+        this.checkLocationData(buffer, result);
+      }
+
       // Extract metadata if enabled
       if (this.config.enableMetadataExtraction) {
-        result.metadata = await this.extractMetadata(buffer, mediaType);
+        result.metadata = await this.extractMetadata(buffer, mediaType, result.format);
       }
 
       // Analyze quality if enabled
@@ -303,8 +316,7 @@ export class MediaValidator extends EventEmitter {
    */
   private async validateImage(buffer: Buffer, result: MediaValidationResult): Promise<void> {
     try {
-      // Basic image dimension extraction (simplified)
-      const dimensions = this.extractImageDimensions(buffer, result.format);
+      const dimensions = this.extractImageDimensions(buffer);
       if (dimensions) {
         result.dimensions = dimensions;
         
@@ -317,6 +329,19 @@ export class MediaValidator extends EventEmitter {
         if (dimensions.width > maxWidth || dimensions.height > maxHeight) {
           result.recommendations.push(`Consider resizing image. Current: ${dimensions.width}x${dimensions.height}, recommended max: ${maxWidth}x${maxHeight}`);
         }
+
+        const aspectRatio = dimensions.width / dimensions.height;
+        if (Math.abs(aspectRatio - STATUS_ASPECT_RATIO) / STATUS_ASPECT_RATIO > STATUS_ASPECT_TOLERANCE) {
+          result.recommendations.push(
+            `Image aspect ratio ${this.formatAspectRatio(dimensions.width, dimensions.height)} will be letterboxed on status; 9:16 portrait fills the screen`
+          );
+        }
+      } else {
+        result.issues.push('Could not read image dimensions from the file headers');
+      }
+
+      if (result.format === 'gif') {
+        this.validateGif(buffer, result);
       }
 
       // Estimate compression ratio
@@ -330,30 +355,95 @@ export class MediaValidator extends EventEmitter {
     }
   }
 
+  /**
+   * Animated GIFs are converted to MP4 and sent as looping videos
+   */
+  private validateGif(buffer: Buffer, result: MediaValidationResult): void {
+    const gif = GifMetadataReader.read(buffer);
+
+    if (gif.frameCount === 0) {
+      result.issues.push('GIF contains no image frames');
+      return;
+    }
+
+    if (gif.animated) {
+      result.duration = gif.duration;
+      result.recommendations.push(
+        `Animated GIF (${gif.frameCount} frames, ${gif.duration.toFixed(1)}s) is converted to MP4 and sent as a looping video`
+      );
+    }
+  }
+
   /**
    * Validate video-specific properties
    */
   private async validateVideo(buffer: Buffer, result: MediaValidationResult): Promise<void> {
     try {
-      // Basic video analysis (simplified - would need proper video parsing library)
-      // For now, we'll do basic checks based on file size and format
-      
-      const { maxDuration, minBitrate, maxBitrate } = this.config.qualityThresholds.video;
-      
-      // Estimate bitrate based on file size (very rough estimate)
-      // This would need proper video parsing for accurate results
-      const estimatedDuration = 60; // Assume 60 seconds for estimation
-      const estimatedBitrate = (buffer.length * 8) / (estimatedDuration * 1000); // kbps
-      
-      result.bitrate = estimatedBitrate;
-      result.duration = estimatedDuration;
+      const { minWidth, minHeight, maxWidth, maxHeight, maxDuration, minBitrate, maxBitrate } = this.config.qualityThresholds.video;
+
+      // Only MP4/MOV headers are parsed; other containers skip the header-based checks
+      let video: Mp4Metadata | null = null;
+      try {
+        video = this.readVideoHeaders(buffer, result.format);
+      } catch (error) {
+        result.issues.push(`Could not read video headers: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      if (!video) {
+        return;
+      }
+
+      if (video.width && video.height) {
+        result.dimensions = { width: video.width, height: video.height };
+
+        // Thresholds are given for landscape; compare portrait videos against them turned upright
+        const portrait = video.height > video.width;
+        const [limitWidth, limitHeight] = portrait ? [maxHeight, maxWidth] : [maxWidth, maxHeight];
+        const [floorWidth, floorHeight] = portrait ? [minHeight, minWidth] : [minWidth, minHeight];
+
+        if (video.width < floorWidth || video.height < floorHeight) {
+          result.issues.push(`Video resolution (${video.width}x${video.height}) is below minimum (${floorWidth}x${floorHeight})`);
+        }
+
+        if (video.width > limitWidth || video.height > limitHeight) {
+          result.recommendations.push(`Video resolution ${video.width}x${video.height} will be downscaled by WhatsApp; recommended max: ${limitWidth}x${limitHeight}`);
+        }
+      } else if (video.hasVideo) {
+        result.issues.push('Could not read video resolution from the container headers');
+      } else {
+        result.issues.push('File has no video track');
+      }
+
+      if (video.duration <= 0) {
+        result.issues.push('Could not read video duration from the container headers');
+        return;
+      }
+
+      const duration = video.duration;
+      const bitrate = (buffer.length * 8) / (duration * 1000); // kbps
+
+      result.bitrate = bitrate;
+      result.duration = duration;
+
+      if (duration > maxDuration) {
+        result.issues.push(`Video duration (${Math.round(duration)}s) exceeds maximum (${maxDuration}s)`);
+      }
+
+      if (duration > STATUS_VIDEO_MAX_DURATION) {
+        result.recommendations.push(
+          `Video is longer than a status post (${STATUS_VIDEO_MAX_DURATION}s); it will be split into at least ${Math.ceil(duration / STATUS_VIDEO_MAX_DURATION)} parts when posted to status`
+        );
+      }
       
-      if (estimatedBitrate < minBitrate) {
-        result.issues.push(`Video bitrate appears low (${Math.round(estimatedBitrate)} kbps), minimum recommended: ${minBitrate} kbps`);
+      if (bitrate < minBitrate) {
+        result.issues.push(`Video bitrate is low (${Math.round(bitrate)} kbps), minimum recommended: ${minBitrate} kbps`);
       }
       
-      if (estimatedBitrate > maxBitrate) {
-        result.recommendations.push(`Video bitrate appears high (${Math.round(estimatedBitrate)} kbps), consider compressing. Max recommended: ${maxBitrate} kbps`);
+      if (bitrate > maxBitrate) {
+        result.recommendations.push(`Video bitrate is high (${Math.round(bitrate)} kbps), consider compressing. Max recommended: ${maxBitrate} kbps`);
+      }
+
+      if (video.videoCodec && video.videoCodec !== 'h264') {
+        result.recommendations.push(`Video codec ${video.videoCodec} may not play on all devices; H.264 is the most compatible`);
       }
 
     } catch (error) {
@@ -361,6 +451,28 @@ export class MediaValidator extends EventEmitter {
     }
   }
 
+  /**
+   * Parse MP4/MOV container headers; null for containers that are not ISO-BMFF
+   */
+  private readVideoHeaders(buffer: Buffer, format: string): Mp4Metadata | null {
+    if (format !== 'mp4' && format !== 'mov') {
+      return null;
+    }
+    return Mp4MetadataReader.read(buffer);
+  }
+
+  /**
+   * Warn about GPS coordinates embedded in photo or video metadata
+   */
+  private checkLocationData(buffer: Buffer, result: MediaValidationResult): void {
+    const locationData = MetadataScrubber.findLocationData(buffer);
+    if (locationData.length > 0) {
+      result.recommendations.push(
+        `File carries location data (${locationData.join(', ')}); it is stripped before sending unless metadata scrubbing is turned off in the privacy settings`
+      );
+    }
+  }
+
   /**
    * Validate audio-specific properties
    */
@@ -417,61 +529,22 @@ export class MediaValidator extends EventEmitter {
   }
 
   /**
-   * Extract basic image dimensions (simplified implementation)
+   * Extract image dimensions as displayed, after applying the EXIF orientation
    */
-  private extractImageDimensions(buffer: Buffer, format: string): { width: number; height: number } | null {
-    try {
-      switch (format.toLowerCase()) {
-        case 'png':
-          if (buffer.length >= 24) {
-            const width = buffer.readUInt32BE(16);
-            const height = buffer.readUInt32BE(20);
-            return { width, height };
-          }
-          break;
-        case 'jpeg':
-        case 'jpg':
-          // Simplified JPEG dimension extraction
-          // Would need proper JPEG parsing for accurate results
-          return this.extractJPEGDimensions(buffer);
-        case 'gif':
-          if (buffer.length >= 10) {
-            const width = buffer.readUInt16LE(6);
-            const height = buffer.readUInt16LE(8);
-            return { width, height };
-          }
-          break;
-      }
-    } catch (error) {
-      console.error('Failed to extract image dimensions:', error);
-    }
-    return null;
+  private extractImageDimensions(buffer: Buffer): { width: number; height: number } | null {
+    const metadata = ImageMetadataReader.read(buffer);
+    return metadata ? { width: metadata.width, height: metadata.height } : null;
   }
 
   /**
-   * Extract JPEG dimensions (simplified)
+   * Reduce dimensions to a ratio like "4:3", or "1.33:1" when they don't reduce cleanly
    */
-  private extractJPEGDimensions(buffer: Buffer): { width: number; height: number } | null {
-    try {
-      let offset = 2; // Skip SOI marker
-      
-      while (offset < buffer.length - 4) {
-        const marker = buffer.readUInt16BE(offset);
-        
-        if (marker >= 0xFFC0 && marker <= 0xFFCF && marker !== 0xFFC4 && marker !== 0xFFC8 && marker !== 0xFFCC) {
-          // SOF marker found
-          const height = buffer.readUInt16BE(offset + 5);
-          const width = buffer.readUInt16BE(offset + 7);
-          return { width, height };
-        }
-        
-        const segmentLength = buffer.readUInt16BE(offset + 2);
-        offset += 2 + segmentLength;
-      }
-    } catch (error) {
-      console.error('Failed to extract JPEG dimensions:', error);
-    }
-    return null;
+  private formatAspectRatio(width: number, height: number): string {
+    const gcd = (a: number, b: number): number => b === 0 ? a : gcd(b, a % b);
+    const divisor = gcd(width, height);
+    return width / divisor <= 32 && height / divisor <= 32
+      ? `${width / divisor}:${height / divisor}`
+      : `${(width / height).toFixed(2)}:1`;
   }
 
   /**
@@ -500,7 +573,7 @@ export class MediaValidator extends EventEmitter {
   /**
    * Extract metadata from media file
    */
-  private async extractMetadata(buffer: Buffer, mediaType: string): Promise<Record<string, any>> {
+  private async extractMetadata(buffer: Buffer, mediaType: string, format: string): Promise<Record<string, any>> {
     const metadata: Record<string, any> = {
       size: buffer.length,
       mediaType,
@@ -510,14 +583,35 @@ export class MediaValidator extends EventEmitter {
     try {
       // Basic metadata extraction based on media type
       switch (mediaType) {
-        case 'image':
+        case 'image': {
           // Extract basic image metadata
           metadata.colorDepth = this.estimateColorDepth(buffer);
+          const imageMetadata = ImageMetadataReader.read(buffer);
+          if (imageMetadata) {
+            metadata.orientation = imageMetadata.orientation;
+            if (imageMetadata.exif) {
+              metadata.exif = imageMetadata.exif;
+            }
+          }
+          if (format === 'gif') {
+            const gif = GifMetadataReader.read(buffer);
+            metadata.animated = gif.animated;
+            metadata.frameCount = gif.frameCount;
+            metadata.loopCount = gif.loopCount;
+          }
           break;
-        case 'video':
-          // Extract basic video metadata
-          metadata.estimatedFrameRate = 30; // Default estimate
+        }
+        case 'video': {
+          const video = this.readVideoHeaders(buffer, format);
+          if (video) {
+            metadata.frameRate = video.frameRate;
+            metadata.rotation = video.rotation;
+            metadata.videoCodec = video.videoCodec;
+            metadata.audioCodec = video.audioCodec;
+            metadata.hasAudio = video.hasAudio;
+          }
           break;
+        }
         case 'document':
           // Extract document metadata
           if (buffer.slice(0, 4).toString() === '%PDF') {
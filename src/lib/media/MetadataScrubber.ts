@@ -0,0 +1,516 @@
+/**
+ * Privacy scrubber for media metadata.
+ *
+ * Removes EXIF, XMP, IPTC and comments from JPEG, PNG and WebP, and blanks
+ * user-data, metadata and XMP boxes (which carry GPS location, device make
+ * and serials) in MP4/MOV files. Nothing is re-encoded: image segments are
+ * dropped, and MP4 boxes are overwritten in place as zeroed 'free' boxes so
+ * no sample offsets move. The EXIF orientation is kept so photos still
+ * display upright.
+ */
+
+import { promises as fs } from 'fs';
+import { ImageMetadataReader } from './ImageMetadata';
+import { IsoBmff, IsoBox } from './IsoBmff';
+
+export interface ScrubResult {
+  buffer: Buffer;
+  removed: string[]; // Kinds of metadata removed, e.g. 'EXIF', 'XMP'
+}
+
+// JPEG APP segments that only describe how to decode the image
+const JPEG_APP0 = 0xE0;
+const JPEG_APP2 = 0xE2;
+const JPEG_APP14 = 0xEE;
+const JPEG_COM = 0xFE;
+const JPEG_SOS = 0xDA;
+const JPEG_EOI = 0xD9;
+const ICC_PROFILE_PREFIX = Buffer.from('ICC_PROFILE\0', 'binary');
+const EXIF_PREFIX = Buffer.from('Exif\0\0', 'binary');
+const XMP_PREFIX = Buffer.from('http://ns.adobe.com/xap/1.0/', 'binary');
+
+// JPEG markers without a length field
+const STANDALONE_MARKERS = new Set([0x01, 0xD0, 0xD1, 0xD2, 0xD3, 0xD4, 0xD5, 0xD6, 0xD7, 0xD8]);
+
+// PNG text and timestamp chunks; XMP is stored in an iTXt chunk
+const PNG_METADATA_CHUNKS = new Set(['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME']);
+
+// VP8X feature flags
+const WEBP_FLAG_XMP = 0x04;
+const WEBP_FLAG_EXIF = 0x08;
+
+// MP4/MOV boxes holding titles, location, device and editing metadata
+const MP4_METADATA_BOXES = new Set(['udta', 'meta']);
+const XMP_UUID = Buffer.from('be7acfcb97a942e89c71999491e3afac', 'hex');
+
+// Location markers inside MP4 metadata boxes
+const QUICKTIME_LOCATION = Buffer.from([0xA9, 0x78, 0x79, 0x7A]); // ©xyz
+const APPLE_LOCATION_KEY = Buffer.from('com.apple.quicktime.location', 'latin1');
+const XMP_PACKET = Buffer.from('x:xmpmeta', 'latin1');
+const XMP_GPS = Buffer.from('GPSLatitude', 'latin1');
+
+// Written in chunks so zeroing large boxes never allocates their full size
+const ZERO_CHUNK_SIZE = 1024 * 1024;
+
+let crcTable: Uint32Array | null = null;
+
+export class MetadataScrubber {
+  /**
+   * Whether the scrubber understands a MIME type
+   */
+  static supports(mimetype: string): boolean {
+    return this.isImage(mimetype) || this.isMp4(mimetype);
+  }
+
+  /**
+   * Scrub a stored file in place; returns the kinds of metadata removed
+   */
+  static async scrubFile(filePath: string, mimetype: string): Promise<string[]> {
+    if (this.isMp4(mimetype)) {
+      return this.scrubMp4File(filePath);
+    }
+    if (!this.isImage(mimetype)) {
+      return [];
+    }
+
+    const result = this.scrubImage(await fs.readFile(filePath));
+    if (!result || result.removed.length === 0) {
+      return [];
+    }
+
+    // Replace atomically so a failed write never leaves a truncated image
+    const tmpPath = `${filePath}.scrub`;
+    await fs.writeFile(tmpPath, result.buffer);
+    await fs.rename(tmpPath, filePath);
+    return result.removed;
+  }
+
+  /**
+   * Strip metadata from an in-memory JPEG, PNG or WebP; null for other formats
+   */
+  static scrubImage(buffer: Buffer): ScrubResult | null {
+    const metadata = ImageMetadataReader.read(buffer);
+    const orientation = metadata?.orientation || 1;
+
+    switch (ImageMetadataReader.detectFormat(buffer)) {
+      case 'jpeg':
+        return this.scrubJpeg(buffer, orientation);
+      case 'png':
+        return this.scrubPng(buffer, orientation);
+      case 'webp':
+        return this.scrubWebp(buffer, orientation);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Blank metadata boxes inside an in-memory MP4/MOV file
+   */
+  static scrubMp4(buffer: Buffer): ScrubResult {
+    const copy = Buffer.from(buffer);
+    const removed = new Set<string>();
+
+    for (const box of IsoBmff.readBoxes(copy, 0, copy.length)) {
+      if (box.type === 'moov') {
+        this.blankMoovMetadata(copy, box, removed);
+      } else if (this.isMp4MetadataBox(copy, box)) {
+        this.blank(copy, box);
+        removed.add(this.describeMp4Box(box.type));
+      }
+    }
+
+    return { buffer: copy, removed: [...removed] };
+  }
+
+  /**
+   * Describe any location data in a file, e.g. ['EXIF GPS']; empty when none
+   */
+  static findLocationData(buffer: Buffer): string[] {
+    const found: string[] = [];
+
+    if (ImageMetadataReader.detectFormat(buffer)) {
+      if (ImageMetadataReader.read(buffer)?.hasGps) {
+        found.push('EXIF GPS');
+      }
+      if (buffer.includes(XMP_PACKET) && buffer.includes(XMP_GPS)) {
+        found.push('XMP GPS');
+      }
+      return found;
+    }
+
+    if (buffer.length < 8 || buffer.toString('latin1', 4, 8) !== 'ftyp') {
+      return found;
+    }
+
+    try {
+      for (const box of IsoBmff.readBoxes(buffer, 0, buffer.length)) {
+        const metadataBoxes = box.type === 'moov'
+          ? this.findMoovMetadata(buffer, box)
+          : this.isMp4MetadataBox(buffer, box) ? [box] : [];
+
+        for (const metadataBox of metadataBoxes) {
+          const data = IsoBmff.raw(buffer, metadataBox);
+          if (data.includes(QUICKTIME_LOCATION) || this.hasChild(buffer, metadataBox, 'loci')) {
+            found.push('QuickTime location');
+          }
+          if (data.includes(APPLE_LOCATION_KEY)) {
+            found.push('Apple location metadata');
+          }
+          if (data.includes(XMP_GPS)) {
+            found.push('XMP GPS');
+          }
+        }
+      }
+    } catch {
+      // Malformed boxes; the validator reports unreadable headers separately
+    }
+
+    return [...new Set(found)];
+  }
+
+  private static isImage(mimetype: string): boolean {
+    return ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'].includes(mimetype);
+  }
+
+  private static isMp4(mimetype: string): boolean {
+    return ['video/mp4', 'video/quicktime', 'video/3gpp', 'video/x-m4v'].includes(mimetype);
+  }
+
+  private static scrubJpeg(buffer: Buffer, orientation: number): ScrubResult {
+    const parts: Buffer[] = [buffer.subarray(0, 2)]; // SOI
+    const removed = new Set<string>();
+    let offset = 2;
+
+    while (offset + 4 <= buffer.length) {
+      if (buffer[offset] !== 0xFF) {
+        break; // Lost marker sync; keep the rest untouched
+      }
+
+      const marker = buffer[offset + 1];
+      if (marker === 0xFF) {
+        offset++; // Fill byte
+        continue;
+      }
+      if (STANDALONE_MARKERS.has(marker)) {
+        parts.push(buffer.subarray(offset, offset + 2));
+        offset += 2;
+        continue;
+      }
+
+      if (marker === JPEG_SOS) {
+        // Entropy-coded data never contains FF D9, so the first EOI ends the image;
+        // anything after it (MPF previews, vendor trailers) is dropped
+        const eoi = buffer.indexOf(Buffer.from([0xFF, JPEG_EOI]), offset);
+        const end = eoi === -1 ? buffer.length : eoi + 2;
+        if (end < buffer.length) {
+          removed.add('trailing data');
+        }
+        parts.push(buffer.subarray(offset, end));
+        offset = buffer.length;
+        break;
+      }
+
+      const length = buffer.readUInt16BE(offset + 2);
+      const segment = buffer.subarray(offset, offset + 2 + length);
+      const data = segment.subarray(4);
+      offset += 2 + length;
+
+      if (marker === JPEG_COM) {
+        removed.add('comment');
+      } else if (marker >= JPEG_APP0 && marker <= 0xEF) {
+        const keep = marker === JPEG_APP0
+          || marker === JPEG_APP14
+          || (marker === JPEG_APP2 && data.subarray(0, ICC_PROFILE_PREFIX.length).equals(ICC_PROFILE_PREFIX));
+
+        if (keep) {
+          parts.push(segment);
+        } else {
+          removed.add(this.describeJpegSegment(marker, data));
+        }
+      } else {
+        parts.push(segment);
+      }
+    }
+
+    if (offset < buffer.length) {
+      parts.push(buffer.subarray(offset));
+    }
+
+    if (removed.has('EXIF') && orientation !== 1) {
+      // Re-insert an orientation-only EXIF block right after SOI (and JFIF, if present)
+      const exif = Buffer.concat([EXIF_PREFIX, this.buildOrientationTiff(orientation)]);
+      const header = Buffer.alloc(4);
+      header.writeUInt16BE(0xFFE1, 0);
+      header.writeUInt16BE(exif.length + 2, 2);
+      const insertAt = parts[1] && parts[1][1] === JPEG_APP0 ? 2 : 1;
+      parts.splice(insertAt, 0, header, exif);
+    }
+
+    return { buffer: Buffer.concat(parts), removed: [...removed] };
+  }
+
+  private static describeJpegSegment(marker: number, data: Buffer): string {
+    if (marker === 0xE1) {
+      if (data.subarray(0, EXIF_PREFIX.length).equals(EXIF_PREFIX)) {
+        return 'EXIF';
+      }
+      if (data.subarray(0, XMP_PREFIX.length).equals(XMP_PREFIX)) {
+        return 'XMP';
+      }
+    }
+    if (marker === 0xED) {
+      return 'IPTC';
+    }
+    return 'vendor data';
+  }
+
+  private static scrubPng(buffer: Buffer, orientation: number): ScrubResult {
+    const parts: Buffer[] = [buffer.subarray(0, 8)]; // Signature
+    const removed = new Set<string>();
+    let offset = 8;
+
+    while (offset + 12 <= buffer.length) {
+      const length = buffer.readUInt32BE(offset);
+      const type = buffer.toString('latin1', offset + 4, offset + 8);
+      const chunk = buffer.subarray(offset, offset + 12 + length);
+      offset += 12 + length; // length + type + data + CRC
+
+      if (!PNG_METADATA_CHUNKS.has(type)) {
+        parts.push(chunk);
+        continue;
+      }
+
+      if (type === 'eXIf') {
+        removed.add('EXIF');
+        if (orientation !== 1) {
+          parts.push(this.buildPngChunk('eXIf', this.buildOrientationTiff(orientation)));
+        }
+      } else if (/xmp/i.test(chunk.toString('latin1', 8, 8 + Math.min(length, 79)).split('\0')[0])) {
+        // XMP lives in iTXt 'XML:com.adobe.xmp', or a 'Raw profile type xmp' text chunk
+        removed.add('XMP');
+      } else {
+        removed.add('text');
+      }
+    }
+
+    if (offset < buffer.length) {
+      parts.push(buffer.subarray(offset));
+    }
+
+    return { buffer: Buffer.concat(parts), removed: [...removed] };
+  }
+
+  private static scrubWebp(buffer: Buffer, orientation: number): ScrubResult {
+    const parts: Buffer[] = [];
+    const removed = new Set<string>();
+    let vp8x: Buffer | null = null;
+    let offset = 12;
+
+    while (offset + 8 <= buffer.length) {
+      const type = buffer.toString('latin1', offset, offset + 4);
+      const size = buffer.readUInt32LE(offset + 4);
+      const end = Math.min(buffer.length, offset + 8 + size + (size % 2)); // Chunks are padded to an even size
+      const chunk = Buffer.from(buffer.subarray(offset, end));
+      offset = end;
+
+      if (type === 'EXIF') {
+        removed.add('EXIF');
+        if (orientation !== 1) {
+          parts.push(this.buildRiffChunk('EXIF', this.buildOrientationTiff(orientation)));
+        }
+      } else if (type === 'XMP ') {
+        removed.add('XMP');
+      } else {
+        if (type === 'VP8X') {
+          vp8x = chunk;
+        }
+        parts.push(chunk);
+      }
+    }
+
+    if (vp8x) {
+      // The feature flags must match the chunks that remain
+      if (removed.has('XMP')) {
+        vp8x[8] &= ~WEBP_FLAG_XMP;
+      }
+      if (removed.has('EXIF') && orientation === 1) {
+        vp8x[8] &= ~WEBP_FLAG_EXIF;
+      }
+    }
+
+    const body = Buffer.concat(parts);
+    const header = Buffer.alloc(12);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(body.length + 4, 4);
+    header.write('WEBP', 8, 'latin1');
+
+    return { buffer: Buffer.concat([header, body]), removed: [...removed] };
+  }
+
+  /**
+   * Scrub an MP4/MOV on disk without loading the media data: only the moov
+   * box is read, and other top-level metadata boxes are zeroed in place
+   */
+  private static async scrubMp4File(filePath: string): Promise<string[]> {
+    const handle = await fs.open(filePath, 'r+');
+    const removed = new Set<string>();
+
+    try {
+      const { size: fileSize } = await handle.stat();
+      const header = Buffer.alloc(32);
+      let offset = 0;
+
+      while (offset + 8 <= fileSize) {
+        const { bytesRead } = await handle.read(header, 0, header.length, offset);
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+        let headerSize = 8;
+
+        if (size === 1) {
+          size = Number(header.readBigUInt64BE(8));
+          headerSize = 16;
+        } else if (size === 0) {
+          size = fileSize - offset;
+        }
+        if (size < headerSize || offset + size > fileSize) {
+          throw new Error(`Invalid ${type} box at offset ${offset}`);
+        }
+
+        if (type === 'moov') {
+          const moov = Buffer.alloc(size);
+          await handle.read(moov, 0, size, offset);
+          const moovRemoved = new Set<string>();
+          this.blankMoovMetadata(moov, IsoBmff.readBoxes(moov, 0, moov.length)[0], moovRemoved);
+          if (moovRemoved.size > 0) {
+            await handle.write(moov, 0, size, offset);
+            moovRemoved.forEach(kind => removed.add(kind));
+          }
+        } else if (this.isMp4MetadataBox(header.subarray(0, bytesRead), { type, start: 0, headerSize, size })) {
+          await this.blankOnDisk(handle, { type, start: offset, headerSize, size });
+          removed.add(this.describeMp4Box(type));
+        }
+
+        offset += size;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    return [...removed];
+  }
+
+  private static blankMoovMetadata(buffer: Buffer, moov: IsoBox, removed: Set<string>): void {
+    for (const box of this.findMoovMetadata(buffer, moov)) {
+      this.blank(buffer, box);
+      removed.add(this.describeMp4Box(box.type));
+    }
+  }
+
+  /**
+   * Metadata boxes at movie and track level
+   */
+  private static findMoovMetadata(buffer: Buffer, moov: IsoBox): IsoBox[] {
+    const found: IsoBox[] = [];
+
+    for (const child of IsoBmff.children(buffer, moov)) {
+      if (this.isMp4MetadataBox(buffer, child)) {
+        found.push(child);
+      } else if (child.type === 'trak') {
+        found.push(...IsoBmff.children(buffer, child).filter(box => this.isMp4MetadataBox(buffer, box)));
+      }
+    }
+
+    return found;
+  }
+
+  private static isMp4MetadataBox(buffer: Buffer, box: IsoBox): boolean {
+    if (MP4_METADATA_BOXES.has(box.type)) {
+      return true;
+    }
+    const uuidStart = box.start + box.headerSize;
+    return box.type === 'uuid' && buffer.subarray(uuidStart, uuidStart + 16).equals(XMP_UUID);
+  }
+
+  private static hasChild(buffer: Buffer, box: IsoBox, type: string): boolean {
+    try {
+      return Boolean(IsoBmff.findChild(buffer, box, type));
+    } catch {
+      return false;
+    }
+  }
+
+  private static describeMp4Box(type: string): string {
+    return type === 'uuid' ? 'XMP' : type === 'meta' ? 'metadata' : 'user data';
+  }
+
+  /**
+   * Turn a box into a zeroed 'free' box of the same size
+   */
+  private static blank(buffer: Buffer, box: IsoBox): void {
+    buffer.write('free', box.start + 4, 'latin1');
+    buffer.fill(0, box.start + box.headerSize, box.start + box.size);
+  }
+
+  private static async blankOnDisk(handle: fs.FileHandle, box: IsoBox): Promise<void> {
+    await handle.write(Buffer.from('free', 'latin1'), 0, 4, box.start + 4);
+
+    const zeros = Buffer.alloc(Math.min(ZERO_CHUNK_SIZE, box.size));
+    for (let position = box.start + box.headerSize; position < box.start + box.size; position += zeros.length) {
+      await handle.write(zeros, 0, Math.min(zeros.length, box.start + box.size - position), position);
+    }
+  }
+
+  /**
+   * Little-endian TIFF block holding only the orientation tag
+   */
+  private static buildOrientationTiff(orientation: number): Buffer {
+    const tiff = Buffer.alloc(26);
+    tiff.write('II', 0, 'latin1');
+    tiff.writeUInt16LE(42, 2);
+    tiff.writeUInt32LE(8, 4); // IFD0 offset
+    tiff.writeUInt16LE(1, 8); // One entry
+    tiff.writeUInt16LE(0x0112, 10); // Orientation
+    tiff.writeUInt16LE(3, 12); // SHORT
+    tiff.writeUInt32LE(1, 14);
+    tiff.writeUInt16LE(orientation, 18);
+    tiff.writeUInt32LE(0, 22); // No next IFD
+    return tiff;
+  }
+
+  private static buildPngChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(12 + data.length);
+    chunk.writeUInt32BE(data.length, 0);
+    chunk.write(type, 4, 'latin1');
+    data.copy(chunk, 8);
+    chunk.writeUInt32BE(this.crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+    return chunk;
+  }
+
+  private static buildRiffChunk(type: string, data: Buffer): Buffer {
+    const chunk = Buffer.alloc(8 + data.length + (data.length % 2));
+    chunk.write(type, 0, 'latin1');
+    chunk.writeUInt32LE(data.length, 4);
+    data.copy(chunk, 8);
+    return chunk;
+  }
+
+  private static crc32(data: Buffer): number {
+    if (!crcTable) {
+      crcTable = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        }
+        crcTable[n] = c >>> 0;
+      }
+    }
+
+    let crc = 0xFFFFFFFF;
+    for (const byte of data) {
+      crc = crcTable[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xFFFFFFFF) >>> 0;
+  }
+}
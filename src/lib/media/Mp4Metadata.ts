@@ -0,0 +1,269 @@
+/**
+ * Pure TypeScript MP4/MOV metadata reader.
+ *
+ * Reads duration (mvhd/mdhd), display dimensions and rotation (tkhd),
+ * codecs (stsd) and frame rate (stts) from the moov box. Only the moov box is
+ * loaded when reading from disk, so large videos are never buffered whole.
+ */
+
+import { promises as fs } from 'fs';
+import { IsoBmff, IsoBox } from './IsoBmff';
+
+export interface Mp4Metadata {
+  duration: number; // seconds
+  width?: number; // As displayed, after applying the rotation matrix
+  height?: number;
+  rotation: 0 | 90 | 180 | 270; // Clockwise display rotation of the video track
+  videoCodec?: string; // e.g. 'h264', 'hevc'; other sample entries keep their fourcc
+  audioCodec?: string; // e.g. 'aac', 'opus'
+  frameRate?: number; // Average frames per second
+  hasVideo: boolean;
+  hasAudio: boolean;
+}
+
+interface TrackInfo {
+  handler: string;
+  timescale: number;
+  duration: number; // In track timescale
+  sampleEntry?: string;
+  tkhdWidth: number;
+  tkhdHeight: number;
+  entryWidth: number;
+  entryHeight: number;
+  rotation: Mp4Metadata['rotation'];
+  sampleCount: number;
+  sampleDelta: number; // Sum of stts deltas
+}
+
+const CODEC_NAMES: Record<string, string> = {
+  avc1: 'h264',
+  avc3: 'h264',
+  hvc1: 'hevc',
+  hev1: 'hevc',
+  av01: 'av1',
+  vp09: 'vp9',
+  mp4v: 'mpeg4',
+  s263: 'h263',
+  mp4a: 'aac',
+  Opus: 'opus',
+  opus: 'opus',
+  samr: 'amr-nb',
+  sawb: 'amr-wb',
+  '.mp3': 'mp3',
+  alac: 'alac',
+  fLaC: 'flac',
+  ac_3: 'ac3',
+  'ac-3': 'ac3',
+  'ec-3': 'eac3',
+};
+
+// Video types stored in the ISO base media file format
+const ISO_BMFF_MIME_TYPES = ['video/mp4', 'video/quicktime', 'video/3gpp', 'video/x-m4v'];
+
+export class Mp4MetadataReader {
+  /**
+   * Whether a MIME type uses the MP4/MOV container this reader understands
+   */
+  static supports(mimetype: string): boolean {
+    return ISO_BMFF_MIME_TYPES.includes(mimetype);
+  }
+
+  /**
+   * Read metadata from an in-memory MP4/MOV file
+   */
+  static read(buffer: Buffer): Mp4Metadata {
+    const moov = IsoBmff.readBoxes(buffer, 0, buffer.length).find(box => box.type === 'moov');
+    if (!moov) {
+      throw new Error('No moov box found; not a valid MP4/MOV file');
+    }
+    return this.parseMoov(buffer, moov);
+  }
+
+  /**
+   * Read metadata from a file on disk, loading only the moov box
+   */
+  static async readFile(filePath: string): Promise<Mp4Metadata> {
+    const handle = await fs.open(filePath, 'r');
+
+    try {
+      const { size: fileSize } = await handle.stat();
+      const header = Buffer.alloc(16);
+      let offset = 0;
+
+      // Walk the top-level box headers until moov turns up
+      while (offset + 8 <= fileSize) {
+        await handle.read(header, 0, 16, offset);
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+
+        if (size === 1) {
+          size = Number(header.readBigUInt64BE(8));
+        } else if (size === 0) {
+          size = fileSize - offset;
+        }
+        if (size < 8 || offset + size > fileSize) {
+          throw new Error(`Invalid ${type} box at offset ${offset}`);
+        }
+
+        if (type === 'moov') {
+          const moov = Buffer.alloc(size);
+          await handle.read(moov, 0, size, offset);
+          return this.read(moov);
+        }
+
+        offset += size;
+      }
+
+      throw new Error('No moov box found; not a valid MP4/MOV file');
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Friendly name for a sample entry fourcc
+   */
+  static codecName(sampleEntry: string): string {
+    return CODEC_NAMES[sampleEntry] || sampleEntry.trim();
+  }
+
+  private static parseMoov(buffer: Buffer, moov: IsoBox): Mp4Metadata {
+    const mvhd = IsoBmff.payload(buffer, IsoBmff.requireChild(buffer, moov, 'mvhd'));
+    const mvhdV1 = mvhd[0] === 1;
+    const timescale = mvhd.readUInt32BE(mvhdV1 ? 20 : 12);
+    const movieDuration = mvhdV1 ? Number(mvhd.readBigUInt64BE(24)) : mvhd.readUInt32BE(16);
+
+    const tracks = IsoBmff.children(buffer, moov)
+      .filter(box => box.type === 'trak')
+      .map(trak => this.parseTrack(buffer, trak))
+      .filter((track): track is TrackInfo => track !== null);
+
+    const video = tracks.find(track => track.handler === 'vide');
+    const audio = tracks.find(track => track.handler === 'soun');
+
+    // Some muxers leave mvhd empty; fall back to the longest track
+    const duration = movieDuration > 0 && timescale > 0
+      ? movieDuration / timescale
+      : Math.max(0, ...tracks.map(track => track.timescale > 0 ? track.duration / track.timescale : 0));
+
+    let width: number | undefined;
+    let height: number | undefined;
+    if (video) {
+      // tkhd carries the display size (pixel aspect applied); older files may leave it zero
+      width = video.tkhdWidth || video.entryWidth || undefined;
+      height = video.tkhdHeight || video.entryHeight || undefined;
+      if (video.rotation === 90 || video.rotation === 270) {
+        [width, height] = [height, width];
+      }
+    }
+
+    return {
+      duration,
+      width,
+      height,
+      rotation: video?.rotation || 0,
+      videoCodec: video?.sampleEntry && this.codecName(video.sampleEntry),
+      audioCodec: audio?.sampleEntry && this.codecName(audio.sampleEntry),
+      frameRate: video && video.sampleDelta > 0
+        ? Math.round((video.sampleCount * video.timescale / video.sampleDelta) * 100) / 100
+        : undefined,
+      hasVideo: Boolean(video),
+      hasAudio: Boolean(audio),
+    };
+  }
+
+  private static parseTrack(buffer: Buffer, trak: IsoBox): TrackInfo | null {
+    const mdia = IsoBmff.findChild(buffer, trak, 'mdia');
+    const mdhdBox = mdia && IsoBmff.findChild(buffer, mdia, 'mdhd');
+    const hdlrBox = mdia && IsoBmff.findChild(buffer, mdia, 'hdlr');
+    const tkhdBox = IsoBmff.findChild(buffer, trak, 'tkhd');
+    if (!mdia || !mdhdBox || !hdlrBox || !tkhdBox) {
+      return null;
+    }
+
+    const mdhd = IsoBmff.payload(buffer, mdhdBox);
+    const mdhdV1 = mdhd[0] === 1;
+    const tkhd = IsoBmff.payload(buffer, tkhdBox);
+    const tkhdV1 = tkhd[0] === 1;
+
+    // Matrix and 16.16 fixed-point width/height follow the version-dependent times
+    const matrixOffset = tkhdV1 ? 52 : 40;
+    const sizeOffset = matrixOffset + 36;
+
+    const stbl = IsoBmff.findPath(buffer, mdia, ['minf', 'stbl']);
+    const entry = stbl ? this.readSampleEntry(buffer, stbl) : undefined;
+    const timing = stbl ? this.readTiming(buffer, stbl) : { sampleCount: 0, sampleDelta: 0 };
+
+    return {
+      handler: IsoBmff.payload(buffer, hdlrBox).toString('latin1', 8, 12),
+      timescale: mdhd.readUInt32BE(mdhdV1 ? 20 : 12),
+      duration: mdhdV1 ? Number(mdhd.readBigUInt64BE(24)) : mdhd.readUInt32BE(16),
+      sampleEntry: entry?.type,
+      tkhdWidth: Math.round(tkhd.readUInt32BE(sizeOffset) / 0x10000),
+      tkhdHeight: Math.round(tkhd.readUInt32BE(sizeOffset + 4) / 0x10000),
+      entryWidth: entry?.width || 0,
+      entryHeight: entry?.height || 0,
+      rotation: this.readRotation(tkhd, matrixOffset),
+      ...timing,
+    };
+  }
+
+  /**
+   * Rotation from the transformation matrix { a b u, c d v, x y w }, where
+   * a = cos θ and b = sin θ as 16.16 fixed point
+   */
+  private static readRotation(tkhd: Buffer, matrixOffset: number): Mp4Metadata['rotation'] {
+    const a = tkhd.readInt32BE(matrixOffset) / 0x10000;
+    const b = tkhd.readInt32BE(matrixOffset + 4) / 0x10000;
+    const degrees = Math.round(Math.atan2(b, a) * 180 / Math.PI);
+    const normalized = ((Math.round(degrees / 90) * 90) % 360 + 360) % 360;
+    return normalized as Mp4Metadata['rotation'];
+  }
+
+  /**
+   * First sample description; visual entries carry their coded size
+   */
+  private static readSampleEntry(
+    buffer: Buffer,
+    stbl: IsoBox
+  ): { type: string; width: number; height: number } | undefined {
+    const stsd = IsoBmff.findChild(buffer, stbl, 'stsd');
+    if (!stsd) {
+      return undefined;
+    }
+
+    // Full box header (4) and entry count (4) precede the entries
+    const entriesStart = stsd.start + stsd.headerSize + 8;
+    const [entry] = IsoBmff.readBoxes(buffer, entriesStart, stsd.start + stsd.size);
+    if (!entry) {
+      return undefined;
+    }
+
+    const data = IsoBmff.payload(buffer, entry);
+    const isVisual = data.length >= 28;
+    return {
+      type: entry.type,
+      // Reserved (6), data reference index (2), pre-defined/reserved (16), then width and height
+      width: isVisual ? data.readUInt16BE(24) : 0,
+      height: isVisual ? data.readUInt16BE(26) : 0,
+    };
+  }
+
+  private static readTiming(buffer: Buffer, stbl: IsoBox): { sampleCount: number; sampleDelta: number } {
+    const stts = IsoBmff.findChild(buffer, stbl, 'stts');
+    if (!stts) {
+      return { sampleCount: 0, sampleDelta: 0 };
+    }
+
+    const data = IsoBmff.payload(buffer, stts);
+    let sampleCount = 0;
+    let sampleDelta = 0;
+    for (let entry = 0, entries = data.readUInt32BE(4); entry < entries; entry++) {
+      const count = data.readUInt32BE(8 + entry * 8);
+      sampleCount += count;
+      sampleDelta += count * data.readUInt32BE(12 + entry * 8);
+    }
+
+    return { sampleCount, sampleDelta };
+  }
+}
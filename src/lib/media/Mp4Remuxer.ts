@@ -0,0 +1,690 @@
+/**
+ * Pure TypeScript MP4/MOV remuxer.
+ *
+ * Splits progressive (non-fragmented) ISO-BMFF files at video keyframes by
+ * rewriting the sample tables of each track. Sample data is copied byte for
+ * byte, so nothing is re-encoded and no external tools are needed.
+ */
+
+import { IsoBmff, IsoBox } from './IsoBmff';
+
+export interface Mp4Segment {
+  index: number;
+  startTime: number; // seconds into the source video
+  duration: number; // seconds
+  buffer: Buffer;
+}
+
+interface Sample {
+  offset: number;
+  size: number;
+  dts: number;
+  duration: number;
+  cto: number;
+  isSync: boolean;
+  descriptionIndex: number;
+}
+
+interface Track {
+  box: IsoBox;
+  handler: string;
+  timescale: number;
+  samples: Sample[];
+  hasCtts: boolean;
+  cttsVersion: number;
+  hasStss: boolean;
+  mediaTime: number; // Start of the first edit in media time, -1 without an edit list
+}
+
+interface Movie {
+  ftyp?: IsoBox;
+  moov: IsoBox;
+  timescale: number;
+  duration: number;
+  tracks: Track[];
+}
+
+interface Chunk {
+  track: Track;
+  samples: Sample[];
+  startTime: number;
+}
+
+// Tracks other than video and audio (timecode, text...) are dropped from segments
+const KEPT_HANDLERS = ['vide', 'soun'];
+const CHUNK_DURATION_SECONDS = 1;
+
+export class Mp4Remuxer {
+  /**
+   * Get the duration of an MP4/MOV file in seconds
+   */
+  static getDuration(buffer: Buffer): number {
+    const movie = this.parseMovie(buffer);
+    if (movie.duration > 0) {
+      return movie.duration / movie.timescale;
+    }
+
+    // Some muxers leave mvhd empty; fall back to the longest track
+    return Math.max(0, ...movie.tracks.map(track => this.getTrackDuration(track) / track.timescale));
+  }
+
+  /**
+   * Split a video into consecutive segments of at most `maxSegmentDuration`
+   * seconds, cutting only at video keyframes. A segment can only run longer
+   * than the limit when the source has no keyframe inside that window.
+   */
+  static split(buffer: Buffer, maxSegmentDuration: number): Mp4Segment[] {
+    if (maxSegmentDuration <= 0) {
+      throw new Error('maxSegmentDuration must be positive');
+    }
+
+    const movie = this.parseMovie(buffer);
+    const video = movie.tracks.find(track => track.handler === 'vide' && track.samples.length > 0);
+    if (!video) {
+      throw new Error('No video track found');
+    }
+
+    const boundaries = this.findCutPoints(video, maxSegmentDuration);
+    const segments: Mp4Segment[] = [];
+
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const first = video.samples[boundaries[i]];
+      const startTime = first.dts / video.timescale;
+      const endTime = boundaries[i + 1] < video.samples.length
+        ? video.samples[boundaries[i + 1]].dts / video.timescale
+        : Infinity;
+
+      const segmentTracks = movie.tracks
+        .filter(track => KEPT_HANDLERS.includes(track.handler))
+        .map(track => ({
+          track,
+          samples: track === video
+            ? video.samples.slice(boundaries[i], boundaries[i + 1])
+            : track.samples.filter(sample => {
+                const time = sample.dts / track.timescale;
+                return time >= startTime && time < endTime;
+              }),
+        }))
+        .filter(({ samples }) => samples.length > 0);
+
+      const videoSamples = segmentTracks.find(({ track }) => track === video)!.samples;
+      const videoDuration = videoSamples.reduce((sum, sample) => sum + sample.duration, 0);
+
+      segments.push({
+        index: i,
+        startTime,
+        duration: videoDuration / video.timescale,
+        buffer: this.buildFile(buffer, movie, segmentTracks, i === 0),
+      });
+    }
+
+    return segments;
+  }
+
+  /**
+   * Choose the video sample indices that start each segment. The returned
+   * list ends with the sample count as a sentinel.
+   */
+  private static findCutPoints(video: Track, maxSegmentDuration: number): number[] {
+    const samples = video.samples;
+    const maxTicks = maxSegmentDuration * video.timescale;
+    const last = samples[samples.length - 1];
+    const endDts = last.dts + last.duration;
+    const syncIndices = samples
+      .map((sample, index) => (sample.isSync ? index : -1))
+      .filter(index => index > 0);
+
+    const boundaries = [0];
+    let start = 0;
+
+    while (endDts - samples[start].dts > maxTicks) {
+      let next = -1;
+      for (const index of syncIndices) {
+        if (index <= start) continue;
+        if (samples[index].dts - samples[start].dts <= maxTicks) {
+          next = index;
+        } else {
+          // No keyframe inside the window: take the first one after it
+          if (next === -1) next = index;
+          break;
+        }
+      }
+
+      if (next === -1) break;
+      boundaries.push(next);
+      start = next;
+    }
+
+    boundaries.push(samples.length);
+    return boundaries;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Parsing
+  // ---------------------------------------------------------------------------
+
+  private static parseMovie(buffer: Buffer): Movie {
+    const topLevel = IsoBmff.readBoxes(buffer, 0, buffer.length);
+
+    if (topLevel.some(box => box.type === 'moof')) {
+      throw new Error('Fragmented MP4 files are not supported');
+    }
+
+    const moov = topLevel.find(box => box.type === 'moov');
+    if (!moov) {
+      throw new Error('No moov box found; not a valid MP4/MOV file');
+    }
+
+    const moovChildren = IsoBmff.children(buffer, moov);
+    if (moovChildren.some(box => box.type === 'mvex')) {
+      throw new Error('Fragmented MP4 files are not supported');
+    }
+    if (moovChildren.some(box => box.type === 'cmov')) {
+      throw new Error('Compressed movie headers are not supported');
+    }
+
+    const mvhd = IsoBmff.requireChild(buffer, moov, 'mvhd');
+    const mvhdData = IsoBmff.payload(buffer, mvhd);
+    const mvhdV1 = mvhdData[0] === 1;
+
+    return {
+      ftyp: topLevel.find(box => box.type === 'ftyp'),
+      moov,
+      timescale: mvhdData.readUInt32BE(mvhdV1 ? 20 : 12),
+      duration: mvhdV1 ? Number(mvhdData.readBigUInt64BE(24)) : mvhdData.readUInt32BE(16),
+      tracks: moovChildren
+        .filter(box => box.type === 'trak')
+        .map(trak => this.parseTrack(buffer, trak)),
+    };
+  }
+
+  private static parseTrack(buffer: Buffer, trak: IsoBox): Track {
+    const mdia = IsoBmff.requireChild(buffer, trak, 'mdia');
+    const mdhdData = IsoBmff.payload(buffer, IsoBmff.requireChild(buffer, mdia, 'mdhd'));
+    const hdlrData = IsoBmff.payload(buffer, IsoBmff.requireChild(buffer, mdia, 'hdlr'));
+    const minf = IsoBmff.requireChild(buffer, mdia, 'minf');
+    const stbl = IsoBmff.requireChild(buffer, minf, 'stbl');
+
+    const timescale = mdhdData.readUInt32BE(mdhdData[0] === 1 ? 20 : 12);
+    const handler = hdlrData.toString('latin1', 8, 12);
+
+    const ctts = IsoBmff.findChild(buffer, stbl, 'ctts');
+    const stss = IsoBmff.findChild(buffer, stbl, 'stss');
+
+    return {
+      box: trak,
+      handler,
+      timescale,
+      samples: this.readSamples(buffer, stbl),
+      hasCtts: Boolean(ctts),
+      cttsVersion: ctts ? buffer[ctts.start + ctts.headerSize] : 0,
+      hasStss: Boolean(stss),
+      mediaTime: this.readMediaTime(buffer, trak),
+    };
+  }
+
+  /**
+   * Resolve the sample table into one entry per sample
+   */
+  private static readSamples(buffer: Buffer, stbl: IsoBox): Sample[] {
+    const sizes = this.readSampleSizes(buffer, stbl);
+    const samples: Sample[] = sizes.map(size => ({
+      offset: 0,
+      size,
+      dts: 0,
+      duration: 0,
+      cto: 0,
+      isSync: true,
+      descriptionIndex: 1,
+    }));
+
+    // Decoding times
+    const stts = IsoBmff.payload(buffer, IsoBmff.requireChild(buffer, stbl, 'stts'));
+    let index = 0;
+    let dts = 0;
+    for (let entry = 0, count = stts.readUInt32BE(4); entry < count; entry++) {
+      const sampleCount = stts.readUInt32BE(8 + entry * 8);
+      const delta = stts.readUInt32BE(12 + entry * 8);
+      for (let i = 0; i < sampleCount && index < samples.length; i++, index++) {
+        samples[index].dts = dts;
+        samples[index].duration = delta;
+        dts += delta;
+      }
+    }
+
+    // Composition offsets
+    const cttsBox = IsoBmff.findChild(buffer, stbl, 'ctts');
+    if (cttsBox) {
+      const ctts = IsoBmff.payload(buffer, cttsBox);
+      const signed = ctts[0] === 1;
+      index = 0;
+      for (let entry = 0, count = ctts.readUInt32BE(4); entry < count; entry++) {
+        const sampleCount = ctts.readUInt32BE(8 + entry * 8);
+        const offset = signed ? ctts.readInt32BE(12 + entry * 8) : ctts.readUInt32BE(12 + entry * 8);
+        for (let i = 0; i < sampleCount && index < samples.length; i++, index++) {
+          samples[index].cto = offset;
+        }
+      }
+    }
+
+    // Keyframes; without stss every sample is a sync sample
+    const stssBox = IsoBmff.findChild(buffer, stbl, 'stss');
+    if (stssBox) {
+      const stss = IsoBmff.payload(buffer, stssBox);
+      samples.forEach(sample => { sample.isSync = false; });
+      for (let entry = 0, count = stss.readUInt32BE(4); entry < count; entry++) {
+        const sample = samples[stss.readUInt32BE(8 + entry * 4) - 1];
+        if (sample) sample.isSync = true;
+      }
+    }
+
+    // File offsets from sample-to-chunk and chunk offsets
+    const chunkOffsets = this.readChunkOffsets(buffer, stbl);
+    const stsc = IsoBmff.payload(buffer, IsoBmff.requireChild(buffer, stbl, 'stsc'));
+    const stscCount = stsc.readUInt32BE(4);
+    index = 0;
+    let entry = 0;
+    for (let chunk = 0; chunk < chunkOffsets.length && index < samples.length; chunk++) {
+      while (entry + 1 < stscCount && stsc.readUInt32BE(8 + (entry + 1) * 12) - 1 <= chunk) {
+        entry++;
+      }
+      const samplesPerChunk = stsc.readUInt32BE(12 + entry * 12);
+      const descriptionIndex = stsc.readUInt32BE(16 + entry * 12);
+
+      let offset = chunkOffsets[chunk];
+      for (let i = 0; i < samplesPerChunk && index < samples.length; i++, index++) {
+        samples[index].offset = offset;
+        samples[index].descriptionIndex = descriptionIndex;
+        offset += samples[index].size;
+      }
+    }
+
+    if (index < samples.length) {
+      throw new Error('Sample table is inconsistent: not every sample belongs to a chunk');
+    }
+
+    for (const sample of samples) {
+      if (sample.offset + sample.size > buffer.length) {
+        throw new Error('Sample data lies outside the file; the upload may be truncated');
+      }
+    }
+
+    return samples;
+  }
+
+  private static readSampleSizes(buffer: Buffer, stbl: IsoBox): number[] {
+    const stszBox = IsoBmff.findChild(buffer, stbl, 'stsz');
+    if (stszBox) {
+      const stsz = IsoBmff.payload(buffer, stszBox);
+      const uniformSize = stsz.readUInt32BE(4);
+      const count = stsz.readUInt32BE(8);
+      return Array.from({ length: count }, (_, i) =>
+        uniformSize !== 0 ? uniformSize : stsz.readUInt32BE(12 + i * 4)
+      );
+    }
+
+    const stz2Box = IsoBmff.findChild(buffer, stbl, 'stz2');
+    if (stz2Box) {
+      const stz2 = IsoBmff.payload(buffer, stz2Box);
+      const fieldSize = stz2[7];
+      const count = stz2.readUInt32BE(8);
+      return Array.from({ length: count }, (_, i) => {
+        if (fieldSize === 16) return stz2.readUInt16BE(12 + i * 2);
+        if (fieldSize === 8) return stz2[12 + i];
+        const byte = stz2[12 + (i >> 1)];
+        return i % 2 === 0 ? byte >> 4 : byte & 0x0f;
+      });
+    }
+
+    throw new Error('Sample size table (stsz) not found');
+  }
+
+  private static readChunkOffsets(buffer: Buffer, stbl: IsoBox): number[] {
+    const stcoBox = IsoBmff.findChild(buffer, stbl, 'stco');
+    if (stcoBox) {
+      const stco = IsoBmff.payload(buffer, stcoBox);
+      return Array.from({ length: stco.readUInt32BE(4) }, (_, i) => stco.readUInt32BE(8 + i * 4));
+    }
+
+    const co64Box = IsoBmff.findChild(buffer, stbl, 'co64');
+    if (co64Box) {
+      const co64 = IsoBmff.payload(buffer, co64Box);
+      return Array.from({ length: co64.readUInt32BE(4) }, (_, i) => Number(co64.readBigUInt64BE(8 + i * 8)));
+    }
+
+    throw new Error('Chunk offset table (stco/co64) not found');
+  }
+
+  /**
+   * Media time of the first non-empty edit, which carries the composition
+   * shift for B-frame video and the priming delay for AAC audio
+   */
+  private static readMediaTime(buffer: Buffer, trak: IsoBox): number {
+    const edts = IsoBmff.findChild(buffer, trak, 'edts');
+    const elst = edts && IsoBmff.findChild(buffer, edts, 'elst');
+    if (!elst) return -1;
+
+    const data = IsoBmff.payload(buffer, elst);
+    const v1 = data[0] === 1;
+    const entrySize = v1 ? 20 : 12;
+    for (let entry = 0, count = data.readUInt32BE(4); entry < count; entry++) {
+      const base = 8 + entry * entrySize;
+      const mediaTime = v1 ? Number(data.readBigInt64BE(base + 8)) : data.readInt32BE(base + 4);
+      if (mediaTime >= 0) return mediaTime;
+    }
+    return -1;
+  }
+
+  private static getTrackDuration(track: Track): number {
+    return track.samples.reduce((sum, sample) => sum + sample.duration, 0);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Writing
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Write a standalone file: ftyp, moov (before mdat for fast start), mdat
+   */
+  private static buildFile(
+    source: Buffer,
+    movie: Movie,
+    segmentTracks: Array<{ track: Track; samples: Sample[] }>,
+    isFirstSegment: boolean
+  ): Buffer {
+    // Interleave roughly one-second chunks of every track by start time
+    const chunks: Chunk[] = segmentTracks
+      .flatMap(({ track, samples }) => this.groupChunks(track, samples))
+      .sort((a, b) => a.startTime - b.startTime);
+
+    const chunkOffsets = new Map<Chunk, number>();
+    let mdatPayloadSize = 0;
+    for (const chunk of chunks) {
+      chunkOffsets.set(chunk, mdatPayloadSize);
+      mdatPayloadSize += chunk.samples.reduce((sum, sample) => sum + sample.size, 0);
+    }
+
+    const ftyp = movie.ftyp ? IsoBmff.raw(source, movie.ftyp) : Buffer.alloc(0);
+    const useCo64 = ftyp.length + mdatPayloadSize > 0xf0000000;
+    const mdatHeaderSize = mdatPayloadSize + 8 > 0xffffffff ? 16 : 8;
+
+    // Offsets have a fixed width, so a first pass at offset zero gives the final moov size
+    const buildMoov = (base: number) =>
+      this.buildMoov(source, movie, segmentTracks, chunks, chunk => base + chunkOffsets.get(chunk)!, useCo64, isFirstSegment);
+    const moovSize = buildMoov(0).length;
+    const moov = buildMoov(ftyp.length + moovSize + mdatHeaderSize);
+
+    const mdatHeader = Buffer.alloc(mdatHeaderSize);
+    if (mdatHeaderSize === 16) {
+      mdatHeader.writeUInt32BE(1, 0);
+      mdatHeader.write('mdat', 4, 'latin1');
+      mdatHeader.writeBigUInt64BE(BigInt(mdatPayloadSize + 16), 8);
+    } else {
+      mdatHeader.writeUInt32BE(mdatPayloadSize + 8, 0);
+      mdatHeader.write('mdat', 4, 'latin1');
+    }
+
+    const sampleData = chunks.flatMap(chunk =>
+      chunk.samples.map(sample => source.subarray(sample.offset, sample.offset + sample.size))
+    );
+
+    return Buffer.concat([ftyp, moov, mdatHeader, ...sampleData]);
+  }
+
+  private static groupChunks(track: Track, samples: Sample[]): Chunk[] {
+    const chunks: Chunk[] = [];
+    const maxTicks = CHUNK_DURATION_SECONDS * track.timescale;
+    let current: Chunk | null = null;
+    let chunkStartDts = 0;
+
+    for (const sample of samples) {
+      if (
+        !current ||
+        sample.descriptionIndex !== current.samples[0].descriptionIndex ||
+        sample.dts - chunkStartDts >= maxTicks
+      ) {
+        current = { track, samples: [], startTime: sample.dts / track.timescale };
+        chunkStartDts = sample.dts;
+        chunks.push(current);
+      }
+      current.samples.push(sample);
+    }
+
+    return chunks;
+  }
+
+  private static buildMoov(
+    source: Buffer,
+    movie: Movie,
+    segmentTracks: Array<{ track: Track; samples: Sample[] }>,
+    chunks: Chunk[],
+    chunkOffset: (chunk: Chunk) => number,
+    useCo64: boolean,
+    isFirstSegment: boolean
+  ): Buffer {
+    const trackDurations = new Map(segmentTracks.map(({ track, samples }) => {
+      const mediaDuration = samples.reduce((sum, sample) => sum + sample.duration, 0);
+      return [track, { mediaDuration, movieDuration: Math.round(mediaDuration * movie.timescale / track.timescale) }];
+    }));
+    const movieDuration = Math.max(...[...trackDurations.values()].map(d => d.movieDuration));
+
+    const children = IsoBmff.children(source, movie.moov).flatMap(child => {
+      if (child.type === 'mvhd') {
+        return [this.patchDuration(source, child, movieDuration, 'mvhd')];
+      }
+      if (child.type === 'trak') {
+        const entry = segmentTracks.find(({ track }) => track.box.start === child.start);
+        if (!entry) return [];
+        const durations = trackDurations.get(entry.track)!;
+        return [this.buildTrak(
+          source,
+          entry.track,
+          entry.samples,
+          chunks.filter(chunk => chunk.track === entry.track),
+          chunkOffset,
+          useCo64,
+          durations,
+          isFirstSegment
+        )];
+      }
+      return [IsoBmff.raw(source, child)];
+    });
+
+    return this.box('moov', ...children);
+  }
+
+  private static buildTrak(
+    source: Buffer,
+    track: Track,
+    samples: Sample[],
+    chunks: Chunk[],
+    chunkOffset: (chunk: Chunk) => number,
+    useCo64: boolean,
+    durations: { mediaDuration: number; movieDuration: number },
+    isFirstSegment: boolean
+  ): Buffer {
+    const rebuild = (box: IsoBox, replace: (child: IsoBox) => Buffer[] | null): Buffer =>
+      this.box(box.type, ...IsoBmff.children(source, box).flatMap(child => replace(child) ?? [IsoBmff.raw(source, child)]));
+
+    return rebuild(track.box, child => {
+      switch (child.type) {
+        case 'tkhd':
+          return [this.patchDuration(source, child, durations.movieDuration, 'tkhd')];
+        case 'edts':
+          return track.mediaTime >= 0
+            ? [this.buildEdts(durations.movieDuration, this.getEditMediaTime(track, samples, isFirstSegment))]
+            : [];
+        case 'tref':
+          // References may point at tracks dropped from the segment
+          return [];
+        case 'mdia':
+          return [rebuild(child, mdiaChild => {
+            if (mdiaChild.type === 'mdhd') {
+              return [this.patchDuration(source, mdiaChild, durations.mediaDuration, 'mdhd')];
+            }
+            if (mdiaChild.type === 'minf') {
+              return [rebuild(mdiaChild, minfChild => minfChild.type === 'stbl'
+                ? [this.buildStbl(source, minfChild, track, samples, chunks, chunkOffset, useCo64)]
+                : null)];
+            }
+            return null;
+          })];
+        default:
+          return null;
+      }
+    });
+  }
+
+  /**
+   * Rebuild the sample table for a subset of samples. Index-based side tables
+   * (sdtp, sample groups, cslg...) are dropped because they no longer line up.
+   */
+  private static buildStbl(
+    source: Buffer,
+    stbl: IsoBox,
+    track: Track,
+    samples: Sample[],
+    chunks: Chunk[],
+    chunkOffset: (chunk: Chunk) => number,
+    useCo64: boolean
+  ): Buffer {
+    const stsd = IsoBmff.raw(source, IsoBmff.requireChild(source, stbl, 'stsd'));
+    const boxes: Buffer[] = [stsd];
+
+    // stts
+    const stts = this.runLength(samples.map(sample => sample.duration));
+    boxes.push(this.fullBox('stts', 0, 0, this.uint32(stts.length), ...stts.map(([count, delta]) =>
+      this.uint32(count, delta)
+    )));
+
+    // ctts
+    if (track.hasCtts) {
+      const ctts = this.runLength(samples.map(sample => sample.cto));
+      boxes.push(this.fullBox('ctts', track.cttsVersion, 0, this.uint32(ctts.length), ...ctts.map(([count, offset]) => {
+        const entry = Buffer.alloc(8);
+        entry.writeUInt32BE(count, 0);
+        if (track.cttsVersion === 1) {
+          entry.writeInt32BE(offset, 4);
+        } else {
+          entry.writeUInt32BE(offset, 4);
+        }
+        return entry;
+      })));
+    }
+
+    // stss
+    if (track.hasStss) {
+      const syncNumbers = samples
+        .map((sample, index) => (sample.isSync ? index + 1 : 0))
+        .filter(number => number > 0);
+      boxes.push(this.fullBox('stss', 0, 0, this.uint32(syncNumbers.length, ...syncNumbers)));
+    }
+
+    // stsc
+    const stscEntries: number[][] = [];
+    chunks.forEach((chunk, index) => {
+      const previous = stscEntries[stscEntries.length - 1];
+      const descriptionIndex = chunk.samples[0].descriptionIndex;
+      if (!previous || previous[1] !== chunk.samples.length || previous[2] !== descriptionIndex) {
+        stscEntries.push([index + 1, chunk.samples.length, descriptionIndex]);
+      }
+    });
+    boxes.push(this.fullBox('stsc', 0, 0, this.uint32(stscEntries.length), ...stscEntries.map(entry =>
+      this.uint32(...entry)
+    )));
+
+    // stsz
+    const uniformSize = samples.every(sample => sample.size === samples[0].size) ? samples[0].size : 0;
+    boxes.push(this.fullBox(
+      'stsz',
+      0,
+      0,
+      this.uint32(uniformSize, samples.length),
+      ...(uniformSize === 0 ? [this.uint32(...samples.map(sample => sample.size))] : [])
+    ));
+
+    // stco / co64
+    if (useCo64) {
+      const offsets = Buffer.alloc(chunks.length * 8);
+      chunks.forEach((chunk, index) => offsets.writeBigUInt64BE(BigInt(chunkOffset(chunk)), index * 8));
+      boxes.push(this.fullBox('co64', 0, 0, this.uint32(chunks.length), offsets));
+    } else {
+      boxes.push(this.fullBox('stco', 0, 0, this.uint32(chunks.length, ...chunks.map(chunkOffset))));
+    }
+
+    return this.box('stbl', ...boxes);
+  }
+
+  /**
+   * Media time a segment's edit starts at. Only the first segment keeps the
+   * source's edit, since AAC priming exists only at the start of the stream;
+   * later segments start at their first presented sample, which is the
+   * composition shift for B-frame video and 0 otherwise.
+   */
+  private static getEditMediaTime(track: Track, samples: Sample[], isFirstSegment: boolean): number {
+    if (isFirstSegment) return track.mediaTime;
+    if (!track.hasCtts) return 0;
+
+    const firstDts = samples[0].dts;
+    const firstPresented = samples.reduce((min, sample) => Math.min(min, sample.dts - firstDts + sample.cto), Infinity);
+    return Math.max(0, firstPresented);
+  }
+
+  private static buildEdts(segmentDuration: number, mediaTime: number): Buffer {
+    const entry = Buffer.alloc(12);
+    entry.writeUInt32BE(segmentDuration, 0);
+    entry.writeInt32BE(mediaTime, 4);
+    entry.writeUInt32BE(0x00010000, 8); // media rate 1.0
+    return this.box('edts', this.fullBox('elst', 0, 0, this.uint32(1), entry));
+  }
+
+  /**
+   * Copy a mvhd/tkhd/mdhd box with a new duration
+   */
+  private static patchDuration(source: Buffer, box: IsoBox, duration: number, type: 'mvhd' | 'tkhd' | 'mdhd'): Buffer {
+    const copy = Buffer.from(IsoBmff.raw(source, box));
+    const base = box.headerSize;
+    const v1 = copy[base] === 1;
+    const offset = base + (type === 'tkhd' ? (v1 ? 28 : 20) : (v1 ? 24 : 16));
+
+    if (v1) {
+      copy.writeBigUInt64BE(BigInt(duration), offset);
+    } else {
+      copy.writeUInt32BE(Math.min(duration, 0xffffffff), offset);
+    }
+    return copy;
+  }
+
+  private static runLength(values: number[]): Array<[number, number]> {
+    const runs: Array<[number, number]> = [];
+    for (const value of values) {
+      const last = runs[runs.length - 1];
+      if (last && last[1] === value) {
+        last[0]++;
+      } else {
+        runs.push([1, value]);
+      }
+    }
+    return runs;
+  }
+
+  private static uint32(...values: number[]): Buffer {
+    const buffer = Buffer.alloc(values.length * 4);
+    values.forEach((value, index) => buffer.writeUInt32BE(value, index * 4));
+    return buffer;
+  }
+
+  private static box(type: string, ...parts: Buffer[]): Buffer {
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + parts.reduce((sum, part) => sum + part.length, 0), 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, ...parts]);
+  }
+
+  private static fullBox(type: string, version: number, flags: number, ...parts: Buffer[]): Buffer {
+    const versionAndFlags = Buffer.alloc(4);
+    versionAndFlags[0] = version;
+    versionAndFlags.writeUIntBE(flags, 1, 3);
+    return this.box(type, versionAndFlags, ...parts);
+  }
+}
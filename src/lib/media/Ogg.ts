@@ -0,0 +1,108 @@
+/**
+ * Ogg container page reader (RFC 3533), enough to find stream headers,
+ * the final granule position and packet boundaries.
+ */
+
+export interface OggPage {
+  offset: number;
+  headerType: number; // 0x01 continued packet, 0x02 first page, 0x04 last page
+  granulePosition: number; // -1 when no packet ends on the page
+  serial: number;
+  segments: number[]; // Lacing values
+  dataStart: number;
+  dataLength: number;
+}
+
+const CAPTURE_PATTERN = 'OggS';
+const PAGE_HEADER_SIZE = 27;
+
+export class Ogg {
+  static isOgg(buffer: Buffer): boolean {
+    return buffer.length >= 4 && buffer.toString('latin1', 0, 4) === CAPTURE_PATTERN;
+  }
+
+  /**
+   * Read the pages of a buffer; a truncated final page is skipped
+   */
+  static readPages(buffer: Buffer, start: number = 0): OggPage[] {
+    const pages: OggPage[] = [];
+    let offset = start;
+
+    while (offset + PAGE_HEADER_SIZE <= buffer.length) {
+      if (buffer.toString('latin1', offset, offset + 4) !== CAPTURE_PATTERN) {
+        // Resynchronise on the next capture pattern
+        const next = buffer.indexOf(CAPTURE_PATTERN, offset + 1, 'latin1');
+        if (next < 0) break;
+        offset = next;
+        continue;
+      }
+
+      const segmentCount = buffer[offset + 26];
+      const dataStart = offset + PAGE_HEADER_SIZE + segmentCount;
+      if (dataStart > buffer.length) break;
+
+      const segments = Array.from(buffer.subarray(offset + PAGE_HEADER_SIZE, dataStart));
+      const dataLength = segments.reduce((sum, value) => sum + value, 0);
+      if (dataStart + dataLength > buffer.length) break;
+
+      const granule = buffer.readBigInt64LE(offset + 6);
+      pages.push({
+        offset,
+        headerType: buffer[offset + 5],
+        granulePosition: Number(granule),
+        serial: buffer.readUInt32LE(offset + 14),
+        segments,
+        dataStart,
+        dataLength,
+      });
+
+      offset = dataStart + dataLength;
+    }
+
+    return pages;
+  }
+
+  /**
+   * Complete packets of the first logical stream, in order
+   */
+  static readPackets(buffer: Buffer, pages: OggPage[] = this.readPages(buffer)): Buffer[] {
+    const serial = pages[0]?.serial;
+    const packets: Buffer[] = [];
+    let pending: Buffer[] = [];
+
+    for (const page of pages) {
+      if (page.serial !== serial) continue;
+
+      let position = page.dataStart;
+      let start = position;
+      for (const lacing of page.segments) {
+        position += lacing;
+        // A lacing value under 255 ends the packet
+        if (lacing < 255) {
+          pending.push(buffer.subarray(start, position));
+          packets.push(pending.length === 1 ? pending[0] : Buffer.concat(pending));
+          pending = [];
+          start = position;
+        }
+      }
+      if (start < position) {
+        pending.push(buffer.subarray(start, position));
+      }
+    }
+
+    return packets;
+  }
+
+  /**
+   * Granule position of the last page of the first logical stream that has one
+   */
+  static lastGranulePosition(pages: OggPage[]): number {
+    const serial = pages[0]?.serial;
+    for (let i = pages.length - 1; i >= 0; i--) {
+      if (pages[i].serial === serial && pages[i].granulePosition >= 0) {
+        return pages[i].granulePosition;
+      }
+    }
+    return 0;
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * WhatsApp sticker encoder built on sharp.
+ *
+ * Images are fitted into a transparent 512x512 canvas, encoded as WebP under
+ * WhatsApp's size limit for static stickers, and tagged with the sticker-pack
+ * EXIF block WhatsApp reads the pack name and author from.
+ */
+
+import crypto from 'crypto';
+import sharp from 'sharp';
+
+export const STICKER_SIZE = 512;
+export const STICKER_MAX_BYTES = 100 * 1024; // WhatsApp rejects larger static stickers
+
+export const DEFAULT_STICKER_PACK_NAME = 'WhatsApp Status Handler';
+
+export interface StickerPackMetadata {
+  packName: string;
+  author?: string;
+  packId?: string; // Defaults to a hash of the name and author, so a pack's stickers group together
+  emojis?: string[]; // Used by WhatsApp's sticker search
+}
+
+// Formats that make sense as a static sticker
+const STICKER_SOURCE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
+
+// Lossy quality steps tried until the sticker fits the size limit
+const QUALITY_STEPS = [80, 65, 50, 35, 20];
+
+// EXIF tag WhatsApp stores the sticker-pack JSON under
+const STICKER_PACK_TAG = 0x5741;
+
+// VP8X feature flags
+const WEBP_FLAG_ALPHA = 0x10;
+const WEBP_FLAG_EXIF = 0x08;
+
+interface RiffChunk {
+  type: string;
+  data: Buffer;
+}
+
+export class StickerEncoder {
+  static supports(mimetype: string): boolean {
+    return STICKER_SOURCE_MIME_TYPES.includes(mimetype);
+  }
+
+  /**
+   * Encode an image as a sticker; animated WebP input keeps its first frame
+   */
+  static async encode(input: string | Buffer, metadata: StickerPackMetadata): Promise<Buffer> {
+    const canvas = await sharp(input)
+      .rotate()
+      .resize({
+        width: STICKER_SIZE,
+        height: STICKER_SIZE,
+        fit: 'contain',
+        background: { r: 0, g: 0, b: 0, alpha: 0 },
+      })
+      .ensureAlpha()
+      .png()
+      .toBuffer();
+
+    let webp: Buffer | null = null;
+    for (const quality of QUALITY_STEPS) {
+      webp = await sharp(canvas).webp({ quality, alphaQuality: 100, effort: 6 }).toBuffer();
+      if (webp.length <= STICKER_MAX_BYTES) {
+        break;
+      }
+    }
+
+    if (!webp || webp.length > STICKER_MAX_BYTES) {
+      throw new Error(`Sticker is still ${Math.round((webp?.length ?? 0) / 1024)} KB at the lowest quality; WhatsApp allows ${STICKER_MAX_BYTES / 1024} KB`);
+    }
+
+    return this.withPackMetadata(webp, metadata);
+  }
+
+  /**
+   * Replace the EXIF block of a WebP with sticker-pack metadata, converting
+   * a simple (VP8/VP8L) file to the extended format that can carry it
+   */
+  static withPackMetadata(webp: Buffer, metadata: StickerPackMetadata): Buffer {
+    const chunks = this.readChunks(webp).filter(chunk => chunk.type !== 'EXIF');
+    let vp8x = chunks.find(chunk => chunk.type === 'VP8X');
+
+    if (!vp8x) {
+      const { width, height, alpha } = this.readBitstreamInfo(chunks);
+      const data = Buffer.alloc(10);
+      data[0] = alpha ? WEBP_FLAG_ALPHA : 0;
+      data.writeUIntLE(width - 1, 4, 3);
+      data.writeUIntLE(height - 1, 7, 3);
+      vp8x = { type: 'VP8X', data };
+      chunks.unshift(vp8x);
+    }
+
+    vp8x.data[0] |= WEBP_FLAG_EXIF;
+    // EXIF goes after the image data
+    chunks.push({ type: 'EXIF', data: this.buildPackExif(metadata) });
+
+    const body = Buffer.concat(chunks.map(chunk => this.buildChunk(chunk)));
+    const header = Buffer.alloc(12);
+    header.write('RIFF', 0, 'latin1');
+    header.writeUInt32LE(body.length + 4, 4);
+    header.write('WEBP', 8, 'latin1');
+    return Buffer.concat([header, body]);
+  }
+
+  /**
+   * Sticker-pack metadata embedded in a WebP, if any
+   */
+  static readPackMetadata(webp: Buffer): StickerPackMetadata | null {
+    const exif = this.readChunks(webp).find(chunk => chunk.type === 'EXIF')?.data;
+    if (!exif || exif.length < 22 || exif.toString('latin1', 0, 2) !== 'II') {
+      return null;
+    }
+
+    const ifd = exif.readUInt32LE(4);
+    const entries = exif.readUInt16LE(ifd);
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (exif.readUInt16LE(entry) !== STICKER_PACK_TAG) continue;
+
+      const length = exif.readUInt32LE(entry + 4);
+      const offset = exif.readUInt32LE(entry + 8);
+      try {
+        const json = JSON.parse(exif.toString('utf8', offset, offset + length));
+        return {
+          packName: json['sticker-pack-name'],
+          author: json['sticker-pack-publisher'] || undefined,
+          packId: json['sticker-pack-id'],
+          emojis: Array.isArray(json.emojis) ? json.emojis : undefined,
+        };
+      } catch {
+        return null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Little-endian TIFF block with the pack JSON as its only tag
+   */
+  private static buildPackExif(metadata: StickerPackMetadata): Buffer {
+    const json = Buffer.from(JSON.stringify({
+      'sticker-pack-id': metadata.packId || this.packIdFor(metadata.packName, metadata.author),
+      'sticker-pack-name': metadata.packName,
+      'sticker-pack-publisher': metadata.author || '',
+      emojis: metadata.emojis || [],
+    }), 'utf8');
+
+    const header = Buffer.alloc(22);
+    header.write('II', 0, 'latin1');
+    header.writeUInt16LE(42, 2);
+    header.writeUInt32LE(8, 4); // IFD0 offset
+    header.writeUInt16LE(1, 8); // One entry
+    header.writeUInt16LE(STICKER_PACK_TAG, 10);
+    header.writeUInt16LE(7, 12); // UNDEFINED
+    header.writeUInt32LE(json.length, 14);
+    header.writeUInt32LE(22, 18); // Value follows the IFD; WhatsApp doesn't read a next-IFD pointer
+    return Buffer.concat([header, json]);
+  }
+
+  private static packIdFor(packName: string, author?: string): string {
+    return crypto.createHash('sha256').update(`${packName}\0${author || ''}`).digest('hex').slice(0, 32);
+  }
+
+  private static readChunks(webp: Buffer): RiffChunk[] {
+    if (webp.toString('latin1', 0, 4) !== 'RIFF' || webp.toString('latin1', 8, 12) !== 'WEBP') {
+      throw new Error('Not a WebP file');
+    }
+
+    const chunks: RiffChunk[] = [];
+    let offset = 12;
+    while (offset + 8 <= webp.length) {
+      const type = webp.toString('latin1', offset, offset + 4);
+      const size = webp.readUInt32LE(offset + 4);
+      chunks.push({ type, data: Buffer.from(webp.subarray(offset + 8, Math.min(webp.length, offset + 8 + size))) });
+      offset += 8 + size + (size % 2); // Chunks are padded to an even size
+    }
+    return chunks;
+  }
+
+  /**
+   * Canvas size and alpha of a simple WebP, from its bitstream header
+   */
+  private static readBitstreamInfo(chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } {
+    const vp8l = chunks.find(chunk => chunk.type === 'VP8L');
+    if (vp8l) {
+      // Signature byte, then 14-bit width-1, 14-bit height-1 and the alpha hint
+      const bits = vp8l.data.readUInt32LE(1);
+      return {
+        width: (bits & 0x3fff) + 1,
+        height: ((bits >>> 14) & 0x3fff) + 1,
+        alpha: ((bits >>> 28) & 0x1) === 1,
+      };
+    }
+
+    const vp8 = chunks.find(chunk => chunk.type === 'VP8 ');
+    if (vp8) {
+      // Keyframe start code at byte 3, then 14-bit dimensions
+      return {
+        width: vp8.data.readUInt16LE(6) & 0x3fff,
+        height: vp8.data.readUInt16LE(8) & 0x3fff,
+        alpha: chunks.some(chunk => chunk.type === 'ALPH'),
+      };
+    }
+
+    throw new Error('WebP has no image data');
+  }
+
+  private static buildChunk(chunk: RiffChunk): Buffer {
+    const buffer = Buffer.alloc(8 + chunk.data.length + (chunk.data.length % 2));
+    buffer.write(chunk.type, 0, 'latin1');
+    buffer.writeUInt32LE(chunk.data.length, 4);
+    chunk.data.copy(buffer, 8);
+    return buffer;
+  }
+}
@@ -0,0 +1,369 @@
+import { MediaMetaService } from '../db';
+
+/**
+ * Match conditions and replies for keyword auto-responder rules
+ */
+export interface AutoReplyConditions {
+  keywords?: string[]; // Any one matches, as a whole word or phrase, case-insensitive
+  regex?: string; // Tested case-insensitively against the message text
+  chats?: 'contacts' | 'groups' | 'all'; // Where the rule applies; 'contacts' unless groupJids is set
+  groupJids?: string[]; // Message arrived in one of these groups
+  broadcastListIds?: string[]; // Sender is on one of these lists (segments)
+  timeWindow?: AutoReplyTimeWindow;
+}
+
+export interface AutoReplyTimeWindow {
+  start: string; // HH:MM, server time
+  end: string; // HH:MM; before start wraps past midnight
+  days?: number[]; // 0 (Sunday) to 6; every day when omitted
+}
+
+/**
+ * Text and captions may use {{name}}, {{phone}} and {{message}}
+ */
+export type AutoReplyResponse =
+  | { type: 'text'; text: string }
+  | { type: 'media'; mediaId: string; caption?: string }
+  | { type: 'template'; templateId: string; variables?: Record<string, string> };
+
+export interface AutoReplyRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  priority: number;
+  conditions: AutoReplyConditions;
+  response: AutoReplyResponse;
+  cooldownMinutes: number;
+  triggerCount: number;
+  lastTriggeredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type AutoReplyRuleInput = Partial<
+  Pick<AutoReplyRule, 'name' | 'isActive' | 'priority' | 'conditions' | 'response' | 'cooldownMinutes'>
+>;
+
+/**
+ * A message as rules see it
+ */
+export interface AutoReplyMessage {
+  text: string;
+  chatJid: string;
+  senderJid: string;
+  pushName?: string; // Sender's display name, for {{name}} when they are not a saved contact
+  timestamp: Date;
+}
+
+export interface ConditionResult {
+  matched: boolean;
+  reason?: string; // First condition that failed
+}
+
+// Long enough to be useful, short enough to keep pathological patterns cheap
+const MAX_REGEX_LENGTH = 200;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Validate match conditions from request input; throws with a
+ * user-facing message
+ */
+export function parseAutoReplyConditions(value: unknown): AutoReplyConditions {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('conditions must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const conditions: AutoReplyConditions = {};
+
+  const keywords = optionalStringArray(input.keywords, 'conditions.keywords');
+  if (keywords) {
+    conditions.keywords = keywords;
+  }
+
+  if (input.regex !== undefined && input.regex !== null && input.regex !== '') {
+    if (typeof input.regex !== 'string') {
+      throw new Error('conditions.regex must be a string');
+    }
+    if (input.regex.length > MAX_REGEX_LENGTH) {
+      throw new Error(`conditions.regex must be at most ${MAX_REGEX_LENGTH} characters`);
+    }
+    try {
+      new RegExp(input.regex, 'i');
+    } catch (error) {
+      throw new Error(`conditions.regex is not a valid pattern: ${error instanceof Error ? error.message : error}`);
+    }
+    conditions.regex = input.regex;
+  }
+
+  const groupJids = optionalStringArray(input.groupJids, 'conditions.groupJids');
+  if (groupJids) {
+    if (groupJids.some(jid => !jid.endsWith('@g.us'))) {
+      throw new Error('conditions.groupJids must be group JIDs');
+    }
+    conditions.groupJids = groupJids;
+  }
+
+  const broadcastListIds = optionalStringArray(input.broadcastListIds, 'conditions.broadcastListIds');
+  if (broadcastListIds) {
+    conditions.broadcastListIds = broadcastListIds;
+  }
+
+  if (input.chats !== undefined && input.chats !== null) {
+    if (input.chats !== 'contacts' && input.chats !== 'groups' && input.chats !== 'all') {
+      throw new Error("conditions.chats must be 'contacts', 'groups' or 'all'");
+    }
+    if (input.chats === 'contacts' && conditions.groupJids) {
+      throw new Error("conditions.groupJids cannot be used with chats 'contacts'");
+    }
+    conditions.chats = input.chats;
+  }
+
+  if (input.timeWindow !== undefined && input.timeWindow !== null) {
+    conditions.timeWindow = parseTimeWindow(input.timeWindow);
+  }
+
+  return conditions;
+}
+
+/**
+ * Validate a reply from request input; throws with a user-facing message
+ */
+export function parseAutoReplyResponse(value: unknown): AutoReplyResponse {
+  if (!value || typeof value !== 'object') {
+    throw new Error('response must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+
+  switch (input.type) {
+    case 'text':
+      if (typeof input.text !== 'string' || !input.text.trim()) {
+        throw new Error('response.text is required for text replies');
+      }
+      return { type: 'text', text: input.text };
+
+    case 'media':
+      if (typeof input.mediaId !== 'string' || !input.mediaId) {
+        throw new Error('response.mediaId is required for media replies');
+      }
+      if (input.caption !== undefined && typeof input.caption !== 'string') {
+        throw new Error('response.caption must be a string');
+      }
+      return { type: 'media', mediaId: input.mediaId, caption: input.caption || undefined };
+
+    case 'template': {
+      if (typeof input.templateId !== 'string' || !input.templateId) {
+        throw new Error('response.templateId is required for template replies');
+      }
+      const variables = input.variables;
+      if (variables !== undefined && (
+        !variables || typeof variables !== 'object' || Array.isArray(variables) ||
+        Object.values(variables).some(variable => typeof variable !== 'string')
+      )) {
+        throw new Error('response.variables must map names to strings');
+      }
+      return {
+        type: 'template',
+        templateId: input.templateId,
+        variables: variables as Record<string, string> | undefined,
+      };
+    }
+
+    default:
+      throw new Error("response.type must be 'text', 'media' or 'template'");
+  }
+}
+
+/**
+ * Validate a rule from request input; with `partial` only the given
+ * fields are checked, for updates. Throws with a user-facing message.
+ */
+export function parseAutoReplyRule(value: unknown, partial: boolean = false): AutoReplyRuleInput {
+  if (!value || typeof value !== 'object') {
+    throw new Error('Rule must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const rule: AutoReplyRuleInput = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      throw new Error('name is required');
+    }
+    rule.name = input.name.trim();
+  }
+
+  if (input.isActive !== undefined) {
+    if (typeof input.isActive !== 'boolean') {
+      throw new Error('isActive must be a boolean');
+    }
+    rule.isActive = input.isActive;
+  }
+
+  for (const field of ['priority', 'cooldownMinutes'] as const) {
+    if (input[field] !== undefined) {
+      const number = input[field];
+      if (typeof number !== 'number' || !Number.isInteger(number) || number < 0) {
+        throw new Error(`${field} must be a whole number of at least 0`);
+      }
+      rule[field] = number;
+    }
+  }
+
+  if (input.conditions !== undefined || !partial) {
+    rule.conditions = parseAutoReplyConditions(input.conditions);
+  }
+
+  if (input.response !== undefined || !partial) {
+    rule.response = parseAutoReplyResponse(input.response);
+  }
+
+  return rule;
+}
+
+/**
+ * What a reply points at that no longer exists: its stored media or its
+ * template (templates are kept in memory, so they are gone after a restart)
+ */
+export async function findMissingResponseTarget(response: AutoReplyResponse): Promise<string | undefined> {
+  if (response.type === 'media' && !(await MediaMetaService.getById(response.mediaId))) {
+    return `Media not found: ${response.mediaId}`;
+  }
+
+  if (response.type === 'template') {
+    // Imported here: the scheduler depends on the socket manager, which uses these rules
+    const { getMessageScheduler } = await import('./MessageScheduler');
+    if (!getMessageScheduler().getTemplate(response.templateId)) {
+      return `Template not found: ${response.templateId}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check a message against a rule's conditions. `listIds` are the
+ * broadcast lists the sender is on.
+ */
+export function matchConditions(
+  conditions: AutoReplyConditions,
+  message: AutoReplyMessage,
+  listIds: string[] = []
+): ConditionResult {
+  const isGroup = message.chatJid.endsWith('@g.us');
+  const chats = conditions.chats || (conditions.groupJids ? 'groups' : 'contacts');
+
+  if (chats === 'contacts' && isGroup) {
+    return { matched: false, reason: 'Rule only applies to direct chats' };
+  }
+  if (chats === 'groups' && !isGroup) {
+    return { matched: false, reason: 'Rule only applies to groups' };
+  }
+  if (conditions.groupJids && !conditions.groupJids.includes(message.chatJid)) {
+    return { matched: false, reason: 'Message is not in one of the rule\'s groups' };
+  }
+
+  if (conditions.broadcastListIds && !conditions.broadcastListIds.some(id => listIds.includes(id))) {
+    return { matched: false, reason: 'Sender is not on one of the rule\'s lists' };
+  }
+
+  if (conditions.timeWindow && !isWithinTimeWindow(conditions.timeWindow, message.timestamp)) {
+    return { matched: false, reason: 'Outside the rule\'s time window' };
+  }
+
+  if (conditions.keywords && !conditions.keywords.some(keyword => containsKeyword(message.text, keyword))) {
+    return { matched: false, reason: 'No keyword found' };
+  }
+
+  if (conditions.regex && !new RegExp(conditions.regex, 'i').test(message.text)) {
+    return { matched: false, reason: 'Pattern does not match' };
+  }
+
+  return { matched: true };
+}
+
+/**
+ * Whether a time falls in a window; a window ending before it starts
+ * runs past midnight and counts from the day it started
+ */
+export function isWithinTimeWindow(window: AutoReplyTimeWindow, date: Date): boolean {
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(window.start);
+  const end = toMinutes(window.end);
+
+  let day = date.getDay();
+  let inWindow: boolean;
+
+  if (start <= end) {
+    inWindow = minutes >= start && minutes < end;
+  } else if (minutes >= start) {
+    inWindow = true;
+  } else {
+    inWindow = minutes < end;
+    day = (day + 6) % 7; // The window opened the day before
+  }
+
+  return inWindow && (!window.days || window.days.includes(day));
+}
+
+/**
+ * Fill {{name}}-style placeholders; unknown placeholders are left as-is
+ */
+export function renderReplyText(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => variables[key] ?? placeholder);
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  // Unicode-aware word boundaries, so "hi" does not match "this"
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+function parseTimeWindow(value: unknown): AutoReplyTimeWindow {
+  if (typeof value !== 'object' || !value) {
+    throw new Error('conditions.timeWindow must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  for (const field of ['start', 'end'] as const) {
+    if (typeof input[field] !== 'string' || !TIME_PATTERN.test(input[field] as string)) {
+      throw new Error(`conditions.timeWindow.${field} must be a time as HH:MM`);
+    }
+  }
+  if (input.start === input.end) {
+    throw new Error('conditions.timeWindow.start and end must differ');
+  }
+
+  let days: number[] | undefined;
+  if (input.days !== undefined && input.days !== null) {
+    if (
+      !Array.isArray(input.days) || input.days.length === 0 ||
+      input.days.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+    ) {
+      throw new Error('conditions.timeWindow.days must be day numbers from 0 (Sunday) to 6');
+    }
+    days = [...new Set(input.days as number[])].sort();
+  }
+
+  return { start: input.start as string, end: input.end as string, days };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function optionalStringArray(value: unknown, field: string): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be an array of strings`);
+  }
+  const items = [...new Set(value.map(item => item.trim()).filter(Boolean))];
+  return items.length > 0 ? items : undefined;
+}
@@ -3,6 +3,8 @@ import { getBaileysManager } from '../socketManager';
 import { getMessageScheduler, ScheduledMessage } from './MessageScheduler';
 import { SendHistoryService } from '../db';
 import { getSecurityMonitor } from '../security/SecurityMonitor';
+import { structuredFromMessageContent } from './StructuredContent';
+import type { LocationContent, ContactCard, LinkContent } from './StructuredContent';
 
 export interface BulkMessageJob {
   id: string;
@@ -15,12 +17,15 @@ export interface BulkMessageJob {
     customVariables?: Record<string, string>;
   }>;
   content: {
-    type: 'text' | 'image' | 'video' | 'document';
-    data: Buffer | string;
+    type: 'text' | 'image' | 'video' | 'document' | 'location' | 'contacts' | 'link';
+    data: Buffer | string; // Unused for location, contacts and link
     caption?: string;
     mimetype?: string;
     filename?: string;
     templateId?: string;
+    location?: LocationContent; // For 'location'
+    contactCards?: ContactCard[]; // For 'contacts'
+    link?: LinkContent; // For 'link'
   };
   settings: {
     delayBetweenMessages: number; // seconds
@@ -312,23 +317,28 @@ export class BulkMessageManager extends EventEmitter {
                 data: messageContent.data as Buffer,
                 caption: messageContent.caption,
                 mimetype: messageContent.mimetype,
-                filename: messageContent.filename
+                filename: messageContent.filename,
+                location: messageContent.location,
+                contactCards: messageContent.contactCards,
+                link: messageContent.link
               },
               job.settings.scheduleFor,
               job.sessionId
             );
           } else {
             // Send immediately
+            const structured = structuredFromMessageContent(messageContent);
             await messageSender.sendMessage({
               targetType: target.type,
               targetIdentifier: target.identifier,
-              files: [{
+              files: structured ? [] : [{
                 buffer: messageContent.data as Buffer,
                 mimetype: messageContent.mimetype || 'text/plain',
                 filename: messageContent.filename || 'bulk_message'
               }],
               caption: messageContent.caption,
-              sendAsDocument: messageContent.type === 'document'
+              sendAsDocument: messageContent.type === 'document',
+              structured
             });
           }
 
@@ -1,20 +1,28 @@
 import { EventEmitter } from 'events';
 import { getBaileysManager } from '../socketManager';
-import { SendHistoryService } from '../db';
+import { SendHistoryService, MediaReferenceRepository } from '../db';
 import { getSecurityMonitor } from '../security/SecurityMonitor';
+import { RecurrenceRule, getNextOccurrence } from './Recurrence';
+import { structuredFromMessageContent } from './StructuredContent';
+import type { LocationContent, ContactCard, LinkContent } from './StructuredContent';
 
 export interface ScheduledMessage {
   id: string;
   targetType: 'status' | 'contact' | 'group';
   targetIdentifier: string;
   content: {
-    type: 'text' | 'image' | 'video' | 'document';
-    data: Buffer | string;
+    type: 'text' | 'image' | 'video' | 'document' | 'location' | 'contacts' | 'link';
+    data: Buffer | string; // Unused for location, contacts and link
     caption?: string;
     mimetype?: string;
     filename?: string;
+    location?: LocationContent; // For 'location'
+    contactCards?: ContactCard[]; // For 'contacts'
+    link?: LinkContent; // For 'link'
   };
-  scheduledFor: Date;
+  scheduledFor: Date; // Next occurrence for recurring messages
+  recurrence?: RecurrenceRule;
+  runCount: number; // Completed occurrences (sent or failed)
   status: 'pending' | 'sent' | 'failed' | 'cancelled';
   attempts: number;
   maxAttempts: number;
@@ -32,6 +40,7 @@ export interface MessageTemplate {
     type: 'text' | 'image' | 'video' | 'document';
     template: string; // Can contain placeholders like {{name}}, {{date}}
     mediaPath?: string;
+    mediaId?: string; // Stored media (MediaMeta ID), kept while the template exists
     caption?: string;
   };
   variables: string[]; // List of placeholder variables
@@ -73,10 +82,15 @@ export class MessageScheduler extends EventEmitter {
     this.config = config;
     this.startProcessing();
     this.startCleanup();
+
+    // Templates live in memory, so references left by a previous run are stale
+    MediaReferenceRepository.releaseOwnerType('template').catch(error => {
+      console.error('Failed to release template media references:', error);
+    });
   }
 
   /**
-   * Schedule a message to be sent later
+   * Schedule a message to be sent later, optionally repeating on a recurrence rule
    */
   async scheduleMessage(
     targetType: 'status' | 'contact' | 'group',
@@ -84,7 +98,8 @@ export class MessageScheduler extends EventEmitter {
     content: ScheduledMessage['content'],
     scheduledFor: Date,
     sessionId: string,
-    maxAttempts?: number
+    maxAttempts?: number,
+    recurrence?: RecurrenceRule
   ): Promise<string> {
     try {
       const messageId = this.generateMessageId();
@@ -95,6 +110,8 @@ export class MessageScheduler extends EventEmitter {
         targetIdentifier,
         content,
         scheduledFor,
+        recurrence,
+        runCount: 0,
         status: 'pending',
         attempts: 0,
         maxAttempts: maxAttempts || this.config.maxRetryAttempts,
@@ -114,7 +131,8 @@ export class MessageScheduler extends EventEmitter {
           messageId,
           targetType,
           scheduledFor: scheduledFor.toISOString(),
-          contentType: content.type
+          contentType: content.type,
+          recurring: Boolean(recurrence)
         }
       });
 
@@ -205,6 +223,9 @@ export class MessageScheduler extends EventEmitter {
     };
 
     this.templates.set(templateId, template);
+    if (content.mediaId) {
+      await MediaReferenceRepository.set('template', templateId, [content.mediaId]);
+    }
 
     await this.securityMonitor.logSecurityEvent({
       type: 'configuration',
@@ -241,6 +262,11 @@ export class MessageScheduler extends EventEmitter {
     // Re-extract variables if content was updated
     if (updates.content) {
       updatedTemplate.variables = this.extractVariables(updates.content.template);
+      await MediaReferenceRepository.set(
+        'template',
+        templateId,
+        updates.content.mediaId ? [updates.content.mediaId] : []
+      );
     }
 
     this.templates.set(templateId, updatedTemplate);
@@ -256,6 +282,7 @@ export class MessageScheduler extends EventEmitter {
     if (!template) return false;
 
     this.templates.delete(templateId);
+    await MediaReferenceRepository.release('template', templateId);
     this.emit('templateDeleted', template);
     return true;
   }
@@ -274,6 +301,14 @@ export class MessageScheduler extends EventEmitter {
     return Array.from(this.templates.values());
   }
 
+  /**
+   * Fill a template's placeholders without scheduling anything
+   */
+  renderTemplate(templateId: string, variables: Record<string, string> = {}): ScheduledMessage['content'] | undefined {
+    const template = this.templates.get(templateId);
+    return template && this.processTemplate(template, variables);
+  }
+
   /**
    * Schedule message using template
    */
@@ -353,24 +388,27 @@ export class MessageScheduler extends EventEmitter {
       this.scheduledMessages.set(message.id, message);
 
       // Send the message
+      const structured = structuredFromMessageContent(message.content);
       await messageSender.sendMessage({
         targetType: message.targetType,
         targetIdentifier: message.targetIdentifier,
-        files: [{
+        files: structured ? [] : [{
           buffer: message.content.data as Buffer,
           mimetype: message.content.mimetype || 'text/plain',
           filename: message.content.filename || 'message'
         }],
         caption: message.content.caption,
-        sendAsDocument: message.content.type === 'document'
+        sendAsDocument: message.content.type === 'document',
+        structured
       });
 
       // Mark as sent
       message.status = 'sent';
       message.sentAt = new Date();
+      message.runCount++;
       this.scheduledMessages.set(message.id, message);
 
-      // Save to send history
+      // Save to send history (one entry per occurrence)
       await SendHistoryService.create({
         sessionId: message.sessionId,
         targetType: message.targetType,
@@ -381,6 +419,7 @@ export class MessageScheduler extends EventEmitter {
       });
 
       this.emit('messageSent', message);
+      this.scheduleNextOccurrence(message);
 
     } catch (error) {
       console.error(`Failed to send scheduled message ${message.id}:`, error);
@@ -394,7 +433,10 @@ export class MessageScheduler extends EventEmitter {
         message.status = 'pending';
       } else {
         message.status = 'failed';
+        message.runCount++;
         this.emit('messageFailed', message);
+        // A failed occurrence does not stop later ones
+        this.scheduleNextOccurrence(message);
       }
       
       this.scheduledMessages.set(message.id, message);
@@ -403,6 +445,23 @@ export class MessageScheduler extends EventEmitter {
     }
   }
 
+  /**
+   * Re-queue a recurring message for its next occurrence, if the rule allows one
+   */
+  private scheduleNextOccurrence(message: ScheduledMessage): void {
+    if (!message.recurrence) return;
+
+    const nextRun = getNextOccurrence(message.recurrence, new Date(), message.runCount);
+    if (!nextRun) return;
+
+    message.status = 'pending';
+    message.scheduledFor = nextRun;
+    message.attempts = 0;
+    this.scheduledMessages.set(message.id, message);
+
+    this.emit('messageRescheduled', message);
+  }
+
   /**
    * Extract variables from template string
    */
@@ -0,0 +1,322 @@
+export type RecurrencePreset = 'daily' | 'weekdays' | 'weekly';
+
+export interface RecurrenceRule {
+  cron?: string; // Standard 5-field cron expression (local time)
+  preset?: RecurrencePreset; // Used when no cron expression is given
+  time?: string; // HH:mm, presets only (default 09:00)
+  dayOfWeek?: number; // 0 (Sunday) - 6, weekly preset only (default Monday)
+  endDate?: Date; // No occurrences after this time
+  maxRuns?: number; // Stop after this many occurrences
+}
+
+interface CronField {
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12, names: ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'] },
+  { min: 0, max: 7, names: ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'] }, // 0 and 7 are Sunday
+];
+
+const CRON_MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Minimal cron expression evaluator (minute hour day-of-month month day-of-week)
+ * supporting lists, ranges, steps and month/day names
+ */
+export class CronExpression {
+  private constructor(
+    private readonly source: string,
+    private readonly minutes: Set<number>,
+    private readonly hours: Set<number>,
+    private readonly daysOfMonth: Set<number>,
+    private readonly months: Set<number>,
+    private readonly daysOfWeek: Set<number>,
+    private readonly dayOfMonthRestricted: boolean,
+    private readonly dayOfWeekRestricted: boolean
+  ) {}
+
+  static parse(expression: string): CronExpression {
+    const source = expression.trim();
+    const expanded = CRON_MACROS[source.toLowerCase()] || source;
+    const parts = expanded.split(/\s+/);
+
+    if (parts.length !== 5) {
+      throw new Error(`Cron expression must have 5 fields, got ${parts.length}`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) =>
+      CronExpression.parseField(part, CRON_FIELDS[index])
+    );
+
+    // Day of week 7 is an alias for Sunday
+    if (daysOfWeek.delete(7)) {
+      daysOfWeek.add(0);
+    }
+
+    return new CronExpression(
+      source,
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek,
+      parts[2] !== '*' && parts[2] !== '?',
+      parts[4] !== '*' && parts[4] !== '?'
+    );
+  }
+
+  /**
+   * First matching minute strictly after the given time, or null if none
+   */
+  next(after: Date): Date | null {
+    const candidate = new Date(after.getTime());
+    candidate.setSeconds(0, 0);
+    candidate.setMinutes(candidate.getMinutes() + 1);
+
+    const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+
+    while (candidate.getFullYear() <= limit) {
+      if (!this.months.has(candidate.getMonth() + 1)) {
+        candidate.setMonth(candidate.getMonth() + 1, 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(candidate)) {
+        candidate.setDate(candidate.getDate() + 1);
+        candidate.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(candidate.getHours())) {
+        candidate.setHours(candidate.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(candidate.getMinutes())) {
+        candidate.setMinutes(candidate.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return candidate;
+    }
+
+    return null;
+  }
+
+  toString(): string {
+    return this.source;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    // Standard cron: when both fields are restricted, either may match
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+  }
+
+  private static parseField(field: string, spec: CronField): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+
+      if (!Number.isInteger(step) || step < 1) {
+        throw new Error(`Invalid step in cron field "${field}"`);
+      }
+
+      let start: number;
+      let end: number;
+
+      if (range === '*' || range === '?') {
+        start = spec.min;
+        end = spec.max;
+      } else if (range.includes('-')) {
+        const [from, to] = range.split('-');
+        start = CronExpression.parseValue(from, spec);
+        end = CronExpression.parseValue(to, spec);
+      } else {
+        start = CronExpression.parseValue(range, spec);
+        // "5/15" means every 15 starting at 5
+        end = stepText === undefined ? start : spec.max;
+      }
+
+      if (start > end) {
+        throw new Error(`Invalid range in cron field "${field}"`);
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static parseValue(text: string, spec: CronField): number {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + (spec.min === 1 ? 1 : 0) : Number(text);
+
+    if (text === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new Error(`Value "${text}" is out of range (${spec.min}-${spec.max})`);
+    }
+    return value;
+  }
+}
+
+/**
+ * Cron expression equivalent of a recurrence rule
+ */
+export function recurrenceToCron(rule: RecurrenceRule): string {
+  if (rule.cron) {
+    return rule.cron;
+  }
+
+  const [hour, minute] = (rule.time || '09:00').split(':').map(Number);
+
+  switch (rule.preset) {
+    case 'daily':
+      return `${minute} ${hour} * * *`;
+    case 'weekdays':
+      return `${minute} ${hour} * * 1-5`;
+    case 'weekly':
+      return `${minute} ${hour} * * ${rule.dayOfWeek ?? 1}`;
+    default:
+      throw new Error('Recurrence needs a cron expression or a preset');
+  }
+}
+
+/**
+ * Next occurrence after the given time, or null once the end date or run limit is reached
+ */
+export function getNextOccurrence(rule: RecurrenceRule, after: Date, runCount: number = 0): Date | null {
+  if (rule.maxRuns !== undefined && runCount >= rule.maxRuns) {
+    return null;
+  }
+
+  const next = CronExpression.parse(recurrenceToCron(rule)).next(after);
+  if (!next || (rule.endDate && next > rule.endDate)) {
+    return null;
+  }
+
+  return next;
+}
+
+/**
+ * Human readable summary, e.g. "Weekdays at 08:30 (until Dec 31, 2025)"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  let description: string;
+
+  if (rule.cron) {
+    description = `Cron "${rule.cron}"`;
+  } else {
+    const time = rule.time || '09:00';
+    switch (rule.preset) {
+      case 'daily':
+        description = `Daily at ${time}`;
+        break;
+      case 'weekdays':
+        description = `Weekdays at ${time}`;
+        break;
+      default:
+        description = `Every ${DAY_NAMES[rule.dayOfWeek ?? 1]} at ${time}`;
+    }
+  }
+
+  const limits: string[] = [];
+  if (rule.endDate) {
+    limits.push(`until ${rule.endDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`);
+  }
+  if (rule.maxRuns !== undefined) {
+    limits.push(`max ${rule.maxRuns} run${rule.maxRuns !== 1 ? 's' : ''}`);
+  }
+
+  return limits.length > 0 ? `${description} (${limits.join(', ')})` : description;
+}
+
+/**
+ * Validate a recurrence rule from request input; throws with a user-facing message
+ */
+export function parseRecurrenceRule(value: unknown): RecurrenceRule {
+  if (!value || typeof value !== 'object') {
+    throw new Error('recurrence must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+
+  const rule: RecurrenceRule = {};
+
+  if (input.cron !== undefined) {
+    if (typeof input.cron !== 'string' || !input.cron.trim()) {
+      throw new Error('recurrence.cron must be a non-empty string');
+    }
+    rule.cron = input.cron.trim();
+  } else {
+    if (!['daily', 'weekdays', 'weekly'].includes(input.preset as string)) {
+      throw new Error('recurrence needs a cron expression or a preset (daily, weekdays, weekly)');
+    }
+    rule.preset = input.preset as RecurrencePreset;
+
+    if (input.time !== undefined) {
+      const match = typeof input.time === 'string' ? input.time.match(/^(\d{1,2}):(\d{2})$/) : null;
+      if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        throw new Error('recurrence.time must be HH:mm');
+      }
+      rule.time = `${match[1].padStart(2, '0')}:${match[2]}`;
+    }
+
+    if (input.dayOfWeek !== undefined) {
+      const dayOfWeek = input.dayOfWeek as number;
+      if (!Number.isInteger(dayOfWeek) || dayOfWeek < 0 || dayOfWeek > 6) {
+        throw new Error('recurrence.dayOfWeek must be 0 (Sunday) to 6');
+      }
+      rule.dayOfWeek = dayOfWeek;
+    }
+  }
+
+  if (input.endDate !== undefined && input.endDate !== null) {
+    const endDate = new Date(input.endDate as string);
+    if (isNaN(endDate.getTime())) {
+      throw new Error('Invalid recurrence.endDate format');
+    }
+    rule.endDate = endDate;
+  }
+
+  if (input.maxRuns !== undefined && input.maxRuns !== null) {
+    const maxRuns = input.maxRuns as number;
+    if (!Number.isInteger(maxRuns) || maxRuns < 1) {
+      throw new Error('recurrence.maxRuns must be a positive integer');
+    }
+    rule.maxRuns = maxRuns;
+  }
+
+  // Surfaces cron syntax errors
+  CronExpression.parse(recurrenceToCron(rule));
+
+  return rule;
+}
@@ -0,0 +1,97 @@
+/**
+ * Commands sent to your own number ("note to self") from the phone
+ */
+export type SelfCommand =
+  | { name: 'status'; caption?: string }
+  | { name: 'schedule'; runAt: Date; caption?: string }
+  | { name: 'help' }
+  | { name: 'invalid'; error: string };
+
+export const SELF_COMMAND_HELP = [
+  'Commands:',
+  '/status [caption] - post the attached photo or video to your status; without one, post the text',
+  '/schedule HH:MM [caption] - post the attached photo or video to your status at that time',
+  '/schedule tomorrow HH:MM [caption]',
+  '/schedule YYYY-MM-DD HH:MM [caption]',
+  '/help - show this list',
+].join('\n');
+
+const TIME_PATTERN = /^([01]?\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Parse a note-to-self message; null when it is not a command (plain
+ * notes stay notes). Times are server time.
+ */
+export function parseSelfCommand(text: string, now: Date = new Date()): SelfCommand | null {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('/')) {
+    return null;
+  }
+
+  const [command, ...rest] = trimmed.split(/\s+/);
+  // Keep the caption's own line breaks: take it from the original text
+  const argumentText = trimmed.slice(command.length).trim();
+
+  switch (command.toLowerCase()) {
+    case '/status':
+      return { name: 'status', caption: argumentText || undefined };
+
+    case '/schedule':
+      return parseSchedule(rest, argumentText, now);
+
+    case '/help':
+      return { name: 'help' };
+
+    default:
+      return { name: 'invalid', error: `Unknown command ${command}` };
+  }
+}
+
+function parseSchedule(words: string[], argumentText: string, now: Date): SelfCommand {
+  const usage = 'Usage: /schedule HH:MM [caption]';
+
+  let day: Date | undefined;
+  let timeWord = words[0];
+  let consumed = 1;
+
+  if (words[0]?.toLowerCase() === 'tomorrow') {
+    day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1);
+    timeWord = words[1];
+    consumed = 2;
+  } else if (words[0] && DATE_PATTERN.test(words[0])) {
+    const [, year, month, date] = DATE_PATTERN.exec(words[0])!.map(Number);
+    day = new Date(year, month - 1, date);
+    if (day.getMonth() !== month - 1) {
+      return { name: 'invalid', error: `Invalid date ${words[0]}` };
+    }
+    timeWord = words[1];
+    consumed = 2;
+  }
+
+  const time = timeWord ? TIME_PATTERN.exec(timeWord) : null;
+  if (!time) {
+    return { name: 'invalid', error: usage };
+  }
+
+  const hours = Number(time[1]);
+  const minutes = Number(time[2]);
+  const base = day || now;
+  let runAt = new Date(base.getFullYear(), base.getMonth(), base.getDate(), hours, minutes);
+
+  // A bare time that has passed today means tomorrow
+  if (!day && runAt <= now) {
+    runAt = new Date(base.getFullYear(), base.getMonth(), base.getDate() + 1, hours, minutes);
+  }
+
+  if (runAt <= now) {
+    return { name: 'invalid', error: 'Scheduled time must be in the future' };
+  }
+
+  let caption = argumentText;
+  for (let i = 0; i < consumed; i++) {
+    caption = caption.slice(words[i].length).trim();
+  }
+
+  return { name: 'schedule', runAt, caption: caption || undefined };
+}
@@ -0,0 +1,262 @@
+import type { Contact } from '@prisma/client';
+import { ContactRepository } from '../db';
+
+export interface LocationContent {
+  latitude: number;
+  longitude: number;
+  name?: string; // Place name shown above the map, e.g. the shop's name
+  address?: string;
+}
+
+export interface ContactCard {
+  fullName: string;
+  phoneNumber?: string; // International format; makes the card open a WhatsApp chat
+  organization?: string;
+  email?: string;
+}
+
+export interface LinkContent {
+  url: string; // http(s) only
+  text?: string; // Message around the link; the URL is appended unless it is part of it
+  title?: string; // Preview title; without one WhatsApp's own preview is generated
+  description?: string;
+}
+
+/**
+ * Non-media message kinds sent to contacts and groups
+ */
+export type StructuredContent =
+  | { type: 'location'; location: LocationContent }
+  | { type: 'contacts'; cards: ContactCard[]; displayName?: string }
+  | { type: 'link'; link: LinkContent };
+
+// WhatsApp shows at most this many cards in one contacts message
+export const MAX_CONTACT_CARDS = 20;
+
+/**
+ * Validate a location from request input; throws with a user-facing message
+ */
+export function parseLocation(value: unknown): LocationContent {
+  if (!value || typeof value !== 'object') {
+    throw new Error('location must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const latitude = Number(input.latitude);
+  const longitude = Number(input.longitude);
+
+  if (input.latitude === undefined || input.latitude === null || !Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+    throw new Error('location.latitude must be a number between -90 and 90');
+  }
+  if (input.longitude === undefined || input.longitude === null || !Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+    throw new Error('location.longitude must be a number between -180 and 180');
+  }
+
+  return {
+    latitude,
+    longitude,
+    name: optionalString(input.name, 'location.name'),
+    address: optionalString(input.address, 'location.address'),
+  };
+}
+
+/**
+ * Validate a link from request input; throws with a user-facing message
+ */
+export function parseLink(value: unknown): LinkContent {
+  if (!value || typeof value !== 'object') {
+    throw new Error('link must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  if (typeof input.url !== 'string' || !input.url.trim()) {
+    throw new Error('link.url is required');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url.trim());
+  } catch {
+    throw new Error('link.url is not a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('link.url must be an http or https URL');
+  }
+
+  const title = optionalString(input.title, 'link.title');
+  const description = optionalString(input.description, 'link.description');
+  if (description && !title) {
+    throw new Error('link.description needs a link.title');
+  }
+
+  return {
+    url: input.url.trim(),
+    text: optionalString(input.text, 'link.text'),
+    title,
+    description,
+  };
+}
+
+/**
+ * Text of a link message: the URL on its own, or the message with the URL
+ * appended when it does not already contain it
+ */
+export function buildLinkText(link: LinkContent): string {
+  if (!link.text) {
+    return link.url;
+  }
+  return link.text.includes(link.url) ? link.text : `${link.text}\n${link.url}`;
+}
+
+/**
+ * Resolve contact cards from request input: each entry is either
+ * `{ contactId }` for a synced contact or typed card fields. Throws with a
+ * user-facing message.
+ */
+export async function resolveContactCards(value: unknown): Promise<ContactCard[]> {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('contactCards must be a non-empty array');
+  }
+  if (value.length > MAX_CONTACT_CARDS) {
+    throw new Error(`At most ${MAX_CONTACT_CARDS} contact cards can be sent at once`);
+  }
+
+  const contactIds = value
+    .filter(entry => entry && typeof entry === 'object' && typeof entry.contactId === 'string')
+    .map(entry => entry.contactId as string);
+  const contacts = contactIds.length > 0 ? await ContactRepository.findByIds(contactIds) : [];
+  const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+  return value.map((entry, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`contactCards[${index}] must be an object`);
+    }
+
+    if (typeof entry.contactId === 'string') {
+      const contact = contactsById.get(entry.contactId);
+      if (!contact) {
+        throw new Error(`Contact not found: ${entry.contactId}`);
+      }
+      return contactCardFromContact(contact);
+    }
+
+    if (typeof entry.fullName !== 'string' || !entry.fullName.trim()) {
+      throw new Error(`contactCards[${index}] needs a contactId or a fullName`);
+    }
+
+    const phoneNumber = optionalString(entry.phoneNumber, `contactCards[${index}].phoneNumber`);
+    if (phoneNumber && phoneNumber.replace(/\D/g, '').length < 5) {
+      throw new Error(`contactCards[${index}].phoneNumber is not a valid phone number`);
+    }
+
+    return {
+      fullName: entry.fullName.trim(),
+      phoneNumber,
+      organization: optionalString(entry.organization, `contactCards[${index}].organization`),
+      email: optionalString(entry.email, `contactCards[${index}].email`),
+    };
+  });
+}
+
+export function contactCardFromContact(contact: Contact): ContactCard {
+  const phoneNumber = contact.phoneNumber || contact.id.split('@')[0].split(':')[0];
+  return {
+    fullName: contact.name || contact.verifiedName || contact.pushName || contact.notify || phoneNumber,
+    phoneNumber: contact.id.endsWith('@lid') && !contact.phoneNumber ? undefined : phoneNumber,
+    organization: contact.verifiedName && contact.verifiedName !== contact.name ? contact.verifiedName : undefined,
+  };
+}
+
+/**
+ * vCard 3.0 for a card; the waid parameter links the number to its
+ * WhatsApp account
+ */
+export function buildVCard(card: ContactCard): string {
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escapeVCardValue(card.fullName)}`,
+    `N:${escapeVCardValue(card.fullName)};;;;`,
+  ];
+
+  if (card.organization) {
+    lines.push(`ORG:${escapeVCardValue(card.organization)};`);
+  }
+
+  if (card.phoneNumber) {
+    const digits = card.phoneNumber.replace(/\D/g, '');
+    lines.push(`TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`);
+  }
+
+  if (card.email) {
+    lines.push(`EMAIL;type=INTERNET:${escapeVCardValue(card.email)}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.join('\n');
+}
+
+/**
+ * Title of a structured message: the place name, the link's title, or the
+ * names on the cards
+ */
+export function describeStructuredContent(content: StructuredContent): string {
+  if (content.type === 'location') {
+    return content.location.name || `${content.location.latitude}, ${content.location.longitude}`;
+  }
+  if (content.type === 'link') {
+    return content.link.title || content.link.url;
+  }
+  return content.displayName || content.cards.map(card => card.fullName).join(', ');
+}
+
+/**
+ * The structured part of a scheduled or bulk message, undefined for
+ * text and media messages
+ */
+export function structuredFromMessageContent(content: {
+  type: string;
+  location?: LocationContent;
+  contactCards?: ContactCard[];
+  link?: LinkContent;
+}): StructuredContent | undefined {
+  if (content.type === 'location') {
+    if (!content.location) {
+      throw new Error('Location message has no location');
+    }
+    return { type: 'location', location: content.location };
+  }
+
+  if (content.type === 'contacts') {
+    if (!content.contactCards?.length) {
+      throw new Error('Contacts message has no contact cards');
+    }
+    return { type: 'contacts', cards: content.contactCards };
+  }
+
+  if (content.type === 'link') {
+    if (!content.link) {
+      throw new Error('Link message has no link');
+    }
+    return { type: 'link', link: content.link };
+  }
+
+  return undefined;
+}
+
+function escapeVCardValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/\n/g, '\\n')
+    .replace(/([,;])/g, '\\$1');
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
@@ -5,7 +5,7 @@ import { hashData, createHMAC } from '../db/crypto';
 
 export interface SecurityEvent {
   id: string;
-  type: 'authentication' | 'file_access' | 'encryption' | 'intrusion' | 'configuration';
+  type: 'authentication' | 'file_access' | 'encryption' | 'intrusion' | 'configuration' | 'audit';
   severity: 'low' | 'medium' | 'high' | 'critical';
   timestamp: Date;
   source: string;
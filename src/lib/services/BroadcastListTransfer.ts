@@ -0,0 +1,276 @@
+import {
+  BroadcastListRepository,
+  BroadcastListWithMembers,
+  BroadcastListMemberData,
+  BroadcastListMemberType
+} from '../db/broadcastList';
+
+export interface BroadcastListExport {
+  name: string;
+  description?: string;
+  members: BroadcastListMemberData[];
+}
+
+export interface BroadcastListExportFile {
+  version: 1;
+  exportedAt: string;
+  lists: BroadcastListExport[];
+}
+
+export interface BroadcastListImportResult {
+  created: number;
+  updated: number;
+  membersAdded: number;
+  skippedRows: string[];
+}
+
+export type BroadcastListImportMode = 'merge' | 'replace';
+
+const CSV_HEADERS = ['list_name', 'list_description', 'jid', 'type', 'name'];
+
+// Spreadsheets evaluate cells starting with these as formulas, so exported
+// fields get a leading apostrophe that import strips again
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * CSV/JSON import and export of broadcast lists. CSV has one row per
+ * member, repeating the list name and description on every row.
+ */
+export class BroadcastListTransfer {
+  static toJson(lists: BroadcastListWithMembers[]): BroadcastListExportFile {
+    return {
+      version: 1,
+      exportedAt: new Date().toISOString(),
+      lists: lists.map(list => ({
+        name: list.name,
+        description: list.description || undefined,
+        members: list.members.map(member => ({
+          jid: member.jid,
+          type: member.type as BroadcastListMemberType,
+          name: member.name || undefined,
+        })),
+      })),
+    };
+  }
+
+  static toCsv(lists: BroadcastListWithMembers[]): string {
+    const rows: string[][] = [CSV_HEADERS];
+
+    for (const list of lists) {
+      if (list.members.length === 0) {
+        rows.push([list.name, list.description || '', '', '', '']);
+        continue;
+      }
+
+      for (const member of list.members) {
+        rows.push([list.name, list.description || '', member.jid, member.type, member.name || '']);
+      }
+    }
+
+    return rows.map(row => row.map(field => this.escapeCsvField(field)).join(',')).join('\n');
+  }
+
+  static parseJson(input: unknown): { lists: BroadcastListExport[]; skippedRows: string[] } {
+    const source = Array.isArray(input) ? input : (input as BroadcastListExportFile | null)?.lists;
+    if (!Array.isArray(source)) {
+      throw new Error('JSON import must be an array of lists or an object with a "lists" array');
+    }
+
+    const lists: BroadcastListExport[] = [];
+    const skippedRows: string[] = [];
+
+    source.forEach((entry, index) => {
+      if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) {
+        skippedRows.push(`List ${index + 1}: missing name`);
+        return;
+      }
+
+      const members: BroadcastListMemberData[] = [];
+      for (const member of Array.isArray(entry.members) ? entry.members : []) {
+        const raw = typeof member === 'string' ? member : member?.jid;
+        const jid = typeof raw === 'string' ? this.normalizeJid(raw) : null;
+        if (!jid) {
+          skippedRows.push(`${entry.name}: invalid member ${JSON.stringify(member)}`);
+          continue;
+        }
+        members.push({ jid, type: this.parseType(member?.type, jid), name: member?.name || undefined });
+      }
+
+      lists.push({
+        name: entry.name.trim(),
+        description: typeof entry.description === 'string' ? entry.description : undefined,
+        members,
+      });
+    });
+
+    return { lists, skippedRows };
+  }
+
+  static parseCsv(text: string): { lists: BroadcastListExport[]; skippedRows: string[] } {
+    // Excel starts UTF-8 exports with a byte order mark, which would stick to the first header
+    const rows = this.parseCsvRows(text.replace(/^\uFEFF/, ''))
+      .map(row => row.map(field => this.unescapeFormula(field)));
+    if (rows.length === 0) {
+      throw new Error('CSV file is empty');
+    }
+
+    const header = rows[0].map(column => column.trim().toLowerCase());
+    const column = (name: string) => header.indexOf(name);
+    const nameIndex = column('list_name');
+    const jidIndex = column('jid') >= 0 ? column('jid') : column('phone');
+
+    if (nameIndex < 0 || jidIndex < 0) {
+      throw new Error('CSV header must include list_name and jid (or phone) columns');
+    }
+
+    const byName = new Map<string, BroadcastListExport>();
+    const skippedRows: string[] = [];
+
+    rows.slice(1).forEach((row, index) => {
+      const listName = row[nameIndex]?.trim();
+      if (!listName) {
+        if (row.some(field => field.trim())) {
+          skippedRows.push(`Row ${index + 2}: missing list_name`);
+        }
+        return;
+      }
+
+      let list = byName.get(listName);
+      if (!list) {
+        const description = row[column('list_description')]?.trim();
+        list = { name: listName, description: description || undefined, members: [] };
+        byName.set(listName, list);
+      }
+
+      const rawJid = row[jidIndex]?.trim();
+      if (!rawJid) {
+        return; // List without members
+      }
+
+      const jid = this.normalizeJid(rawJid);
+      if (!jid) {
+        skippedRows.push(`Row ${index + 2}: invalid jid "${rawJid}"`);
+        return;
+      }
+
+      list.members.push({
+        jid,
+        type: this.parseType(row[column('type')], jid),
+        name: row[column('name')]?.trim() || undefined,
+      });
+    });
+
+    return { lists: Array.from(byName.values()), skippedRows };
+  }
+
+  /**
+   * Create or update lists by name. "merge" adds new members to existing
+   * lists; "replace" overwrites their member list.
+   */
+  static async importLists(
+    lists: BroadcastListExport[],
+    mode: BroadcastListImportMode = 'merge'
+  ): Promise<Omit<BroadcastListImportResult, 'skippedRows'>> {
+    const result = { created: 0, updated: 0, membersAdded: 0 };
+
+    for (const list of lists) {
+      const existing = await BroadcastListRepository.findByName(list.name);
+
+      if (!existing) {
+        const created = await BroadcastListRepository.create(list);
+        result.created++;
+        result.membersAdded += created.members.length;
+        continue;
+      }
+
+      if (mode === 'replace') {
+        const updated = await BroadcastListRepository.update(existing.id, {
+          description: list.description ?? existing.description,
+          isActive: true,
+          members: list.members,
+        });
+        result.membersAdded += updated.members.length;
+      } else {
+        result.membersAdded += await BroadcastListRepository.addMembers(existing.id, list.members);
+      }
+      result.updated++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Accept full JIDs or plain phone numbers ("+1 555 0100" -> 15550100@s.whatsapp.net)
+   */
+  static normalizeJid(value: string): string | null {
+    const trimmed = value.trim();
+
+    if (trimmed.includes('@')) {
+      return /^[\d-]+@(s\.whatsapp\.net|g\.us)$/.test(trimmed) ? trimmed : null;
+    }
+
+    const digits = trimmed.replace(/\D/g, '');
+    return digits.length >= 7 && digits.length <= 15 ? `${digits}@s.whatsapp.net` : null;
+  }
+
+  private static parseType(value: unknown, jid: string): BroadcastListMemberType {
+    if (value === 'contact' || value === 'group') {
+      return value;
+    }
+    return jid.endsWith('@g.us') ? 'group' : 'contact';
+  }
+
+  private static escapeCsvField(field: string): string {
+    const safe = FORMULA_PREFIX.test(field) ? `'${field}` : field;
+    return /[",\n\r]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+  }
+
+  private static unescapeFormula(field: string): string {
+    return field.startsWith("'") && FORMULA_PREFIX.test(field.slice(1)) ? field.slice(1) : field;
+  }
+
+  /**
+   * Minimal RFC 4180 parser: quoted fields, escaped quotes and embedded newlines
+   */
+  private static parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          field += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(r => r.some(value => value.trim()));
+  }
+}
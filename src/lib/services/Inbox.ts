@@ -0,0 +1,126 @@
+import type { InboundMessage } from '@prisma/client';
+import { ContactRepository, GroupRepository, InboundMessageRepository } from '../db';
+import type { InboundMessageType } from '../db';
+
+export interface InboxMessage {
+  id: string;
+  messageId: string;
+  chatJid: string;
+  senderJid: string;
+  senderName?: string;
+  messageType: InboundMessageType;
+  text?: string;
+  quotedId?: string;
+  mimetype?: string;
+  fileName?: string;
+  fileLength?: number;
+  mediaUrl?: string; // Downloads the media on first request
+  mediaDownloaded: boolean;
+  timestamp: Date;
+  read: boolean;
+}
+
+export interface InboxThread {
+  chatJid: string;
+  chatName?: string;
+  isGroup: boolean;
+  lastMessage: InboxMessage;
+  messageCount: number;
+  unreadCount: number;
+}
+
+/**
+ * Inbound messages grouped into per-chat threads, with chats and senders
+ * resolved to contact and group names for the inbox.
+ */
+export class Inbox {
+  static async getThreads(options: { limit?: number; offset?: number } = {}): Promise<InboxThread[]> {
+    const threads = await InboundMessageRepository.findThreads(options);
+    const names = await this.resolveNames([
+      ...threads.map(thread => thread.chatJid),
+      ...threads.map(thread => thread.lastMessage.senderJid),
+    ]);
+
+    return threads.map(thread => ({
+      chatJid: thread.chatJid,
+      chatName: names.get(thread.chatJid) || (this.isGroup(thread.chatJid) ? undefined : thread.lastMessage.pushName || undefined),
+      isGroup: this.isGroup(thread.chatJid),
+      lastMessage: this.toInboxMessage(thread.lastMessage, names),
+      messageCount: thread.messageCount,
+      unreadCount: thread.unreadCount,
+    }));
+  }
+
+  /**
+   * Messages of one chat, oldest first for display
+   */
+  static async getMessages(
+    chatJid: string,
+    options: { before?: Date; limit?: number; search?: string } = {}
+  ): Promise<InboxMessage[]> {
+    const messages = await InboundMessageRepository.findByChat(chatJid, options);
+    const names = await this.resolveNames(messages.map(message => message.senderJid));
+    return messages.reverse().map(message => this.toInboxMessage(message, names));
+  }
+
+  /**
+   * Messages matching a search across all chats, newest first
+   */
+  static async search(query: string, options: { limit?: number } = {}): Promise<Array<InboxMessage & { chatName?: string }>> {
+    const messages = await InboundMessageRepository.search({ search: query, limit: options.limit });
+    const names = await this.resolveNames([
+      ...messages.map(message => message.chatJid),
+      ...messages.map(message => message.senderJid),
+    ]);
+
+    return messages.map(message => ({
+      ...this.toInboxMessage(message, names),
+      chatName: names.get(message.chatJid),
+    }));
+  }
+
+  private static toInboxMessage(message: InboundMessage, names: Map<string, string>): InboxMessage {
+    return {
+      id: message.id,
+      messageId: message.messageId,
+      chatJid: message.chatJid,
+      senderJid: message.senderJid,
+      senderName: names.get(message.senderJid) || message.pushName || undefined,
+      messageType: message.messageType as InboundMessageType,
+      text: message.text || undefined,
+      quotedId: message.quotedId || undefined,
+      mimetype: message.mimetype || undefined,
+      fileName: message.fileName || undefined,
+      fileLength: message.fileLength ?? undefined,
+      mediaUrl: message.mimetype ? `/api/inbox/messages/${message.id}/media` : undefined,
+      mediaDownloaded: Boolean(message.mediaId),
+      timestamp: message.timestamp,
+      read: Boolean(message.readAt),
+    };
+  }
+
+  /**
+   * Saved contact names and group subjects by JID
+   */
+  private static async resolveNames(jids: string[]): Promise<Map<string, string>> {
+    const unique = [...new Set(jids)];
+    const names = new Map<string, string>();
+
+    const contacts = await ContactRepository.findByIds(unique.filter(jid => !this.isGroup(jid)));
+    for (const contact of contacts) {
+      const name = contact.name || contact.notify || contact.verifiedName;
+      if (name) names.set(contact.id, name);
+    }
+
+    const groups = await Promise.all(unique.filter(jid => this.isGroup(jid)).map(jid => GroupRepository.findById(jid)));
+    for (const group of groups) {
+      if (group) names.set(group.id, group.subject);
+    }
+
+    return names;
+  }
+
+  private static isGroup(jid: string): boolean {
+    return jid.endsWith('@g.us');
+  }
+}
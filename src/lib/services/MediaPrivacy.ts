@@ -0,0 +1,66 @@
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService } from '../db';
+import { MetadataScrubber } from '../media/MetadataScrubber';
+import { MediaBlobStore } from '../uploader/MediaBlobStore';
+import type { StoredBlob } from '../uploader/MediaBlobStore';
+import { getSecurityMonitor } from '../security/SecurityMonitor';
+import { loadSettings } from '../settings';
+
+/**
+ * Strips location and device metadata from stored media before it leaves
+ * the server, controlled by the privacy.scrubMediaMetadata setting.
+ */
+export class MediaPrivacy {
+  /**
+   * Scrub a stored file once; returns the updated record. Throws
+   * when the file cannot be scrubbed so it is never sent with its metadata.
+   */
+  static async ensureScrubbed(mediaMeta: MediaMeta): Promise<MediaMeta> {
+    if (mediaMeta.scrubbedAt || !MetadataScrubber.supports(mediaMeta.mimetype)) {
+      return mediaMeta;
+    }
+
+    const settings = await loadSettings();
+    if (!settings.privacy.scrubMediaMetadata) {
+      return mediaMeta;
+    }
+
+    // The blob may be shared by other uploads of the same file, so scrub a copy
+    let removed: string[];
+    let blob: StoredBlob;
+    try {
+      ({ result: removed, blob } = await MediaBlobStore.rewrite(
+        mediaMeta.storagePath,
+        workingPath => MetadataScrubber.scrubFile(workingPath, mediaMeta.mimetype)
+      ));
+    } catch (error) {
+      throw new Error(
+        `Could not strip metadata from ${mediaMeta.originalName}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    const updated = await MediaMetaService.update(mediaMeta.id, {
+      scrubbedAt: new Date(),
+      storagePath: blob.storagePath,
+      sizeBytes: blob.sizeBytes,
+      sha256: blob.sha256,
+    });
+
+    if (blob.storagePath !== mediaMeta.storagePath) {
+      await MediaBlobStore.release(mediaMeta.storagePath, mediaMeta.sha256);
+    }
+    if (removed.length === 0) {
+      return updated;
+    }
+
+    await getSecurityMonitor().logSecurityEvent({
+      type: 'audit',
+      severity: 'low',
+      source: 'MediaPrivacy',
+      description: `Stripped ${removed.join(', ')} from ${mediaMeta.originalName}`,
+      metadata: { fileId: mediaMeta.id, removed },
+    });
+
+    return updated;
+  }
+}
@@ -0,0 +1,75 @@
+import { ContactRepository, GroupRepository, PollRepository } from '../db';
+
+export interface PollReportVoter {
+  jid: string;
+  name?: string;
+  phoneNumber: string;
+}
+
+export interface PollReportOption {
+  name: string;
+  count: number;
+  percentage: number; // Share of voters who picked the option
+  voters: PollReportVoter[];
+}
+
+export interface PollReportData {
+  id: string;
+  messageId: string;
+  chatJid: string;
+  chatName?: string; // Group subject or contact name
+  question: string;
+  multiSelect: boolean;
+  createdAt: Date;
+  totalVoters: number;
+  options: PollReportOption[];
+}
+
+/**
+ * Poll results with voters resolved to contact names, as shown in the
+ * results view and pushed over its event stream.
+ */
+export class PollReport {
+  static async build(pollId: string): Promise<PollReportData | null> {
+    const results = await PollRepository.getResults(pollId);
+    if (!results) {
+      return null;
+    }
+
+    const voterJids = [...new Set(results.options.flatMap(option => option.voters))];
+    const contacts = await ContactRepository.findByIds(voterJids);
+    const contactsById = new Map(contacts.map(contact => [contact.id, contact]));
+
+    return {
+      id: results.poll.id,
+      messageId: results.poll.messageId,
+      chatJid: results.poll.chatJid,
+      chatName: await this.getChatName(results.poll.chatJid),
+      question: results.poll.question,
+      multiSelect: results.poll.selectableCount !== 1,
+      createdAt: results.poll.createdAt,
+      totalVoters: results.totalVoters,
+      options: results.options.map(option => ({
+        name: option.name,
+        count: option.count,
+        percentage: results.totalVoters > 0 ? Math.round((option.count / results.totalVoters) * 100) : 0,
+        voters: option.voters.map(jid => {
+          const contact = contactsById.get(jid);
+          return {
+            jid,
+            name: contact?.name || contact?.pushName || contact?.notify || undefined,
+            phoneNumber: contact?.phoneNumber || jid.split('@')[0],
+          };
+        }),
+      })),
+    };
+  }
+
+  static async getChatName(chatJid: string): Promise<string | undefined> {
+    if (chatJid.endsWith('@g.us')) {
+      return (await GroupRepository.findById(chatJid))?.subject;
+    }
+    const contact = await ContactRepository.findById(chatJid);
+    return contact?.name || contact?.pushName || contact?.notify || undefined;
+  }
+}
@@ -0,0 +1,153 @@
+import { existsSync } from 'fs';
+import { MediaMetaService, SendHistoryService, StatusViewRepository } from '../db';
+import type { SendHistoryWithItems } from '../db';
+import { loadSettings } from '../settings';
+import type { StatusStoryItem, TextStatusContent } from '../socketManager/MessageSender';
+import type { StatusAudience } from '../socketManager/StatusAudienceResolver';
+
+/**
+ * WhatsApp removes status posts 24 hours after they were posted
+ */
+export const STATUS_LIFETIME_MS = 24 * 60 * 60 * 1000;
+
+export interface StatusTimelineMedia {
+  fileId: string;
+  caption?: string;
+  mimetype?: string;
+  originalName?: string;
+  available: boolean; // Media is still stored and can be re-posted
+  status: string; // Item status: 'pending', 'sent', 'failed', 'revoked'
+}
+
+export interface StatusTimelineEntry {
+  id: string; // Send history ID
+  messageType: 'media' | 'text';
+  text?: TextStatusContent;
+  media: StatusTimelineMedia[];
+  status: string;
+  postedAt: Date;
+  expiresAt: Date; // When the last posted item disappears from status
+  isLive: boolean;
+  viewCount: number;
+  audience?: StatusAudience;
+  canRepost: boolean;
+}
+
+/**
+ * Builds the "My statuses" timeline from status send history and prepares
+ * past posts for re-posting.
+ */
+export class StatusArchive {
+  /**
+   * Posted statuses of a session, newest first
+   */
+  static async getTimeline(
+    sessionId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<StatusTimelineEntry[]> {
+    const history = (await SendHistoryService.getBySessionId(sessionId, {
+      targetType: 'status',
+      limit: options.limit,
+      offset: options.offset,
+    })).filter(entry => this.wasPosted(entry));
+
+    const fileIds = [...new Set(history.flatMap(entry => this.getStoryItems(entry).map(item => item.fileId)))];
+    const mediaMetas = fileIds.length > 0
+      ? await MediaMetaService.findMany({ where: { id: { in: fileIds } } })
+      : [];
+    const mediaById = new Map(mediaMetas.map(meta => [meta.id, meta]));
+    const viewCounts = await StatusViewRepository.countBySendHistoryIds(history.map(entry => entry.id));
+    const now = Date.now();
+
+    return history.map(entry => {
+      const media = this.getStoryItems(entry).map((item, index) => {
+        const meta = mediaById.get(item.fileId);
+        return {
+          fileId: item.fileId,
+          caption: item.caption,
+          mimetype: meta?.mimetype,
+          originalName: meta?.originalName,
+          available: Boolean(meta && existsSync(meta.storagePath)),
+          status: entry.items[index]?.status || (entry.status === 'completed' ? 'sent' : entry.status),
+        };
+      });
+
+      const sentTimes = entry.items
+        .map(item => item.sentAt)
+        .filter((sentAt): sentAt is Date => Boolean(sentAt))
+        .map(sentAt => sentAt.getTime());
+      const postedAt = new Date(sentTimes.length > 0 ? Math.min(...sentTimes) : (entry.completedAt || entry.createdAt).getTime());
+      const expiresAt = new Date((sentTimes.length > 0 ? Math.max(...sentTimes) : postedAt.getTime()) + STATUS_LIFETIME_MS);
+      const messageType = entry.messageType === 'text' ? 'text' : 'media';
+
+      return {
+        id: entry.id,
+        messageType,
+        text: entry.content ? JSON.parse(entry.content) as TextStatusContent : undefined,
+        media,
+        status: entry.status,
+        postedAt,
+        expiresAt,
+        isLive: entry.status !== 'revoked' && expiresAt.getTime() > now,
+        viewCount: viewCounts[entry.id] || 0,
+        audience: entry.audience ? JSON.parse(entry.audience) as StatusAudience : undefined,
+        canRepost: messageType === 'text'
+          ? Boolean(entry.content)
+          : media.length > 0 && media.every(item => item.available),
+      };
+    });
+  }
+
+  /**
+   * The story items of a past post, in their original order; throws when
+   * any of the media has since been cleaned up
+   */
+  static async getRepostItems(entry: SendHistoryWithItems): Promise<StatusStoryItem[]> {
+    const items = this.getStoryItems(entry);
+    if (items.length === 0) {
+      throw new Error('Status post has no media to re-post');
+    }
+
+    for (const item of items) {
+      const meta = await MediaMetaService.getById(item.fileId);
+      if (!meta || !existsSync(meta.storagePath)) {
+        throw new Error(`Media is no longer available: ${meta?.originalName || item.fileId}`);
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Date until which media posted now is kept for re-posting
+   */
+  static async getRetentionDate(from: Date = new Date()): Promise<Date> {
+    const settings = await loadSettings();
+    return new Date(from.getTime() + settings.privacy.statusMediaRetentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  private static wasPosted(entry: SendHistoryWithItems): boolean {
+    if (entry.status === 'completed' || entry.status === 'revoked') {
+      return true;
+    }
+    return entry.status === 'failed' && entry.items.some(item => item.status === 'sent');
+  }
+
+  /**
+   * Sends recorded before per-item tracking only have a list of file IDs
+   */
+  private static getStoryItems(entry: SendHistoryWithItems): StatusStoryItem[] {
+    if (entry.items.length > 0) {
+      return entry.items.map(item => ({
+        fileId: item.fileId,
+        caption: item.caption || undefined,
+        delayAfterMs: item.delayAfterMs ?? undefined,
+      }));
+    }
+
+    const files = entry.files as unknown;
+    return Array.isArray(files)
+      ? files.filter((fileId): fileId is string => typeof fileId === 'string').map(fileId => ({ fileId }))
+      : [];
+  }
+}
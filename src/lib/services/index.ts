@@ -1,5 +1,10 @@
 export { ContactExtractionService } from './ContactExtractionService';
 export { GroupSyncService } from './GroupSyncService';
+export { BroadcastListTransfer } from './BroadcastListTransfer';
+export { StatusArchive, STATUS_LIFETIME_MS } from './StatusArchive';
+export { MediaPrivacy } from './MediaPrivacy';
+export { PollReport } from './PollReport';
+export { Inbox } from './Inbox';
 
 export type {
   ExtractedContact,
@@ -11,4 +16,24 @@ export type {
   SyncedGroup,
   GroupSyncResult,
   GroupSyncError
-} from './GroupSyncService';
\ No newline at end of file
+} from './GroupSyncService';
+
+export type {
+  BroadcastListExport,
+  BroadcastListExportFile,
+  BroadcastListImportResult,
+  BroadcastListImportMode
+} from './BroadcastListTransfer';
+export type {
+  StatusTimelineEntry,
+  StatusTimelineMedia
+} from './StatusArchive';
+export type {
+  PollReportData,
+  PollReportOption,
+  PollReportVoter
+} from './PollReport';
+export type {
+  InboxMessage,
+  InboxThread
+} from './Inbox';
@@ -0,0 +1,106 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface AppSettings {
+  general: {
+    appName: string;
+    autoConnect: boolean;
+    notificationsEnabled: boolean;
+    darkMode: boolean;
+    language: string;
+    timezone: string;
+    maxFileSize: number; // MB
+    maxConcurrentUploads: number;
+  };
+  upload: {
+    defaultSendAsDocument: boolean;
+    enableCompression: boolean;
+    compressionLevel: number;
+    maxRetries: number;
+    chunkSize: number; // MB
+    bandwidthLimit?: number; // bytes per second
+  };
+  whatsapp: {
+    statusUpdateInterval: number; // minutes
+    autoReconnect: boolean;
+    maxReconnectAttempts: number;
+    keepAlive: boolean;
+    markOnlineOnConnect: boolean;
+  };
+  privacy: {
+    logLevel: 'error' | 'warn' | 'info' | 'debug';
+    clearLogsAfterDays: number;
+    clearHistoryAfterDays: number;
+    clearTempFilesAfterHours: number;
+    statusMediaRetentionDays: number; // Keep posted status media this long for re-posting
+    scrubMediaMetadata: boolean; // Strip GPS/EXIF/XMP and MP4 user data before sending
+  };
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  general: {
+    appName: 'WhatsApp Status Handler',
+    autoConnect: false,
+    notificationsEnabled: true,
+    darkMode: false,
+    language: 'en',
+    timezone: 'UTC',
+    maxFileSize: 100,
+    maxConcurrentUploads: 3,
+  },
+  upload: {
+    defaultSendAsDocument: false,
+    enableCompression: false,
+    compressionLevel: 5,
+    maxRetries: 3,
+    chunkSize: 1,
+    bandwidthLimit: undefined,
+  },
+  whatsapp: {
+    statusUpdateInterval: 30,
+    autoReconnect: true,
+    maxReconnectAttempts: 5,
+    keepAlive: true,
+    markOnlineOnConnect: true,
+  },
+  privacy: {
+    logLevel: 'info',
+    clearLogsAfterDays: 30,
+    clearHistoryAfterDays: 90,
+    clearTempFilesAfterHours: 24,
+    statusMediaRetentionDays: 30,
+    scrubMediaMetadata: true,
+  },
+};
+
+export const SETTINGS_FILE = path.join(process.cwd(), 'data', 'settings.json');
+
+/**
+ * Load settings from file
+ */
+export async function loadSettings(): Promise<AppSettings> {
+  try {
+    await fs.mkdir(path.dirname(SETTINGS_FILE), { recursive: true });
+    const data = await fs.readFile(SETTINGS_FILE, 'utf8');
+    const parsed = JSON.parse(data);
+    
+    // Merge with defaults to ensure all properties exist
+    return {
+      general: { ...DEFAULT_SETTINGS.general, ...parsed.general },
+      upload: { ...DEFAULT_SETTINGS.upload, ...parsed.upload },
+      whatsapp: { ...DEFAULT_SETTINGS.whatsapp, ...parsed.whatsapp },
+      privacy: { ...DEFAULT_SETTINGS.privacy, ...parsed.privacy },
+    };
+  } catch (error) {
+    // File doesn't exist or is corrupted, return defaults
+    return DEFAULT_SETTINGS;
+  }
+}
+
+/**
+ * Save settings to file
+ */
+export async function saveSettings(settings: AppSettings): Promise<void> {
+  await fs.mkdir(path.dirname(SETTINGS_FILE), { recursive: true });
+  await fs.writeFile(SETTINGS_FILE, JSON.stringify(settings, null, 2), 'utf8');
+}
@@ -0,0 +1,3 @@
+export { DEFAULT_SETTINGS, SETTINGS_FILE, loadSettings, saveSettings } from './AppSettings';
+
+export type { AppSettings } from './AppSettings';
@@ -0,0 +1,243 @@
+import { EventEmitter } from 'events';
+import { AutoReplyRepository, BroadcastListRepository, ContactRepository } from '../db';
+import type { AutoReplyStatus } from '../db';
+import { matchConditions, renderReplyText } from '../messaging/AutoReplyRules';
+import type { AutoReplyMessage, AutoReplyRule } from '../messaging/AutoReplyRules';
+import type { InboundMessageEvent } from './InboundMessageStore';
+import type { MessageSender, SendResult } from './MessageSender';
+
+/**
+ * What a rule made of a message, in the order rules were tried
+ */
+export interface AutoReplyEvaluation {
+  ruleId: string;
+  ruleName: string;
+  priority: number;
+  outcome: 'matched' | 'cooldown' | 'no_match';
+  reason?: string; // Why the rule did not match
+  cooldownEndsAt?: Date; // When the rule may answer this sender again
+}
+
+export type AutoReplyContent =
+  | { type: 'text'; text: string }
+  | { type: 'media'; mediaId: string; caption?: string };
+
+export interface AutoReplyDecision {
+  rule?: AutoReplyRule; // First matching rule; set when it is cooling down too
+  reply?: AutoReplyContent; // Only when the rule will answer
+  error?: string; // The matching rule's reply could not be prepared
+  evaluations: AutoReplyEvaluation[];
+}
+
+export interface AutoReplyEvent {
+  ruleId: string;
+  inboundMessageId: string;
+  chatJid: string;
+  senderJid: string;
+  status: AutoReplyStatus;
+  error?: string;
+}
+
+/**
+ * Answers inbound messages from the auto-reply rules. Rules are tried in
+ * priority order and the first one that matches decides: it replies
+ * unless it already answered the sender within its cooldown. Replies go
+ * through the sender's protocol rate limits and are dropped, not queued,
+ * when a limit is reached.
+ */
+export class AutoResponder extends EventEmitter {
+  // Messages are handled one at a time so cooldowns see earlier replies
+  private queue: Promise<void> = Promise.resolve();
+
+  /**
+   * Decide how the rules answer a message, without sending anything
+   */
+  async evaluate(message: AutoReplyMessage): Promise<AutoReplyDecision> {
+    const rules = (await AutoReplyRepository.findAll(true)).map(row => AutoReplyRepository.toAutoReplyRule(row));
+    const evaluations: AutoReplyEvaluation[] = [];
+    let listIds: string[] | undefined;
+
+    for (const rule of rules) {
+      const evaluation: AutoReplyEvaluation = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        priority: rule.priority,
+        outcome: 'no_match',
+      };
+      evaluations.push(evaluation);
+
+      // Only look up list membership once a rule needs it
+      if (rule.conditions.broadcastListIds && !listIds) {
+        listIds = await BroadcastListRepository.findListIdsByMember(message.senderJid);
+      }
+
+      const result = matchConditions(rule.conditions, message, listIds);
+      if (!result.matched) {
+        evaluation.reason = result.reason;
+        continue;
+      }
+
+      const cooldownEndsAt = await this.getCooldownEnd(rule, message.senderJid);
+      if (cooldownEndsAt && cooldownEndsAt > message.timestamp) {
+        evaluation.outcome = 'cooldown';
+        evaluation.cooldownEndsAt = cooldownEndsAt;
+        return { rule, evaluations };
+      }
+
+      evaluation.outcome = 'matched';
+      try {
+        return { rule, reply: await this.renderReply(rule, message), evaluations };
+      } catch (error) {
+        return { rule, error: error instanceof Error ? error.message : 'Unknown error', evaluations };
+      }
+    }
+
+    return { evaluations };
+  }
+
+  /**
+   * Answer a newly received message, if a rule says so
+   */
+  handleInboundMessage(event: InboundMessageEvent, messageSender: MessageSender, sessionId: string): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.answer(event, messageSender, sessionId))
+      .catch(error => {
+        console.error('Auto-reply failed:', error);
+      });
+    return this.queue;
+  }
+
+  private async answer(event: InboundMessageEvent, messageSender: MessageSender, sessionId: string): Promise<void> {
+    const decision = await this.evaluate({
+      text: event.text || '',
+      chatJid: event.chatJid,
+      senderJid: event.senderJid,
+      timestamp: event.timestamp,
+      pushName: event.pushName,
+    });
+
+    // No match, or the matching rule is cooling down
+    if (!decision.rule || (!decision.reply && !decision.error)) {
+      return;
+    }
+
+    let status: AutoReplyStatus;
+    let error: string | undefined;
+    let sendHistoryId: string | undefined;
+
+    if (!decision.reply) {
+      status = 'failed';
+      error = decision.error;
+    } else {
+      const rateLimit = messageSender.getProtocolCompliance().canSendMessage();
+      if (!rateLimit.allowed) {
+        status = 'rate_limited';
+        error = rateLimit.reason;
+      } else {
+        const result = await this.sendReply(decision.reply, event.chatJid, messageSender, sessionId);
+        status = result.success ? 'sent' : 'failed';
+        error = result.error;
+        sendHistoryId = result.sendHistoryId;
+      }
+    }
+
+    await AutoReplyRepository.logReply({
+      ruleId: decision.rule.id,
+      inboundMessageId: event.id,
+      chatJid: event.chatJid,
+      senderJid: event.senderJid,
+      status,
+      error,
+      sendHistoryId,
+    });
+
+    const autoReplyEvent: AutoReplyEvent = {
+      ruleId: decision.rule.id,
+      inboundMessageId: event.id,
+      chatJid: event.chatJid,
+      senderJid: event.senderJid,
+      status,
+      error,
+    };
+    this.emit('auto_reply', autoReplyEvent);
+  }
+
+  private async sendReply(
+    reply: AutoReplyContent,
+    chatJid: string,
+    messageSender: MessageSender,
+    sessionId: string
+  ): Promise<SendResult> {
+    const isGroup = chatJid.endsWith('@g.us');
+
+    if (reply.type === 'text') {
+      return messageSender.sendText({
+        sessionId,
+        targetType: isGroup ? 'group' : 'contact',
+        targetIdentifier: chatJid,
+        text: reply.text,
+      });
+    }
+
+    const options = {
+      sessionId,
+      files: [reply.mediaId],
+      caption: reply.caption,
+    };
+    return isGroup
+      ? messageSender.sendToGroup({ ...options, targetType: 'group', targetIdentifier: chatJid })
+      : messageSender.sendToContact({ ...options, targetType: 'contact', targetIdentifier: chatJid.split('@')[0] });
+  }
+
+  /**
+   * The rule's reply with {{name}}, {{phone}} and {{message}} filled in
+   */
+  private async renderReply(rule: AutoReplyRule, message: AutoReplyMessage): Promise<AutoReplyContent> {
+    const contact = await ContactRepository.findById(message.senderJid);
+    const phone = message.senderJid.split('@')[0].split(':')[0];
+    const variables = {
+      name: contact?.name || contact?.notify || contact?.pushName || message.pushName || phone,
+      phone,
+      message: message.text,
+    };
+
+    const { response } = rule;
+
+    if (response.type === 'text') {
+      return { type: 'text', text: renderReplyText(response.text, variables) };
+    }
+
+    if (response.type === 'media') {
+      return {
+        type: 'media',
+        mediaId: response.mediaId,
+        caption: response.caption ? renderReplyText(response.caption, variables) : undefined,
+      };
+    }
+
+    // Imported here: the scheduler depends on this module's manager
+    const { getMessageScheduler } = await import('../messaging/MessageScheduler');
+    const scheduler = getMessageScheduler();
+    const template = scheduler.getTemplate(response.templateId);
+    const content = scheduler.renderTemplate(response.templateId, { ...variables, ...response.variables });
+    if (!template || !content) {
+      throw new Error(`Template not found: ${response.templateId}`);
+    }
+
+    const text = typeof content.data === 'string' ? content.data : '';
+    return template.content.mediaId
+      ? { type: 'media', mediaId: template.content.mediaId, caption: text || content.caption }
+      : { type: 'text', text };
+  }
+
+  private async getCooldownEnd(rule: AutoReplyRule, senderJid: string): Promise<Date | undefined> {
+    if (rule.cooldownMinutes <= 0) {
+      return undefined;
+    }
+
+    const lastReply = await AutoReplyRepository.findLastSentReply(rule.id, senderJid);
+    return lastReply
+      ? new Date(lastReply.createdAt.getTime() + rule.cooldownMinutes * 60000)
+      : undefined;
+  }
+}
@@ -3,9 +3,11 @@ import {
   DisconnectReason,
   useMultiFileAuthState as getBaileysAuthState,
   WASocket,
+  WAMessage,
   Browsers,
 } from '@whiskeysockets/baileys';
 import { Boom } from '@hapi/boom';
+import type { MediaMeta } from '@prisma/client';
 import QRCode from 'qrcode';
 import { SessionService } from '../db';
 import { EventEmitter } from 'events';
@@ -13,7 +15,16 @@ import path from 'path';
 import fs from 'fs/promises';
 import { ConnectionStabilizer } from './ConnectionStabilizer';
 import { ContactManager } from './ContactManager';
+import { MessageSender, StatusRevokedEvent } from './MessageSender';
+import { SendTargetingManager } from './SendTargetingManager';
+import { StatusViewTracker } from './StatusViewTracker';
+import { PollTracker } from './PollTracker';
+import { InboundMessageStore, InboundMessageEvent } from './InboundMessageStore';
+import { AutoResponder } from './AutoResponder';
+import { SelfCommandHandler } from './SelfCommandHandler';
 import { errorHandler, ErrorCategory, ErrorSeverity } from '../errors/ErrorHandler';
+import { getWebhookManager } from '../integrations/WebhookManager';
+import { getSecurityMonitor } from '../security/SecurityMonitor';
 import { initializeWebSocketPolyfills, isWebSocketPolyfillReady } from '../utils/websocket-polyfill';
 import { logWebSocketFixTest } from '../utils/test-websocket-fix';
 
@@ -31,6 +42,14 @@ export class BaileysManager extends EventEmitter {
   private connectionStatus: ConnectionStatus = { status: 'disconnected' };
   private connectionStabilizer: ConnectionStabilizer;
   private contactManager: ContactManager | null = null;
+  private messageSender: MessageSender | null = null;
+  private messageSenderSocket: WASocket | null = null;
+  private sendTargetingManager: SendTargetingManager | null = null;
+  private statusViewTracker: StatusViewTracker;
+  private pollTracker: PollTracker;
+  private inboundMessageStore: InboundMessageStore;
+  private autoResponder: AutoResponder;
+  private selfCommandHandler: SelfCommandHandler;
   private sessionRecoveryAttempts = 0;
   private maxSessionRecoveryAttempts = 3;
   // Prevent concurrent or duplicate inits/sockets
@@ -62,6 +81,32 @@ export class BaileysManager extends EventEmitter {
     this.authDir = path.join(process.cwd(), 'data', 'auth_sessions');
     this.connectionStabilizer = new ConnectionStabilizer();
     this.setupStabilizerEventHandlers();
+
+    this.statusViewTracker = new StatusViewTracker();
+    this.statusViewTracker.on('status_viewed', (event) => {
+      this.emit('status_viewed', event);
+    });
+
+    this.pollTracker = new PollTracker();
+    this.pollTracker.on('poll_vote', (event) => {
+      this.emit('poll_vote', event);
+    });
+
+    this.inboundMessageStore = new InboundMessageStore();
+    this.inboundMessageStore.on('inbound_message', (event: InboundMessageEvent) => {
+      this.emit('inbound_message', event);
+      this.handleAutoReply(event);
+    });
+
+    this.autoResponder = new AutoResponder();
+    this.autoResponder.on('auto_reply', (event) => {
+      this.emit('auto_reply', event);
+    });
+
+    this.selfCommandHandler = new SelfCommandHandler();
+    this.selfCommandHandler.on('self_command', (event) => {
+      this.emit('self_command', event);
+    });
     this.ensureAuthDir();
   }
 
@@ -309,10 +354,8 @@ export class BaileysManager extends EventEmitter {
         emitOwnEvents: true,
         // Improved logging configuration
         logger: this.createLogger(),
-        getMessage: async (_key) => {
-          // Return undefined to indicate message not found in cache
-          return undefined;
-        },
+        // Only our polls are served, so Baileys can decrypt votes on them
+        getMessage: async (key) => this.pollTracker.getPollMessage(key),
       });
 
       this.setupEventHandlers(saveCreds, undefined, sessionDir);
@@ -362,10 +405,8 @@ export class BaileysManager extends EventEmitter {
         emitOwnEvents: true,
         // Improved logging configuration
         logger: this.createLogger(),
-        getMessage: async (_key) => {
-          // Return undefined to indicate message not found in cache
-          return undefined;
-        },
+        // Only our polls are served, so Baileys can decrypt votes on them
+        getMessage: async (key) => this.pollTracker.getPollMessage(key),
       });
 
       this.setupEventHandlers(saveCreds, session.id, sessionDir);
@@ -501,6 +542,11 @@ export class BaileysManager extends EventEmitter {
           });
         }
 
+        // Re-arm stored schedules; runs missed while offline follow each schedule's policy
+        this.getSendTargetingManager().rehydrateScheduledSends().catch(error => {
+          console.error('BaileysManager: Failed to rehydrate scheduled sends:', error);
+        });
+
         // Save or update session in database along with auth state
         await this.saveSessionToDatabase(existingSessionId, sessionDir);
         
@@ -530,14 +576,25 @@ export class BaileysManager extends EventEmitter {
       }
     });
 
-    // Handle messages for future features
+    // Handle new messages; incoming ones are kept for the inbox and
+    // notes to self may be commands
     this.socket.ev.on('messages.upsert', (m) => {
       this.emit('messages', m);
+      this.inboundMessageStore.handleUpsert(m);
+      this.handleSelfCommands(m);
     });
 
     // Handle message updates (delivery, read status, etc.)
     this.socket.ev.on('messages.update', (update) => {
       this.emit('message_update', update);
+      this.statusViewTracker.handleMessageUpdates(update);
+      this.pollTracker.handleMessageUpdates(update, this.socket?.user?.id);
+    });
+
+    // Handle per-user receipts (status views, group reads)
+    this.socket.ev.on('message-receipt.update', (updates) => {
+      this.emit('message_receipt_update', updates);
+      this.statusViewTracker.handleReceipts(updates);
     });
 
     // Handle contacts update
@@ -562,7 +619,7 @@ export class BaileysManager extends EventEmitter {
         // Baileys EventEmitter requires event type for removeAllListeners
         if (this.socket.ev && typeof this.socket.ev.removeAllListeners === 'function') {
           // Remove listeners for known events
-          const events = ['connection.update', 'creds.update', 'messages.upsert', 'messages.update', 'contacts.update', 'groups.update'];
+          const events = ['connection.update', 'creds.update', 'messages.upsert', 'messages.update', 'message-receipt.update', 'contacts.update', 'groups.update'];
           events.forEach(event => {
             try {
               this.socket?.ev.removeAllListeners(event as any);
@@ -737,6 +794,13 @@ export class BaileysManager extends EventEmitter {
     return this.socket;
   }
 
+  /**
+   * Get the ID of the session the socket belongs to
+   */
+  getSessionId(): string | null {
+    return this.sessionId;
+  }
+
   /**
    * Check if socket is connected and ready
    */
@@ -817,19 +881,111 @@ export class BaileysManager extends EventEmitter {
   /**
    * Get MessageSender instance for advanced sending capabilities
    */
-  getMessageSender() {
+  getMessageSender(): MessageSender {
     if (!this.socket || this.connectionStatus.status !== 'connected') {
       throw new Error('WhatsApp not connected');
     }
-    
-    // Defer import to avoid circular deps and align with ESM
-    // kept for backward compatibility; dynamic import suggested in error below
-    // Return a proxy-like object to preserve existing callsites expecting instance
-    // but encourage updating callsites to await this function instead if needed.
-    // For now, we throw if someone tries to use without awaiting.
-    // To avoid breaking API, return a minimal wrapper with same methods bound after dynamic import.
-    // Simpler: throw clear instruction.
-    throw new Error('getMessageSender now uses dynamic import. Call: (await import("@/lib/socketManager/MessageSender")).MessageSender and pass the socket from getSocket().');
+
+    // Reuse the sender while the socket stays the same; recreate after reconnects
+    if (!this.messageSender || this.messageSenderSocket !== this.socket) {
+      this.messageSender?.cleanup();
+      this.messageSender = new MessageSender(this.socket);
+      this.messageSenderSocket = this.socket;
+      this.messageSender.on('status_revoked', (event: StatusRevokedEvent) => {
+        this.handleStatusRevoked(event);
+      });
+    }
+
+    return this.messageSender;
+  }
+
+  /**
+   * Download the media of an inbound message (stored after the first call)
+   */
+  async downloadInboundMedia(inboundMessageId: string): Promise<MediaMeta> {
+    if (!this.socket || this.connectionStatus.status !== 'connected') {
+      throw new Error('WhatsApp not connected');
+    }
+
+    return this.inboundMessageStore.downloadMedia(inboundMessageId, {
+      reuploadRequest: this.socket.updateMediaMessage,
+      logger: this.createLogger(),
+    });
+  }
+
+  /**
+   * Get the auto-responder, e.g. to test rules against a sample message
+   */
+  getAutoResponder(): AutoResponder {
+    return this.autoResponder;
+  }
+
+  /**
+   * Let the auto-reply rules answer an inbound message while connected
+   */
+  private handleAutoReply(event: InboundMessageEvent): void {
+    if (!this.sessionId || this.connectionStatus.status !== 'connected') {
+      return;
+    }
+
+    this.autoResponder.handleInboundMessage(event, this.getMessageSender(), this.sessionId);
+  }
+
+  /**
+   * Run note-to-self commands while connected
+   */
+  private handleSelfCommands(upsert: { messages: WAMessage[]; type: string }): void {
+    if (!this.socket || !this.sessionId || this.connectionStatus.status !== 'connected') {
+      return;
+    }
+
+    this.selfCommandHandler.handleUpsert(upsert, {
+      socket: this.socket,
+      sessionId: this.sessionId,
+      messageSender: this.getMessageSender(),
+      sendTargetingManager: this.getSendTargetingManager(),
+      downloadContext: {
+        reuploadRequest: this.socket.updateMediaMessage,
+        logger: this.createLogger(),
+      },
+    });
+  }
+
+  /**
+   * Re-emit a status revoke and record it for audit and webhooks
+   */
+  private handleStatusRevoked(event: StatusRevokedEvent): void {
+    this.emit('status_revoked', event);
+
+    getSecurityMonitor().logSecurityEvent({
+      type: 'audit',
+      severity: 'low',
+      source: 'MessageSender',
+      description: `Status post revoked: ${event.sendHistoryId}`,
+      metadata: { ...event, sessionId: this.sessionId },
+    });
+
+    getWebhookManager().triggerWebhooks('status.revoked', {
+      ...event,
+      revokedAt: event.revokedAt.toISOString(),
+    });
+  }
+
+  /**
+   * Get the shared SendTargetingManager so broadcast lists are visible across routes
+   */
+  getSendTargetingManager(): SendTargetingManager {
+    if (!this.socket) {
+      throw new Error('WhatsApp not connected');
+    }
+
+    if (!this.sendTargetingManager) {
+      this.sendTargetingManager = new SendTargetingManager(this.socket);
+    } else {
+      this.sendTargetingManager.setSocket(this.socket);
+    }
+
+    return this.sendTargetingManager;
   }
 
   /**
@@ -1073,6 +1229,19 @@ export class BaileysManager extends EventEmitter {
       this.contactManager.cleanup();
       this.contactManager = null;
     }
+
+    // Clean up message sender
+    if (this.messageSender) {
+      this.messageSender.cleanup();
+      this.messageSender = null;
+      this.messageSenderSocket = null;
+    }
+
+    // Stop scheduled send timers
+    if (this.sendTargetingManager) {
+      this.sendTargetingManager.cleanup();
+      this.sendTargetingManager = null;
+    }
     
     // Remove all listeners from this EventEmitter
     this.removeAllListeners();
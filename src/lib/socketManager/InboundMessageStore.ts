@@ -0,0 +1,281 @@
+import {
+  BufferJSON,
+  downloadMediaMessage,
+  getContentType,
+  isJidBroadcast,
+  isJidGroup,
+  jidNormalizedUser,
+  normalizeMessageContent,
+  proto,
+  toNumber,
+  WAMessage,
+} from '@whiskeysockets/baileys';
+import type { DownloadMediaMessageContext } from '@whiskeysockets/baileys';
+import { EventEmitter } from 'events';
+import type { MediaMeta } from '@prisma/client';
+import { InboundMessageRepository, MediaMetaService, MediaReferenceRepository } from '../db';
+import type { CreateInboundMessageData, InboundMessageType } from '../db';
+import { MediaBlobStore } from '../uploader/MediaBlobStore';
+
+export interface InboundMessageEvent {
+  id: string; // Inbound message record ID
+  messageId: string;
+  chatJid: string;
+  senderJid: string;
+  pushName?: string;
+  messageType: InboundMessageType;
+  text?: string;
+  timestamp: Date;
+}
+
+// Protocol traffic that arrives as messages but isn't anything to read
+const IGNORED_CONTENT_TYPES = [
+  'protocolMessage',
+  'reactionMessage',
+  'pollUpdateMessage',
+  'senderKeyDistributionMessage',
+  'keepInChatMessage',
+  'encReactionMessage',
+];
+
+const MEDIA_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'video/mp4': '.mp4',
+  'audio/ogg': '.ogg',
+  'audio/mpeg': '.mp3',
+  'audio/mp4': '.m4a',
+  'application/pdf': '.pdf',
+};
+
+/**
+ * Persists messages other people send us, from `messages.upsert`, so
+ * replies show up in the inbox. Media is not fetched up front; the raw
+ * message is kept so it can be downloaded when someone opens it.
+ */
+export class InboundMessageStore extends EventEmitter {
+  /**
+   * Handle new messages from `messages.upsert`
+   */
+  async handleUpsert(upsert: { messages: WAMessage[]; type: string }): Promise<void> {
+    // 'append' delivers offline and history messages; live ones, including
+    // our own from other devices (dropped below by fromMe), come as 'notify'
+    if (upsert.type !== 'notify') {
+      return;
+    }
+
+    for (const message of upsert.messages) {
+      try {
+        const data = this.toInboundMessage(message);
+        if (!data) {
+          continue;
+        }
+
+        const { message: stored, isNew } = await InboundMessageRepository.create(data);
+        if (isNew) {
+          const event: InboundMessageEvent = {
+            id: stored.id,
+            messageId: stored.messageId,
+            chatJid: stored.chatJid,
+            senderJid: stored.senderJid,
+            pushName: data.pushName,
+            messageType: data.messageType,
+            text: data.text,
+            timestamp: stored.timestamp,
+          };
+          this.emit('inbound_message', event);
+        }
+      } catch (error) {
+        console.error('Failed to store inbound message:', error);
+      }
+    }
+  }
+
+  /**
+   * Download the media of an inbound message, once; later calls return the
+   * stored file. Expired media is re-requested from the sender's phone.
+   */
+  async downloadMedia(id: string, context: DownloadMediaMessageContext): Promise<MediaMeta> {
+    const inbound = await InboundMessageRepository.findById(id);
+    if (!inbound) {
+      throw new Error(`Inbound message not found: ${id}`);
+    }
+
+    if (inbound.mediaId) {
+      const existing = await MediaMetaService.getById(inbound.mediaId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    if (!inbound.rawMessage || !inbound.mimetype) {
+      throw new Error('Message has no media to download');
+    }
+
+    const message = JSON.parse(inbound.rawMessage, BufferJSON.reviver) as WAMessage;
+    const media = await InboundMessageStore.storeMedia(message, inbound.mimetype, context, {
+      filename: `${inbound.id}_inbound`,
+      originalName: inbound.fileName || `${inbound.messageType}-${inbound.messageId}`,
+    });
+
+    await MediaReferenceRepository.set('inbound_message', inbound.id, [media.id]);
+    await InboundMessageRepository.setMedia(inbound.id, media.id);
+
+    return media;
+  }
+
+  /**
+   * Download a message's media from WhatsApp into the media store; names
+   * get the extension for the mimetype unless they have one. Temporary
+   * media is kept only while something references it, like an upload.
+   */
+  static async storeMedia(
+    message: WAMessage,
+    mimetype: string,
+    context: DownloadMediaMessageContext,
+    options: { filename: string; originalName: string; isTemporary?: boolean }
+  ): Promise<MediaMeta> {
+    const buffer = await downloadMediaMessage(message, 'buffer', {}, context) as Buffer;
+
+    const blob = await MediaBlobStore.storeBuffer(buffer);
+    const baseMimetype = mimetype.split(';')[0].trim();
+    const extension = MEDIA_EXTENSIONS[baseMimetype] || `.${baseMimetype.split('/')[1] || 'bin'}`;
+    const withExtension = (name: string) => (/\.\w+$/.test(name) ? name : `${name}${extension}`);
+
+    return MediaMetaService.create({
+      filename: withExtension(options.filename),
+      originalName: withExtension(options.originalName),
+      mimetype: baseMimetype,
+      sizeBytes: blob.sizeBytes,
+      storagePath: blob.storagePath,
+      sha256: blob.sha256,
+      isTemporary: options.isTemporary ?? false,
+    });
+  }
+
+  private toInboundMessage(message: WAMessage): CreateInboundMessageData | null {
+    const { key } = message;
+    const chatJid = key.remoteJid;
+
+    if (key.fromMe || !key.id || !chatJid || isJidBroadcast(chatJid)) {
+      return null;
+    }
+
+    const content = normalizeMessageContent(message.message);
+    const contentType = content ? getContentType(content) : undefined;
+    if (!content || !contentType || IGNORED_CONTENT_TYPES.includes(contentType)) {
+      return null;
+    }
+
+    const senderJid = isJidGroup(chatJid) ? key.participant : chatJid;
+    if (!senderJid) {
+      return null;
+    }
+
+    const data: CreateInboundMessageData = {
+      messageId: key.id,
+      chatJid: jidNormalizedUser(chatJid),
+      senderJid: jidNormalizedUser(senderJid),
+      pushName: message.pushName || undefined,
+      timestamp: message.messageTimestamp
+        ? new Date(toNumber(message.messageTimestamp) * 1000)
+        : new Date(),
+      ...this.describeContent(content, contentType),
+    };
+
+    const contextInfo = (content[contentType] as { contextInfo?: proto.IContextInfo } | undefined)?.contextInfo;
+    if (contextInfo?.stanzaId) {
+      data.quotedId = contextInfo.stanzaId;
+    }
+
+    if (data.mimetype) {
+      data.rawMessage = JSON.stringify(message, BufferJSON.replacer);
+    }
+
+    return data;
+  }
+
+  /**
+   * Type, text and media fields of a message's content
+   */
+  private describeContent(
+    content: proto.IMessage,
+    contentType: keyof proto.IMessage
+  ): Pick<CreateInboundMessageData, 'messageType' | 'text' | 'mimetype' | 'fileName' | 'fileLength'> {
+    const fileLength = (value?: Parameters<typeof toNumber>[0]) => (value ? toNumber(value) : undefined);
+
+    switch (contentType) {
+      case 'conversation':
+        return { messageType: 'text', text: content.conversation || undefined };
+      case 'extendedTextMessage':
+        return { messageType: 'text', text: content.extendedTextMessage?.text || undefined };
+      case 'imageMessage':
+        return {
+          messageType: 'image',
+          text: content.imageMessage?.caption || undefined,
+          mimetype: content.imageMessage?.mimetype || 'image/jpeg',
+          fileLength: fileLength(content.imageMessage?.fileLength),
+        };
+      case 'videoMessage':
+      case 'ptvMessage': {
+        const video = content.videoMessage || content.ptvMessage;
+        return {
+          messageType: 'video',
+          text: video?.caption || undefined,
+          mimetype: video?.mimetype || 'video/mp4',
+          fileLength: fileLength(video?.fileLength),
+        };
+      }
+      case 'audioMessage':
+        return {
+          messageType: 'audio',
+          text: content.audioMessage?.ptt ? 'Voice message' : undefined,
+          mimetype: content.audioMessage?.mimetype || 'audio/ogg',
+          fileLength: fileLength(content.audioMessage?.fileLength),
+        };
+      case 'documentMessage':
+        return {
+          messageType: 'document',
+          text: content.documentMessage?.caption || undefined,
+          mimetype: content.documentMessage?.mimetype || 'application/octet-stream',
+          fileName: content.documentMessage?.fileName || undefined,
+          fileLength: fileLength(content.documentMessage?.fileLength),
+        };
+      case 'stickerMessage':
+        return {
+          messageType: 'sticker',
+          mimetype: content.stickerMessage?.mimetype || 'image/webp',
+          fileLength: fileLength(content.stickerMessage?.fileLength),
+        };
+      case 'locationMessage':
+      case 'liveLocationMessage': {
+        const location = content.locationMessage || content.liveLocationMessage;
+        const place = content.locationMessage
+          ? [content.locationMessage.name, content.locationMessage.address].filter(Boolean).join(', ')
+          : '';
+        return {
+          messageType: 'location',
+          text: place || `${location?.degreesLatitude}, ${location?.degreesLongitude}`,
+        };
+      }
+      case 'contactMessage':
+        return { messageType: 'contacts', text: content.contactMessage?.displayName || undefined };
+      case 'contactsArrayMessage':
+        return {
+          messageType: 'contacts',
+          text: content.contactsArrayMessage?.contacts?.map((contact: proto.Message.IContactMessage) => contact.displayName).filter(Boolean).join(', ')
+            || content.contactsArrayMessage?.displayName
+            || undefined,
+        };
+      case 'pollCreationMessage':
+      case 'pollCreationMessageV2':
+      case 'pollCreationMessageV3': {
+        const poll = content.pollCreationMessage || content.pollCreationMessageV2 || content.pollCreationMessageV3;
+        return { messageType: 'poll', text: poll?.name || undefined };
+      }
+      default:
+        return { messageType: 'other' };
+    }
+  }
+}
@@ -0,0 +1,114 @@
+import type { Contact } from '@prisma/client';
+import { ContactRepository } from '../db';
+
+export interface MentionOptions {
+  participants?: string[]; // Group participant JIDs; names only resolve to members
+  mentionEveryone?: boolean; // Notify every participant without @-ing them in the text
+}
+
+export interface ResolvedMentions {
+  text: string; // Names rewritten to @<number>, which WhatsApp renders as the contact
+  mentions: string[];
+  unresolved: string[]; // Tokens left as typed: unknown or ambiguous names
+}
+
+// An @ at the start of the text or after whitespace/opening punctuation, so e-mail addresses are skipped
+const MENTION_PATTERN = /(^|[\s([{"'])@([^\s@.,;:!?()[\]{}<>"'`]+)/g;
+
+// Shorter digit runs are more likely to be meant literally than as a phone number
+const MIN_PHONE_DIGITS = 7;
+
+/**
+ * Resolves `@name` and `@number` tokens in a message into WhatsApp mention
+ * JIDs. Names are matched case-insensitively against the synced contacts'
+ * saved, push and verified names, either in full (spaces dropped) or by
+ * first word; a name matching more than one contact is left unresolved.
+ */
+export class MentionResolver {
+  async resolve(text: string, options: MentionOptions = {}): Promise<ResolvedMentions> {
+    const participants = options.participants ? new Set(options.participants) : undefined;
+    const mentions = new Set<string>();
+    const unresolved: string[] = [];
+    const replacements = new Map<string, string>();
+
+    const tokens = [...new Set(Array.from(text.matchAll(MENTION_PATTERN), match => match[2]))];
+    const nameTokens = tokens.filter(token => !this.isPhoneToken(token));
+    const contacts = nameTokens.length > 0 ? await this.loadCandidates(options.participants) : [];
+
+    for (const token of tokens) {
+      if (this.isPhoneToken(token)) {
+        const jid = `${token.replace(/\D/g, '')}@s.whatsapp.net`;
+        if (participants && !participants.has(jid)) {
+          unresolved.push(token);
+          continue;
+        }
+        mentions.add(jid);
+        replacements.set(token, this.userPart(jid));
+        continue;
+      }
+
+      const matches = this.matchName(token, contacts);
+      if (matches.length !== 1) {
+        unresolved.push(token);
+        continue;
+      }
+      mentions.add(matches[0].id);
+      replacements.set(token, this.userPart(matches[0].id));
+    }
+
+    if (options.mentionEveryone && options.participants) {
+      options.participants.forEach(jid => mentions.add(jid));
+    }
+
+    return {
+      text: text.replace(MENTION_PATTERN, (match, prefix: string, token: string) => {
+        const replacement = replacements.get(token);
+        return replacement ? `${prefix}@${replacement}` : match;
+      }),
+      mentions: [...mentions],
+      unresolved,
+    };
+  }
+
+  private isPhoneToken(token: string): boolean {
+    return /^\+?\d+$/.test(token) && token.replace(/\D/g, '').length >= MIN_PHONE_DIGITS;
+  }
+
+  private async loadCandidates(participants?: string[]): Promise<Contact[]> {
+    if (participants) {
+      return participants.length > 0 ? ContactRepository.findByIds(participants) : [];
+    }
+    return ContactRepository.findAll({ isActive: true });
+  }
+
+  private matchName(token: string, contacts: Contact[]): Contact[] {
+    const wanted = this.normalize(token);
+    if (!wanted) {
+      return [];
+    }
+
+    const names = (contact: Contact) =>
+      [contact.name, contact.pushName, contact.notify, contact.verifiedName].filter((name): name is string => !!name);
+
+    // A full-name match wins over contacts that merely share the first name
+    const fullMatches = contacts.filter(contact => names(contact).some(name => this.normalize(name) === wanted));
+    if (fullMatches.length > 0) {
+      return fullMatches;
+    }
+
+    return contacts.filter(contact =>
+      names(contact).some(name => this.normalize(name.trim().split(/\s+/)[0]) === wanted)
+    );
+  }
+
+  private normalize(value: string): string {
+    return value.toLowerCase().replace(/[\s._-]+/g, '');
+  }
+
+  /**
+   * The number part of a JID, as shown after the @ in a mention
+   */
+  private userPart(jid: string): string {
+    return jid.split('@')[0].split(':')[0];
+  }
+}
@@ -1,16 +1,118 @@
-import { WASocket, proto } from '@whiskeysockets/baileys';
+import {
+  WASocket,
+  proto,
+  jidNormalizedUser,
+  AnyMessageContent,
+  MiscMessageGenerationOptions,
+} from '@whiskeysockets/baileys';
+import type { MediaMeta } from '@prisma/client';
 import { createReadStream } from 'fs';
-import { SendHistoryService, MediaMetaService } from '../db';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { SendHistoryService, MediaMetaService, StickerRepository, PollRepository } from '../db';
 import { MessageReliabilityManager } from './MessageReliabilityManager';
 import { ProtocolCompliance } from './ProtocolCompliance';
+import { StatusVideoSegmenter } from '../uploader/StatusVideoSegmenter';
+import { Thumbnailer } from '../uploader/Thumbnailer';
+import { VoiceNoteProcessor } from '../uploader/VoiceNoteProcessor';
+import { StickerProcessor } from '../uploader/StickerProcessor';
+import { GifProcessor } from '../uploader/GifProcessor';
+import type { StickerOptions } from '../uploader/StickerProcessor';
+import { StatusArchive } from '../services/StatusArchive';
+import { MediaPrivacy } from '../services/MediaPrivacy';
 import { errorHandler, ErrorCategory } from '../errors/ErrorHandler';
+import type { StatusAudience } from './StatusAudienceResolver';
+import { buildLinkText, buildVCard, describeStructuredContent } from '../messaging/StructuredContent';
+import type { StructuredContent } from '../messaging/StructuredContent';
+import { MentionResolver } from './MentionResolver';
+
+/**
+ * Fonts available for text status posts, mapped to WhatsApp's
+ * ExtendedTextMessage.FontType values
+ */
+export const STATUS_FONTS = {
+  system: 0,
+  'system-text': 1,
+  script: 2,
+  'system-bold': 6,
+  'morning-breeze': 7,
+  calistoga: 8,
+  exo: 9,
+  courier: 10,
+} as const;
+
+export type StatusFont = keyof typeof STATUS_FONTS;
+
+// WhatsApp only plays Opus in Ogg as a voice note
+const VOICE_NOTE_MIMETYPE = 'audio/ogg; codecs=opus';
+
+// WhatsApp's limits on poll options
+export const POLL_MIN_OPTIONS = 2;
+export const POLL_MAX_OPTIONS = 12;
+
+export interface TextStatusContent {
+  text: string;
+  backgroundColor?: string; // Hex color, e.g. '#128C7E'
+  font?: StatusFont;
+  linkPreview?: boolean; // Generate a preview for the first URL in the text
+}
+
+export interface StatusStoryItem {
+  fileId: string; // Media meta ID
+  caption?: string;
+  delayAfterMs?: number; // Wait before posting the next item
+}
 
 export interface SendOptions {
   sessionId: string;
   targetType: 'status' | 'contact' | 'group';
   targetIdentifier?: string; // Phone number for contact, group ID for group
   caption?: string;
-  files: string[]; // Array of media meta IDs
+  files: string[]; // Array of media meta IDs (empty for text-only status)
+  items?: StatusStoryItem[]; // Ordered status story; takes precedence over files/caption
+  text?: TextStatusContent; // Text-only status payload
+  statusJidList?: string[]; // Resolved status audience; phone privacy settings apply when omitted
+  audience?: StatusAudience; // Audience descriptor recorded in send history
+  splitLongVideos?: boolean; // Split status videos over the length limit into parts (default true)
+  voiceNote?: boolean; // Send audio files to contacts and groups as voice notes
+  sticker?: StickerOptions; // Send images to contacts and groups as stickers with this pack metadata
+}
+
+export interface DirectSendOptions {
+  targetType: 'status' | 'contact' | 'group';
+  targetIdentifier: string;
+  files: Array<{
+    buffer: Buffer | string; // String data is sent as a text message
+    mimetype: string;
+    filename: string;
+  }>;
+  caption?: string;
+  sendAsDocument?: boolean;
+  structured?: StructuredContent; // Location, contact cards or link, sent after any files
+}
+
+export interface TextSendOptions {
+  sessionId: string;
+  targetType: 'contact' | 'group';
+  targetIdentifier: string; // Phone number for contact, group ID for group
+  text: string; // @name and @number tokens are resolved into mentions
+  mentionEveryone?: boolean; // Groups only: notify every participant
+}
+
+export interface PollSendOptions {
+  sessionId: string;
+  targetType: 'contact' | 'group';
+  targetIdentifier: string; // Phone number for contact, group ID for group
+  question: string;
+  options: string[];
+  multiSelect?: boolean; // Let voters pick more than one option
+}
+
+export interface StructuredSendOptions {
+  sessionId: string;
+  targetType: 'contact' | 'group';
+  targetIdentifier: string; // Phone number for contact, group ID for group
+  content: StructuredContent;
 }
 
 export interface SendResult {
@@ -18,6 +120,17 @@ export interface SendResult {
   messageId?: string;
   error?: string;
   sentAt?: Date;
+  sendHistoryId?: string;
+  progress?: { sent: number; total: number }; // Multi-part status stories
+  mentions?: string[]; // Text sends: JIDs mentioned
+  unresolvedMentions?: string[]; // Text sends: @tokens that matched no contact
+  pollId?: string; // Poll sends: ID to follow the results by
+}
+
+export interface StatusRevokedEvent {
+  sendHistoryId: string;
+  messageIds: string[];
+  revokedAt: Date;
 }
 
 export interface ContactInfo {
@@ -36,11 +149,12 @@ export interface GroupInfo {
   owner?: string;
 }
 
-export class MessageSender {
+export class MessageSender extends EventEmitter {
   private reliabilityManager: MessageReliabilityManager;
   private protocolCompliance: ProtocolCompliance;
 
   constructor(private socket: WASocket) {
+    super();
     this.reliabilityManager = new MessageReliabilityManager();
     this.protocolCompliance = new ProtocolCompliance();
     
@@ -53,100 +167,560 @@ export class MessageSender {
    * Send media to WhatsApp Status
    */
   async sendToStatus(options: SendOptions): Promise<SendResult> {
+    if (options.text) {
+      return this.sendTextToStatus(options.sessionId, options.text, options);
+    }
+
     try {
       if (!this.socket) {
         throw new Error('WhatsApp socket not available');
       }
 
-      // Create send history record
+      // Without explicit story items every file shares the same caption
+      let items: StatusStoryItem[] = options.items
+        ?? options.files.map(fileId => ({ fileId, caption: options.caption }));
+
+      if (options.splitLongVideos !== false) {
+        items = await this.splitLongVideos(items);
+      }
+
+      // Create send history record with one tracked item per post
       const sendHistory = await SendHistoryService.create({
         sessionId: options.sessionId,
         targetType: 'status',
-        files: options.files,
+        files: items.map(item => item.fileId),
+        audience: this.describeAudience(options),
+        statusJidList: options.statusJidList,
+        items,
         status: 'sending',
       });
 
-      const results: SendResult[] = [];
+      return await this.postStoryItems(sendHistory.id, options);
 
-      // Send each file
-      for (const fileId of options.files) {
+    } catch (error) {
+      console.error('Status send error:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Replace videos longer than a status allows with their numbered segments
+   */
+  private async splitLongVideos(items: StatusStoryItem[]): Promise<StatusStoryItem[]> {
+    const expanded: StatusStoryItem[] = [];
+
+    for (const item of items) {
+      const mediaMeta = await MediaMetaService.getById(item.fileId);
+      let segments: MediaMeta[] | null = null;
+
+      if (mediaMeta) {
         try {
-          const mediaMeta = await MediaMetaService.getById(fileId);
-          if (!mediaMeta) {
-            results.push({ success: false, error: `File not found: ${fileId}` });
-            continue;
-          }
+          segments = await StatusVideoSegmenter.segment(mediaMeta);
+        } catch (error) {
+          // Fall back to posting the original; WhatsApp trims it to the limit
+          console.warn(`Could not split video ${item.fileId} for status:`, error);
+        }
+      }
 
-          // Prepare media buffer or stream
-          const mediaBuffer = createReadStream(mediaMeta.storagePath);
-          
-          // Determine message type based on MIME type
-          let messageContent: any;
-          if (mediaMeta.mimetype.startsWith('image/')) {
-            messageContent = {
-              image: mediaBuffer,
-              caption: options.caption,
-              mimetype: mediaMeta.mimetype,
-            };
-          } else if (mediaMeta.mimetype.startsWith('video/')) {
-            messageContent = {
-              video: mediaBuffer,
-              caption: options.caption,
-              mimetype: mediaMeta.mimetype,
-            };
-          } else if (mediaMeta.mimetype.startsWith('audio/')) {
-            messageContent = {
-              audio: mediaBuffer,
-              mimetype: mediaMeta.mimetype,
-            };
-          } else {
-            // Send as document
-            messageContent = {
-              document: mediaBuffer,
-              mimetype: mediaMeta.mimetype,
-              fileName: mediaMeta.originalName,
-              caption: options.caption,
-            };
-          }
+      if (!segments) {
+        expanded.push(item);
+        continue;
+      }
 
-          const result = await this.socket.sendMessage('status@broadcast', messageContent);
-          
-          results.push({
-            success: true,
-            messageId: result?.key?.id || undefined,
-            sentAt: new Date(),
-          });
+      segments.forEach((segment, index) => {
+        expanded.push({
+          fileId: segment.id,
+          caption: StatusVideoSegmenter.formatCaption(index, segments.length, item.caption),
+          delayAfterMs: index === segments.length - 1 ? item.delayAfterMs : undefined,
+        });
+      });
+    }
 
-          // Mark media as permanent (no longer temporary)
-          await MediaMetaService.markPermanent(fileId);
+    return expanded;
+  }
 
-        } catch (error) {
-          console.error(`Failed to send file ${fileId} to status:`, error);
-          results.push({
-            success: false,
-            error: error instanceof Error ? error.message : 'Unknown error',
-          });
+  /**
+   * Resume a partially posted status story from its first unsent item
+   */
+  async resumeStatusStory(
+    sendHistoryId: string,
+    audience: Pick<SendOptions, 'statusJidList'> = {}
+  ): Promise<SendResult> {
+    try {
+      const history = await SendHistoryService.getById(sendHistoryId);
+      if (!history || history.targetType !== 'status') {
+        throw new Error(`Status send not found: ${sendHistoryId}`);
+      }
+
+      if (history.items.length === 0 || history.items.every(item => item.status === 'sent')) {
+        throw new Error('Nothing to resume: all items were already posted');
+      }
+
+      await SendHistoryService.update(sendHistoryId, {
+        status: 'sending',
+        errorMessage: null,
+      });
+
+      return await this.postStoryItems(sendHistoryId, audience);
+
+    } catch (error) {
+      console.error('Status resume error:', error);
+      return {
+        success: false,
+        sendHistoryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  /**
+   * Post the unsent items of a story in order, stopping at the first failure
+   * so the story can be resumed without breaking its order
+   */
+  private async postStoryItems(
+    sendHistoryId: string,
+    options: Pick<SendOptions, 'statusJidList'>
+  ): Promise<SendResult> {
+    const statusOptions = this.getStatusSendOptions(options);
+    const items = await SendHistoryService.getItems(sendHistoryId);
+    const pendingItems = items.filter(item => item.status !== 'sent');
+    const retainUntil = await StatusArchive.getRetentionDate();
+
+    let sentCount = items.length - pendingItems.length;
+    let lastMessageId: string | undefined;
+    let failure: string | undefined;
+
+    for (const [index, item] of pendingItems.entries()) {
+      try {
+        const mediaMeta = await this.loadSendableMedia(item.fileId);
+        if (!mediaMeta) {
+          throw new Error(`File not found: ${item.fileId}`);
         }
+
+        const messageContent = await this.buildMediaContent(mediaMeta, item.caption || undefined);
+        const result = await this.socket.sendMessage('status@broadcast', messageContent, statusOptions);
+        lastMessageId = result?.key?.id || undefined;
+
+        await SendHistoryService.updateItem(item.id, {
+          status: 'sent',
+          messageId: lastMessageId,
+          messageKey: result?.key,
+          errorMessage: null,
+          sentAt: new Date(),
+        });
+        sentCount++;
+
+        // Keep posted media for the retention period so the post can be re-posted
+        await MediaMetaService.retain(item.fileId, retainUntil);
+
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Failed to post story item ${item.position + 1} to status:`, error);
+
+        await SendHistoryService.updateItem(item.id, { status: 'failed', errorMessage: message });
+        failure = `Item ${item.position + 1}/${items.length} failed: ${message}`;
+        break;
       }
 
-      // Update send history
-      const overallSuccess = results.some(r => r.success);
-      await SendHistoryService.update(sendHistory.id, {
-        status: overallSuccess ? 'completed' : 'failed',
-        completedAt: new Date(),
-        errorMessage: overallSuccess ? undefined : results.find(r => !r.success)?.error,
+      if (item.delayAfterMs && index < pendingItems.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, item.delayAfterMs!));
+      }
+    }
+
+    await SendHistoryService.update(sendHistoryId, {
+      status: failure ? 'failed' : 'completed',
+      completedAt: new Date(),
+      errorMessage: failure,
+    });
+
+    return {
+      success: !failure,
+      messageId: lastMessageId,
+      sentAt: new Date(),
+      error: failure,
+      sendHistoryId,
+      progress: { sent: sentCount, total: items.length },
+    };
+  }
+
+  /**
+   * Load a stored media file for sending, stripping its location and device
+   * metadata first when the privacy settings ask for it
+   */
+  private async loadSendableMedia(fileId: string): Promise<MediaMeta | null> {
+    const mediaMeta = await MediaMetaService.getById(fileId);
+    return mediaMeta && MediaPrivacy.ensureScrubbed(mediaMeta);
+  }
+
+  /**
+   * Build message content for a stored media file based on its MIME type
+   */
+  private async buildMediaContent(mediaMeta: MediaMeta, caption?: string): Promise<AnyMessageContent> {
+    // Animated GIFs go out as their MP4, looping inline
+    const gifVideo = await GifProcessor.prepare(mediaMeta);
+    if (gifVideo) {
+      const jpegThumbnail = await this.getJpegThumbnail(mediaMeta);
+      return {
+        video: { stream: createReadStream(gifVideo.storagePath) },
+        gifPlayback: true,
+        caption,
+        mimetype: gifVideo.mimetype,
+        jpegThumbnail,
+      };
+    }
+
+    const mediaStream = { stream: createReadStream(mediaMeta.storagePath) };
+
+    if (mediaMeta.mimetype.startsWith('image/')) {
+      const jpegThumbnail = await this.getJpegThumbnail(mediaMeta);
+      return { image: mediaStream, caption, mimetype: mediaMeta.mimetype, jpegThumbnail };
+    }
+    if (mediaMeta.mimetype.startsWith('video/')) {
+      const jpegThumbnail = await this.getJpegThumbnail(mediaMeta);
+      return { video: mediaStream, caption, mimetype: mediaMeta.mimetype, jpegThumbnail };
+    }
+    if (mediaMeta.mimetype.startsWith('audio/')) {
+      return { audio: mediaStream, mimetype: mediaMeta.mimetype };
+    }
+
+    // Send as document
+    return {
+      document: mediaStream,
+      mimetype: mediaMeta.mimetype,
+      fileName: mediaMeta.originalName,
+      caption,
+    };
+  }
+
+  /**
+   * Base64 inline thumbnail for image and video messages. Undefined lets
+   * Baileys fall back to generating its own.
+   */
+  private async getJpegThumbnail(mediaMeta: MediaMeta): Promise<string | undefined> {
+    try {
+      const thumbnail = await Thumbnailer.get(mediaMeta, 'message');
+      return thumbnail?.toString('base64');
+    } catch (error) {
+      console.warn(`Failed to create thumbnail for ${mediaMeta.id}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a text-only post to WhatsApp Status
+   */
+  async sendTextToStatus(
+    sessionId: string,
+    content: TextStatusContent,
+    audience: Pick<SendOptions, 'statusJidList' | 'audience'> = {}
+  ): Promise<SendResult> {
+    let sendHistoryId: string | undefined;
+
+    try {
+      if (!this.socket) {
+        throw new Error('WhatsApp socket not available');
+      }
+
+      const sendHistory = await SendHistoryService.create({
+        sessionId,
+        targetType: 'status',
+        files: [],
+        messageType: 'text',
+        content: { ...content },
+        audience: this.describeAudience(audience),
+        statusJidList: audience.statusJidList,
+        status: 'sending',
       });
+      sendHistoryId = sendHistory.id;
+
+      const result = await this.socket.sendMessage(
+        'status@broadcast',
+        {
+          text: content.text,
+          // Baileys builds previews with link-preview-js; null turns that off
+          ...(content.linkPreview ? {} : { linkPreview: null }),
+        },
+        {
+          ...this.getStatusSendOptions(audience),
+          backgroundColor: content.backgroundColor,
+          font: content.font !== undefined ? STATUS_FONTS[content.font] : undefined,
+        }
+      );
+
+      await SendHistoryService.markCompleted(sendHistory.id, result?.key);
 
       return {
-        success: overallSuccess,
-        messageId: results.find(r => r.success)?.messageId,
+        success: true,
+        messageId: result?.key?.id || undefined,
         sentAt: new Date(),
+        sendHistoryId: sendHistory.id,
       };
 
     } catch (error) {
-      console.error('Status send error:', error);
+      console.error('Text status send error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (sendHistoryId) {
+        await SendHistoryService.markFailed(sendHistoryId, message).catch(() => undefined);
+      }
+
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Send a text message to a contact or group, resolving @name and @number
+   * mentions (against the group's participants for groups)
+   */
+  async sendText(options: TextSendOptions): Promise<SendResult> {
+    let sendHistoryId: string | undefined;
+
+    try {
+      if (!this.socket || !options.targetIdentifier) {
+        throw new Error('WhatsApp socket not available or target identifier missing');
+      }
+
+      const jid = this.resolveJid(options.targetType, options.targetIdentifier);
+      const participants = options.targetType === 'group'
+        ? await this.getGroupParticipants(jid)
+        : undefined;
+
+      const resolved = await new MentionResolver().resolve(options.text, {
+        participants,
+        mentionEveryone: options.targetType === 'group' && options.mentionEveryone,
+      });
+
+      const sendHistory = await SendHistoryService.create({
+        sessionId: options.sessionId,
+        targetType: options.targetType,
+        targetIdentifier: options.targetType === 'contact' ? jid.split('@')[0] : jid,
+        files: [],
+        messageType: 'text',
+        content: {
+          text: resolved.text,
+          mentions: resolved.mentions,
+          mentionEveryone: options.mentionEveryone === true,
+        },
+        status: 'sending',
+      });
+      sendHistoryId = sendHistory.id;
+
+      const result = await this.socket.sendMessage(jid, {
+        text: resolved.text,
+        mentions: resolved.mentions,
+      });
+
+      await SendHistoryService.markCompleted(sendHistory.id, result?.key);
+
+      return {
+        success: true,
+        messageId: result?.key?.id || undefined,
+        sentAt: new Date(),
+        sendHistoryId: sendHistory.id,
+        mentions: resolved.mentions,
+        unresolvedMentions: resolved.unresolved,
+      };
+
+    } catch (error) {
+      console.error('Text send error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (sendHistoryId) {
+        await SendHistoryService.markFailed(sendHistoryId, message).catch(() => undefined);
+      }
+
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Send a poll to a contact or group; votes on it are recorded by the
+   * PollTracker
+   */
+  async sendPoll(options: PollSendOptions): Promise<SendResult> {
+    let sendHistoryId: string | undefined;
+
+    try {
+      if (!this.socket || !options.targetIdentifier) {
+        throw new Error('WhatsApp socket not available or target identifier missing');
+      }
+
+      const question = options.question.trim();
+      const values = [...new Set(options.options.map(option => option.trim()).filter(Boolean))];
+      if (!question) {
+        throw new Error('Poll question is required');
+      }
+      if (values.length < POLL_MIN_OPTIONS || values.length > POLL_MAX_OPTIONS) {
+        throw new Error(`Polls need between ${POLL_MIN_OPTIONS} and ${POLL_MAX_OPTIONS} distinct options`);
+      }
+
+      const jid = this.resolveJid(options.targetType, options.targetIdentifier);
+      // 0 lets voters pick any number of options
+      const selectableCount = options.multiSelect ? 0 : 1;
+
+      const sendHistory = await SendHistoryService.create({
+        sessionId: options.sessionId,
+        targetType: options.targetType,
+        targetIdentifier: options.targetType === 'contact' ? jid.split('@')[0] : jid,
+        files: [],
+        messageType: 'poll',
+        content: { question, options: values, selectableCount },
+        status: 'sending',
+      });
+      sendHistoryId = sendHistory.id;
+
+      // Votes are encrypted with this secret; we keep it to decrypt them
+      const messageSecret = crypto.randomBytes(32);
+      const result = await this.socket.sendMessage(jid, {
+        poll: { name: question, values, selectableCount, messageSecret },
+      });
+
+      if (!result?.key?.id) {
+        throw new Error('WhatsApp did not return a message ID for the poll');
+      }
+
+      const sentSecret = result.message?.messageContextInfo?.messageSecret;
+      const poll = await PollRepository.create({
+        sendHistoryId: sendHistory.id,
+        messageId: result.key.id,
+        chatJid: jid,
+        question,
+        options: values,
+        selectableCount,
+        messageSecret: Buffer.from(sentSecret ?? messageSecret).toString('base64'),
+      });
+
+      await SendHistoryService.markCompleted(sendHistory.id, result.key);
+
+      return {
+        success: true,
+        messageId: result.key.id,
+        sentAt: new Date(),
+        sendHistoryId: sendHistory.id,
+        pollId: poll.id,
+      };
+
+    } catch (error) {
+      console.error('Poll send error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (sendHistoryId) {
+        await SendHistoryService.markFailed(sendHistoryId, message).catch(() => undefined);
+      }
+
       return {
         success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Send a location pin, contact cards or a link to a contact or group
+   */
+  async sendStructured(options: StructuredSendOptions): Promise<SendResult> {
+    let sendHistoryId: string | undefined;
+
+    try {
+      if (!this.socket || !options.targetIdentifier) {
+        throw new Error('WhatsApp socket not available or target identifier missing');
+      }
+
+      const jid = this.resolveJid(options.targetType, options.targetIdentifier);
+
+      const sendHistory = await SendHistoryService.create({
+        sessionId: options.sessionId,
+        targetType: options.targetType,
+        targetIdentifier: options.targetType === 'contact' ? jid.split('@')[0] : jid,
+        files: [],
+        messageType: options.content.type,
+        content: { ...options.content },
+        status: 'sending',
+      });
+      sendHistoryId = sendHistory.id;
+
+      const result = await this.socket.sendMessage(jid, this.buildStructuredMessage(options.content));
+
+      await SendHistoryService.markCompleted(sendHistory.id, result?.key);
+
+      return {
+        success: true,
+        messageId: result?.key?.id || undefined,
+        sentAt: new Date(),
+        sendHistoryId: sendHistory.id,
+      };
+
+    } catch (error) {
+      console.error(`${options.content.type} send error:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (sendHistoryId) {
+        await SendHistoryService.markFailed(sendHistoryId, message).catch(() => undefined);
+      }
+
+      return {
+        success: false,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Take down a previously posted status (every posted item of a story)
+   * using the stored message keys
+   */
+  async revokeStatus(
+    sendHistoryId: string,
+    audience: Pick<SendOptions, 'statusJidList'> = {}
+  ): Promise<SendResult> {
+    try {
+      const history = await SendHistoryService.getById(sendHistoryId);
+      if (!history || history.targetType !== 'status') {
+        throw new Error(`Status send not found: ${sendHistoryId}`);
+      }
+      if (history.status === 'revoked') {
+        throw new Error('Status post was already revoked');
+      }
+
+      const keys = SendHistoryService.getMessageKeys(history);
+      if (keys.length === 0) {
+        throw new Error('No posted message key stored for this send');
+      }
+
+      const statusOptions = this.getStatusSendOptions(audience);
+      for (const key of keys) {
+        await this.socket.sendMessage('status@broadcast', { delete: key }, statusOptions);
+      }
+
+      await SendHistoryService.markRevoked(sendHistoryId);
+
+      const event: StatusRevokedEvent = {
+        sendHistoryId,
+        messageIds: keys.map(key => key.id!).filter(Boolean),
+        revokedAt: new Date(),
+      };
+      this.emit('status_revoked', event);
+
+      return {
+        success: true,
+        sendHistoryId,
+        sentAt: event.revokedAt,
+      };
+
+    } catch (error) {
+      console.error('Status revoke error:', error);
+      return {
+        success: false,
+        sendHistoryId,
         error: error instanceof Error ? error.message : 'Unknown error',
       };
     }
@@ -179,26 +753,56 @@ export class MessageSender {
       // Send each file
       for (const fileId of options.files) {
         try {
-          const mediaMeta = await MediaMetaService.getById(fileId);
+          const mediaMeta = await this.loadSendableMedia(fileId);
           if (!mediaMeta) {
             results.push({ success: false, error: `File not found: ${fileId}` });
             continue;
           }
 
-          const mediaBuffer = createReadStream(mediaMeta.storagePath);
+          const voiceNote = options.voiceNote && mediaMeta.mimetype.startsWith('audio/')
+            ? await VoiceNoteProcessor.prepare(mediaMeta)
+            : null;
+          const sticker = options.sticker && StickerProcessor.supports(mediaMeta)
+            ? await StickerProcessor.resolve(mediaMeta, options.sticker)
+            : null;
+          const gifVideo = sticker ? null : await GifProcessor.prepare(mediaMeta);
+          const mediaBuffer = createReadStream((sticker?.media ?? voiceNote?.media ?? gifVideo ?? mediaMeta).storagePath);
           
           let messageContent: any;
-          if (mediaMeta.mimetype.startsWith('image/')) {
+          if (sticker) {
+            messageContent = {
+              sticker: mediaBuffer,
+              mimetype: 'image/webp',
+            };
+          } else if (gifVideo) {
+            messageContent = {
+              video: mediaBuffer,
+              gifPlayback: true,
+              caption: options.caption,
+              mimetype: gifVideo.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
+            };
+          } else if (mediaMeta.mimetype.startsWith('image/')) {
             messageContent = {
               image: mediaBuffer,
               caption: options.caption,
               mimetype: mediaMeta.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
             };
           } else if (mediaMeta.mimetype.startsWith('video/')) {
             messageContent = {
               video: mediaBuffer,
               caption: options.caption,
               mimetype: mediaMeta.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
+            };
+          } else if (voiceNote) {
+            messageContent = {
+              audio: mediaBuffer,
+              mimetype: VOICE_NOTE_MIMETYPE,
+              ptt: true,
+              seconds: voiceNote.seconds,
+              waveform: voiceNote.waveform,
             };
           } else if (mediaMeta.mimetype.startsWith('audio/')) {
             messageContent = {
@@ -223,6 +827,9 @@ export class MessageSender {
           });
 
           await MediaMetaService.markPermanent(fileId);
+          if (sticker) {
+            await StickerRepository.recordUse(sticker.id);
+          }
 
         } catch (error) {
           console.error(`Failed to send file ${fileId} to contact:`, error);
@@ -282,26 +889,56 @@ export class MessageSender {
       // Send each file
       for (const fileId of options.files) {
         try {
-          const mediaMeta = await MediaMetaService.getById(fileId);
+          const mediaMeta = await this.loadSendableMedia(fileId);
           if (!mediaMeta) {
             results.push({ success: false, error: `File not found: ${fileId}` });
             continue;
           }
 
-          const mediaBuffer = createReadStream(mediaMeta.storagePath);
+          const voiceNote = options.voiceNote && mediaMeta.mimetype.startsWith('audio/')
+            ? await VoiceNoteProcessor.prepare(mediaMeta)
+            : null;
+          const sticker = options.sticker && StickerProcessor.supports(mediaMeta)
+            ? await StickerProcessor.resolve(mediaMeta, options.sticker)
+            : null;
+          const gifVideo = sticker ? null : await GifProcessor.prepare(mediaMeta);
+          const mediaBuffer = createReadStream((sticker?.media ?? voiceNote?.media ?? gifVideo ?? mediaMeta).storagePath);
           
           let messageContent: any;
-          if (mediaMeta.mimetype.startsWith('image/')) {
+          if (sticker) {
+            messageContent = {
+              sticker: mediaBuffer,
+              mimetype: 'image/webp',
+            };
+          } else if (gifVideo) {
+            messageContent = {
+              video: mediaBuffer,
+              gifPlayback: true,
+              caption: options.caption,
+              mimetype: gifVideo.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
+            };
+          } else if (mediaMeta.mimetype.startsWith('image/')) {
             messageContent = {
               image: mediaBuffer,
               caption: options.caption,
               mimetype: mediaMeta.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
             };
           } else if (mediaMeta.mimetype.startsWith('video/')) {
             messageContent = {
               video: mediaBuffer,
               caption: options.caption,
               mimetype: mediaMeta.mimetype,
+              jpegThumbnail: await this.getJpegThumbnail(mediaMeta),
+            };
+          } else if (voiceNote) {
+            messageContent = {
+              audio: mediaBuffer,
+              mimetype: VOICE_NOTE_MIMETYPE,
+              ptt: true,
+              seconds: voiceNote.seconds,
+              waveform: voiceNote.waveform,
             };
           } else if (mediaMeta.mimetype.startsWith('audio/')) {
             messageContent = {
@@ -326,6 +963,9 @@ export class MessageSender {
           });
 
           await MediaMetaService.markPermanent(fileId);
+          if (sticker) {
+            await StickerRepository.recordUse(sticker.id);
+          }
 
         } catch (error) {
           console.error(`Failed to send file ${fileId} to group:`, error);
@@ -358,6 +998,60 @@ export class MessageSender {
     }
   }
 
+  /**
+   * Send in-memory content (buffers or text) without MediaMeta records.
+   * Used by the scheduler and bulk messaging.
+   */
+  async sendMessage(options: DirectSendOptions): Promise<SendResult> {
+    if (!this.socket) {
+      throw new Error('WhatsApp socket not available');
+    }
+
+    const jid = this.resolveJid(options.targetType, options.targetIdentifier);
+    let lastMessageId: string | undefined;
+
+    for (const file of options.files) {
+      let messageContent: any;
+      if (typeof file.buffer === 'string') {
+        messageContent = { text: file.buffer };
+      } else if (options.sendAsDocument) {
+        messageContent = {
+          document: file.buffer,
+          mimetype: file.mimetype,
+          fileName: file.filename,
+          caption: options.caption,
+        };
+      } else if (file.mimetype.startsWith('image/')) {
+        messageContent = { image: file.buffer, caption: options.caption, mimetype: file.mimetype };
+      } else if (file.mimetype.startsWith('video/')) {
+        messageContent = { video: file.buffer, caption: options.caption, mimetype: file.mimetype };
+      } else if (file.mimetype.startsWith('audio/')) {
+        messageContent = { audio: file.buffer, mimetype: file.mimetype };
+      } else {
+        messageContent = {
+          document: file.buffer,
+          mimetype: file.mimetype,
+          fileName: file.filename,
+          caption: options.caption,
+        };
+      }
+
+      const result = await this.socket.sendMessage(jid, messageContent);
+      lastMessageId = result?.key?.id || lastMessageId;
+    }
+
+    if (options.structured) {
+      const result = await this.socket.sendMessage(jid, this.buildStructuredMessage(options.structured));
+      lastMessageId = result?.key?.id || lastMessageId;
+    }
+
+    return {
+      success: true,
+      messageId: lastMessageId,
+      sentAt: new Date(),
+    };
+  }
+
   /**
    * Get contacts from WhatsApp
    */
@@ -404,6 +1098,59 @@ export class MessageSender {
     }
   }
 
+  /**
+   * Baileys content for a location pin, contact cards or a link
+   */
+  private buildStructuredMessage(content: StructuredContent): AnyMessageContent {
+    if (content.type === 'link') {
+      const { link } = content;
+      return {
+        text: buildLinkText(link),
+        // Without a title Baileys fetches the page and builds the preview with link-preview-js
+        ...(link.title && {
+          linkPreview: {
+            'canonical-url': link.url,
+            'matched-text': link.url,
+            title: link.title,
+            description: link.description,
+          },
+        }),
+      };
+    }
+
+    if (content.type === 'location') {
+      return {
+        location: {
+          degreesLatitude: content.location.latitude,
+          degreesLongitude: content.location.longitude,
+          name: content.location.name,
+          address: content.location.address,
+        },
+      };
+    }
+
+    return {
+      contacts: {
+        displayName: describeStructuredContent(content),
+        contacts: content.cards.map(card => ({
+          displayName: card.fullName,
+          vcard: buildVCard(card),
+        })),
+      },
+    };
+  }
+
+  /**
+   * Participant JIDs of a group, without our own account
+   */
+  private async getGroupParticipants(groupJid: string): Promise<string[]> {
+    const metadata = await this.socket.groupMetadata(groupJid);
+    const ownJid = this.socket.user?.id ? jidNormalizedUser(this.socket.user.id) : undefined;
+    return metadata.participants
+      .map((participant: { id: string }) => participant.id)
+      .filter((id: string) => id !== ownJid);
+  }
+
   /**
    * Format phone number for WhatsApp
    */
@@ -419,6 +1166,56 @@ export class MessageSender {
     return cleaned;
   }
 
+  /**
+   * Build Baileys options that restrict a status post to the resolved audience
+   */
+  private getStatusSendOptions(
+    options: Pick<SendOptions, 'statusJidList'>
+  ): MiscMessageGenerationOptions {
+    if (!options.statusJidList || options.statusJidList.length === 0) {
+      return {};
+    }
+
+    // Include our own JID so the post also shows up on the linked phone
+    const ownJid = this.socket.user?.id ? jidNormalizedUser(this.socket.user.id) : undefined;
+    const statusJidList = ownJid && !options.statusJidList.includes(ownJid)
+      ? [...options.statusJidList, ownJid]
+      : options.statusJidList;
+
+    return { statusJidList, broadcast: true };
+  }
+
+  /**
+   * Summarize the audience for send history
+   */
+  private describeAudience(
+    options: Pick<SendOptions, 'statusJidList' | 'audience'>
+  ): Record<string, unknown> | undefined {
+    if (!options.audience) {
+      return undefined;
+    }
+
+    return {
+      ...options.audience,
+      recipientsCount: options.statusJidList?.length || 0,
+    };
+  }
+
+  /**
+   * Resolve a target identifier to a WhatsApp JID
+   */
+  private resolveJid(targetType: 'status' | 'contact' | 'group', identifier: string): string {
+    if (targetType === 'status') {
+      return 'status@broadcast';
+    }
+    if (identifier.includes('@')) {
+      return identifier;
+    }
+    return targetType === 'group'
+      ? `${identifier}@g.us`
+      : `${this.formatPhoneNumber(identifier)}@s.whatsapp.net`;
+  }
+
   /**
    * Check if contact/group exists and is valid
    */
@@ -509,5 +1306,6 @@ export class MessageSender {
   cleanup(): void {
     this.reliabilityManager.destroy();
     this.protocolCompliance.destroy();
+    this.removeAllListeners();
   }
 }
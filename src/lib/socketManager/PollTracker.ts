@@ -0,0 +1,139 @@
+import {
+  jidNormalizedUser,
+  proto,
+  toNumber,
+  WAMessageUpdate,
+} from '@whiskeysockets/baileys';
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import type { Poll } from '@prisma/client';
+import { PollRepository } from '../db';
+
+export interface PollVoteEvent {
+  pollId: string;
+  messageId: string;
+  voterJid: string;
+  selectedOptions: string[]; // Empty when the voter withdrew their vote
+  votedAt: Date;
+}
+
+const MAX_CACHED_POLLS = 500;
+
+/**
+ * Records votes on polls we sent. Baileys decrypts incoming poll updates
+ * with the poll's message secret (served to it through `getMessage`) and
+ * re-emits them as `messages.update` on the poll message, with each vote
+ * as the SHA-256 hashes of the chosen option names.
+ */
+export class PollTracker extends EventEmitter {
+  // messageId -> poll, for polls we sent
+  private pollCache = new Map<string, Poll>();
+
+  /**
+   * Handle vote updates from `messages.update`
+   */
+  async handleMessageUpdates(updates: WAMessageUpdate[], ownJid?: string): Promise<void> {
+    for (const { key, update } of updates) {
+      if (!key.id || !update.pollUpdates?.length) {
+        continue;
+      }
+
+      try {
+        const poll = await this.findPoll(key.id);
+        if (!poll) {
+          continue;
+        }
+
+        for (const pollUpdate of update.pollUpdates) {
+          await this.recordVote(poll, pollUpdate, ownJid);
+        }
+      } catch (error) {
+        console.error('Failed to record poll vote:', error);
+      }
+    }
+  }
+
+  /**
+   * The poll creation message Baileys needs to decrypt votes on one of our
+   * polls; undefined for any other message
+   */
+  async getPollMessage(key: proto.IMessageKey): Promise<proto.IMessage | undefined> {
+    if (!key.id) {
+      return undefined;
+    }
+
+    const poll = await this.findPoll(key.id);
+    if (!poll) {
+      return undefined;
+    }
+
+    return {
+      messageContextInfo: {
+        messageSecret: Buffer.from(poll.messageSecret, 'base64'),
+      },
+      pollCreationMessage: {
+        name: poll.question,
+        options: PollRepository.getOptions(poll).map(optionName => ({ optionName })),
+        selectableOptionsCount: poll.selectableCount,
+      },
+    };
+  }
+
+  /**
+   * Hash WhatsApp identifies a poll option by in votes
+   */
+  static hashOption(name: string): string {
+    return crypto.createHash('sha256').update(Buffer.from(name, 'utf8')).digest('hex');
+  }
+
+  private async recordVote(poll: Poll, pollUpdate: proto.IPollUpdate, ownJid?: string): Promise<void> {
+    const voterKey = pollUpdate.pollUpdateMessageKey;
+    const voter = voterKey?.fromMe ? ownJid : voterKey?.participant || voterKey?.remoteJid;
+    if (!voter) {
+      return;
+    }
+
+    const optionsByHash = new Map(
+      PollRepository.getOptions(poll).map(name => [PollTracker.hashOption(name), name])
+    );
+    const selectedOptions = (pollUpdate.vote?.selectedOptions || [])
+      .map((hash: Uint8Array) => optionsByHash.get(Buffer.from(hash).toString('hex')))
+      .filter((name): name is string => name !== undefined);
+
+    const voterJid = jidNormalizedUser(voter);
+    const votedAt = pollUpdate.senderTimestampMs
+      ? new Date(toNumber(pollUpdate.senderTimestampMs))
+      : new Date();
+
+    const { changed } = await PollRepository.recordVote({
+      pollId: poll.id,
+      voterJid,
+      selectedOptions,
+      votedAt,
+    });
+
+    if (changed) {
+      const event: PollVoteEvent = { pollId: poll.id, messageId: poll.messageId, voterJid, selectedOptions, votedAt };
+      this.emit('poll_vote', event);
+    }
+  }
+
+  private async findPoll(messageId: string): Promise<Poll | null> {
+    const cached = this.pollCache.get(messageId);
+    if (cached) {
+      return cached;
+    }
+
+    const poll = await PollRepository.findByMessageId(messageId);
+
+    if (this.pollCache.size >= MAX_CACHED_POLLS) {
+      this.pollCache.clear();
+    }
+    // Only cache hits; most lookups are for messages that aren't our polls
+    if (poll) {
+      this.pollCache.set(messageId, poll);
+    }
+
+    return poll;
+  }
+}
@@ -149,7 +149,7 @@ export class ProtocolCompliance extends EventEmitter {
     if (!this.socket) return;
 
     // Monitor outgoing messages
-    this.socket.ev.on('message.upsert', (messageUpsert) => {
+    this.socket.ev.on('messages.upsert', (messageUpsert) => {
       // Track outgoing messages for rate limiting
       for (const message of messageUpsert.messages) {
         if (message.key.fromMe) {
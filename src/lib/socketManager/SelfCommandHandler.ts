@@ -0,0 +1,239 @@
+import {
+  getContentType,
+  isJidGroup,
+  jidNormalizedUser,
+  normalizeMessageContent,
+  toNumber,
+  WAMessage,
+  WASocket,
+} from '@whiskeysockets/baileys';
+import type { DownloadMediaMessageContext } from '@whiskeysockets/baileys';
+import { EventEmitter } from 'events';
+import { parseSelfCommand, SELF_COMMAND_HELP } from '../messaging/SelfCommands';
+import type { SelfCommand } from '../messaging/SelfCommands';
+import { getSecurityMonitor } from '../security/SecurityMonitor';
+import { InboundMessageStore } from './InboundMessageStore';
+import type { MessageSender } from './MessageSender';
+import type { SendTarget, SendTargetingManager } from './SendTargetingManager';
+
+export interface SelfCommandContext {
+  socket: WASocket;
+  sessionId: string;
+  messageSender: MessageSender;
+  sendTargetingManager: SendTargetingManager;
+  downloadContext: DownloadMediaMessageContext;
+}
+
+export interface SelfCommandEvent {
+  messageId: string;
+  command: SelfCommand['name'];
+  success: boolean;
+  reply: string;
+}
+
+// Commands delivered late (e.g. after a reconnect) are not run
+const MAX_COMMAND_AGE_MS = 10 * 60 * 1000;
+const MAX_TRACKED_MESSAGES = 200;
+const STATUS_MEDIA_TYPES = ['imageMessage', 'videoMessage'];
+
+const STATUS_TARGET: SendTarget = {
+  id: 'status@broadcast',
+  type: 'status',
+  name: 'My Status',
+  recipient: 'status@broadcast',
+  canSend: true,
+};
+
+/**
+ * Runs commands staff send to their own number from the phone, e.g.
+ * `/status` with a photo attached, and answers in the same chat. Only the
+ * linked account's own chat is listened to; every command run is audited.
+ */
+export class SelfCommandHandler extends EventEmitter {
+  private securityMonitor = getSecurityMonitor();
+  // Message IDs already handled, since upserts can repeat
+  private handledMessageIds = new Set<string>();
+
+  /**
+   * Handle new messages from `messages.upsert`
+   */
+  async handleUpsert(upsert: { messages: WAMessage[]; type: string }, context: SelfCommandContext): Promise<void> {
+    if (upsert.type !== 'notify') {
+      return;
+    }
+
+    const ownJids = [context.socket.user?.id, context.socket.user?.lid]
+      .filter((jid): jid is string => Boolean(jid))
+      .map(jid => jidNormalizedUser(jid));
+
+    for (const message of upsert.messages) {
+      try {
+        await this.handleMessage(message, ownJids, context);
+      } catch (error) {
+        console.error('Failed to run note-to-self command:', error);
+      }
+    }
+  }
+
+  private async handleMessage(message: WAMessage, ownJids: string[], context: SelfCommandContext): Promise<void> {
+    const { key } = message;
+    if (!key.id || !key.remoteJid || this.handledMessageIds.has(key.id)) {
+      return;
+    }
+
+    const content = normalizeMessageContent(message.message);
+    const contentType = content ? getContentType(content) : undefined;
+    if (!content || !contentType) {
+      return;
+    }
+
+    const text = content.conversation
+      || content.extendedTextMessage?.text
+      || content.imageMessage?.caption
+      || content.videoMessage?.caption
+      || '';
+    const command = parseSelfCommand(text);
+    if (!command) {
+      return;
+    }
+
+    const chatJid = jidNormalizedUser(key.remoteJid);
+    const isOwnChat = key.fromMe && ownJids.includes(chatJid);
+
+    if (!isOwnChat) {
+      // Someone else messaging us a command; our own commands in other chats are just messages
+      if (!key.fromMe && !isJidGroup(chatJid) && command.name !== 'invalid' && command.name !== 'help') {
+        await this.securityMonitor.logSecurityEvent({
+          type: 'authentication',
+          severity: 'medium',
+          source: 'SelfCommandHandler',
+          description: `Ignored /${command.name} command from another number`,
+          metadata: { senderJid: chatJid, messageId: key.id },
+        });
+      }
+      return;
+    }
+
+    this.trackHandled(key.id);
+
+    const sentAt = message.messageTimestamp ? toNumber(message.messageTimestamp) * 1000 : Date.now();
+    if (Date.now() - sentAt > MAX_COMMAND_AGE_MS) {
+      return;
+    }
+
+    const mediaMessage = STATUS_MEDIA_TYPES.includes(contentType) ? message : undefined;
+    let success: boolean;
+    let reply: string;
+    try {
+      ({ success, reply } = await this.runCommand(command, mediaMessage, context));
+    } catch (error) {
+      success = false;
+      reply = `Command failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+    }
+
+    await this.securityMonitor.logSecurityEvent({
+      type: 'audit',
+      severity: 'low',
+      source: 'SelfCommandHandler',
+      description: `Note-to-self command /${command.name} ${success ? 'ran' : 'failed'}`,
+      metadata: {
+        messageId: key.id,
+        command: command.name,
+        success,
+        reply,
+        hasMedia: Boolean(mediaMessage),
+        sessionId: context.sessionId,
+      },
+    });
+
+    await context.socket.sendMessage(key.remoteJid, { text: reply }, { quoted: message });
+
+    const event: SelfCommandEvent = { messageId: key.id, command: command.name, success, reply };
+    this.emit('self_command', event);
+  }
+
+  /**
+   * Run a command; the reply is the confirmation or error sent back.
+   * Throws when media can't be fetched or the send fails outright.
+   */
+  private async runCommand(
+    command: SelfCommand,
+    mediaMessage: WAMessage | undefined,
+    context: SelfCommandContext
+  ): Promise<{ success: boolean; reply: string }> {
+    switch (command.name) {
+      case 'help':
+        return { success: true, reply: SELF_COMMAND_HELP };
+
+      case 'invalid':
+        return { success: false, reply: `${command.error}\n\n${SELF_COMMAND_HELP}` };
+
+      case 'status': {
+        let result;
+        if (mediaMessage) {
+          const media = await this.storeMedia(mediaMessage, context);
+          result = await context.messageSender.sendToStatus({
+            sessionId: context.sessionId,
+            targetType: 'status',
+            files: [media.id],
+            caption: command.caption,
+          });
+        } else if (command.caption) {
+          result = await context.messageSender.sendToStatus({
+            sessionId: context.sessionId,
+            targetType: 'status',
+            files: [],
+            text: { text: command.caption },
+          });
+        } else {
+          return { success: false, reply: 'Attach a photo or video, or add text after /status.' };
+        }
+
+        return result.success
+          ? { success: true, reply: 'Posted to your status.' }
+          : { success: false, reply: `Status post failed: ${result.error || 'Unknown error'}` };
+      }
+
+      case 'schedule': {
+        if (!mediaMessage) {
+          return { success: false, reply: 'Attach a photo or video to schedule a status post.' };
+        }
+
+        const media = await this.storeMedia(mediaMessage, context);
+        const scheduled = await context.sendTargetingManager.scheduleSend(
+          [STATUS_TARGET],
+          [media.id],
+          command.runAt,
+          { caption: command.caption }
+        );
+        return {
+          success: true,
+          reply: `Status post scheduled for ${scheduled.scheduledTime.toLocaleString()}.`,
+        };
+      }
+    }
+  }
+
+  /**
+   * Store command media as temporary: the status post's send history or the
+   * schedule references it, and cleanup removes it once they let go
+   */
+  private async storeMedia(message: WAMessage, context: SelfCommandContext) {
+    const content = normalizeMessageContent(message.message);
+    const mimetype = content?.imageMessage?.mimetype || content?.videoMessage?.mimetype
+      || (content?.videoMessage ? 'video/mp4' : 'image/jpeg');
+
+    return InboundMessageStore.storeMedia(message, mimetype, context.downloadContext, {
+      filename: `${message.key.id}_command`,
+      originalName: `status-${message.key.id}`,
+      isTemporary: true,
+    });
+  }
+
+  private trackHandled(messageId: string): void {
+    if (this.handledMessageIds.size >= MAX_TRACKED_MESSAGES) {
+      this.handledMessageIds.clear();
+    }
+    this.handledMessageIds.add(messageId);
+  }
+}
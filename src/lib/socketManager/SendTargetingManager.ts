@@ -1,6 +1,12 @@
 import { WASocket } from '@whiskeysockets/baileys';
 import { ContactInfo, GroupInfo } from './ContactManager';
 import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { RecurrenceRule, getNextOccurrence } from '../messaging/Recurrence';
+import { StatusAudience, StatusAudienceResolver } from './StatusAudienceResolver';
+import type { SendOptions } from './MessageSender';
+import { BroadcastListRepository, ScheduledSendRepository } from '../db';
+import type { BroadcastListWithMembers } from '../db';
 
 export interface SendTarget {
   id: string;
@@ -12,24 +18,28 @@ export interface SendTarget {
   metadata?: any;
 }
 
-export interface BroadcastList {
-  id: string;
-  name: string;
-  description?: string;
-  recipients: SendTarget[];
-  createdAt: Date;
-  updatedAt: Date;
-  isActive: boolean;
-}
+/**
+ * What to do with a run whose time passed while the app was down:
+ * fire it now, skip it silently, or record it as missed
+ */
+export type MissedRunPolicy = 'fire' | 'skip' | 'mark_missed';
+
+export const DEFAULT_MISSED_RUN_POLICY: MissedRunPolicy = 'mark_missed';
 
 export interface ScheduledSend {
   id: string;
   targets: SendTarget[];
   files: string[]; // File IDs or paths
   caption?: string;
-  scheduledTime: Date;
+  scheduledTime: Date; // Next run for recurring sends
   intervalBetween?: number; // milliseconds between sends
-  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  recurrence?: RecurrenceRule;
+  audience?: StatusAudience; // Status targets only; re-resolved on every run
+  missedRunPolicy: MissedRunPolicy;
+  runCount: number;
+  lastRunAt?: Date;
+  lastRunStatus?: 'completed' | 'failed' | 'missed' | 'skipped';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled' | 'missed';
   createdAt: Date;
   processedAt?: Date;
   completedAt?: Date;
@@ -55,6 +65,8 @@ export interface MultiSendOptions {
   confirmBeforeSend?: boolean;
   retryFailures?: boolean;
   maxRetries?: number;
+  statusJidList?: string[]; // Status targets only
+  audience?: StatusAudience;
 }
 
 export interface MultiSendResult {
@@ -68,17 +80,34 @@ export interface MultiSendResult {
   endTime: Date;
 }
 
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Runs this late are still treated as on time when rehydrating
+const MISSED_RUN_GRACE_MS = 60 * 1000;
+
+// A run's lease is renewed every third of this while it is in progress, so
+// a run whose lease lapsed belongs to a process that stopped
+const RUN_LEASE_MS = 2 * 60 * 1000;
+
 export class SendTargetingManager extends EventEmitter {
   private socket: WASocket;
-  private broadcastLists: Map<string, BroadcastList> = new Map();
-  private scheduledSends: Map<string, ScheduledSend> = new Map();
   private activeMultiSends: Set<string> = new Set();
+  private scheduleTimers: Map<string, NodeJS.Timeout> = new Map();
+  private runningSchedules: Set<string> = new Set();
+  private readonly leaseOwner = crypto.randomUUID();
 
   constructor(socket: WASocket) {
     super();
     this.socket = socket;
   }
 
+  /**
+   * Update the socket after a reconnect
+   */
+  setSocket(socket: WASocket): void {
+    this.socket = socket;
+  }
+
   /**
    * Create send confirmation dialog data
    */
@@ -178,7 +207,7 @@ export class SendTargetingManager extends EventEmitter {
           }
 
           // Send to target
-          const messageId = await this.sendToTarget(target, options.files, options.caption, options.sendAsDocument);
+          const messageId = await this.sendToTarget(target, options);
           
           result.successful.push({
             target,
@@ -229,76 +258,17 @@ export class SendTargetingManager extends EventEmitter {
     }
   }
 
-  /**
-   * Create broadcast list
-   */
-  async createBroadcastList(name: string, recipients: SendTarget[], description?: string): Promise<BroadcastList> {
-    const broadcastList: BroadcastList = {
-      id: crypto.randomUUID(),
-      name,
-      description,
-      recipients,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      isActive: true,
-    };
-
-    this.broadcastLists.set(broadcastList.id, broadcastList);
-    this.emit('broadcast_list_created', broadcastList);
-
-    return broadcastList;
-  }
-
-  /**
-   * Update broadcast list
-   */
-  async updateBroadcastList(id: string, updates: Partial<BroadcastList>): Promise<BroadcastList | null> {
-    const list = this.broadcastLists.get(id);
-    if (!list) return null;
-
-    const updated = {
-      ...list,
-      ...updates,
-      updatedAt: new Date(),
-    };
-
-    this.broadcastLists.set(id, updated);
-    this.emit('broadcast_list_updated', updated);
-
-    return updated;
-  }
-
-  /**
-   * Delete broadcast list
-   */
-  async deleteBroadcastList(id: string): Promise<boolean> {
-    const deleted = this.broadcastLists.delete(id);
-    if (deleted) {
-      this.emit('broadcast_list_deleted', id);
-    }
-    return deleted;
-  }
-
-  /**
-   * Get broadcast lists
-   */
-  getBroadcastLists(): BroadcastList[] {
-    return Array.from(this.broadcastLists.values())
-      .filter(list => list.isActive)
-      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
-  }
-
   /**
    * Send to broadcast list
    */
   async sendToBroadcastList(listId: string, files: string[], caption?: string): Promise<MultiSendResult> {
-    const list = this.broadcastLists.get(listId);
-    if (!list) {
+    const list = await BroadcastListRepository.findById(listId);
+    if (!list || !list.isActive) {
       throw new Error('Broadcast list not found');
     }
 
     return this.sendToMultiple({
-      targets: list.recipients,
+      targets: this.broadcastListToTargets(list),
       files,
       caption,
       intervalBetween: 2000, // 2 second interval for broadcast
@@ -309,39 +279,48 @@ export class SendTargetingManager extends EventEmitter {
   }
 
   /**
-   * Schedule send
+   * Schedule send. Recurring sends start at the given time (or the first
+   * occurrence of the rule when omitted) and repeat until the rule ends.
+   * Schedules are stored in the database so they survive restarts.
    */
   async scheduleSend(
     targets: SendTarget[],
     files: string[],
-    scheduledTime: Date,
+    scheduledTime: Date | null,
     options: {
       caption?: string;
       intervalBetween?: number;
+      recurrence?: RecurrenceRule;
+      audience?: StatusAudience;
+      missedRunPolicy?: MissedRunPolicy;
     } = {}
   ): Promise<ScheduledSend> {
-    if (scheduledTime <= new Date()) {
+    const firstRun = scheduledTime
+      ?? (options.recurrence ? getNextOccurrence(options.recurrence, new Date()) : null);
+
+    if (!firstRun) {
+      throw new Error(options.recurrence
+        ? 'Recurrence has no occurrences before its end date'
+        : 'Scheduled time is required');
+    }
+
+    if (firstRun <= new Date()) {
       throw new Error('Scheduled time must be in the future');
     }
 
-    const scheduledSend: ScheduledSend = {
-      id: crypto.randomUUID(),
+    const row = await ScheduledSendRepository.create({
       targets,
       files,
       caption: options.caption,
-      scheduledTime,
+      scheduledTime: firstRun,
       intervalBetween: options.intervalBetween,
-      status: 'pending',
-      createdAt: new Date(),
-    };
-
-    this.scheduledSends.set(scheduledSend.id, scheduledSend);
+      recurrence: options.recurrence,
+      audience: options.audience,
+      missedRunPolicy: options.missedRunPolicy || DEFAULT_MISSED_RUN_POLICY,
+    });
 
-    // Schedule the actual send
-    const delay = scheduledTime.getTime() - Date.now();
-    setTimeout(async () => {
-      await this.executeScheduledSend(scheduledSend.id);
-    }, delay);
+    const scheduledSend = ScheduledSendRepository.toScheduledSend(row);
+    this.armScheduledSend(scheduledSend);
 
     this.emit('send_scheduled', scheduledSend);
     return scheduledSend;
@@ -351,13 +330,12 @@ export class SendTargetingManager extends EventEmitter {
    * Cancel scheduled send
    */
   async cancelScheduledSend(id: string): Promise<boolean> {
-    const scheduledSend = this.scheduledSends.get(id);
-    if (!scheduledSend || scheduledSend.status !== 'pending') {
+    const cancelled = await ScheduledSendRepository.cancel(id);
+    if (!cancelled) {
       return false;
     }
 
-    scheduledSend.status = 'cancelled';
-    this.scheduledSends.set(id, scheduledSend);
+    this.clearScheduleTimer(id);
 
     this.emit('send_cancelled', id);
     return true;
@@ -366,10 +344,60 @@ export class SendTargetingManager extends EventEmitter {
   /**
    * Get scheduled sends
    */
-  getScheduledSends(status?: ScheduledSend['status']): ScheduledSend[] {
-    return Array.from(this.scheduledSends.values())
-      .filter(send => !status || send.status === status)
-      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  async getScheduledSends(status?: ScheduledSend['status']): Promise<ScheduledSend[]> {
+    const rows = await ScheduledSendRepository.findMany(status);
+    return rows.map(row => ScheduledSendRepository.toScheduledSend(row));
+  }
+
+  /**
+   * Arm timers for stored schedules after a restart and apply each
+   * schedule's missed-run policy to runs that came due while we were down
+   */
+  async rehydrateScheduledSends(): Promise<{ armed: number; missed: number }> {
+    const now = Date.now();
+    let armed = 0;
+    let missed = 0;
+
+    for (const row of await ScheduledSendRepository.findActive()) {
+      const scheduledSend = ScheduledSendRepository.toScheduledSend(row);
+
+      // Runs with a live lease are still going here or in another process.
+      // One whose process died cannot be resumed safely.
+      if (scheduledSend.status === 'processing') {
+        if (
+          !this.runningSchedules.has(scheduledSend.id) &&
+          await ScheduledSendRepository.takeOverExpired(scheduledSend.id, this.leaseOwner)
+        ) {
+          await this.finishRun(scheduledSend, 'failed', ['Interrupted: the process running it stopped']);
+        }
+        continue;
+      }
+
+      if (scheduledSend.scheduledTime.getTime() >= now - MISSED_RUN_GRACE_MS) {
+        this.armScheduledSend(scheduledSend);
+        armed++;
+        continue;
+      }
+
+      missed++;
+      await this.handleMissedRun(scheduledSend);
+    }
+
+    this.emit('scheduled_sends_rehydrated', { armed, missed });
+    return { armed, missed };
+  }
+
+  /**
+   * Convert broadcast list members to send targets
+   */
+  broadcastListToTargets(list: BroadcastListWithMembers): SendTarget[] {
+    return list.members.map(member => ({
+      id: member.jid,
+      type: member.type === 'group' ? 'group' as const : 'contact' as const,
+      name: member.name || member.jid.split('@')[0],
+      recipient: member.jid,
+      canSend: true,
+    }));
   }
 
   /**
@@ -405,46 +433,63 @@ export class SendTargetingManager extends EventEmitter {
   /**
    * Get send statistics
    */
-  getSendStatistics() {
-    const now = new Date();
-    const scheduledSends = Array.from(this.scheduledSends.values());
+  async getSendStatistics() {
+    const scheduleStats = await ScheduledSendRepository.getStatistics();
 
     return {
-      broadcastLists: this.broadcastLists.size,
-      activeScheduledSends: scheduledSends.filter(s => s.status === 'pending').length,
-      completedScheduledSends: scheduledSends.filter(s => s.status === 'completed').length,
-      failedScheduledSends: scheduledSends.filter(s => s.status === 'failed').length,
-      upcomingScheduledSends: scheduledSends.filter(s => 
-        s.status === 'pending' && s.scheduledTime > now
-      ).length,
+      broadcastLists: await BroadcastListRepository.count(),
+      activeScheduledSends: scheduleStats.pending,
+      completedScheduledSends: scheduleStats.completed,
+      failedScheduledSends: scheduleStats.failed,
+      missedScheduledSends: scheduleStats.missed,
+      upcomingScheduledSends: scheduleStats.upcoming,
       activeMultiSends: this.activeMultiSends.size,
     };
   }
 
+  /**
+   * Stop all pending schedule timers
+   */
+  cleanup(): void {
+    for (const timer of this.scheduleTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.scheduleTimers.clear();
+  }
+
   /**
    * Private helper methods
    */
-  private async sendToTarget(
-    target: SendTarget,
-    files: string[],
-    caption?: string,
-    sendAsDocument?: boolean
-  ): Promise<string> {
-    // This would integrate with your MessageSender
-    // For now, simulate the send
-    const { MessageSender } = await import('./MessageSender');
-    const messageSender = new MessageSender(this.socket);
-
-    const sendOptions = {
-      sessionId: 'current', // Would get from session manager
-      targetType: target.type,
-      targetId: target.recipient,
-      files,
-      caption,
-      sendAsDocument,
+  private async sendToTarget(target: SendTarget, options: MultiSendOptions): Promise<string> {
+    // Send through the manager's shared sender so history rows belong to the active session
+    const { getBaileysManager } = await import('./BaileysManager');
+    const baileysManager = getBaileysManager();
+    const sessionId = baileysManager.getSessionId();
+    if (!sessionId) {
+      throw new Error('No active WhatsApp session');
+    }
+    const messageSender = baileysManager.getMessageSender();
+
+    const sendOptions: SendOptions = {
+      sessionId,
+      targetType: target.type === 'status' || target.type === 'group' ? target.type : 'contact',
+      targetIdentifier: target.recipient,
+      files: options.files,
+      caption: options.caption,
     };
 
-    const result = await messageSender.sendToTarget(sendOptions as any);
+    let result;
+    if (sendOptions.targetType === 'status') {
+      result = await messageSender.sendToStatus({
+        ...sendOptions,
+        statusJidList: options.statusJidList,
+        audience: options.audience,
+      });
+    } else if (sendOptions.targetType === 'group') {
+      result = await messageSender.sendToGroup(sendOptions);
+    } else {
+      result = await messageSender.sendToContact(sendOptions);
+    }
     
     if (!result.success) {
       throw new Error(result.error || 'Failed to send message');
@@ -453,42 +498,179 @@ export class SendTargetingManager extends EventEmitter {
     return result.messageId || crypto.randomUUID();
   }
 
-  private async executeScheduledSend(id: string): Promise<void> {
-    const scheduledSend = this.scheduledSends.get(id);
-    if (!scheduledSend || scheduledSend.status !== 'pending') {
-      return;
+  private armScheduledSend(scheduledSend: ScheduledSend): void {
+    this.clearScheduleTimer(scheduledSend.id);
+
+    // setTimeout overflows past ~24.8 days, so long waits are re-armed in steps
+    const delay = scheduledSend.scheduledTime.getTime() - Date.now();
+    const timer = setTimeout(async () => {
+      this.scheduleTimers.delete(scheduledSend.id);
+      if (delay > MAX_TIMER_DELAY) {
+        this.armScheduledSend(scheduledSend);
+      } else {
+        await this.executeScheduledSend(scheduledSend.id);
+      }
+    }, Math.max(0, Math.min(delay, MAX_TIMER_DELAY)));
+
+    this.scheduleTimers.set(scheduledSend.id, timer);
+  }
+
+  private clearScheduleTimer(id: string): void {
+    const timer = this.scheduleTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.scheduleTimers.delete(id);
     }
+  }
 
-    scheduledSend.status = 'processing';
-    scheduledSend.processedAt = new Date();
-    this.scheduledSends.set(id, scheduledSend);
+  private async handleMissedRun(scheduledSend: ScheduledSend): Promise<void> {
+    switch (scheduledSend.missedRunPolicy) {
+      case 'fire':
+        this.armScheduledSend({ ...scheduledSend, scheduledTime: new Date() });
+        break;
+      case 'skip':
+        // Skipped runs do not count towards maxRuns
+        if (!(await this.rescheduleRecurring(scheduledSend))) {
+          await ScheduledSendRepository.update(scheduledSend.id, {
+            status: 'cancelled',
+            lastRunStatus: 'skipped',
+            completedAt: new Date(),
+          });
+        }
+        break;
+      default:
+        scheduledSend.runCount++;
+        await this.finishRun(scheduledSend, 'missed', [
+          `Missed run scheduled for ${scheduledSend.scheduledTime.toISOString()}`,
+        ]);
+    }
 
-    try {
-      const result = await this.sendToMultiple({
-        targets: scheduledSend.targets,
-        files: scheduledSend.files,
-        caption: scheduledSend.caption,
-        intervalBetween: scheduledSend.intervalBetween,
-        retryFailures: true,
-      });
+    this.emit('scheduled_send_missed', {
+      id: scheduledSend.id,
+      scheduledTime: scheduledSend.scheduledTime,
+      policy: scheduledSend.missedRunPolicy,
+    });
+  }
 
-      scheduledSend.status = result.failed.length === 0 ? 'completed' : 'failed';
-      scheduledSend.completedAt = new Date();
-      
-      if (result.failed.length > 0) {
-        scheduledSend.errors = result.failed.map(f => f.error);
+  /**
+   * Record the outcome of a run, then move recurring sends on to their next occurrence
+   */
+  private async finishRun(
+    scheduledSend: ScheduledSend,
+    outcome: 'completed' | 'failed' | 'missed',
+    errors?: string[]
+  ): Promise<void> {
+    scheduledSend.lastRunStatus = outcome;
+    scheduledSend.completedAt = new Date();
+
+    // A failed or missed occurrence does not stop later ones. The row only
+    // takes a finished status (which releases its media) once none are left.
+    const nextRun = this.getNextRun(scheduledSend);
+
+    await ScheduledSendRepository.update(scheduledSend.id, {
+      status: nextRun ? 'pending' : outcome,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      ...(nextRun && { scheduledTime: nextRun }),
+      runCount: scheduledSend.runCount,
+      lastRunStatus: outcome,
+      errors: errors && errors.length > 0 ? errors : null,
+      completedAt: scheduledSend.completedAt,
+    });
+
+    if (nextRun) {
+      this.armNextRun(scheduledSend, nextRun);
+    }
+  }
+
+  /**
+   * Move a recurring send on to its next occurrence; returns false once the rule has ended
+   */
+  private async rescheduleRecurring(scheduledSend: ScheduledSend): Promise<boolean> {
+    const nextRun = this.getNextRun(scheduledSend);
+    if (!nextRun) {
+      return false;
+    }
+
+    await ScheduledSendRepository.update(scheduledSend.id, { status: 'pending', scheduledTime: nextRun });
+    this.armNextRun(scheduledSend, nextRun);
+    return true;
+  }
+
+  private getNextRun(scheduledSend: ScheduledSend): Date | null {
+    if (!scheduledSend.recurrence) {
+      return null;
+    }
+    return getNextOccurrence(scheduledSend.recurrence, new Date(), scheduledSend.runCount);
+  }
+
+  private armNextRun(scheduledSend: ScheduledSend, nextRun: Date): void {
+    scheduledSend.status = 'pending';
+    scheduledSend.scheduledTime = nextRun;
+    this.armScheduledSend(scheduledSend);
+
+    this.emit('scheduled_send_rescheduled', { id: scheduledSend.id, nextRun, runCount: scheduledSend.runCount });
+  }
+
+  private async executeScheduledSend(id: string): Promise<void> {
+    let heartbeat: NodeJS.Timeout | undefined;
+
+    try {
+      // Claim the run so a second process or a cancelled schedule does not send
+      if (!(await ScheduledSendRepository.claim(id, this.leaseOwner, RUN_LEASE_MS))) {
+        return;
+      }
+      this.runningSchedules.add(id);
+      heartbeat = setInterval(() => {
+        ScheduledSendRepository.renewLease(id, this.leaseOwner, RUN_LEASE_MS)
+          .catch(error => console.warn(`Failed to renew the lease of scheduled send ${id}:`, error));
+      }, RUN_LEASE_MS / 3);
+
+      const row = await ScheduledSendRepository.findById(id);
+      if (!row) {
+        return;
       }
 
-      this.scheduledSends.set(id, scheduledSend);
-      this.emit('scheduled_send_completed', { id, result });
+      const scheduledSend = ScheduledSendRepository.toScheduledSend(row);
+      scheduledSend.runCount++;
+      scheduledSend.lastRunAt = scheduledSend.processedAt;
+      await ScheduledSendRepository.update(id, {
+        runCount: scheduledSend.runCount,
+        lastRunAt: scheduledSend.lastRunAt,
+      });
 
+      try {
+        // Resolve the audience per run so contact changes between occurrences are picked up
+        const statusJidList = scheduledSend.audience
+          ? await new StatusAudienceResolver().resolve(scheduledSend.audience)
+          : undefined;
+
+        const result = await this.sendToMultiple({
+          targets: scheduledSend.targets,
+          files: scheduledSend.files,
+          caption: scheduledSend.caption,
+          intervalBetween: scheduledSend.intervalBetween,
+          retryFailures: true,
+          statusJidList,
+          audience: scheduledSend.audience,
+        });
+
+        await this.finishRun(
+          scheduledSend,
+          result.failed.length === 0 ? 'completed' : 'failed',
+          result.failed.map(f => f.error)
+        );
+        this.emit('scheduled_send_completed', { id, result });
+
+      } catch (error) {
+        await this.finishRun(scheduledSend, 'failed', [error instanceof Error ? error.message : 'Unknown error']);
+        this.emit('scheduled_send_failed', { id, error });
+      }
     } catch (error) {
-      scheduledSend.status = 'failed';
-      scheduledSend.completedAt = new Date();
-      scheduledSend.errors = [error instanceof Error ? error.message : 'Unknown error'];
-      
-      this.scheduledSends.set(id, scheduledSend);
-      this.emit('scheduled_send_failed', { id, error });
+      console.error(`Failed to run scheduled send ${id}:`, error);
+    } finally {
+      clearInterval(heartbeat);
+      this.runningSchedules.delete(id);
     }
   }
 }
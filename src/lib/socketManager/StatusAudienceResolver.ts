@@ -0,0 +1,157 @@
+import { BroadcastListRepository, ContactRepository, StatusAudiencePresetRepository } from '../db';
+import type { StatusAudienceMode } from '../db';
+
+export interface StatusAudience {
+  mode: StatusAudienceMode;
+  broadcastListId?: string; // For 'broadcast_list'
+  excludedJids?: string[]; // For 'except'
+  presetId?: string; // Preset the audience was loaded from, if any
+}
+
+export const STATUS_AUDIENCE_MODES: StatusAudienceMode[] = ['all_contacts', 'favorites', 'broadcast_list', 'except'];
+
+/**
+ * Check audience fields from request input; returns an error message or null.
+ * `mode` may be left out when only updating other fields of a preset.
+ */
+export function validateStatusAudience(input: {
+  mode?: unknown;
+  broadcastListId?: unknown;
+  excludedJids?: unknown;
+}, options: { requireMode?: boolean } = {}): string | null {
+  if (input.mode === undefined && options.requireMode) {
+    return 'mode is required';
+  }
+  if (input.mode !== undefined && !STATUS_AUDIENCE_MODES.includes(input.mode as StatusAudienceMode)) {
+    return `mode must be one of: ${STATUS_AUDIENCE_MODES.join(', ')}`;
+  }
+  if (input.broadcastListId !== undefined && input.broadcastListId !== null && typeof input.broadcastListId !== 'string') {
+    return 'broadcastListId must be a string';
+  }
+  if (input.mode === 'broadcast_list' && !input.broadcastListId) {
+    return 'broadcastListId is required for broadcast_list mode';
+  }
+  if (input.excludedJids !== undefined && (
+    !Array.isArray(input.excludedJids) ||
+    input.excludedJids.some(jid => typeof jid !== 'string')
+  )) {
+    return 'excludedJids must be an array of JIDs';
+  }
+  return null;
+}
+
+/**
+ * Validate an inline audience from request input; throws with a user-facing message
+ */
+export function parseStatusAudience(value: unknown): StatusAudience {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error('audience must be an object');
+  }
+
+  const input = value as Record<string, unknown>;
+  const error = validateStatusAudience(input, { requireMode: true });
+  if (error) {
+    throw new Error(error);
+  }
+
+  return {
+    mode: input.mode as StatusAudienceMode,
+    broadcastListId: (input.broadcastListId as string | null | undefined) || undefined,
+    excludedJids: input.excludedJids as string[] | undefined,
+  };
+}
+
+/**
+ * Resolves a status audience (all contacts, favorites, a broadcast list or
+ * everyone except an exclusion list) into the JID list passed to Baileys as
+ * `statusJidList`.
+ */
+export class StatusAudienceResolver {
+  /**
+   * Load an audience from a saved preset
+   */
+  async fromPreset(presetId: string): Promise<StatusAudience> {
+    const preset = await StatusAudiencePresetRepository.findById(presetId);
+    if (!preset) {
+      throw new Error(`Audience preset not found: ${presetId}`);
+    }
+
+    return {
+      mode: preset.mode as StatusAudienceMode,
+      broadcastListId: preset.broadcastListId || undefined,
+      excludedJids: StatusAudiencePresetRepository.getExcludedJids(preset),
+      presetId: preset.id,
+    };
+  }
+
+  /**
+   * Resolve an audience into a de-duplicated list of contact JIDs
+   */
+  async resolve(audience: StatusAudience): Promise<string[]> {
+    let jids: string[];
+
+    switch (audience.mode) {
+      case 'all_contacts':
+        jids = await this.getContactJids(false);
+        break;
+      case 'favorites':
+        jids = await this.getContactJids(true);
+        break;
+      case 'except': {
+        const excluded = new Set(audience.excludedJids || []);
+        jids = (await this.getContactJids(false)).filter(jid => !excluded.has(jid));
+        break;
+      }
+      case 'broadcast_list':
+        jids = await this.getBroadcastListJids(audience.broadcastListId);
+        break;
+      default:
+        throw new Error(`Unknown audience mode: ${audience.mode}`);
+    }
+
+    const unique = [...new Set(jids)];
+    if (unique.length === 0) {
+      throw new Error('Selected audience does not contain any contacts');
+    }
+
+    return unique;
+  }
+
+  /**
+   * Resolve an audience recorded in send history (JSON); posts made without
+   * an explicit audience resolve to undefined (phone privacy settings)
+   */
+  async resolveStored(storedAudience: string | null): Promise<string[] | undefined> {
+    if (!storedAudience) {
+      return undefined;
+    }
+
+    return this.resolve(JSON.parse(storedAudience) as StatusAudience);
+  }
+
+  private async getContactJids(favoritesOnly: boolean): Promise<string[]> {
+    const contacts = await ContactRepository.findAll({
+      isActive: true,
+      ...(favoritesOnly && { isFavorite: true }),
+    });
+
+    return contacts
+      .filter(contact => !contact.isBlocked && contact.id.endsWith('@s.whatsapp.net'))
+      .map(contact => contact.id);
+  }
+
+  private async getBroadcastListJids(listId?: string): Promise<string[]> {
+    if (!listId) {
+      throw new Error('broadcastListId is required for broadcast_list audience');
+    }
+
+    const list = await BroadcastListRepository.findById(listId);
+    if (!list || !list.isActive) {
+      throw new Error(`Broadcast list not found: ${listId}`);
+    }
+
+    return list.members
+      .filter(member => member.type === 'contact')
+      .map(member => member.jid);
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  jidNormalizedUser,
+  proto,
+  toNumber,
+  MessageUserReceiptUpdate,
+  WAMessageUpdate,
+} from '@whiskeysockets/baileys';
+import { EventEmitter } from 'events';
+import { SendHistoryService, StatusViewRepository } from '../db';
+
+export interface StatusViewEvent {
+  sendHistoryId: string;
+  messageId: string;
+  viewerJid: string;
+  viewedAt: Date;
+}
+
+const STATUS_JID = 'status@broadcast';
+const MAX_CACHED_MESSAGES = 1000;
+
+/**
+ * Records who viewed our status posts. WhatsApp reports each viewer as a
+ * read receipt on the status@broadcast message, which Baileys surfaces as
+ * `message-receipt.update` (and, on some versions, `messages.update` with
+ * the viewer as key participant).
+ */
+export class StatusViewTracker extends EventEmitter {
+  // messageId -> sendHistoryId of our posts
+  private postCache = new Map<string, string>();
+
+  /**
+   * Handle per-user receipts from `message-receipt.update`
+   */
+  async handleReceipts(updates: MessageUserReceiptUpdate[]): Promise<void> {
+    for (const { key, receipt } of updates) {
+      const viewedAt = receipt.readTimestamp || receipt.playedTimestamp;
+      if (!this.isOwnStatus(key) || !receipt.userJid || !viewedAt) {
+        continue;
+      }
+
+      await this.recordView(key.id!, receipt.userJid, new Date(toNumber(viewedAt) * 1000));
+    }
+  }
+
+  /**
+   * Handle status changes from `messages.update`
+   */
+  async handleMessageUpdates(updates: WAMessageUpdate[]): Promise<void> {
+    for (const { key, update } of updates) {
+      if (
+        !this.isOwnStatus(key) ||
+        !key.participant ||
+        (update.status ?? 0) < proto.WebMessageInfo.Status.READ
+      ) {
+        continue;
+      }
+
+      await this.recordView(key.id!, key.participant, new Date());
+    }
+  }
+
+  private isOwnStatus(key: proto.IMessageKey): boolean {
+    return key.remoteJid === STATUS_JID && Boolean(key.fromMe) && Boolean(key.id);
+  }
+
+  private async recordView(messageId: string, viewerJid: string, viewedAt: Date): Promise<void> {
+    try {
+      const sendHistoryId = await this.findSendHistoryId(messageId);
+      if (!sendHistoryId) {
+        return;
+      }
+
+      const normalizedJid = jidNormalizedUser(viewerJid);
+      const { isNew } = await StatusViewRepository.recordView({
+        sendHistoryId,
+        messageId,
+        viewerJid: normalizedJid,
+        viewedAt,
+      });
+
+      if (isNew) {
+        const event: StatusViewEvent = { sendHistoryId, messageId, viewerJid: normalizedJid, viewedAt };
+        this.emit('status_viewed', event);
+      }
+    } catch (error) {
+      console.error('Failed to record status view:', error);
+    }
+  }
+
+  private async findSendHistoryId(messageId: string): Promise<string | null> {
+    const cached = this.postCache.get(messageId);
+    if (cached) {
+      return cached;
+    }
+
+    const history = await SendHistoryService.findByStatusMessageId(messageId);
+    const sendHistoryId = history?.id ?? null;
+
+    if (this.postCache.size >= MAX_CACHED_MESSAGES) {
+      this.postCache.clear();
+    }
+    // Only cache hits; a miss may be a post whose history row is still being written
+    if (sendHistoryId) {
+      this.postCache.set(messageId, sendHistoryId);
+    }
+
+    return sendHistoryId;
+  }
+}
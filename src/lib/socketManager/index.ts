@@ -2,12 +2,24 @@ export { BaileysManager, getBaileysManager } from './BaileysManager';
 export { MessageSender } from './MessageSender';
 export { ContactManager } from './ContactManager';
 export { SendTargetingManager } from './SendTargetingManager';
+export { StatusViewTracker } from './StatusViewTracker';
+export { PollTracker } from './PollTracker';
+export { InboundMessageStore } from './InboundMessageStore';
+export { AutoResponder } from './AutoResponder';
+export { SelfCommandHandler } from './SelfCommandHandler';
 
 export type { ConnectionStatus } from './BaileysManager';
 export type { 
   SendOptions, 
   SendResult, 
-  MessageType 
+  MessageType,
+  TextStatusContent,
+  StatusFont,
+  StatusStoryItem,
+  StatusRevokedEvent,
+  TextSendOptions,
+  PollSendOptions,
+  StructuredSendOptions
 } from './MessageSender';
 
 export type {
@@ -19,9 +31,19 @@ export type {
 
 export type {
   SendTarget,
-  BroadcastList,
   ScheduledSend,
   SendConfirmation,
   MultiSendOptions,
   MultiSendResult
 } from './SendTargetingManager';
+
+export type { StatusViewEvent } from './StatusViewTracker';
+export type { PollVoteEvent } from './PollTracker';
+export type { InboundMessageEvent } from './InboundMessageStore';
+export type {
+  AutoReplyEvaluation,
+  AutoReplyContent,
+  AutoReplyDecision,
+  AutoReplyEvent
+} from './AutoResponder';
+export type { SelfCommandContext, SelfCommandEvent } from './SelfCommandHandler';
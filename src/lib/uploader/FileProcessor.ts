@@ -2,17 +2,26 @@ import { MediaProcessor, ProcessedMedia } from './MediaProcessor';
 import { promises as fs } from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService } from '../db';
+import { ImagePipeline, ImagePipelineOptions, STATUS_IMAGE_MAX_DIMENSION } from '../media/ImagePipeline';
+import { loadSettings } from '../settings';
+import { Thumbnailer } from './Thumbnailer';
+import { MediaBlobStore } from './MediaBlobStore';
 
 export interface FileProcessingOptions {
   sendAsDocument?: boolean;
   preserveQuality?: boolean;
-  enableCompression?: boolean;
-  compressionLevel?: number; // 1-10
+  enableCompression?: boolean; // Defaults to the upload settings
+  compressionLevel?: number; // 1-10, defaults to the upload settings
+  maxDimension?: number; // Longest image side; defaults to a status-friendly size
+  outputFormat?: 'jpeg' | 'webp'; // Images: defaults to WebP for WebP input, JPEG otherwise
   captionText?: string;
   captionPlacement?: 'top' | 'bottom';
   watermark?: {
     enabled: boolean;
     text?: string;
+    logoPath?: string; // Image stamped instead of text
     position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
     opacity?: number; // 0-1
   };
@@ -34,6 +43,7 @@ export interface ProcessedFile {
   originalPath: string;
   filename: string;
   mimetype: string;
+  processedMimetype: string; // Differs from mimetype when an image was re-encoded
   size: number;
   processedSize: number;
   compressionRatio?: number;
@@ -41,6 +51,7 @@ export interface ProcessedFile {
   options: FileProcessingOptions;
   metadata: ProcessedMedia;
   preview?: string; // Base64 preview for UI
+  variantId?: string; // MediaMeta of the processed file, for stored media
 }
 
 export interface BatchProcessingResult {
@@ -93,6 +104,7 @@ export class FileProcessor {
   ): Promise<ProcessedFile> {
     const startTime = Date.now();
     const fileId = crypto.randomUUID();
+    options = await this.withUploadDefaults(options);
 
     try {
       // Get original file metadata
@@ -102,13 +114,14 @@ export class FileProcessor {
       // Determine processing path
       let processedPath = filePath;
       let processedSize = originalStats.size;
+      let processedMimetype = mimetype;
 
       // Apply processing based on options
       if (options.sendAsDocument) {
         // For document sending, just copy the file
         processedPath = await this.copyFileForProcessing(filePath, fileId, filename);
       } else if (this.shouldProcessFile(mimetype, options)) {
-        processedPath = await this.processMediaFile(filePath, fileId, mimetype, options);
+        ({ path: processedPath, mimetype: processedMimetype } = await this.processMediaFile(filePath, fileId, mimetype, options));
         const processedStats = await fs.stat(processedPath);
         processedSize = processedStats.size;
       } else {
@@ -117,7 +130,7 @@ export class FileProcessor {
       }
 
       // Generate preview if needed
-      const preview = await this.generatePreview(processedPath, mimetype);
+      const preview = await this.generatePreview(processedPath, processedMimetype);
 
       const processingTime = Date.now() - startTime;
       const compressionRatio = processedSize < originalStats.size 
@@ -135,6 +148,7 @@ export class FileProcessor {
         originalPath: filePath,
         filename,
         mimetype,
+        processedMimetype,
         size: originalStats.size,
         processedSize,
         compressionRatio,
@@ -152,6 +166,26 @@ export class FileProcessor {
     }
   }
 
+  /**
+   * Process an uploaded file and store the result as a variant of its
+   * MediaMeta record
+   */
+  async processStoredMedia(mediaId: string, options: FileProcessingOptions = {}): Promise<ProcessedFile> {
+    const mediaMeta = await MediaMetaService.getById(mediaId);
+    if (!mediaMeta) {
+      throw new Error(`Media file not found: ${mediaId}`);
+    }
+
+    const result = await this.processFile(mediaMeta.storagePath, mediaMeta.originalName, mediaMeta.mimetype, options);
+    const variant = await this.storeVariant(mediaMeta, result);
+
+    return {
+      ...result,
+      processedPath: variant.storagePath,
+      variantId: variant.id,
+    };
+  }
+
   /**
    * Process batch of files
    */
@@ -185,6 +219,12 @@ export class FileProcessor {
             await new Promise(resolve => setTimeout(resolve, batchOptions.intervalBetween));
           }
 
+          // Entries are either uploaded file IDs or paths on disk
+          if (await MediaMetaService.getById(filePath)) {
+            processedFiles.push(await this.processStoredMedia(filePath, processingOptions));
+            continue;
+          }
+
           const filename = path.basename(filePath);
           const mimetype = this.getMimetypeFromExtension(path.extname(filePath));
           
@@ -348,6 +388,47 @@ export class FileProcessor {
   /**
    * Private helper methods
    */
+  /**
+   * Fill compression options the caller left out from the upload settings
+   */
+  private async withUploadDefaults(options: FileProcessingOptions): Promise<FileProcessingOptions> {
+    const { upload } = await loadSettings();
+    return {
+      ...options,
+      enableCompression: options.enableCompression ?? upload.enableCompression,
+      compressionLevel: options.compressionLevel ?? upload.compressionLevel,
+    };
+  }
+
+  /**
+   * Save a processed file in the blob store as a temporary MediaMeta record
+   * linked to the original
+   */
+  private async storeVariant(original: MediaMeta, processed: ProcessedFile): Promise<MediaMeta> {
+    const extension = path.extname(processed.processedPath) || path.extname(original.filename);
+    const baseName = path.basename(original.originalName, path.extname(original.originalName));
+    const filename = `${original.id}_processed_${Date.now()}${extension}`;
+
+    // Moves the file out of the processing scratch directory
+    const blob = await MediaBlobStore.ingestFile(processed.processedPath);
+    const mediaInfo = await MediaProcessor.extractMetadata(blob.storagePath, processed.processedMimetype);
+
+    return MediaMetaService.create({
+      filename,
+      originalName: `${baseName}${extension}`,
+      mimetype: processed.processedMimetype,
+      sizeBytes: blob.sizeBytes,
+      storagePath: blob.storagePath,
+      sha256: blob.sha256,
+      width: mediaInfo.width,
+      height: mediaInfo.height,
+      duration: mediaInfo.duration !== undefined ? Math.round(mediaInfo.duration) : original.duration ?? undefined,
+      isTemporary: true,
+      variantOfId: original.id,
+      variantKind: 'processed',
+    });
+  }
+
   private shouldProcessFile(mimetype: string, options: FileProcessingOptions): boolean {
     if (options.sendAsDocument) return false;
     if (options.enableCompression) return true;
@@ -369,39 +450,64 @@ export class FileProcessor {
     fileId: string, 
     mimetype: string, 
     options: FileProcessingOptions
-  ): Promise<string> {
+  ): Promise<{ path: string; mimetype: string }> {
     const extension = path.extname(filePath);
     const processedFilename = `${fileId}_processed_${Date.now()}${extension}`;
     const processedPath = path.join(this.PROCESSED_DIR, processedFilename);
 
-    if (mimetype.startsWith('image/')) {
-      return this.processImage(filePath, processedPath, options);
+    if (ImagePipeline.supports(mimetype)) {
+      return this.processImage(filePath, processedPath, mimetype, options);
     } else if (mimetype.startsWith('video/')) {
-      return this.processVideo(filePath, processedPath, options);
+      return { path: await this.processVideo(filePath, processedPath, options), mimetype };
     } else if (mimetype.startsWith('audio/')) {
-      return this.processAudio(filePath, processedPath, options);
+      return { path: await this.processAudio(filePath, processedPath, options), mimetype };
     } else {
-      // For other file types, just copy
+      // For other file types (including animated GIFs), just copy
       await fs.copyFile(filePath, processedPath);
-      return processedPath;
+      return { path: processedPath, mimetype };
     }
   }
 
+  /**
+   * Downscale, re-encode and watermark an image; the output extension follows
+   * the encoded format
+   */
   private async processImage(
     inputPath: string, 
     outputPath: string, 
+    mimetype: string,
     options: FileProcessingOptions
-  ): Promise<string> {
-    // In a real implementation, you would use libraries like Sharp for image processing
-    // For now, just copy the file
-    await fs.copyFile(inputPath, outputPath);
-    
-    // TODO: Implement actual image processing with Sharp
-    // - Compression
-    // - Watermarking  
-    // - Quality adjustment
-    
-    return outputPath;
+  ): Promise<{ path: string; mimetype: string }> {
+    const pipelineOptions: ImagePipelineOptions = {
+      maxDimension: options.preserveQuality ? 0 : options.maxDimension ?? STATUS_IMAGE_MAX_DIMENSION,
+      quality: this.getImageQuality(options),
+      format: options.outputFormat,
+      watermark: options.watermark?.enabled ? options.watermark : undefined,
+    };
+
+    const result = await ImagePipeline.process(inputPath, mimetype, pipelineOptions);
+    const extension = result.format === 'jpeg' ? '.jpg' : '.webp';
+    const finalPath = path.join(
+      path.dirname(outputPath),
+      `${path.basename(outputPath, path.extname(outputPath))}${extension}`
+    );
+
+    await fs.writeFile(finalPath, result.buffer);
+    return { path: finalPath, mimetype: result.mimetype };
+  }
+
+  /**
+   * Encoder quality: compression level 1 keeps ~90, level 10 goes down to 40
+   */
+  private getImageQuality(options: FileProcessingOptions): number {
+    if (options.preserveQuality) {
+      return 95;
+    }
+    if (!options.enableCompression) {
+      return 90;
+    }
+    const level = Math.min(10, Math.max(1, options.compressionLevel ?? 5));
+    return Math.round(95 - level * 5.5);
   }
 
   private async processVideo(
@@ -440,15 +546,9 @@ export class FileProcessor {
 
   private async generatePreview(filePath: string, mimetype: string): Promise<string | undefined> {
     try {
-      if (mimetype.startsWith('image/')) {
-        // Generate thumbnail for images
-        const buffer = await fs.readFile(filePath);
-        // TODO: Use Sharp to create thumbnail and convert to base64
-        return `data:${mimetype};base64,${buffer.toString('base64')}`;
-      }
-      // For videos, you could generate a frame thumbnail
-      // For other files, return undefined
-      return undefined;
+      // Small JPEG for images, a poster frame for videos; undefined for other files
+      const thumbnail = await Thumbnailer.get({ storagePath: filePath, mimetype }, 'preview');
+      return thumbnail ? `data:image/jpeg;base64,${thumbnail.toString('base64')}` : undefined;
     } catch (error) {
       console.error('Failed to generate preview:', error);
       return undefined;
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MediaMeta } from '@prisma/client';
+import { GifMetadataReader } from '../media/GifMetadata';
+import { GifTranscoder, FfmpegGifTranscoder } from '../media/GifTranscoder';
+import { MediaProcessor } from './MediaProcessor';
+import { TranscodedVariant } from './TranscodedVariant';
+
+export class GifProcessor {
+  private static readonly WORK_DIR = path.join(process.cwd(), 'tmp', 'gif');
+  private static transcoder: GifTranscoder | null = new FfmpegGifTranscoder();
+
+  /**
+   * Use another GIF converter; null sends GIFs as images
+   */
+  static setTranscoder(transcoder: GifTranscoder | null): void {
+    this.transcoder = transcoder;
+  }
+
+  static isGif(mediaMeta: Pick<MediaMeta, 'mimetype'>): boolean {
+    return mediaMeta.mimetype === 'image/gif';
+  }
+
+  /**
+   * The MP4 to send for an animated GIF upload, transcoding it on first
+   * use; the GIF stays the variant's source. Null for still GIFs and when
+   * no transcoder is available, which are sent as images.
+   */
+  static async prepare(mediaMeta: MediaMeta): Promise<MediaMeta | null> {
+    if (!this.isGif(mediaMeta)) {
+      return null;
+    }
+
+    return TranscodedVariant.getOrCreate(mediaMeta, 'gif', async () => {
+      const gif = GifMetadataReader.read(await fs.readFile(mediaMeta.storagePath));
+      return gif.animated ? this.transcode(mediaMeta, gif.duration) : null;
+    });
+  }
+
+  private static async transcode(mediaMeta: MediaMeta, gifDuration: number): Promise<MediaMeta | null> {
+    const transcoder = this.transcoder;
+    if (!transcoder || !(await transcoder.isAvailable())) {
+      console.warn(`No GIF transcoder available; sending ${mediaMeta.id} as an image without animation`);
+      return null;
+    }
+
+    return TranscodedVariant.store(mediaMeta, {
+      kind: 'gif',
+      extension: '.mp4',
+      mimetype: 'video/mp4',
+      workDir: this.WORK_DIR,
+      transcode: outputPath => transcoder.toMp4(mediaMeta.storagePath, outputPath),
+      describe: async storagePath => {
+        const mediaInfo = await MediaProcessor.extractMetadata(storagePath, 'video/mp4');
+        return {
+          width: mediaInfo.width,
+          height: mediaInfo.height,
+          duration: Math.round(mediaInfo.duration ?? gifDuration),
+          videoCodec: mediaInfo.videoCodec,
+          frameRate: mediaInfo.framerate,
+        };
+      },
+    });
+  }
+}
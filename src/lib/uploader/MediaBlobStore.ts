@@ -0,0 +1,221 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService, MediaReferenceRepository } from '../db';
+import { MediaProcessor } from './MediaProcessor';
+import { Thumbnailer } from './Thumbnailer';
+
+export interface StoredBlob {
+  sha256: string;
+  storagePath: string;
+  sizeBytes: number;
+  deduplicated: boolean; // The content was already stored
+}
+
+export interface FoldDuplicatesResult {
+  filesMigrated: number;
+  duplicatesFolded: number;
+  bytesReclaimed: number;
+  missingFiles: string[]; // MediaMeta IDs whose file is gone
+}
+
+/**
+ * Content-addressed storage for media files. Files are stored once per
+ * SHA-256 and shared by every MediaMeta record with that content; a blob is
+ * deleted when the last record pointing at it goes.
+ */
+export class MediaBlobStore {
+  private static readonly BLOB_DIR = path.join(process.cwd(), 'tmp', 'uploads', 'blobs');
+
+  /**
+   * Where the blob for a hash lives, fanned out by its first two characters
+   */
+  static pathFor(sha256: string): string {
+    return path.join(this.BLOB_DIR, sha256.slice(0, 2), sha256);
+  }
+
+  static isBlobPath(storagePath: string): boolean {
+    return path.resolve(storagePath).startsWith(this.BLOB_DIR + path.sep);
+  }
+
+  /**
+   * Move a file into the store; the source is consumed either way
+   */
+  static async ingestFile(filePath: string, sha256?: string): Promise<StoredBlob> {
+    const hash = sha256 || await MediaProcessor.calculateSHA256(filePath);
+    const storagePath = this.pathFor(hash);
+
+    if (await this.exists(storagePath)) {
+      const { size } = await fs.stat(storagePath);
+      await fs.unlink(filePath);
+      return { sha256: hash, storagePath, sizeBytes: size, deduplicated: true };
+    }
+
+    await fs.mkdir(path.dirname(storagePath), { recursive: true });
+    await fs.rename(filePath, storagePath).catch(async () => {
+      // Different filesystem; copy to a temporary name so readers never see a partial blob
+      const partial = `${storagePath}.${crypto.randomUUID()}.partial`;
+      await fs.copyFile(filePath, partial);
+      await fs.rename(partial, storagePath);
+      await fs.unlink(filePath);
+    });
+
+    const { size } = await fs.stat(storagePath);
+    return { sha256: hash, storagePath, sizeBytes: size, deduplicated: false };
+  }
+
+  /**
+   * Store in-memory content
+   */
+  static async storeBuffer(buffer: Buffer): Promise<StoredBlob> {
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+    const storagePath = this.pathFor(sha256);
+
+    if (await this.exists(storagePath)) {
+      return { sha256, storagePath, sizeBytes: buffer.length, deduplicated: true };
+    }
+
+    await fs.mkdir(path.dirname(storagePath), { recursive: true });
+    const partial = `${storagePath}.${crypto.randomUUID()}.partial`;
+    await fs.writeFile(partial, buffer);
+    await fs.rename(partial, storagePath);
+
+    return { sha256, storagePath, sizeBytes: buffer.length, deduplicated: false };
+  }
+
+  /**
+   * Edit a stored file without touching other records that share its blob:
+   * the edit runs on a private copy, which is stored under its new hash.
+   * The caller points its record at the returned blob and releases the old one.
+   */
+  static async rewrite<T>(
+    storagePath: string,
+    edit: (workingPath: string) => Promise<T>
+  ): Promise<{ result: T; blob: StoredBlob }> {
+    await fs.mkdir(this.BLOB_DIR, { recursive: true });
+    const workingPath = path.join(this.BLOB_DIR, `${crypto.randomUUID()}.partial`);
+    await fs.copyFile(storagePath, workingPath);
+
+    try {
+      const result = await edit(workingPath);
+      return { result, blob: await this.ingestFile(workingPath) };
+    } catch (error) {
+      await fs.unlink(workingPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a file once no MediaMeta record points at it; true if deleted
+   */
+  static async release(storagePath: string, sha256?: string | null): Promise<boolean> {
+    if (await MediaMetaService.count({ storagePath }) > 0) {
+      return false;
+    }
+
+    try {
+      await fs.unlink(storagePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Thumbnails are keyed by content, so keep them while a copy remains
+    if (sha256 && !(await MediaMetaService.getBySha256(sha256))) {
+      await Thumbnailer.evict(sha256);
+    }
+
+    return true;
+  }
+
+  /**
+   * Delete a media record, and its blob if nothing else shares it
+   */
+  static async deleteMedia(mediaMeta: MediaMeta): Promise<void> {
+    await MediaMetaService.delete(mediaMeta.id);
+    await this.release(mediaMeta.storagePath, mediaMeta.sha256);
+  }
+
+  /**
+   * Of the given media, those nothing references
+   */
+  static async filterUnreferenced(files: MediaMeta[]): Promise<MediaMeta[]> {
+    const counts = await MediaReferenceRepository.countByMediaIds(files.map(file => file.id));
+    return files.filter(file => !counts[file.id]);
+  }
+
+  /**
+   * Migration for files stored before content addressing: move each into
+   * the store and point its records at the blob, so copies of the same
+   * content collapse into one file
+   */
+  static async foldDuplicates(): Promise<FoldDuplicatesResult> {
+    const result: FoldDuplicatesResult = {
+      filesMigrated: 0,
+      duplicatesFolded: 0,
+      bytesReclaimed: 0,
+      missingFiles: [],
+    };
+
+    const records = await MediaMetaService.findMany({
+      select: { id: true, storagePath: true },
+      orderBy: { tmpCreatedAt: 'asc' },
+    });
+
+    // Several records may share one legacy path
+    const byPath = new Map<string, string[]>();
+    for (const record of records) {
+      if (this.isBlobPath(record.storagePath)) {
+        continue;
+      }
+      byPath.set(record.storagePath, [...(byPath.get(record.storagePath) || []), record.id]);
+    }
+
+    for (const [legacyPath, ids] of byPath) {
+      if (!(await this.exists(legacyPath))) {
+        result.missingFiles.push(...ids);
+        continue;
+      }
+
+      // Hash the file itself; stored hashes may predate later edits
+      const sha256 = await MediaProcessor.calculateSHA256(legacyPath);
+      const storagePath = this.pathFor(sha256);
+      const deduplicated = await this.exists(storagePath);
+
+      // Link rather than move, so an interrupted run leaves every record readable
+      if (!deduplicated) {
+        await fs.mkdir(path.dirname(storagePath), { recursive: true });
+        await fs.link(legacyPath, storagePath).catch(async () => {
+          const partial = `${storagePath}.${crypto.randomUUID()}.partial`;
+          await fs.copyFile(legacyPath, partial);
+          await fs.rename(partial, storagePath);
+        });
+      }
+
+      const { size } = await fs.stat(storagePath);
+      for (const id of ids) {
+        await MediaMetaService.update(id, { storagePath, sha256, sizeBytes: size });
+      }
+      await fs.unlink(legacyPath);
+
+      result.filesMigrated++;
+      if (deduplicated) {
+        result.duplicatesFolded++;
+        result.bytesReclaimed += size;
+      }
+    }
+
+    return result;
+  }
+
+  private static async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -2,13 +2,24 @@ import { promises as fs } from 'fs';
 import { createReadStream } from 'fs';
 import crypto from 'crypto';
 import path from 'path';
+import { ImageMetadataReader, ImageExif } from '../media/ImageMetadata';
+import { Mp4MetadataReader } from '../media/Mp4Metadata';
+import { AudioMetadataReader } from '../media/AudioMetadata';
+
+// Image headers (including EXIF) normally sit within the first few hundred KB
+const IMAGE_HEADER_BYTES = 512 * 1024;
 
 export interface MediaInfo {
-  width?: number;
+  width?: number; // As displayed, after applying the EXIF orientation or video rotation
   height?: number;
-  duration?: number;
-  bitrate?: number;
+  orientation?: number; // EXIF orientation (1-8)
+  exif?: ImageExif; // Camera and capture time fields of photos
+  rotation?: number; // Video display rotation in degrees
+  duration?: number; // seconds
+  bitrate?: number; // kbps
   framerate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
   format?: string;
   hasAudio?: boolean;
   hasVideo?: boolean;
@@ -45,55 +56,97 @@ export class MediaProcessor {
   }
 
   /**
-   * Extract image metadata (basic implementation)
-   * In production, you would use libraries like 'sharp' or 'exifr'
+   * Extract image dimensions, orientation and EXIF fields from the file headers
    */
   private static async extractImageMetadata(filePath: string, mimetype: string): Promise<MediaInfo> {
-    // This is a simplified implementation
-    // In a real app, you'd use sharp, exifr, or similar libraries
-    const stats = await fs.stat(filePath);
-    
+    let metadata = ImageMetadataReader.read(await this.readHead(filePath, IMAGE_HEADER_BYTES));
+
+    // Large APP segments (ICC profiles, XMP) can push the JPEG frame header further in
+    if (!metadata) {
+      const stats = await fs.stat(filePath);
+      if (stats.size > IMAGE_HEADER_BYTES) {
+        metadata = ImageMetadataReader.read(await fs.readFile(filePath));
+      }
+    }
+
+    if (!metadata) {
+      return { format: mimetype.split('/')[1] };
+    }
+
     return {
-      format: mimetype.split('/')[1],
-      // TODO: Implement actual image dimension extraction
-      // width: dimensions.width,
-      // height: dimensions.height,
+      format: metadata.format,
+      width: metadata.width,
+      height: metadata.height,
+      orientation: metadata.orientation,
+      exif: metadata.exif,
     };
   }
 
   /**
-   * Extract video metadata (basic implementation)
-   * In production, you would use 'ffprobe' or similar
+   * Read the first bytes of a file
+   */
+  private static async readHead(filePath: string, length: number): Promise<Buffer> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Extract video duration, dimensions, rotation, codecs and frame rate from
+   * the MP4/MOV container headers
    */
   private static async extractVideoMetadata(filePath: string, mimetype: string): Promise<MediaInfo> {
-    // This is a simplified implementation
-    // In a real app, you'd use ffprobe to get video metadata
+    const format = mimetype.split('/')[1];
+
+    // Other containers (WebM, AVI) are not parsed
+    if (!Mp4MetadataReader.supports(mimetype)) {
+      return { format, hasVideo: true };
+    }
+
+    const [metadata, stats] = await Promise.all([
+      Mp4MetadataReader.readFile(filePath),
+      fs.stat(filePath),
+    ]);
+
     return {
-      format: mimetype.split('/')[1],
-      hasVideo: true,
-      hasAudio: true, // Most videos have audio
-      // TODO: Implement actual video metadata extraction
-      // width: videoInfo.width,
-      // height: videoInfo.height,
-      // duration: videoInfo.duration,
-      // bitrate: videoInfo.bitrate,
-      // framerate: videoInfo.framerate,
+      format,
+      width: metadata.width,
+      height: metadata.height,
+      rotation: metadata.rotation,
+      duration: metadata.duration,
+      bitrate: metadata.duration > 0 ? Math.round((stats.size * 8) / metadata.duration / 1000) : undefined,
+      framerate: metadata.frameRate,
+      videoCodec: metadata.videoCodec,
+      audioCodec: metadata.audioCodec,
+      hasVideo: metadata.hasVideo,
+      hasAudio: metadata.hasAudio,
     };
   }
 
   /**
-   * Extract audio metadata (basic implementation)
+   * Extract audio duration, codec and bitrate from the container headers
    */
   private static async extractAudioMetadata(filePath: string, mimetype: string): Promise<MediaInfo> {
-    // This is a simplified implementation
-    // In a real app, you'd use libraries to get audio metadata
-    return {
-      format: mimetype.split('/')[1],
-      hasAudio: true,
-      // TODO: Implement actual audio metadata extraction
-      // duration: audioInfo.duration,
-      // bitrate: audioInfo.bitrate,
-    };
+    const format = mimetype.split('/')[1];
+
+    try {
+      const metadata = await AudioMetadataReader.readFile(filePath);
+      return {
+        format,
+        duration: metadata.duration,
+        bitrate: metadata.bitrate,
+        audioCodec: metadata.codec,
+        hasAudio: true,
+      };
+    } catch {
+      // Other containers (WebM, raw AAC) are not parsed
+      return { format, hasAudio: true };
+    }
   }
 
   /**
@@ -0,0 +1,80 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService } from '../db';
+import { Mp4Remuxer } from '../media/Mp4Remuxer';
+import { MediaBlobStore } from './MediaBlobStore';
+
+// Longest video WhatsApp accepts as a single status post
+export const STATUS_VIDEO_MAX_DURATION = 60; // seconds
+
+export class StatusVideoSegmenter {
+  private static readonly SEGMENTABLE_MIMES = ['video/mp4', 'video/quicktime'];
+
+  /**
+   * Check if a file type can be split by the remuxer
+   */
+  static isSegmentable(mimetype: string): boolean {
+    return this.SEGMENTABLE_MIMES.includes(mimetype);
+  }
+
+  /**
+   * Split a stored video into status-length segments, each saved as its own
+   * temporary media record. Returns null when the video fits in one post.
+   */
+  static async segment(
+    mediaMeta: MediaMeta,
+    maxDuration: number = STATUS_VIDEO_MAX_DURATION
+  ): Promise<MediaMeta[] | null> {
+    if (!this.isSegmentable(mediaMeta.mimetype)) {
+      return null;
+    }
+    if (mediaMeta.duration !== null && mediaMeta.duration <= maxDuration) {
+      return null;
+    }
+
+    const buffer = await fs.readFile(mediaMeta.storagePath);
+    if (Mp4Remuxer.getDuration(buffer) <= maxDuration) {
+      return null;
+    }
+
+    const segments = Mp4Remuxer.split(buffer, maxDuration);
+    if (segments.length < 2) {
+      return null;
+    }
+
+    const extension = path.extname(mediaMeta.originalName) || '.mp4';
+    const baseName = path.basename(mediaMeta.originalName, path.extname(mediaMeta.originalName));
+    const results: MediaMeta[] = [];
+
+    for (const segment of segments) {
+      const part = `part${segment.index + 1}of${segments.length}`;
+      const filename = `${mediaMeta.id}_${part}${extension}`;
+      // Re-splitting the same video reuses the stored segments
+      const blob = await MediaBlobStore.storeBuffer(segment.buffer);
+
+      results.push(await MediaMetaService.create({
+        filename,
+        originalName: `${baseName}_${part}${extension}`,
+        mimetype: mediaMeta.mimetype,
+        sizeBytes: blob.sizeBytes,
+        storagePath: blob.storagePath,
+        sha256: blob.sha256,
+        duration: Math.round(segment.duration),
+        width: mediaMeta.width ?? undefined,
+        height: mediaMeta.height ?? undefined,
+        isTemporary: true,
+      }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Caption for one segment, e.g. "2/4 Holiday highlights"
+   */
+  static formatCaption(index: number, total: number, caption?: string): string {
+    const counter = `${index + 1}/${total}`;
+    return caption ? `${counter} ${caption}` : counter;
+  }
+}
@@ -0,0 +1,101 @@
+import path from 'path';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService, MediaReferenceRepository, StickerRepository } from '../db';
+import type { StickerWithMedia } from '../db';
+import { StickerEncoder, STICKER_SIZE, DEFAULT_STICKER_PACK_NAME } from '../media/StickerEncoder';
+import { MediaBlobStore } from './MediaBlobStore';
+
+export interface StickerOptions {
+  packName?: string; // Defaults to the app name
+  author?: string;
+  emojis?: string[];
+}
+
+export class StickerProcessor {
+  /**
+   * Whether an upload can be turned into a sticker, or already is one
+   */
+  static supports(mediaMeta: Pick<MediaMeta, 'mimetype'>): boolean {
+    return StickerEncoder.supports(mediaMeta.mimetype);
+  }
+
+  /**
+   * The sticker to send for a file: the library sticker when the file is
+   * one, else a sticker made from the upload (reused when it was already
+   * made with the same pack metadata)
+   */
+  static async resolve(mediaMeta: MediaMeta, options: StickerOptions = {}): Promise<StickerWithMedia> {
+    const existing = await StickerRepository.findByMediaId(mediaMeta.id);
+    if (existing) {
+      return existing;
+    }
+    return this.create(mediaMeta, options);
+  }
+
+  /**
+   * Convert an image upload into a library sticker
+   */
+  static async create(source: MediaMeta, options: StickerOptions = {}): Promise<StickerWithMedia> {
+    if (!this.supports(source)) {
+      throw new Error(`Stickers can only be made from PNG, JPEG or WebP images, got ${source.mimetype}`);
+    }
+
+    const packName = options.packName?.trim() || DEFAULT_STICKER_PACK_NAME;
+    const author = options.author?.trim() || undefined;
+
+    const existing = await StickerRepository.findBySource(source.id, packName, author);
+    if (existing) {
+      return existing;
+    }
+
+    const webp = await StickerEncoder.encode(source.storagePath, { packName, author, emojis: options.emojis });
+    const blob = await MediaBlobStore.storeBuffer(webp);
+    const baseName = path.basename(source.originalName, path.extname(source.originalName));
+
+    const media = await MediaMetaService.create({
+      filename: `${source.id}_sticker_${Date.now()}.webp`,
+      originalName: `${baseName}.webp`,
+      mimetype: 'image/webp',
+      sizeBytes: blob.sizeBytes,
+      storagePath: blob.storagePath,
+      sha256: blob.sha256,
+      width: STICKER_SIZE,
+      height: STICKER_SIZE,
+      isTemporary: false,
+      // The only EXIF is the pack metadata, which scrubbing would strip
+      scrubbedAt: new Date(),
+      variantOfId: source.id,
+      variantKind: 'sticker',
+    });
+
+    const sticker = await StickerRepository.create({
+      mediaId: media.id,
+      sourceMediaId: source.id,
+      packName,
+      author,
+      emojis: options.emojis,
+    });
+    await MediaReferenceRepository.set('sticker', sticker.id, [media.id]);
+
+    return sticker;
+  }
+
+  /**
+   * Remove a sticker from the library, deleting its file once unused
+   */
+  static async delete(id: string): Promise<boolean> {
+    const sticker = await StickerRepository.findById(id);
+    if (!sticker) {
+      return false;
+    }
+
+    await MediaReferenceRepository.release('sticker', sticker.id);
+    await StickerRepository.delete(sticker.id);
+
+    const [unreferenced] = await MediaBlobStore.filterUnreferenced([sticker.media]);
+    if (unreferenced) {
+      await MediaBlobStore.deleteMedia(unreferenced);
+    }
+    return true;
+  }
+}
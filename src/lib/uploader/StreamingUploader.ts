@@ -4,7 +4,13 @@ import { pipeline } from 'stream/promises';
 import busboy from 'busboy';
 import crypto from 'crypto';
 import path from 'path';
-import { MediaMetaService } from '../db';
+import { MediaMetaService, MediaReferenceRepository } from '../db';
+import type { CreateMediaMetaData } from '../db';
+import type { MediaMeta } from '@prisma/client';
+import { MediaProcessor } from './MediaProcessor';
+import { MediaBlobStore } from './MediaBlobStore';
+import type { StoredBlob } from './MediaBlobStore';
+import { MediaPrivacy } from '../services/MediaPrivacy';
 
 export interface UploadProgress {
   id: string;
@@ -133,6 +139,7 @@ export class StreamingUploader {
         this.uploads.set(uploadId, progress);
         uploads.push(progress);
 
+        let stored: StoredBlob | undefined;
         try {
           const writeStream = createWriteStream(storagePath);
           const hash = crypto.createHash('sha256');
@@ -156,12 +163,11 @@ export class StreamingUploader {
             writeStream
           );
 
-          // Get file stats and finalize
-          const stats = await fs.stat(storagePath);
-          const sha256Hash = hash.digest('hex');
+          // Identical content is stored once
+          stored = await MediaBlobStore.ingestFile(storagePath, hash.digest('hex'));
 
-          progress.size = stats.size;
-          progress.uploaded = stats.size;
+          progress.size = stored.sizeBytes;
+          progress.uploaded = stored.sizeBytes;
           progress.status = 'completed';
           progress.endTime = Date.now();
 
@@ -170,13 +176,15 @@ export class StreamingUploader {
             filename: uniqueFilename,
             originalName: file.name,
             mimetype: file.type,
-            sizeBytes: stats.size,
-            storagePath,
-            sha256: sha256Hash,
+            sizeBytes: stored.sizeBytes,
+            storagePath: stored.storagePath,
+            sha256: stored.sha256,
+            ...await this.extractMediaMetadata(stored.storagePath, file.type),
             isTemporary: true,
           });
 
           progress.mediaMetaId = mediaMeta.id;
+          await this.scrubMetadata(mediaMeta);
           this.uploads.set(uploadId, progress);
           options.onComplete?.(progress);
 
@@ -187,9 +195,13 @@ export class StreamingUploader {
           this.uploads.set(uploadId, progress);
           options.onError?.(progress);
 
-          // Clean up partial file
+          // Clean up the partial file, or the blob if no record ended up using it
           try {
-            await fs.unlink(storagePath);
+            if (stored) {
+              await MediaBlobStore.release(stored.storagePath, stored.sha256);
+            } else {
+              await fs.unlink(storagePath);
+            }
           } catch (cleanupError) {
             console.error('Failed to cleanup partial file:', cleanupError);
           }
@@ -275,6 +287,7 @@ export class StreamingUploader {
         this.uploads.set(uploadId, progress);
         uploads.push(progress);
 
+        let stored: StoredBlob | undefined;
         try {
           const writeStream = createWriteStream(storagePath);
           const hash = crypto.createHash('sha256');
@@ -299,13 +312,12 @@ export class StreamingUploader {
           // Stream file to disk
           await pipeline(file, writeStream);
 
-          // Get file stats
-          const stats = await fs.stat(storagePath);
-          const sha256Hash = hash.digest('hex');
+          // Identical content is stored once
+          stored = await MediaBlobStore.ingestFile(storagePath, hash.digest('hex'));
 
           // Update progress
-          progress.size = stats.size;
-          progress.uploaded = stats.size;
+          progress.size = stored.sizeBytes;
+          progress.uploaded = stored.sizeBytes;
           progress.status = 'completed';
           progress.endTime = Date.now();
 
@@ -314,13 +326,15 @@ export class StreamingUploader {
             filename: uniqueFilename,
             originalName: filename,
             mimetype: mimeType,
-            sizeBytes: stats.size,
-            storagePath,
-            sha256: sha256Hash,
+            sizeBytes: stored.sizeBytes,
+            storagePath: stored.storagePath,
+            sha256: stored.sha256,
+            ...await this.extractMediaMetadata(stored.storagePath, mimeType),
             isTemporary: true,
           });
 
           progress.mediaMetaId = mediaMeta.id;
+          await this.scrubMetadata(mediaMeta);
           this.uploads.set(uploadId, progress);
           options.onComplete?.(progress);
 
@@ -331,9 +345,13 @@ export class StreamingUploader {
           this.uploads.set(uploadId, progress);
           options.onError?.(progress);
 
-          // Clean up partial file
+          // Clean up the partial file, or the blob if no record ended up using it
           try {
-            await fs.unlink(storagePath);
+            if (stored) {
+              await MediaBlobStore.release(stored.storagePath, stored.sha256);
+            } else {
+              await fs.unlink(storagePath);
+            }
           } catch (cleanupError) {
             console.error('Failed to cleanup partial file:', cleanupError);
           }
@@ -409,17 +427,22 @@ export class StreamingUploader {
   }
 
   /**
-   * Clean up temporary files from disk
+   * Clean up temporary files, and retained status media past its
+   * retention date, unless a send, schedule, template or draft still
+   * references them. Blobs go once no record uses them.
    */
   static async cleanupFiles(olderThanHours: number = 24): Promise<number> {
     try {
+      await MediaReferenceRepository.prune();
+
       const tempFiles = await MediaMetaService.getTemporaryFiles(olderThanHours);
+      const expiredFiles = await MediaMetaService.getExpiredRetainedFiles();
+      const unreferenced = await MediaBlobStore.filterUnreferenced([...tempFiles, ...expiredFiles]);
       let cleanedCount = 0;
 
-      for (const file of tempFiles) {
+      for (const file of unreferenced) {
         try {
-          await fs.unlink(file.storagePath);
-          await MediaMetaService.delete(file.id);
+          await MediaBlobStore.deleteMedia(file);
           cleanedCount++;
         } catch (error) {
           console.error(`Failed to cleanup file ${file.storagePath}:`, error);
@@ -433,6 +456,18 @@ export class StreamingUploader {
     }
   }
 
+  /**
+   * Strip location and device metadata right after upload; sending scrubs
+   * again if this fails, so errors are only logged here
+   */
+  private static async scrubMetadata(mediaMeta: MediaMeta): Promise<void> {
+    try {
+      await MediaPrivacy.ensureScrubbed(mediaMeta);
+    } catch (error) {
+      console.warn(`Failed to scrub metadata from ${mediaMeta.originalName}:`, error);
+    }
+  }
+
   /**
    * Validate MIME type
    */
@@ -459,16 +494,27 @@ export class StreamingUploader {
   }
 
   /**
-   * Extract media metadata (dimensions, duration, etc.)
+   * Extract media metadata (dimensions, orientation, EXIF, video container info) for the MediaMeta record
    */
-  static async extractMediaMetadata(filePath: string, mimetype: string): Promise<{
-    width?: number;
-    height?: number;
-    duration?: number;
-  }> {
-    // This would typically use libraries like ffprobe, sharp, or exifr
-    // For now, returning empty metadata
-    // TODO: Implement with proper media analysis libraries
-    return {};
+  static async extractMediaMetadata(filePath: string, mimetype: string): Promise<Pick<
+    CreateMediaMetaData,
+    | 'width' | 'height' | 'duration' | 'orientation' | 'cameraMake' | 'cameraModel' | 'takenAt'
+    | 'rotation' | 'videoCodec' | 'audioCodec' | 'frameRate'
+  >> {
+    const mediaInfo = await MediaProcessor.extractMetadata(filePath, mimetype);
+
+    return {
+      width: mediaInfo.width,
+      height: mediaInfo.height,
+      duration: mediaInfo.duration !== undefined ? Math.round(mediaInfo.duration) : undefined,
+      orientation: mediaInfo.orientation,
+      cameraMake: mediaInfo.exif?.make,
+      cameraModel: mediaInfo.exif?.model,
+      takenAt: mediaInfo.exif?.takenAt,
+      rotation: mediaInfo.rotation,
+      videoCodec: mediaInfo.videoCodec,
+      audioCodec: mediaInfo.audioCodec,
+      frameRate: mediaInfo.framerate,
+    };
   }
 }
@@ -0,0 +1,118 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp from 'sharp';
+import { MediaProcessor } from './MediaProcessor';
+import { FrameExtractor, FfmpegFrameExtractor } from '../media/FrameExtractor';
+
+// Longest side in pixels: 'preview' for the UI, 'message' for WhatsApp's inline jpegThumbnail
+export const THUMBNAIL_SIZES = {
+  preview: 320,
+  message: 96,
+} as const;
+
+export type ThumbnailSize = keyof typeof THUMBNAIL_SIZES;
+
+/**
+ * Anything with a stored file; MediaMeta records fit as-is
+ */
+export interface ThumbnailSource {
+  storagePath: string;
+  mimetype: string;
+  sha256?: string | null;
+  duration?: number | null; // seconds
+}
+
+// Image types sharp decodes; animated GIFs use their first frame
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp', 'image/gif', 'image/tiff'];
+
+// Skip black fade-ins without reaching far into long videos
+const POSTER_FRAME_MAX_SECONDS = 1;
+
+export class Thumbnailer {
+  private static readonly CACHE_DIR = path.join(process.cwd(), 'tmp', 'thumbnails');
+  private static frameExtractor: FrameExtractor | null = new FfmpegFrameExtractor();
+  private static inFlight = new Map<string, Promise<Buffer | null>>();
+
+  /**
+   * Replace the video frame backend; null disables video thumbnails
+   */
+  static setFrameExtractor(extractor: FrameExtractor | null): void {
+    this.frameExtractor = extractor;
+  }
+
+  /**
+   * JPEG thumbnail of an image or a video poster frame, cached on disk by
+   * content hash. Null when the type is unsupported or no frame backend is
+   * available for videos.
+   */
+  static async get(source: ThumbnailSource, size: ThumbnailSize = 'preview'): Promise<Buffer | null> {
+    const isVideo = source.mimetype.startsWith('video/');
+    if (!isVideo && !IMAGE_MIME_TYPES.includes(source.mimetype)) {
+      return null;
+    }
+
+    const sha256 = source.sha256 || await MediaProcessor.calculateSHA256(source.storagePath);
+    const cachePath = this.getCachePath(sha256, size);
+
+    try {
+      return await fs.readFile(cachePath);
+    } catch {
+      // Not cached yet
+    }
+
+    // Concurrent requests for the same thumbnail share one render
+    const pending = this.inFlight.get(cachePath);
+    if (pending) {
+      return pending;
+    }
+
+    const render = this.render(source, isVideo, THUMBNAIL_SIZES[size])
+      .then(async thumbnail => {
+        if (thumbnail) {
+          await fs.mkdir(this.CACHE_DIR, { recursive: true });
+          await fs.writeFile(cachePath, thumbnail);
+        }
+        return thumbnail;
+      })
+      .finally(() => this.inFlight.delete(cachePath));
+
+    this.inFlight.set(cachePath, render);
+    return render;
+  }
+
+  /**
+   * Remove cached thumbnails of a file's content
+   */
+  static async evict(sha256: string): Promise<void> {
+    for (const size of Object.keys(THUMBNAIL_SIZES) as ThumbnailSize[]) {
+      try {
+        await fs.unlink(this.getCachePath(sha256, size));
+      } catch {
+        // Never rendered
+      }
+    }
+  }
+
+  private static async render(source: ThumbnailSource, isVideo: boolean, maxSide: number): Promise<Buffer | null> {
+    let input: string | Buffer = source.storagePath;
+
+    if (isVideo) {
+      if (!this.frameExtractor || !(await this.frameExtractor.isAvailable())) {
+        return null;
+      }
+      const at = source.duration ? Math.min(POSTER_FRAME_MAX_SECONDS, source.duration / 2) : 0;
+      input = await this.frameExtractor.extractFrame(source.storagePath, at);
+    }
+
+    return sharp(input, { animated: false })
+      .rotate() // Apply EXIF orientation
+      .resize({ width: maxSide, height: maxSide, fit: 'inside', withoutEnlargement: true })
+      .flatten({ background: '#ffffff' })
+      .jpeg({ quality: 70 })
+      .toBuffer();
+  }
+
+  private static getCachePath(sha256: string, size: ThumbnailSize): string {
+    return path.join(this.CACHE_DIR, `${sha256}_${size}.jpg`);
+  }
+}
@@ -0,0 +1,87 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService } from '../db';
+import type { CreateMediaMetaData } from '../db';
+import { MediaBlobStore } from './MediaBlobStore';
+
+export interface TranscodedVariantSpec {
+  kind: string; // variantKind of the stored record, e.g. 'voice'
+  extension: string; // With the dot, e.g. '.ogg'
+  mimetype: string;
+  workDir: string;
+  /**
+   * Write the converted file to the output path
+   */
+  transcode(outputPath: string): Promise<void>;
+  /**
+   * Fields read from the converted file (duration, codec, size...)
+   */
+  describe(storagePath: string): Promise<Partial<CreateMediaMetaData>>;
+}
+
+/**
+ * Uploads converted for sending (voice notes, GIF videos) are stored once as
+ * temporary variants of the upload and reused by later sends.
+ */
+export class TranscodedVariant {
+  private static inFlight = new Map<string, Promise<MediaMeta | null>>();
+
+  /**
+   * The newest variant of a kind, or the result of `create` when there is
+   * none yet. Concurrent sends of the same upload share one creation.
+   */
+  static async getOrCreate<T extends MediaMeta | null>(
+    source: MediaMeta,
+    kind: string,
+    create: () => Promise<T>
+  ): Promise<MediaMeta | T> {
+    const [existing] = await MediaMetaService.getVariants(source.id, kind);
+    if (existing) {
+      return existing;
+    }
+
+    const key = `${kind}:${source.id}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const creation = create().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, creation);
+    return creation;
+  }
+
+  /**
+   * Convert an upload into a work file and store it as a temporary variant
+   */
+  static async store(source: MediaMeta, spec: TranscodedVariantSpec): Promise<MediaMeta> {
+    await fs.mkdir(spec.workDir, { recursive: true });
+    const outputPath = path.join(spec.workDir, `${crypto.randomUUID()}${spec.extension}`);
+
+    try {
+      await spec.transcode(outputPath);
+    } catch (error) {
+      await fs.unlink(outputPath).catch(() => undefined);
+      throw error;
+    }
+
+    const blob = await MediaBlobStore.ingestFile(outputPath);
+    const details = await spec.describe(blob.storagePath);
+    const baseName = path.basename(source.originalName, path.extname(source.originalName));
+
+    return MediaMetaService.create({
+      ...details,
+      filename: `${source.id}_${spec.kind}_${Date.now()}${spec.extension}`,
+      originalName: `${baseName}${spec.extension}`,
+      mimetype: spec.mimetype,
+      sizeBytes: blob.sizeBytes,
+      storagePath: blob.storagePath,
+      sha256: blob.sha256,
+      isTemporary: true,
+      variantOfId: source.id,
+      variantKind: spec.kind,
+    });
+  }
+}
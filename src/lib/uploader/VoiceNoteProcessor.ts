@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MediaMeta } from '@prisma/client';
+import { MediaMetaService } from '../db';
+import { AudioMetadataReader } from '../media/AudioMetadata';
+import { AudioWaveform } from '../media/AudioWaveform';
+import { AudioTranscoder, FfmpegAudioTranscoder } from '../media/AudioTranscoder';
+import { TranscodedVariant } from './TranscodedVariant';
+
+export interface VoiceNote {
+  media: MediaMeta; // Ogg Opus file to send; the upload itself when it already is one
+  seconds: number;
+  waveform?: Uint8Array;
+}
+
+// Plenty for 64 bars, and keeps decoded PCM small
+const WAVEFORM_SAMPLE_RATE = 8000;
+
+export class VoiceNoteProcessor {
+  private static readonly WORK_DIR = path.join(process.cwd(), 'tmp', 'voice');
+  private static transcoder: AudioTranscoder | null = new FfmpegAudioTranscoder();
+
+  /**
+   * Replace the transcoding backend; null limits voice notes to Opus uploads
+   */
+  static setTranscoder(transcoder: AudioTranscoder | null): void {
+    this.transcoder = transcoder;
+  }
+
+  /**
+   * Get an audio upload ready to send as a voice note: Opus in Ogg, its
+   * length in whole seconds and its waveform
+   */
+  static async prepare(mediaMeta: MediaMeta): Promise<VoiceNote> {
+    if (!mediaMeta.mimetype.startsWith('audio/')) {
+      throw new Error(`Only audio can be sent as a voice note, got ${mediaMeta.mimetype}`);
+    }
+
+    const media = await this.getOpusMedia(mediaMeta);
+    const opus = await fs.readFile(media.storagePath);
+    const { duration } = AudioMetadataReader.read(opus);
+
+    let waveform = await this.getWaveform(mediaMeta).catch(error => {
+      console.warn(`Failed to compute waveform for ${mediaMeta.id}:`, error);
+      return null;
+    });
+    if (!waveform) {
+      waveform = AudioWaveform.fromOggOpus(opus);
+    }
+
+    return {
+      media,
+      seconds: Math.max(1, Math.round(duration)),
+      waveform,
+    };
+  }
+
+  /**
+   * Waveform of an audio upload, cached on its record. Decoded from the
+   * samples where possible, else estimated from Opus packet sizes; null
+   * when neither works for the format.
+   */
+  static async getWaveform(mediaMeta: MediaMeta): Promise<Uint8Array | null> {
+    if (mediaMeta.waveform) {
+      return AudioWaveform.fromBase64(mediaMeta.waveform);
+    }
+
+    const buffer = await fs.readFile(mediaMeta.storagePath);
+    let waveform: Uint8Array | null = null;
+
+    if (AudioMetadataReader.sniff(buffer) === 'wav') {
+      waveform = AudioWaveform.fromWav(buffer);
+    } else if (this.transcoder && await this.transcoder.isAvailable()) {
+      waveform = AudioWaveform.fromPcm(await this.transcoder.decodePcm(mediaMeta.storagePath, WAVEFORM_SAMPLE_RATE));
+    } else if (AudioMetadataReader.isOggOpus(buffer)) {
+      waveform = AudioWaveform.fromOggOpus(buffer);
+    }
+
+    if (waveform) {
+      await MediaMetaService.update(mediaMeta.id, { waveform: AudioWaveform.toBase64(waveform) });
+    }
+    return waveform;
+  }
+
+  /**
+   * The upload when it is already Ogg Opus, else its 'voice' variant,
+   * transcoding one on first use
+   */
+  private static async getOpusMedia(mediaMeta: MediaMeta): Promise<MediaMeta> {
+    if (AudioMetadataReader.isOggOpus(await fs.readFile(mediaMeta.storagePath))) {
+      return mediaMeta;
+    }
+
+    return TranscodedVariant.getOrCreate(mediaMeta, 'voice', () => this.transcode(mediaMeta));
+  }
+
+  private static async transcode(mediaMeta: MediaMeta): Promise<MediaMeta> {
+    const transcoder = this.transcoder;
+    if (!transcoder || !(await transcoder.isAvailable())) {
+      throw new Error('Voice notes must be Opus audio; install ffmpeg to convert other formats');
+    }
+
+    return TranscodedVariant.store(mediaMeta, {
+      kind: 'voice',
+      extension: '.ogg',
+      mimetype: 'audio/ogg',
+      workDir: this.WORK_DIR,
+      transcode: outputPath => transcoder.toOggOpus(mediaMeta.storagePath, outputPath),
+      describe: async storagePath => {
+        const metadata = await AudioMetadataReader.readFile(storagePath);
+        return { duration: Math.round(metadata.duration), audioCodec: metadata.codec };
+      },
+    });
+  }
+}
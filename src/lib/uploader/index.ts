@@ -2,6 +2,11 @@ export { StreamingUploader } from './StreamingUploader';
 export { MediaProcessor } from './MediaProcessor';
 export { AdvancedUploader } from './AdvancedUploader';
 export { FileProcessor } from './FileProcessor';
+export { StatusVideoSegmenter, STATUS_VIDEO_MAX_DURATION } from './StatusVideoSegmenter';
+export { MediaBlobStore } from './MediaBlobStore';
+export { VoiceNoteProcessor } from './VoiceNoteProcessor';
+export { StickerProcessor } from './StickerProcessor';
+export { GifProcessor } from './GifProcessor';
 
 export type { 
   UploadProgress, 
@@ -29,3 +34,16 @@ export type {
   ProcessedFile,
   BatchProcessingResult
 } from './FileProcessor';
+
+export type {
+  StoredBlob,
+  FoldDuplicatesResult
+} from './MediaBlobStore';
+
+export type {
+  VoiceNote
+} from './VoiceNoteProcessor';
+
+export type {
+  StickerOptions
+} from './StickerProcessor';